@@ -0,0 +1,98 @@
+/**
+ * API Route: /api/accessibility
+ *
+ * Audits the accessibility of a build's components and pages
+ * GET ?projectId=...&version=... (latest build when version is omitted)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabaseServer';
+import { getBuildByVersion, getLatestBuild } from '@/lib/buildService';
+import { checkAccessibility, describeAccessibilityIssues } from '@/lib/accessibilityChecker';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+// Validate UUID format
+function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient(request);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Please log in to continue.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const versionParam = searchParams.get('version');
+
+    if (!projectId || !isValidUUID(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    const version = versionParam ? parseInt(versionParam, 10) : null;
+    if (versionParam && (!Number.isInteger(version) || (version as number) < 1)) {
+      return NextResponse.json(
+        { error: 'Version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Verify project ownership using authenticated client (RLS will enforce)
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json(
+        { error: 'Project not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    const build = version
+      ? await getBuildByVersion(projectId, version)
+      : await getLatestBuild(projectId);
+
+    if (!build || !build.files) {
+      return NextResponse.json(
+        { error: 'Build not found or has no files' },
+        { status: 404 }
+      );
+    }
+
+    const report = checkAccessibility(build.files);
+    return NextResponse.json({
+      success: true,
+      version: build.version,
+      report,
+      // Edit request for the Editor Agent, so the client doesn't need the checker
+      fixRequest: report.issues.length > 0 ? describeAccessibilityIssues(report) : null,
+    });
+  } catch (error) {
+    console.error('API /api/accessibility error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check accessibility',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * API Route: /api/assets
+ *
+ * Uploads, lists and deletes a project's assets (logos, photos, menu PDFs)
+ * GET ?projectId=... | POST multipart { projectId, kind, file } | DELETE { projectId, path }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/lib/supabaseServer';
+import {
+  ASSET_KINDS,
+  deleteProjectAsset,
+  isAssetKind,
+  listProjectAssets,
+  MAX_ASSETS_PER_PROJECT,
+  uploadProjectAsset,
+  validateAssetFile,
+} from '@/lib/assetService';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+// Validate UUID format
+function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
+
+/**
+ * Authenticate the user and verify they own the project
+ * Returns the authenticated client, or the error response to send
+ */
+async function authorizeProject(
+  request: NextRequest,
+  projectId: unknown
+): Promise<{ supabase: SupabaseClient; projectId: string } | { response: NextResponse }> {
+  const supabase = createServerSupabaseClient(request);
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json(
+        { error: 'Unauthorized. Please log in to continue.' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!projectId || typeof projectId !== 'string' || !isValidUUID(projectId)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // Verify project ownership using authenticated client (RLS will enforce)
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id, user_id')
+    .eq('id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (projectError || !project) {
+    return {
+      response: NextResponse.json(
+        { error: 'Project not found or unauthorized' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { supabase, projectId };
+}
+
+function errorResponse(action: string, error: unknown): NextResponse {
+  console.error(`API /api/assets ${action} error:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action} asset`,
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeProject(request, new URL(request.url).searchParams.get('projectId'));
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const assets = await listProjectAssets(auth.projectId, auth.supabase);
+    return NextResponse.json({ success: true, assets });
+  } catch (error) {
+    return errorResponse('list', error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { error: 'Expected multipart form data with projectId, kind and file' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeProject(request, formData.get('projectId'));
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const kind = formData.get('kind');
+    if (!isAssetKind(kind)) {
+      return NextResponse.json(
+        { error: `Invalid asset kind. Must be one of: ${ASSET_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'Missing file' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateAssetFile(kind, file);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const existing = await listProjectAssets(auth.projectId, auth.supabase);
+    if (existing.length >= MAX_ASSETS_PER_PROJECT) {
+      return NextResponse.json(
+        { error: `A project can have at most ${MAX_ASSETS_PER_PROJECT} assets. Delete one first.` },
+        { status: 400 }
+      );
+    }
+
+    const asset = await uploadProjectAsset(auth.supabase, auth.projectId, kind, file);
+    console.log(`🖼️  Uploaded ${asset.kind} asset ${asset.filePath} (${asset.size} bytes)`);
+
+    return NextResponse.json({ success: true, asset });
+  } catch (error) {
+    return errorResponse('upload', error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeProject(request, body?.projectId);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (typeof body.path !== 'string' || !body.path.startsWith('public/assets/')) {
+      return NextResponse.json(
+        { error: 'Invalid asset path' },
+        { status: 400 }
+      );
+    }
+
+    await deleteProjectAsset(auth.supabase, auth.projectId, body.path);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse('delete', error);
+  }
+}
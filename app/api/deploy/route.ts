@@ -7,8 +7,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import JSZip from 'jszip';
 import { createClient } from '@supabase/supabase-js';
-import { getLatestBuild, getBuildByVersion, generatePreviewHTML } from '@/lib/buildService';
-import { createNetlifySite, deployZipToNetlify, generateSiteName, getLatestDeployment } from '@/lib/netlifyService';
+import { getLatestBuild, getBuildByVersion, generatePreviewHTML, detectLanguageModeFromFiles, isLanguageMode } from '@/lib/buildService';
+import { createNetlifySite, deployZipToNetlify, generateSiteName, getLatestDeployment, getNetlifySite } from '@/lib/netlifyService';
+import { downloadProjectAssets, getAssetSitePath } from '@/lib/assetService';
+import { SEO_PATH, buildRobotsTxt, buildSitemap, parseSeoFile } from '@/lib/siteSeo';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -114,17 +116,21 @@ export async function POST(request: NextRequest) {
     }
 
     let siteId: string;
+    let siteUrl: string;
     let deploymentId: string;
     let deployUrl: string;
 
     // If redeploying and we have an existing site, use it
     if (redeploy && existingDeployment?.netlify_site_id) {
       siteId = existingDeployment.netlify_site_id;
+      const site = await getNetlifySite(siteId);
+      siteUrl = site.ssl_url || site.url;
     } else {
       // Create new Netlify site
       const siteName = generateSiteName(project.name);
       const site = await createNetlifySite(siteName);
       siteId = site.site_id;
+      siteUrl = site.ssl_url || site.url;
     }
 
     // Create ZIP file from build files
@@ -154,22 +160,28 @@ export async function POST(request: NextRequest) {
     }
 
     // Always regenerate preview HTML to ensure it has the latest fixes
-    // Try to detect language mode from files
-    let languageMode = 'english-only';
-    if (files['src/locales/ar.json'] && files['src/i18n.js']) {
-      languageMode = 'bilingual';
-    } else if (files['src/App.jsx']?.includes('dir="rtl"') || files['src/App.jsx']?.includes("dir='rtl'")) {
-      languageMode = 'arabic-only';
-    }
+    // Use the project's stored language mode, detect it from files for older projects
+    const languageMode = isLanguageMode(project.language_mode)
+      ? project.language_mode
+      : detectLanguageModeFromFiles(files);
     
-    // Generate fresh preview HTML (this will have all the latest fixes)
-    const previewHtml = generatePreviewHTML(files, languageMode);
+    // Uploaded assets - the first photo (else the logo) is the image shown when the site is shared
+    const assets = await downloadProjectAssets(projectId, supabase);
+    const shareImage = assets.find(({ asset }) => asset.kind === 'image') || assets.find(({ asset }) => asset.kind === 'logo');
+
+    // Generate fresh preview HTML (this will have all the latest fixes), with the site's
+    // canonical URL, hreflang alternates and Open Graph image
+    const previewHtml = generatePreviewHTML(files, languageMode, {}, {
+      siteUrl,
+      imageUrl: shareImage ? `${siteUrl.replace(/\/+$/, '')}${shareImage.asset.sitePath}` : undefined,
+    });
     zip.file('index.html', previewHtml);
     console.log('Generated and added index.html (preview HTML) to deployment');
     
     // Add Netlify headers file to ensure proper Content-Type for HTML files
     // Netlify _headers format: path headers
-    const headersFile = `/*
+    // Only the HTML paths - a catch-all rule would serve uploaded images and PDFs as HTML
+    const headersFile = `/
   Content-Type: text/html; charset=UTF-8
 
 /index.html
@@ -180,6 +192,31 @@ export async function POST(request: NextRequest) {
     
     fileCount += 2; // Count index.html and _headers
 
+    // Uploaded assets, served from the site root at the /assets/... paths the components use
+    for (const { asset, data } of assets) {
+      zip.file(getAssetSitePath(asset.filePath).substring(1), data);
+      fileCount++;
+    }
+    if (assets.length > 0) {
+      console.log(`Added ${assets.length} uploaded asset(s) to deployment`);
+    }
+
+    // Search engines: sitemap (every page and language) and robots.txt pointing at it
+    const seo = parseSeoFile(files[SEO_PATH]);
+    if (seo && siteUrl) {
+      zip.file('sitemap.xml', buildSitemap(seo, siteUrl));
+      zip.file('robots.txt', buildRobotsTxt(siteUrl));
+      fileCount += 2;
+      console.log(`Added sitemap.xml (${seo.pages.length} page(s), ${Object.keys(seo.texts).length} locale(s)) and robots.txt`);
+    }
+
+    // Multi-page sites route in the browser - serve index.html for deep links like /menu
+    if (files['src/router.jsx']) {
+      zip.file('_redirects', '/*  /index.html  200\n');
+      fileCount++;
+      console.log('Added _redirects file for client-side routing');
+    }
+
     console.log(`Creating ZIP with ${fileCount} files (including index.html)`);
 
     // Generate ZIP buffer
@@ -7,6 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import JSZip from 'jszip';
 import { getBuildByVersion, getLatestBuild } from '@/lib/buildService';
+import { downloadProjectAssets } from '@/lib/assetService';
+import { createServerSupabaseClient } from '@/lib/supabaseServer';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -52,6 +54,13 @@ export async function GET(
       zip.file(filePath, content);
     }
 
+    // Uploaded assets - Vite serves public/assets/... at the /assets/... paths the components use
+    // (listed with the owner's session, the bucket isn't listable by anyone else)
+    const assets = await downloadProjectAssets(projectId, createServerSupabaseClient(request));
+    for (const { asset, data } of assets) {
+      zip.file(asset.filePath, data);
+    }
+
     // Generate ZIP buffer
     const zipBuffer = await zip.generateAsync({
       type: 'nodebuffer',
@@ -2,6 +2,7 @@
  * API Route: /api/edit
  * 
  * Handles website editing requests using the Editor Agent
+ * Send `Accept: text/event-stream` to receive pipeline progress as Server-Sent Events
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -9,6 +10,7 @@ import { editSiteFromPrompt } from '@/lib/editService';
 import { lockProject, unlockProject } from '@/lib/buildLockService';
 import { createServerSupabaseClient } from '@/lib/supabaseServer';
 import { getConversationHistoryForAI, saveMessage } from '@/lib/conversationService';
+import { createProgressStream, ProgressReporter, wantsProgressStream } from '@/lib/progressStream';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // 60 seconds max for OpenAI API calls
@@ -123,44 +125,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    try {
+    // Runs the edit pipeline and returns the JSON payload (shared by streamed and plain responses)
+    const lockedProjectId = projectId;
+    const runEdit = async (onProgress?: ProgressReporter) => {
       // Load conversation history from database for context
       // Use provided history if available (for backward compatibility), otherwise load from DB
       let conversationHistory = history || [];
       if (!history || history.length === 0) {
         // Load from database - use authenticated client
-        const historyMessages = await getConversationHistoryForAI(projectId, 30);
+        const historyMessages = await getConversationHistoryForAI(lockedProjectId, 30);
         conversationHistory = historyMessages;
       }
 
       // Save user message to conversation history
       await saveMessage({
-        projectId,
+        projectId: lockedProjectId,
         role: 'user',
         content: message.trim(),
       });
 
       // Edit website using Editor Agent
       const result = await editSiteFromPrompt({
-        projectId,
+        projectId: lockedProjectId,
         message: message.trim(),
         history: conversationHistory,
         buildVersion: buildVersion || undefined,
+        onProgress,
+        client: supabase,
       });
 
       // Save assistant response to conversation history
       if (result.success) {
         await saveMessage({
-          projectId,
+          projectId: lockedProjectId,
           role: 'assistant',
           content: result.summary || 'Website edited successfully',
           buildVersion: result.version,
         });
       }
 
-      return NextResponse.json({
+      return {
         success: result.success,
-        projectId,
+        projectId: lockedProjectId,
         version: result.version,
         files: result.files,
         summary: result.summary,
@@ -168,8 +174,30 @@ export async function POST(request: NextRequest) {
         patches: result.patches,
         previewHtml: result.previewHtml,
         errors: result.errors,
+        repairedFiles: result.repairedFiles,
+        translationReport: result.translationReport,
+        rtlReport: result.rtlReport,
+        localeSync: result.localeSync,
+        usage: result.usage,
         createdAt: new Date().toISOString(),
+      };
+    };
+
+    // Streamed response: progress events, then a final `complete` event with the payload
+    if (wantsProgressStream(request)) {
+      return createProgressStream(async (emit) => {
+        try {
+          const payload = await runEdit(emit);
+          emit({ type: 'complete', result: payload });
+        } finally {
+          // Always unlock the project, even if there's an error
+          await unlockProject(lockedProjectId);
+        }
       });
+    }
+
+    try {
+      return NextResponse.json(await runEdit());
     } finally {
       // Always unlock the project, even if there's an error
       if (projectId) {
@@ -0,0 +1,112 @@
+/**
+ * API Route: /api/forms/[projectId]
+ *
+ * Receives contact and booking form submissions from generated sites
+ * Body: { form, fields, locale? } - public (no login), called cross-origin from
+ * previews and deployed sites
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { saveFormSubmission, validateFormSubmission } from '@/lib/formService';
+
+export const runtime = 'nodejs';
+export const maxDuration = 10;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+// Per-visitor limit, per server instance
+const RATE_LIMIT = 5;
+const RATE_WINDOW_MS = 60_000;
+const recentSubmissions = new Map<string, number[]>();
+
+// Validate UUID format
+function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
+
+function isRateLimited(key: string): boolean {
+  const now = Date.now();
+  const recent = (recentSubmissions.get(key) || []).filter(time => now - time < RATE_WINDOW_MS);
+  if (recent.length >= RATE_LIMIT) {
+    recentSubmissions.set(key, recent);
+    return true;
+  }
+  recentSubmissions.set(key, [...recent, now]);
+  // Drop visitors that went quiet so the map doesn't grow forever
+  if (recentSubmissions.size > 10_000) {
+    recentSubmissions.forEach((times, entry) => {
+      if (times.every(time => now - time >= RATE_WINDOW_MS)) recentSubmissions.delete(entry);
+    });
+  }
+  return false;
+}
+
+function json(body: Record<string, unknown>, status = 200): NextResponse {
+  return NextResponse.json(body, { status, headers: CORS_HEADERS });
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const { projectId } = params;
+    if (!projectId || !isValidUUID(projectId)) {
+      return json({ error: 'Invalid project ID format' }, 400);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ error: 'Invalid JSON in request body' }, 400);
+    }
+
+    const visitor = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip || 'unknown';
+    if (isRateLimited(`${projectId}:${visitor}`)) {
+      return json({ error: 'Too many submissions. Please try again in a minute.' }, 429);
+    }
+
+    const submission = validateFormSubmission(body);
+    if ('error' in submission) {
+      return json({ error: submission.error }, 400);
+    }
+
+    // Bots that filled the hidden field get a success response and nothing is stored
+    if (submission.spam) {
+      console.warn(`Dropped spam submission for project ${projectId}`);
+      return json({ success: true });
+    }
+
+    const result = await saveFormSubmission({
+      projectId,
+      form: submission.form,
+      data: submission.data,
+      locale: submission.locale,
+    });
+    if (result === 'not-found') {
+      return json({ error: 'Project not found' }, 404);
+    }
+    if (result === 'limited') {
+      return json({ error: 'Too many submissions. Please try again in a minute.' }, 429);
+    }
+
+    console.log(`📨 Form submission for project ${projectId} (${submission.form}, ${Object.keys(submission.data).length} fields)`);
+    return json({ success: true });
+  } catch (error) {
+    console.error('API /api/forms error:', error);
+    return json({
+      error: 'Failed to save submission',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    }, 500);
+  }
+}
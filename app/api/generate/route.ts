@@ -2,14 +2,25 @@
  * API Route: /api/generate
  * 
  * Handles website generation requests using OpenAI
+ * Send `Accept: text/event-stream` to receive pipeline progress as Server-Sent Events
+ * Send `resumeRunId` instead of `message` to resume a failed or partial run from its checkpoint
+ *
+ * Two-phase generation: send `planOnly: true` to get the plan and architecture back
+ * without generating anything, then send the reviewed `plan` with the same message
+ * to generate the site from it
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateSiteFromPrompt } from '@/lib/pipelineService';
-import { createBuild } from '@/lib/buildService';
+import { generateSiteFromPrompt, planSiteFromPrompt } from '@/lib/pipelineService';
+import { GenerationPlan, normalizeReviewedPlan } from '@/lib/plannerAgent';
+import { createBuild, isLanguageMode, LANGUAGE_MODES } from '@/lib/buildService';
+import { updateProjectLanguageMode } from '@/lib/projectService';
+import { isSupportedLocale, SITE_LOCALES } from '@/lib/siteLocales';
 import { lockProject, unlockProject } from '@/lib/buildLockService';
 import { createServerSupabaseClient } from '@/lib/supabaseServer';
 import { getConversationHistoryForAI, saveMessage, saveMessages } from '@/lib/conversationService';
+import { createProgressStream, ProgressReporter, wantsProgressStream } from '@/lib/progressStream';
+import { getPipelineRun, PipelineRun, PipelineRunError, updatePipelineRun } from '@/lib/pipelineRunService';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // 60 seconds max for OpenAI API calls
@@ -22,6 +33,8 @@ function isValidUUID(uuid: string): boolean {
 
 export async function POST(request: NextRequest) {
   let projectId: string | null = null;
+  let lockAcquired = false;
+  let runId: string | undefined;
   
   try {
     // Authenticate user
@@ -46,13 +59,14 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { projectId: bodyProjectId, message, history } = body;
+    const { projectId: bodyProjectId, history, languageMode, locales, darkMode, resumeRunId, planOnly, plan } = body;
+    let { message } = body;
     projectId = bodyProjectId;
 
     // Validate input
-    if (!projectId || !message) {
+    if (!projectId || (!message && !resumeRunId)) {
       return NextResponse.json(
-        { error: 'Missing required fields: projectId and message are required' },
+        { error: 'Missing required fields: projectId and message (or resumeRunId) are required' },
         { status: 400 }
       );
     }
@@ -65,8 +79,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate message
-    if (typeof message !== 'string' || message.trim().length === 0) {
+    // Validate the run to resume if provided
+    if (resumeRunId !== undefined && (typeof resumeRunId !== 'string' || !isValidUUID(resumeRunId))) {
+      return NextResponse.json(
+        { error: 'Invalid run ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Validate message (a resumed run reuses its own prompt)
+    if (!resumeRunId && (typeof message !== 'string' || message.trim().length === 0)) {
       return NextResponse.json(
         { error: 'Message must be a non-empty string' },
         { status: 400 }
@@ -74,7 +96,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate message length (prevent extremely long messages)
-    if (message.length > 10000) {
+    if (!resumeRunId && message.length > 10000) {
       return NextResponse.json(
         { error: 'Message is too long. Maximum 10,000 characters allowed.' },
         { status: 400 }
@@ -89,6 +111,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate language mode override if provided (otherwise it is detected from the prompt)
+    if (languageMode !== undefined && !isLanguageMode(languageMode)) {
+      return NextResponse.json(
+        { error: `Invalid languageMode. Must be one of: ${LANGUAGE_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate site locales if provided (e.g. ["ar", "en", "fr"], default language first)
+    if (locales !== undefined && (!Array.isArray(locales) || locales.length === 0 || !locales.every(isSupportedLocale))) {
+      return NextResponse.json(
+        { error: `Invalid locales. Must be a non-empty array of: ${Object.keys(SITE_LOCALES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate dark mode choice if provided (otherwise it is detected from the prompt)
+    if (darkMode !== undefined && typeof darkMode !== 'boolean') {
+      return NextResponse.json(
+        { error: 'darkMode must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    // A reviewed plan, a plan-only request and a resumed run are separate requests
+    if ((plan !== undefined && (planOnly || resumeRunId)) || (planOnly && resumeRunId)) {
+      return NextResponse.json(
+        { error: 'plan, planOnly and resumeRunId cannot be combined' },
+        { status: 400 }
+      );
+    }
+
+    // Validate the reviewed plan if provided
+    let reviewedPlan: GenerationPlan | undefined;
+    if (plan !== undefined) {
+      try {
+        reviewedPlan = normalizeReviewedPlan(plan);
+      } catch (planError) {
+        return NextResponse.json(
+          { error: `Invalid plan: ${planError instanceof Error ? planError.message : 'unknown error'}` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Verify project ownership using authenticated client (RLS will enforce)
     const { data: project, error: projectError } = await supabase
       .from('projects')
@@ -104,8 +171,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Phase one of a reviewed generation: plan only, nothing is written so no lock is needed
+    if (planOnly === true) {
+      const planHistory = history && history.length > 0 ? history : await getConversationHistoryForAI(projectId, 30);
+      const planResult = await planSiteFromPrompt({ projectId, message: message.trim(), history: planHistory, languageMode, locales, darkMode, client: supabase });
+      return NextResponse.json({
+        success: true,
+        phase: 'plan',
+        plan: planResult.plan,
+        architecture: planResult.architecture,
+        languageMode: planResult.languageMode,
+        usage: planResult.usage,
+      });
+    }
+
+    // Load the run to resume - only failed or partial runs have work left
+    let resumeRun: PipelineRun | undefined;
+    if (resumeRunId) {
+      const run = await getPipelineRun(projectId, resumeRunId);
+      if (!run || (run.status !== 'failed' && run.status !== 'partial')) {
+        return NextResponse.json(
+          { error: 'Run not found or has nothing to resume' },
+          { status: 404 }
+        );
+      }
+      resumeRun = run;
+      message = run.prompt;
+    }
+
     // Try to lock the project (now with authenticated user)
-    const lockAcquired = await lockProject(projectId, user.id);
+    lockAcquired = await lockProject(projectId, user.id);
     if (!lockAcquired) {
       return NextResponse.json(
         { 
@@ -116,58 +211,127 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    try {
+    // Runs the pipeline and returns the JSON payload (shared by streamed and plain responses)
+    const lockedProjectId = projectId;
+    const generate = async (onProgress?: ProgressReporter) => {
       // Load conversation history from database for context
       // Use provided history if available (for backward compatibility), otherwise load from DB
       let conversationHistory = history || [];
       if (!history || history.length === 0) {
         // Load from database - use authenticated client
-        const historyMessages = await getConversationHistoryForAI(projectId, 30);
+        const historyMessages = await getConversationHistoryForAI(lockedProjectId, 30);
         conversationHistory = historyMessages;
       }
 
-      // Save user message to conversation history
-      await saveMessage({
-        projectId,
-        role: 'user',
-        content: message.trim(),
-      });
+      // Save user message to conversation history (already saved when the run started)
+      if (!resumeRun) {
+        await saveMessage({
+          projectId: lockedProjectId,
+          role: 'user',
+          content: message.trim(),
+        });
+      }
 
       // Generate website using Lovable-style pipeline (Planner → Architect → Coder)
       const result = await generateSiteFromPrompt({
-        projectId,
+        projectId: lockedProjectId,
         message: message.trim(),
         history: conversationHistory,
+        languageMode,
+        locales,
+        darkMode,
+        onProgress,
+        resumeRun,
+        reviewedPlan,
+        client: supabase,
       });
+      runId = result.runId;
+
+      // Persist the language mode so edits and deploys keep using it
+      await updateProjectLanguageMode(lockedProjectId, result.languageMode);
 
       // Create build with files
+      onProgress?.({ type: 'stage', stage: 'saving', message: 'Building preview' });
       const buildResult = await createBuild({
-        projectId,
+        projectId: lockedProjectId,
         prompt: message.trim(),
         files: result.files,
         summary: result.summary,
         languageMode: result.languageMode,
+        repairedFiles: result.repairedFiles,
+        usage: result.usage,
+        client: supabase,
       });
+      onProgress?.({ type: 'preview_built', version: buildResult.version });
+
+      // Partial runs stay resumable so the failed files can be retried on top of this build
+      if (result.runId) {
+        await updatePipelineRun(result.runId, {
+          status: result.failedFiles.length > 0 ? 'partial' : 'completed',
+          failedFiles: result.failedFiles,
+          buildVersion: buildResult.version,
+        });
+      }
 
       // Save assistant response to conversation history
       await saveMessage({
-        projectId,
+        projectId: lockedProjectId,
         role: 'assistant',
         content: result.summary,
         buildVersion: buildResult.version,
       });
 
-      return NextResponse.json({
+      return {
         success: true,
         projectId: buildResult.project_id,
         version: buildResult.version,
         files: result.files,
         summary: result.summary,
         languageMode: result.languageMode,
+        locales: result.locales,
         sections: result.sections,
+        failedFiles: result.failedFiles,
+        repairedFiles: result.repairedFiles,
+        translationReport: result.translationReport,
+        rtlReport: result.rtlReport,
+        template: result.template,
+        usage: result.usage,
+        runId: result.runId,
         previewHtml: buildResult.preview_html,
         createdAt: buildResult.created_at,
+      };
+    };
+
+    // Runs that fail after the pipeline (e.g. while saving the build) stay resumable too
+    const runGeneration = async (onProgress?: ProgressReporter) => {
+      try {
+        return await generate(onProgress);
+      } catch (error) {
+        if (runId && !(error instanceof PipelineRunError)) {
+          await updatePipelineRun(runId, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+          });
+        }
+        throw error;
+      }
+    };
+
+    // Streamed response: progress events, then a final `complete` event with the payload
+    if (wantsProgressStream(request)) {
+      return createProgressStream(async (emit) => {
+        try {
+          const payload = await runGeneration(emit);
+          emit({ type: 'complete', result: payload });
+        } finally {
+          // Always unlock the project, even if there's an error
+          await unlockProject(lockedProjectId);
+        }
       });
+    }
+
+    try {
+      return NextResponse.json(await runGeneration());
     } finally {
       // Always unlock the project, even if there's an error
       if (projectId) {
@@ -177,17 +341,23 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('API /api/generate error:', error);
     
-    // Ensure unlock even on error
-    if (projectId) {
+    // Ensure unlock even on error - only our own lock, a failed plan or resume lookup holds none
+    if (projectId && lockAcquired) {
       await unlockProject(projectId);
     }
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    // A checkpointed run that failed can be resumed with its runId
+    if (error instanceof PipelineRunError) {
+      runId = error.runId;
+    }
     
     return NextResponse.json(
       { 
         error: 'Failed to generate website',
         message: errorMessage,
+        runId,
       },
       { status: 500 }
     );
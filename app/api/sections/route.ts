@@ -0,0 +1,296 @@
+/**
+ * API Route: /api/sections
+ *
+ * Sections of a site: their order (single-page sites) and new versions of one section
+ * GET ?projectId=...&version=... - sections in page order and every component (latest build when version is omitted)
+ * POST { projectId, order: string[] } - move the sections between the navbar and the footer, without the LLM
+ *      | { projectId, regenerate: string, instructions?: string } - a new version of one section component
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabaseServer';
+import { getBuildByVersion, getLatestBuild } from '@/lib/buildService';
+import { checkSectionOrder, getPageSections } from '@/lib/siteSections';
+import { reorderSiteSections } from '@/lib/sectionOrderService';
+import { regenerateSiteSection } from '@/lib/sectionRegenerationService';
+import { lockProject, unlockProject } from '@/lib/buildLockService';
+import { saveMessage } from '@/lib/conversationService';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60; // Regenerating a section makes an OpenAI API call
+
+// Validate UUID format
+function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient(request);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Please log in to continue.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const versionParam = searchParams.get('version');
+
+    if (!projectId || !isValidUUID(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    const version = versionParam ? parseInt(versionParam, 10) : null;
+    if (versionParam && (!Number.isInteger(version) || (version as number) < 1)) {
+      return NextResponse.json(
+        { error: 'Version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Verify project ownership using authenticated client (RLS will enforce)
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json(
+        { error: 'Project not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    const build = version
+      ? await getBuildByVersion(projectId, version)
+      : await getLatestBuild(projectId);
+
+    if (!build || !build.files) {
+      return NextResponse.json(
+        { error: 'Build not found or has no files' },
+        { status: 404 }
+      );
+    }
+
+    const sections = getPageSections(build.files);
+    return NextResponse.json({
+      success: true,
+      version: build.version,
+      // Multi-page sites order their sections inside each page
+      reorderable: sections !== null,
+      sections: sections || [],
+      // Every component can be regenerated, on multi-page sites too
+      components: Object.keys(build.files)
+        .map(path => path.match(/^src\/components\/([A-Za-z0-9]+)\.jsx$/)?.[1])
+        .filter((name): name is string => !!name),
+    });
+  } catch (error) {
+    console.error('API /api/sections error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load sections',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let projectId: string | null = null;
+  let lockAcquired = false;
+  let isRegenerating = false;
+
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient(request);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Please log in to continue.' },
+        { status: 401 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { projectId: bodyProjectId, order, regenerate, instructions } = body;
+    projectId = bodyProjectId;
+    isRegenerating = regenerate !== undefined;
+
+    // Validate projectId format (should be UUID)
+    if (!projectId || typeof projectId !== 'string' || !isValidUUID(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Exactly one action: a new order or a section to regenerate
+    if ((order === undefined) === (regenerate === undefined)) {
+      return NextResponse.json(
+        { error: 'Provide either order or regenerate' },
+        { status: 400 }
+      );
+    }
+    if (order !== undefined && (!Array.isArray(order) || order.length === 0 || order.length > 30
+      || order.some(name => typeof name !== 'string' || !/^[A-Z][A-Za-z0-9]*$/.test(name)))) {
+      return NextResponse.json(
+        { error: 'Order must be a non-empty array of section component names' },
+        { status: 400 }
+      );
+    }
+    if (regenerate !== undefined && (typeof regenerate !== 'string' || !/^[A-Z][A-Za-z0-9]*$/.test(regenerate))) {
+      return NextResponse.json(
+        { error: 'Regenerate must be a section component name' },
+        { status: 400 }
+      );
+    }
+    if (instructions !== undefined && (typeof instructions !== 'string' || instructions.length > 2000)) {
+      return NextResponse.json(
+        { error: 'Instructions must be a string of at most 2,000 characters' },
+        { status: 400 }
+      );
+    }
+
+    // Verify project ownership using authenticated client (RLS will enforce)
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json(
+        { error: 'Project not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    // Check the new order against the latest build before locking, so a bad order is a 400
+    if (order !== undefined) {
+      const build = await getLatestBuild(projectId);
+      if (!build || !build.files) {
+        return NextResponse.json(
+          { error: 'Build not found or has no files' },
+          { status: 404 }
+        );
+      }
+      const problem = checkSectionOrder(build.files, order);
+      if (problem) {
+        return NextResponse.json(
+          { error: problem },
+          { status: 400 }
+        );
+      }
+    }
+
+    lockAcquired = await lockProject(projectId, user.id);
+    if (!lockAcquired) {
+      return NextResponse.json(
+        {
+          error: 'Project is currently being processed. Please wait for the current operation to complete.',
+          code: 'PROJECT_LOCKED'
+        },
+        { status: 409 }
+      );
+    }
+
+    try {
+      if (regenerate !== undefined) {
+        const sectionRequest = instructions?.trim()
+          ? `Regenerate ${regenerate}: ${instructions.trim()}`
+          : `Regenerate ${regenerate}`;
+        await saveMessage({ projectId, role: 'user', content: sectionRequest });
+
+        const result = await regenerateSiteSection({
+          projectId,
+          componentName: regenerate,
+          instructions: instructions?.trim() || undefined,
+          client: supabase,
+        });
+
+        await saveMessage({
+          projectId,
+          role: 'assistant',
+          content: `Regenerated the ${regenerate} section`,
+          buildVersion: result.version,
+        });
+
+        return NextResponse.json({
+          success: true,
+          projectId,
+          version: result.version,
+          componentName: result.componentName,
+          translationIssues: result.translationIssues,
+          repairedFiles: result.repairedFiles,
+          usage: result.usage,
+          previewHtml: result.previewHtml,
+          createdAt: new Date().toISOString(),
+        });
+      }
+
+      await saveMessage({ projectId, role: 'user', content: `Reorder sections: ${order.join(', ')}` });
+
+      const result = await reorderSiteSections({ projectId, order, client: supabase });
+
+      await saveMessage({
+        projectId,
+        role: 'assistant',
+        content: 'Reordered the sections',
+        buildVersion: result.version,
+      });
+
+      return NextResponse.json({
+        success: true,
+        projectId,
+        version: result.version,
+        sections: result.sections,
+        filesChanged: result.filesChanged,
+        previewHtml: result.previewHtml,
+        createdAt: new Date().toISOString(),
+      });
+    } finally {
+      // Always unlock the project, even if there's an error
+      await unlockProject(projectId);
+    }
+  } catch (error) {
+    console.error('API /api/sections error:', error);
+
+    // Only our own lock - a failed order check runs before locking and holds none
+    if (projectId && lockAcquired) {
+      await unlockProject(projectId);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        error: isRegenerating ? 'Failed to regenerate section' : 'Failed to reorder sections',
+        message: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
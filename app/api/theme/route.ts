@@ -0,0 +1,188 @@
+/**
+ * API Route: /api/theme
+ *
+ * Changes the design theme of a generated site by rewriting its theme tokens
+ * Body: { projectId, presetId } | { projectId, arabicTypographyId } | { projectId, theme } | { projectId, prompt }
+ *       | { projectId, numerals: 'western' | 'eastern' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { changeSiteTheme } from '@/lib/themeService';
+import { ARABIC_TYPOGRAPHY, THEME_PRESETS } from '@/lib/siteTheme';
+import { NUMERAL_STYLES, isNumeralStyle } from '@/lib/siteNumerals';
+import { lockProject, unlockProject } from '@/lib/buildLockService';
+import { createServerSupabaseClient } from '@/lib/supabaseServer';
+import { saveMessage } from '@/lib/conversationService';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Validate UUID format
+function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
+
+export async function POST(request: NextRequest) {
+  let projectId: string | null = null;
+
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient(request);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Please log in to continue.' },
+        { status: 401 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { projectId: bodyProjectId, presetId, arabicTypographyId, theme, prompt, numerals } = body;
+    projectId = bodyProjectId;
+
+    // Validate projectId format (should be UUID)
+    if (!projectId || typeof projectId !== 'string' || !isValidUUID(projectId)) {
+      return NextResponse.json(
+        { error: 'Invalid project ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Exactly one way of describing the new theme
+    const preset = presetId !== undefined ? THEME_PRESETS.find(p => p.id === presetId) : undefined;
+    if (presetId !== undefined && !preset) {
+      return NextResponse.json(
+        { error: `Unknown theme preset. Must be one of: ${THEME_PRESETS.map(p => p.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const arabicTypography = arabicTypographyId !== undefined
+      ? ARABIC_TYPOGRAPHY.find(t => t.id === arabicTypographyId)
+      : undefined;
+    if (arabicTypographyId !== undefined && !arabicTypography) {
+      return NextResponse.json(
+        { error: `Unknown Arabic typography. Must be one of: ${ARABIC_TYPOGRAPHY.map(t => t.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (numerals !== undefined && !isNumeralStyle(numerals)) {
+      return NextResponse.json(
+        { error: `Numerals must be one of: ${NUMERAL_STYLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (theme !== undefined && (typeof theme !== 'object' || theme === null || Array.isArray(theme))) {
+      return NextResponse.json(
+        { error: 'Theme must be an object' },
+        { status: 400 }
+      );
+    }
+    if (prompt !== undefined && (typeof prompt !== 'string' || prompt.trim().length === 0 || prompt.length > 2000)) {
+      return NextResponse.json(
+        { error: 'Prompt must be a non-empty string of at most 2,000 characters' },
+        { status: 400 }
+      );
+    }
+    if (!preset && !arabicTypography && theme === undefined && prompt === undefined && numerals === undefined) {
+      return NextResponse.json(
+        { error: 'Missing theme: provide presetId, arabicTypographyId, theme, prompt or numerals' },
+        { status: 400 }
+      );
+    }
+
+    // Verify project ownership using authenticated client (RLS will enforce)
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json(
+        { error: 'Project not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    const lockAcquired = await lockProject(projectId, user.id);
+    if (!lockAcquired) {
+      return NextResponse.json(
+        {
+          error: 'Project is currently being processed. Please wait for the current operation to complete.',
+          code: 'PROJECT_LOCKED'
+        },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const themeRequest = preset
+        ? `Change theme to ${preset.name.en}`
+        : arabicTypography
+          ? `Change Arabic typography to ${arabicTypography.name.en}`
+          : prompt?.trim() || (numerals !== undefined ? `Use ${numerals} numerals` : 'Change theme');
+      await saveMessage({ projectId, role: 'user', content: themeRequest });
+
+      const result = await changeSiteTheme({
+        projectId,
+        theme: preset ? preset.theme : arabicTypography ? { typography: arabicTypography.typography } : theme,
+        prompt: prompt?.trim() || themeRequest,
+        numerals,
+        client: supabase,
+      });
+
+      await saveMessage({
+        projectId,
+        role: 'assistant',
+        content: numerals !== undefined && !preset && !arabicTypography && theme === undefined && prompt === undefined
+          ? 'Updated the numeral style'
+          : 'Updated the site theme',
+        buildVersion: result.version,
+      });
+
+      return NextResponse.json({
+        success: true,
+        projectId,
+        version: result.version,
+        theme: result.theme,
+        filesChanged: result.filesChanged,
+        usesTokens: result.usesTokens,
+        numerals: result.numerals,
+        usesNumerals: result.usesNumerals,
+        previewHtml: result.previewHtml,
+        createdAt: new Date().toISOString(),
+      });
+    } finally {
+      // Always unlock the project, even if there's an error
+      await unlockProject(projectId);
+    }
+  } catch (error) {
+    console.error('API /api/theme error:', error);
+
+    if (projectId) {
+      await unlockProject(projectId);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to change theme',
+        message: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -11,8 +11,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { getProjectById } from '@/lib/projectService';
-import { getBuildsByProject } from '@/lib/buildService';
+import { getBuildsByProject, type LanguageMode } from '@/lib/buildService';
+import { ARABIC_TYPOGRAPHY, THEME_PRESETS } from '@/lib/siteTheme';
+import type { NumeralStyle } from '@/lib/siteNumerals';
 import { getLatestDeploymentByProject, type Deployment } from '@/lib/deploymentService';
+import { readProgressStream, type PipelineEvent } from '@/lib/progressStream';
+import { getResumableRun } from '@/lib/pipelineRunService';
 import { 
   ArrowLeft, 
   Send, 
@@ -24,17 +28,33 @@ import {
   User,
   Rocket,
   ExternalLink,
-  RefreshCw
+  RefreshCw,
+  Languages,
+  Palette,
+  RotateCcw,
+  ClipboardList,
+  Moon,
+  ImagePlus,
+  Accessibility,
+  ListOrdered
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Progress } from '@/components/ui/progress';
 import { SuccessAnimation } from '@/components/SuccessAnimation';
+import { PlanReview } from '@/components/PlanReview';
+import { ProjectAssets } from '@/components/ProjectAssets';
+import { AccessibilityReport } from '@/components/AccessibilityReport';
+import { SectionsPanel } from '@/components/SectionsPanel';
+import type { GenerationPlan } from '@/lib/plannerAgent';
+import type { ArchitecturePlan } from '@/lib/architectAgent';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
@@ -54,6 +74,18 @@ interface BuildResponse {
   summary: string;
   languageMode?: 'arabic-only' | 'english-only' | 'bilingual';
   sections?: string[];
+  failedFiles?: Array<{ path: string; error: string }>;
+  repairedFiles?: Array<{ path: string; attempts: number; repaired: boolean; diagnostics: string[] }>;
+  translationReport?: {
+    ok: boolean;
+    fixedCount: number;
+    issues: Array<{ type: string; key: string; locale?: string; component: string | null; message: string; fixed: boolean }>;
+  };
+  rtlReport?: {
+    ok: boolean;
+    fixedCount: number;
+    issues: Array<{ file: string; line: number; original: string; replacement?: string; message: string; fixed: boolean }>;
+  } | null;
   previewHtml: string;
   createdAt?: string;
   // Edit-specific fields
@@ -88,12 +120,29 @@ export default function BuildChat() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
   const [isDeploying, setIsDeploying] = useState(false);
+  const [isChangingTheme, setIsChangingTheme] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
+  const [progressLabel, setProgressLabel] = useState<string | null>(null);
+  const [filesWritten, setFilesWritten] = useState<{ done: number; total: number }>({ done: 0, total: 0 });
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
+  // Language of the site for the first generation - 'auto' lets the planner detect it from the prompt
+  const [siteLanguageMode, setSiteLanguageMode] = useState<LanguageMode | 'auto'>('auto');
+  // Light/dark toggle on the site for the first generation - off lets the planner detect it from the prompt
+  const [siteDarkMode, setSiteDarkMode] = useState(false);
+  // Two-phase first generation: get the plan, let the user adjust it, then generate
+  const [reviewPlanFirst, setReviewPlanFirst] = useState(false);
+  const [planReview, setPlanReview] = useState<{ message: string; plan: GenerationPlan; architecture: ArchitecturePlan } | null>(null);
+  // Upload panel for the project's logo, photos and documents
+  const [showAssets, setShowAssets] = useState(false);
+  // Accessibility audit of the selected version
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  // Sections panel: drag to reorder, or regenerate one section, in the latest version
+  const [showSections, setShowSections] = useState(false);
+  const [isUpdatingSections, setIsUpdatingSections] = useState(false);
   
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const filesWrittenRef = useRef<{ done: number; total: number }>({ done: 0, total: 0 });
 
   // Auth check
   useEffect(() => {
@@ -144,6 +193,13 @@ export default function BuildChat() {
     refetchOnMount: true,
   });
 
+  // Latest generation run that failed or left files behind - offered as "retry failed"
+  const { data: resumableRun } = useQuery({
+    queryKey: ['resumableRun', projectId],
+    queryFn: () => getResumableRun(projectId),
+    enabled: !!projectId,
+  });
+
   // Reconstruct messages from builds
   useEffect(() => {
     if (builds.length > 0) {
@@ -204,41 +260,95 @@ export default function BuildChat() {
     }
   }, [messages]);
 
-  const handleSend = async () => {
-    if (!inputValue.trim() || isGenerating || !project) return;
+  // Translate pipeline progress events into the progress bar and status line
+  const handleProgressEvent = (event: PipelineEvent) => {
+    switch (event.type) {
+      case 'stage': {
+        const stageLabels: Record<string, { ar: string; en: string }> = {
+          planning: { ar: 'جاري تحليل طلبك...', en: 'Analyzing your request...' },
+          architecture: { ar: 'جاري تصميم هيكل الملفات...', en: 'Designing the file structure...' },
+          coding: { ar: 'جاري كتابة الملفات...', en: 'Writing files...' },
+          editing: { ar: 'جاري تطبيق التعديلات...', en: 'Applying your changes...' },
+          saving: { ar: 'جاري إنشاء المعاينة...', en: 'Building preview...' },
+        };
+        const label = stageLabels[event.stage];
+        setProgressLabel(label ? (direction === 'rtl' ? label.ar : label.en) : event.message);
+        setGenerationProgress(prev => Math.max(prev, event.stage === 'planning' ? 5 : event.stage === 'saving' ? 92 : prev));
+        break;
+      }
+      case 'plan_ready':
+        setGenerationProgress(prev => Math.max(prev, 10));
+        break;
+      case 'architecture_ready':
+        filesWrittenRef.current = { done: 0, total: event.totalFiles };
+        setFilesWritten(filesWrittenRef.current);
+        setGenerationProgress(prev => Math.max(prev, 15));
+        break;
+      case 'file_started': {
+        const fileName = event.path.split('/').pop() || event.path;
+        const isComponent = event.path.startsWith('src/components/');
+        const name = isComponent ? fileName.replace(/\.jsx$/, '') : fileName;
+        setProgressLabel(isComponent
+          ? (direction === 'rtl' ? `جاري إنشاء مكوّن ${name}...` : `Generating ${name} component...`)
+          : (direction === 'rtl' ? `جاري كتابة ${name}...` : `Writing ${name}...`));
+        break;
+      }
+      case 'file_written': {
+        const { done, total } = filesWrittenRef.current;
+        filesWrittenRef.current = { done: done + 1, total };
+        setFilesWritten(filesWrittenRef.current);
+        // Edits don't announce a file count up front, so step the bar instead
+        const nextProgress = total > 0
+          ? 15 + Math.round(((done + 1) / total) * 75)
+          : 20 + (done + 1) * 15;
+        setGenerationProgress(prev => Math.max(prev, Math.min(nextProgress, 90)));
+        break;
+      }
+      case 'retry': {
+        // The model API was busy or failed transiently - the call is retried after a short wait
+        const seconds = Math.max(1, Math.round(event.delayMs / 1000));
+        setProgressLabel(direction === 'rtl'
+          ? `الخدمة مشغولة، إعادة المحاولة خلال ${seconds} ث (المحاولة ${event.attempt})...`
+          : `Model is busy, retrying in ${seconds}s (attempt ${event.attempt})...`);
+        break;
+      }
+      case 'preview_built':
+        setGenerationProgress(prev => Math.max(prev, 95));
+        break;
+      case 'error':
+        console.warn('Pipeline reported an error:', event.path, event.message);
+        break;
+    }
+  };
 
-    const userMessage: ChatMessage = {
-      id: `user-${Date.now()}`,
-      role: 'user',
-      content: inputValue.trim(),
-      timestamp: new Date(),
-    };
+  // Send the prompt (or a prepared edit request such as an accessibility fix), generate from
+  // a reviewed plan, regenerate the site as a new version, or resume a failed generation run
+  const handleSend = async (options: { resumeRunId?: string; reviewedPlan?: GenerationPlan; regenerate?: boolean; message?: string } = {}) => {
+    const { resumeRunId, reviewedPlan, regenerate, message } = options;
+    const prompt = (message ?? inputValue).trim();
+    if ((!resumeRunId && !reviewedPlan && !prompt) || isGenerating || !project) return;
 
-    setMessages(prev => [...prev, userMessage]);
-    const messageContent = inputValue.trim();
-    setInputValue('');
+    // The prompt of a reviewed plan was already sent (and shown) when the plan was requested
+    const messageContent = reviewedPlan && planReview ? planReview.message : prompt;
+    setPlanReview(null);
+    if (!resumeRunId && !reviewedPlan) {
+      const userMessage: ChatMessage = {
+        id: `user-${Date.now()}`,
+        role: 'user',
+        content: messageContent,
+        timestamp: new Date(),
+      };
+      setMessages(prev => [...prev, userMessage]);
+      // A prepared request leaves whatever the user was typing in place
+      if (message === undefined) {
+        setInputValue('');
+      }
+    }
     setIsGenerating(true);
     setGenerationProgress(0);
-    
-    // Clear any existing interval
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
-    
-    // Simulate progress (since we don't have real progress from API)
-    let progressValue = 0;
-    progressIntervalRef.current = setInterval(() => {
-      progressValue += 10;
-      if (progressValue >= 90) {
-        if (progressIntervalRef.current) {
-          clearInterval(progressIntervalRef.current);
-          progressIntervalRef.current = null;
-        }
-        setGenerationProgress(90);
-        return;
-      }
-      setGenerationProgress(progressValue);
-    }, 500);
+    setProgressLabel(null);
+    filesWrittenRef.current = { done: 0, total: 0 };
+    setFilesWritten(filesWrittenRef.current);
 
     try {
       // Build history from previous messages
@@ -249,9 +359,14 @@ export default function BuildChat() {
           content: msg.content,
         }));
 
-      // Determine if this is an edit (has existing builds) or new generation
+      // Determine if this is an edit (has existing builds) or new generation - resuming and regenerating are always generations
       const hasExistingBuilds = builds && builds.length > 0;
-      const apiEndpoint = hasExistingBuilds ? '/api/edit' : '/api/generate';
+      const isEdit = hasExistingBuilds && !resumeRunId && !reviewedPlan && !regenerate;
+      const apiEndpoint = isEdit ? '/api/edit' : '/api/generate';
+      const planOnly = !isEdit && !resumeRunId && !reviewedPlan && reviewPlanFirst;
+      if (planOnly) {
+        setProgressLabel(direction === 'rtl' ? 'جاري تحليل طلبك...' : 'Analyzing your request...');
+      }
 
       // Get session token for API authentication
       const { data: { session } } = await supabase.auth.getSession();
@@ -264,13 +379,20 @@ export default function BuildChat() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
           ...(accessToken && { 'Authorization': `Bearer ${accessToken}` }),
         },
-        body: JSON.stringify({
-          projectId: project.id,
-          message: messageContent,
-          history,
-        }),
+        body: JSON.stringify(resumeRunId
+          ? { projectId: project.id, resumeRunId }
+          : {
+              projectId: project.id,
+              message: messageContent,
+              history,
+              ...(!hasExistingBuilds && siteLanguageMode !== 'auto' && { languageMode: siteLanguageMode }),
+              ...(!hasExistingBuilds && siteDarkMode && { darkMode: true }),
+              ...(planOnly && { planOnly: true }),
+              ...(reviewedPlan && { plan: reviewedPlan }),
+            }),
         });
       } catch (fetchError) {
         // Handle network failures
@@ -322,11 +444,39 @@ export default function BuildChat() {
         throw new Error(errorMessage);
       }
 
-      // Parse successful response
-      let buildResponse: BuildResponse;
-      try {
-        buildResponse = await response.json();
-      } catch (parseError) {
+      // Phase one of a reviewed generation: show the plan for review instead of a build
+      if (planOnly) {
+        const planResponse = await response.json();
+        setPlanReview({ message: messageContent, plan: planResponse.plan, architecture: planResponse.architecture });
+        setGenerationProgress(0);
+        return;
+      }
+
+      // Read streamed progress events until the final result arrives
+      let buildResponse: BuildResponse | null = null;
+      let streamError: string | null = null;
+      if (response.headers.get('content-type')?.includes('text/event-stream')) {
+        await readProgressStream<BuildResponse>(response, (event) => {
+          if (event.type === 'complete') {
+            buildResponse = event.result;
+          } else if (event.type === 'error' && event.fatal) {
+            streamError = event.message;
+          } else {
+            handleProgressEvent(event);
+          }
+        });
+      } else {
+        try {
+          buildResponse = await response.json();
+        } catch (parseError) {
+          buildResponse = null;
+        }
+      }
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      if (!buildResponse) {
         throw new Error(direction === 'rtl' 
           ? 'استجابة غير صالحة من الخادم'
           : 'Invalid response from server');
@@ -335,8 +485,6 @@ export default function BuildChat() {
       // Invalidate builds query to refetch
       queryClient.invalidateQueries({ queryKey: ['builds', projectId] });
 
-      // Determine if this was an edit or generation
-      const isEdit = hasExistingBuilds;
       const actionText = isEdit 
         ? (direction === 'rtl' ? 'تم التعديل' : 'Edited')
         : (direction === 'rtl' ? 'تم الإنشاء' : 'Generated');
@@ -371,18 +519,51 @@ export default function BuildChat() {
               ? `تم إنشاء الإصدار ${buildResponse.version} بنجاح`
               : `Version ${buildResponse.version} created successfully`),
       });
-      setGenerationProgress(100);
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
+
+      // Partial generation: the build exists but some files could not be generated
+      if (buildResponse.failedFiles && buildResponse.failedFiles.length > 0) {
+        toast({
+          title: direction === 'rtl' ? 'بعض الملفات لم تُنشأ' : 'Some files failed',
+          description: buildResponse.failedFiles.map(f => f.path).join(', '),
+          variant: 'destructive',
+        });
       }
+
+      // Files that had syntax errors and were fixed automatically before saving
+      const repairedPaths = (buildResponse.repairedFiles || []).filter(r => r.repaired).map(r => r.path);
+      if (repairedPaths.length > 0) {
+        toast({
+          title: direction === 'rtl' ? 'تم إصلاح أخطاء تلقائياً' : 'Syntax errors fixed automatically',
+          description: repairedPaths.join(', '),
+        });
+      }
+
+      // Translation keys the checker could not fill in automatically
+      const unresolvedKeys = (buildResponse.translationReport?.issues || [])
+        .filter(issue => !issue.fixed && issue.type !== 'orphaned');
+      if (unresolvedKeys.length > 0) {
+        toast({
+          title: direction === 'rtl'
+            ? `${unresolvedKeys.length} مشكلة في مفاتيح الترجمة`
+            : `${unresolvedKeys.length} translation key issue(s)`,
+          description: unresolvedKeys.slice(0, 3).map(issue => issue.message).join('\n'),
+        });
+      }
+
+      // Left/right styling the RTL linter could not convert to logical classes
+      const directionIssues = (buildResponse.rtlReport?.issues || []).filter(issue => !issue.fixed);
+      if (directionIssues.length > 0) {
+        toast({
+          title: direction === 'rtl'
+            ? `${directionIssues.length} نمط يعتمد على الاتجاه يحتاج مراجعة`
+            : `${directionIssues.length} direction-sensitive style(s) to review`,
+          description: directionIssues.slice(0, 3).map(issue => `${issue.file.replace(/^src\//, '')}:${issue.line} ${issue.original}`).join('\n'),
+        });
+      }
+      setGenerationProgress(100);
       setTimeout(() => setGenerationProgress(0), 1000);
     } catch (error) {
       console.error('Generation error:', error);
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
       setGenerationProgress(0);
       
       // Improved error messages (A2)
@@ -426,10 +607,157 @@ export default function BuildChat() {
       });
     } finally {
       setIsGenerating(false);
+      setProgressLabel(null);
+      // The run may now be resumable (failed/partial) or finished
+      queryClient.invalidateQueries({ queryKey: ['resumableRun', projectId] });
       inputRef.current?.focus();
     }
   };
 
+  // Restyle the whole site with a theme preset or an Arabic typography pairing, or switch
+  // the digits of Arabic text (rewrites the theme tokens and src/numerals.js, not the components)
+  const handleThemeChange = async (change: { presetId: string } | { arabicTypographyId: string } | { numerals: NumeralStyle }) => {
+    if (!project || isGenerating || isChangingTheme) return;
+
+    let applied: string;
+    if ('numerals' in change) {
+      applied = change.numerals === 'eastern'
+        ? (direction === 'rtl' ? 'الأرقام العربية المشرقية (١٢٣)' : 'Eastern Arabic numerals (١٢٣)')
+        : (direction === 'rtl' ? 'الأرقام الغربية (123)' : 'Western numerals (123)');
+    } else {
+      const option = 'presetId' in change
+        ? THEME_PRESETS.find(p => p.id === change.presetId)
+        : ARABIC_TYPOGRAPHY.find(t => t.id === change.arabicTypographyId);
+      if (!option) return;
+      const optionName = direction === 'rtl' ? option.name.ar : option.name.en;
+      applied = 'presetId' in change
+        ? (direction === 'rtl' ? `سمة "${optionName}"` : `the "${optionName}" theme`)
+        : (direction === 'rtl' ? `الخط العربي "${optionName}"` : `the "${optionName}" Arabic typography`);
+    }
+
+    setIsChangingTheme(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const accessToken = session?.access_token;
+
+      const response = await fetch('/api/theme', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken && { 'Authorization': `Bearer ${accessToken}` }),
+        },
+        body: JSON.stringify({ projectId: project.id, ...change }),
+      });
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result) {
+        throw new Error(result?.message || result?.error || (direction === 'rtl' ? 'فشل تغيير السمة' : 'Failed to change theme'));
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['builds', projectId] });
+      setSelectedVersion(result.version);
+      setMessages(prev => [...prev, {
+        id: `theme-${Date.now()}`,
+        role: 'assistant',
+        content: direction === 'rtl'
+          ? `تم تطبيق ${applied} (الإصدار ${result.version})`
+          : `Applied ${applied} (Version ${result.version})`,
+        buildVersion: result.version,
+        timestamp: new Date(result.createdAt || new Date().toISOString()),
+      }]);
+
+      toast({
+        title: direction === 'rtl' ? 'تم تغيير السمة' : 'Theme Changed',
+        description: 'numerals' in change && !result.usesNumerals
+          ? (direction === 'rtl'
+              ? 'هذا الموقع أُنشئ قبل دعم أنماط الأرقام، لذا لن تتغير أرقامه إلا بعد إنشاء إصدار جديد'
+              : 'This site was generated before numeral styles, so its digits change once you generate a new version')
+          : result.usesTokens
+            ? (direction === 'rtl' ? `تم تطبيق ${applied}` : `Applied ${applied}`)
+            : (direction === 'rtl'
+                ? 'هذا الموقع أُنشئ قبل دعم السمات، لذا تغيّرت الخطوط والألوان العامة فقط'
+                : 'This site was generated before themes, so only global fonts and colors changed'),
+      });
+    } catch (error) {
+      console.error('Theme change error:', error);
+      toast({
+        title: direction === 'rtl' ? 'خطأ' : 'Error',
+        description: error instanceof Error
+          ? error.message
+          : (direction === 'rtl' ? 'فشل تغيير السمة' : 'Failed to change theme'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsChangingTheme(false);
+    }
+  };
+
+  // Move the sections of the latest version (rewrites App.jsx and the navbar links, no LLM call),
+  // or regenerate one of them with optional instructions (only that component changes)
+  const handleSectionsChange = async (change: { order: string[] } | { regenerate: string; instructions?: string }) => {
+    if (!project || isGenerating || isUpdatingSections) return;
+
+    const isRegenerating = 'regenerate' in change;
+    const failedMessage = isRegenerating
+      ? (direction === 'rtl' ? 'فشلت إعادة إنشاء القسم' : 'Failed to regenerate section')
+      : (direction === 'rtl' ? 'فشل ترتيب الأقسام' : 'Failed to reorder sections');
+
+    setIsUpdatingSections(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const accessToken = session?.access_token;
+
+      const response = await fetch('/api/sections', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken && { 'Authorization': `Bearer ${accessToken}` }),
+        },
+        body: JSON.stringify({ projectId: project.id, ...change }),
+      });
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result) {
+        throw new Error(result?.message || result?.error || failedMessage);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['builds', projectId] });
+      setSelectedVersion(result.version);
+      setMessages(prev => [...prev, {
+        id: `sections-${Date.now()}`,
+        role: 'assistant',
+        content: isRegenerating
+          ? (direction === 'rtl'
+              ? `تمت إعادة إنشاء قسم ${change.regenerate} (الإصدار ${result.version})`
+              : `Regenerated the ${change.regenerate} section (Version ${result.version})`)
+          : (direction === 'rtl'
+              ? `تم ترتيب الأقسام (الإصدار ${result.version})`
+              : `Reordered the sections (Version ${result.version})`),
+        buildVersion: result.version,
+        timestamp: new Date(result.createdAt || new Date().toISOString()),
+      }]);
+
+      // The locale files are left as they are, so new keys show up as missing text
+      if (isRegenerating && result.translationIssues?.length > 0) {
+        toast({
+          title: direction === 'rtl' ? 'نصوص ناقصة' : 'Missing text',
+          description: direction === 'rtl'
+            ? `يستخدم القسم الجديد ${result.translationIssues.length} مفتاح ترجمة غير موجود - اطلب إضافته في المحادثة`
+            : `The new section uses ${result.translationIssues.length} translation key(s) the site lacks - ask for them in the chat`,
+        });
+      }
+    } catch (error) {
+      console.error('Sections change error:', error);
+      toast({
+        title: direction === 'rtl' ? 'خطأ' : 'Error',
+        description: error instanceof Error ? error.message : failedMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingSections(false);
+    }
+  };
+
   // Handle deployment to Netlify
   const handleDeploy = async (redeploy: boolean = false) => {
     if (!project || !selectedVersion) {
@@ -574,6 +902,13 @@ export default function BuildChat() {
     }
   };
 
+  const siteLanguageOptions: Array<{ value: LanguageMode | 'auto'; label: string }> = [
+    { value: 'auto', label: direction === 'rtl' ? 'اللغة: تلقائي' : 'Language: Auto' },
+    { value: 'bilingual', label: direction === 'rtl' ? 'عربي وإنجليزي' : 'Arabic & English' },
+    { value: 'arabic-only', label: direction === 'rtl' ? 'عربي فقط' : 'Arabic only' },
+    { value: 'english-only', label: direction === 'rtl' ? 'إنجليزي فقط' : 'English only' },
+  ];
+
   // Show loading only if auth is loading and not timed out
   if (authLoading && !authTimeout && !user) {
     return (
@@ -656,6 +991,55 @@ export default function BuildChat() {
                   </DropdownMenuContent>
                 </DropdownMenu>
 
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="flex items-center gap-2" disabled={isChangingTheme || isGenerating}>
+                      {isChangingTheme ? <Loader2 className="h-4 w-4 animate-spin" /> : <Palette className="h-4 w-4" />}
+                      {direction === 'rtl' ? 'السمة' : 'Theme'}
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {THEME_PRESETS.map((preset) => (
+                      <DropdownMenuItem
+                        key={preset.id}
+                        onClick={() => handleThemeChange({ presetId: preset.id })}
+                        className="flex items-center gap-2"
+                      >
+                        <span
+                          className="h-4 w-4 rounded-full border border-border"
+                          style={{ background: `linear-gradient(135deg, ${preset.theme.palette.primary} 50%, ${preset.theme.palette.surface} 50%)` }}
+                        />
+                        {direction === 'rtl' ? preset.name.ar : preset.name.en}
+                      </DropdownMenuItem>
+                    ))}
+                    {project.language_mode !== 'english-only' && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel>{direction === 'rtl' ? 'الخط العربي' : 'Arabic typography'}</DropdownMenuLabel>
+                        {ARABIC_TYPOGRAPHY.map((option) => (
+                          <DropdownMenuItem
+                            key={option.id}
+                            onClick={() => handleThemeChange({ arabicTypographyId: option.id })}
+                            className="flex items-center justify-between gap-4"
+                          >
+                            {direction === 'rtl' ? option.name.ar : option.name.en}
+                            <span className="text-xs text-muted-foreground" dir="rtl">{option.typography.arabic}</span>
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel>{direction === 'rtl' ? 'الأرقام' : 'Numerals'}</DropdownMenuLabel>
+                        <DropdownMenuItem onClick={() => handleThemeChange({ numerals: 'western' })}>
+                          {direction === 'rtl' ? 'غربية (123)' : 'Western (123)'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleThemeChange({ numerals: 'eastern' })}>
+                          {direction === 'rtl' ? 'مشرقية (١٢٣)' : 'Eastern Arabic (١٢٣)'}
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+
                 <Button variant="soft" asChild>
                   <Link href={`/preview/${project.id}?version=${selectedVersion}`} className="flex items-center gap-2">
                     <Eye className="h-4 w-4" />
@@ -803,6 +1187,56 @@ export default function BuildChat() {
             ))
           )}
 
+          {planReview && !isGenerating && (
+            <div className={cn(
+              "flex gap-3",
+              direction === 'rtl' ? 'flex-row-reverse' : 'flex-row'
+            )}>
+              <div className="w-9 h-9 rounded-full bg-primary-soft flex items-center justify-center shrink-0">
+                <Sparkles className="h-4 w-4 text-primary" />
+              </div>
+              <PlanReview
+                key={planReview.message}
+                plan={planReview.plan}
+                architecture={planReview.architecture}
+                direction={direction}
+                onApprove={(plan) => handleSend({ reviewedPlan: plan })}
+                onCancel={() => setPlanReview(null)}
+              />
+            </div>
+          )}
+
+          {resumableRun && !isGenerating && (
+            <div className={cn(
+              "flex gap-3",
+              direction === 'rtl' ? 'flex-row-reverse' : 'flex-row'
+            )}>
+              <div className="w-9 h-9 rounded-full bg-primary-soft flex items-center justify-center shrink-0">
+                <Sparkles className="h-4 w-4 text-primary" />
+              </div>
+              <Card className="px-4 py-3 bg-primary-soft border-primary/10 flex-1 max-w-xl">
+                <p className="text-sm">
+                  {resumableRun.status === 'partial'
+                    ? (direction === 'rtl'
+                        ? `تعذر إنشاء ${resumableRun.failed_files.length} ملفات في آخر عملية إنشاء.`
+                        : `${resumableRun.failed_files.length} file(s) failed in the last generation.`)
+                    : (direction === 'rtl'
+                        ? 'توقفت آخر عملية إنشاء قبل اكتمالها. يمكنك المتابعة من حيث توقفت.'
+                        : 'The last generation stopped before it finished. You can pick up where it left off.')}
+                </p>
+                {resumableRun.failed_files.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {resumableRun.failed_files.map(f => f.path).join(', ')}
+                  </p>
+                )}
+                <Button size="sm" variant="soft" className="mt-3" onClick={() => handleSend({ resumeRunId: resumableRun.id })}>
+                  <RotateCcw className="h-3.5 w-3.5 me-1.5" />
+                  {direction === 'rtl' ? 'إعادة محاولة الملفات الفاشلة' : 'Retry failed'}
+                </Button>
+              </Card>
+            </div>
+          )}
+
           {isGenerating && (
             <div className={cn(
               "flex gap-3",
@@ -816,10 +1250,17 @@ export default function BuildChat() {
                   <div className="flex items-center gap-2">
                     <Loader2 className="h-4 w-4 animate-spin text-primary" />
                     <span className="text-sm text-primary font-medium">
-                      {direction === 'rtl' ? 'جاري الإنشاء...' : 'Generating your website...'}
+                      {progressLabel || (direction === 'rtl' ? 'جاري الإنشاء...' : 'Generating your website...')}
                     </span>
                   </div>
                   <Progress value={generationProgress} className="h-2" />
+                  {filesWritten.total > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {direction === 'rtl'
+                        ? `${filesWritten.done} من ${filesWritten.total} ملفات`
+                        : `${filesWritten.done} of ${filesWritten.total} files`}
+                    </p>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     {direction === 'rtl' 
                       ? 'يرجى الانتظار، هذا قد يستغرق دقيقة أو دقيقتين'
@@ -836,7 +1277,134 @@ export default function BuildChat() {
       {/* Input Area */}
       <footer className="sticky bottom-0 bg-background/80 backdrop-blur-md border-t border-border py-3 sm:py-4 px-4 sm:px-6">
         <div className="container mx-auto max-w-4xl">
+          {showAssets && project && (
+            <div className="mb-3">
+              <ProjectAssets projectId={project.id} direction={direction} disabled={isGenerating} />
+            </div>
+          )}
+          {showAccessibility && project && selectedVersion && (
+            <div className="mb-3">
+              <AccessibilityReport
+                projectId={project.id}
+                version={selectedVersion}
+                direction={direction}
+                disabled={isGenerating}
+                onFix={(fixRequest) => {
+                  setShowAccessibility(false);
+                  handleSend({ message: fixRequest });
+                }}
+              />
+            </div>
+          )}
+          {showSections && project && builds.length > 0 && (
+            <div className="mb-3">
+              <SectionsPanel
+                projectId={project.id}
+                version={builds[0].version}
+                direction={direction}
+                disabled={isGenerating || isUpdatingSections}
+                onReorder={(order) => handleSectionsChange({ order })}
+                onRegenerate={(componentName, instructions) => handleSectionsChange({
+                  regenerate: componentName,
+                  ...(instructions && { instructions }),
+                })}
+              />
+            </div>
+          )}
           <div className="flex gap-2 sm:gap-3">
+            <Button
+              variant={showAssets ? 'soft' : 'outline'}
+              className="h-12 flex items-center gap-2"
+              onClick={() => setShowAssets(prev => !prev)}
+              aria-pressed={showAssets}
+              title={direction === 'rtl' ? 'الشعار والصور والمستندات' : 'Logo, photos and documents'}
+            >
+              <ImagePlus className="h-4 w-4" />
+              <span className="hidden sm:inline">
+                {direction === 'rtl' ? 'الملفات' : 'Files'}
+              </span>
+            </Button>
+            {builds.length > 0 && (
+              <Button
+                variant={showAccessibility ? 'soft' : 'outline'}
+                className="h-12 flex items-center gap-2"
+                onClick={() => setShowAccessibility(prev => !prev)}
+                aria-pressed={showAccessibility}
+                title={direction === 'rtl' ? 'فحص إمكانية الوصول' : 'Accessibility check'}
+              >
+                <Accessibility className="h-4 w-4" />
+                <span className="hidden sm:inline">
+                  {direction === 'rtl' ? 'الوصول' : 'Accessibility'}
+                </span>
+              </Button>
+            )}
+            {builds.length > 0 && (
+              <Button
+                variant={showSections ? 'soft' : 'outline'}
+                className="h-12 flex items-center gap-2"
+                onClick={() => setShowSections(prev => !prev)}
+                aria-pressed={showSections}
+                title={direction === 'rtl' ? 'ترتيب الأقسام وإعادة إنشائها' : 'Reorder or regenerate sections'}
+              >
+                {isUpdatingSections ? <Loader2 className="h-4 w-4 animate-spin" /> : <ListOrdered className="h-4 w-4" />}
+                <span className="hidden sm:inline">
+                  {direction === 'rtl' ? 'الأقسام' : 'Sections'}
+                </span>
+              </Button>
+            )}
+            {builds.length === 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="h-12 flex items-center gap-2" disabled={isGenerating}>
+                    <Languages className="h-4 w-4" />
+                    <span className="hidden sm:inline">
+                      {siteLanguageOptions.find(option => option.value === siteLanguageMode)?.label}
+                    </span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {siteLanguageOptions.map((option) => (
+                    <DropdownMenuItem
+                      key={option.value}
+                      onClick={() => setSiteLanguageMode(option.value)}
+                      className={cn(siteLanguageMode === option.value && "bg-primary-soft")}
+                    >
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {builds.length === 0 && (
+              <Button
+                variant={siteDarkMode ? 'soft' : 'outline'}
+                className="h-12 flex items-center gap-2"
+                onClick={() => setSiteDarkMode(prev => !prev)}
+                disabled={isGenerating}
+                aria-pressed={siteDarkMode}
+                title={direction === 'rtl' ? 'إضافة زر للتبديل بين الوضع الفاتح والداكن' : 'Add a light/dark mode toggle to the site'}
+              >
+                <Moon className="h-4 w-4" />
+                <span className="hidden sm:inline">
+                  {direction === 'rtl' ? 'الوضع الداكن' : 'Dark mode'}
+                </span>
+              </Button>
+            )}
+            {builds.length === 0 && (
+              <Button
+                variant={reviewPlanFirst ? 'soft' : 'outline'}
+                className="h-12 flex items-center gap-2"
+                onClick={() => setReviewPlanFirst(prev => !prev)}
+                disabled={isGenerating}
+                aria-pressed={reviewPlanFirst}
+                title={direction === 'rtl' ? 'مراجعة الخطة قبل الإنشاء' : 'Review the plan before generating'}
+              >
+                <ClipboardList className="h-4 w-4" />
+                <span className="hidden sm:inline">
+                  {direction === 'rtl' ? 'مراجعة الخطة' : 'Review plan'}
+                </span>
+              </Button>
+            )}
             <Input
               ref={inputRef}
               value={inputValue}
@@ -846,10 +1414,24 @@ export default function BuildChat() {
               disabled={isGenerating}
               className="flex-1 h-12"
             />
+            {builds.length > 0 && (
+              <Button
+                variant="outline"
+                className="h-12 flex items-center gap-2"
+                onClick={() => handleSend({ regenerate: true })}
+                disabled={!inputValue.trim() || isGenerating}
+                title={direction === 'rtl'
+                  ? 'إعادة إنشاء الموقع بالكامل مع الحفاظ على الأقسام والعلامة والتعديلات السابقة'
+                  : 'Regenerate the whole site, keeping its sections, brand and earlier edits'}
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span className="hidden sm:inline">{t('build.newVersion')}</span>
+              </Button>
+            )}
             <Button 
               variant="hero" 
               size="lg"
-              onClick={handleSend}
+              onClick={() => handleSend()}
               disabled={!inputValue.trim() || isGenerating}
               className="px-6"
             >
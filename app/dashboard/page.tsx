@@ -11,10 +11,13 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { listProjects, createProject, deleteProject } from '@/lib/projectService';
-import { Plus, Folder, Clock, Trash2, Loader2, FolderOpen, Sparkles } from 'lucide-react';
+import { getProjectsUsage, UsageTotals } from '@/lib/usageService';
+import { getFormSubmissionCounts } from '@/lib/formService';
+import { Plus, Folder, Clock, Trash2, Loader2, FolderOpen, Sparkles, Coins, Inbox } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from '@/hooks/use-toast';
 import { SuccessAnimation } from '@/components/SuccessAnimation';
+import { FormSubmissions } from '@/components/FormSubmissions';
 import {
   Dialog,
   DialogContent,
@@ -48,6 +51,7 @@ export default function Dashboard() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [authTimeout, setAuthTimeout] = useState(false);
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
+  const [submissionsProject, setSubmissionsProject] = useState<{ id: string; name: string } | null>(null);
 
   // Timeout for auth loading (prevent infinite loading)
   useEffect(() => {
@@ -85,6 +89,21 @@ export default function Dashboard() {
     retryDelay: 1000,
   });
 
+  // LLM usage of the user's builds and failed or plan-only runs, per project and in total
+  const projectIds = projects.map(project => project.id);
+  const { data: usage } = useQuery({
+    queryKey: ['usage', user?.id, projectIds],
+    queryFn: () => getProjectsUsage(projectIds),
+    enabled: !!user && projectIds.length > 0,
+  });
+
+  // Contact and booking form submissions received by each project's site
+  const { data: submissionCounts } = useQuery({
+    queryKey: ['formSubmissionCounts', user?.id, projectIds],
+    queryFn: () => getFormSubmissionCounts(projectIds),
+    enabled: !!user && projectIds.length > 0,
+  });
+
   // Create project mutation
   const createMutation = useMutation({
     mutationFn: async (name: string) => {
@@ -157,6 +176,16 @@ export default function Dashboard() {
     }).format(date);
   };
 
+  const formatUsage = (totals: UsageTotals) => {
+    const tokens = new Intl.NumberFormat(language === 'ar' ? 'ar' : 'en', { notation: 'compact' }).format(totals.totalTokens);
+    const cost = new Intl.NumberFormat(language === 'ar' ? 'ar' : 'en', {
+      style: 'currency',
+      currency: 'USD',
+      maximumFractionDigits: totals.costUsd < 1 ? 4 : 2,
+    }).format(totals.costUsd);
+    return language === 'ar' ? `${tokens} رمز · ${cost}` : `${tokens} tokens · ${cost}`;
+  };
+
   // Show loading only if auth is loading and not timed out
   // Don't block on projectsLoading to allow navigation
   if (authLoading && !authTimeout && !user) {
@@ -207,6 +236,14 @@ export default function Dashboard() {
               <p className="text-muted-foreground">
                 {language === 'ar' ? 'أنشئ وأدر مشاريعك' : 'Create and manage your projects'}
               </p>
+              {usage && usage.total.builds + usage.total.unbuiltRuns > 0 && (
+                <p className="flex items-center gap-1.5 mt-2 text-sm text-muted-foreground">
+                  <Coins className="h-4 w-4" />
+                  {language === 'ar'
+                    ? `الاستخدام الإجمالي: ${formatUsage(usage.total)} عبر ${usage.total.builds} بناء${usage.total.unbuiltRuns > 0 ? ` و${usage.total.unbuiltRuns} تشغيل بلا بناء` : ''}`
+                    : `Total usage: ${formatUsage(usage.total)} across ${usage.total.builds} builds${usage.total.unbuiltRuns > 0 ? ` and ${usage.total.unbuiltRuns} runs without a build` : ''}`}
+                </p>
+              )}
             </div>
             
             <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -327,6 +364,26 @@ export default function Dashboard() {
                             <Clock className="h-3.5 w-3.5" />
                             {formatDate(project.updated_at)}
                           </span>
+                          {usage?.projects[project.id] && (
+                            <span className="flex items-center gap-1.5">
+                              <Coins className="h-3.5 w-3.5" />
+                              {formatUsage(usage.projects[project.id])}
+                            </span>
+                          )}
+                          {!!submissionCounts?.[project.id] && (
+                            <button
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                setSubmissionsProject({ id: project.id, name: project.name });
+                              }}
+                              className="flex items-center gap-1.5 hover:text-primary transition-colors"
+                              title={language === 'ar' ? 'رسائل النماذج' : 'Form submissions'}
+                            >
+                              <Inbox className="h-3.5 w-3.5" />
+                              {submissionCounts[project.id]}
+                            </button>
+                          )}
                           {/* TODO: Add builds count when builds table is integrated */}
                         </CardDescription>
                       </CardHeader>
@@ -339,6 +396,16 @@ export default function Dashboard() {
         </div>
       </main>
       </div>
+
+      {submissionsProject && (
+        <FormSubmissions
+          projectId={submissionsProject.id}
+          projectName={submissionsProject.name}
+          direction={language === 'ar' ? 'rtl' : 'ltr'}
+          open={!!submissionsProject}
+          onOpenChange={(open) => !open && setSubmissionsProject(null)}
+        />
+      )}
     </>
   );
 }
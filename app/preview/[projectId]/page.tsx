@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useQuery } from '@tanstack/react-query';
@@ -9,6 +9,8 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import { Button } from '@/components/ui/button';
 import { getProjectById } from '@/lib/projectService';
 import { getBuildByVersion, getBuildsByProject } from '@/lib/buildService';
+import { supabase } from '@/lib/supabaseClient';
+import { DARK_MODE_PATH, PREVIEW_COLOR_SCHEME_MESSAGE } from '@/lib/siteDarkMode';
 import { 
   ArrowLeft, 
   Download, 
@@ -18,7 +20,10 @@ import {
   Monitor,
   Tablet,
   Smartphone,
-  MessageSquare
+  MessageSquare,
+  Sun,
+  Moon,
+  SunMoon
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from '@/hooks/use-toast';
@@ -32,6 +37,8 @@ import {
 import { Logo } from '@/components/Logo';
 
 type ViewportSize = 'desktop' | 'tablet' | 'mobile';
+// 'site' leaves the color scheme to the site itself (its toggle or the system setting)
+type ColorScheme = 'site' | 'light' | 'dark';
 
 const viewportSizes: Record<ViewportSize, { width: string; icon: React.ElementType }> = {
   desktop: { width: '100%', icon: Monitor },
@@ -39,6 +46,20 @@ const viewportSizes: Record<ViewportSize, { width: string; icon: React.ElementTy
   mobile: { width: '375px', icon: Smartphone },
 };
 
+const colorSchemes: Record<ColorScheme, React.ElementType> = {
+  site: SunMoon,
+  light: Sun,
+  dark: Moon,
+};
+
+// Force light or dark mode in a site with a dark mode toggle (see siteDarkMode)
+function sendColorScheme(iframe: HTMLIFrameElement | null, scheme: ColorScheme) {
+  iframe?.contentWindow?.postMessage(
+    { type: PREVIEW_COLOR_SCHEME_MESSAGE, scheme: scheme === 'site' ? null : scheme },
+    '*'
+  );
+}
+
 export default function Preview() {
   const params = useParams();
   const projectId = params.projectId as string;
@@ -65,6 +86,8 @@ export default function Preview() {
   const [selectedVersion, setSelectedVersion] = useState<number>(1);
   const [viewport, setViewport] = useState<ViewportSize>('desktop');
   const [isDownloading, setIsDownloading] = useState(false);
+  const [colorScheme, setColorScheme] = useState<ColorScheme>('site');
+  const iframeRef = useRef<HTMLIFrameElement>(null);
 
   // Auth check
   useEffect(() => {
@@ -130,6 +153,11 @@ export default function Preview() {
     }
   }, [builds, versionParam, buildsLoading, projectId, router, project, selectedVersion]);
 
+  // Sent again whenever the preview reloads (onLoad below)
+  useEffect(() => {
+    sendColorScheme(iframeRef.current, colorScheme);
+  }, [colorScheme]);
+
   // Redirect if project not found
   useEffect(() => {
     if (projectError && !projectLoading) {
@@ -143,8 +171,12 @@ export default function Preview() {
     setIsDownloading(true);
     
     try {
-      // Download ZIP from API
-      const response = await fetch(`/api/download/${projectId}?version=${selectedVersion}`);
+      // Download ZIP from API (the session lets it include the project's uploaded assets)
+      const { data: { session } } = await supabase.auth.getSession();
+      const accessToken = session?.access_token;
+      const response = await fetch(`/api/download/${projectId}?version=${selectedVersion}`, {
+        headers: accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {},
+      });
       
       if (!response.ok) {
         throw new Error('Failed to download project');
@@ -262,6 +294,37 @@ export default function Preview() {
             })}
           </div>
 
+          {/* Color scheme toggles (sites with dark mode) */}
+          {currentBuild.files?.[DARK_MODE_PATH] !== undefined && (
+            <div className="flex items-center gap-1 p-1 bg-secondary rounded-lg">
+              {(Object.keys(colorSchemes) as ColorScheme[]).map((scheme) => {
+                const Icon = colorSchemes[scheme];
+                const label = scheme === 'site'
+                  ? (direction === 'rtl' ? 'حسب الموقع' : 'Site setting')
+                  : scheme === 'light'
+                    ? (direction === 'rtl' ? 'فاتح' : 'Light')
+                    : (direction === 'rtl' ? 'داكن' : 'Dark');
+                return (
+                  <button
+                    key={scheme}
+                    onClick={() => setColorScheme(scheme)}
+                    aria-pressed={colorScheme === scheme}
+                    aria-label={label}
+                    title={label}
+                    className={cn(
+                      "p-2 rounded-md transition-colors",
+                      colorScheme === scheme
+                        ? "bg-background shadow-sm text-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* Version selector */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -323,6 +386,8 @@ export default function Preview() {
           }}
         >
           <iframe
+            ref={iframeRef}
+            onLoad={() => sendColorScheme(iframeRef.current, colorScheme)}
             srcDoc={currentBuild.preview_html || ''}
             title="Website Preview"
             className="w-full h-full border-0"
@@ -0,0 +1,118 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircle2, Loader2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { supabase } from '@/lib/supabaseClient';
+import { cn } from '@/lib/utils';
+import type { AccessibilityReport as Report, AccessibilityRule } from '@/lib/accessibilityChecker';
+
+interface AccessibilityReportProps {
+  projectId: string;
+  version: number;
+  direction: 'ltr' | 'rtl';
+  disabled?: boolean;
+  onFix: (fixRequest: string) => void;
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+/**
+ * Accessibility audit of a build, with a one-click fix through the Editor Agent
+ */
+export function AccessibilityReport({ projectId, version, direction, disabled, onFix }: AccessibilityReportProps) {
+  const isRtl = direction === 'rtl';
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['accessibility', projectId, version],
+    queryFn: async (): Promise<{ report: Report; fixRequest: string | null }> => {
+      const response = await fetch(`/api/accessibility?projectId=${projectId}&version=${version}`, { headers: await authHeaders() });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result) {
+        throw new Error(result?.message || result?.error || 'Failed to check accessibility');
+      }
+      return { report: result.report, fixRequest: result.fixRequest };
+    },
+    enabled: !!projectId && version > 0,
+  });
+
+  const ruleLabels: Record<AccessibilityRule, string> = {
+    img_alt: isRtl ? 'نص بديل للصور' : 'Image alt text',
+    heading_order: isRtl ? 'ترتيب العناوين' : 'Heading order',
+    input_label: isRtl ? 'تسميات الحقول' : 'Form labels',
+    click_handler: isRtl ? 'عناصر قابلة للنقر' : 'Clickable elements',
+    contrast: isRtl ? 'تباين الألوان' : 'Color contrast',
+  };
+
+  const report = data?.report;
+  const scoreColor = !report ? '' : report.score >= 90 ? 'text-green-600' : report.score >= 70 ? 'text-amber-600' : 'text-destructive';
+
+  return (
+    <Card className="px-4 py-4 bg-primary-soft border-primary/10 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium">
+            {isRtl ? `إمكانية الوصول - الإصدار ${version}` : `Accessibility - version ${version}`}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {isRtl
+              ? 'فحص الصور والعناوين والنماذج والعناصر القابلة للنقر وتباين الألوان'
+              : 'Checks images, headings, forms, clickable elements and color contrast'}
+          </p>
+        </div>
+        {report && (
+          <p className={cn('text-2xl font-bold tabular-nums', scoreColor)} aria-label={isRtl ? 'النتيجة' : 'Score'}>
+            {report.score}
+            <span className="text-xs font-normal text-muted-foreground">/100</span>
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : error || !report ? (
+        <p className="text-xs text-destructive">
+          {error instanceof Error ? error.message : (isRtl ? 'تعذر فحص الموقع' : 'Could not check the site')}
+        </p>
+      ) : report.issues.length === 0 ? (
+        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+          <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+          {isRtl ? 'لم يتم العثور على مشاكل' : 'No issues found'}
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {(Object.keys(ruleLabels) as AccessibilityRule[]).filter(rule => report.counts[rule] > 0).map(rule => (
+              <span key={rule} className="rounded-full border border-border bg-background px-2 py-0.5">
+                {ruleLabels[rule]}: {report.counts[rule]}
+              </span>
+            ))}
+          </div>
+          <ul className="max-h-48 overflow-y-auto space-y-1.5 text-xs">
+            {report.issues.map((issue, index) => (
+              <li key={`${issue.file}:${issue.line}:${issue.column}:${index}`} className="flex gap-2">
+                <span
+                  className={cn('font-mono shrink-0', issue.severity === 'error' ? 'text-destructive' : 'text-amber-600')}
+                  dir="ltr"
+                >
+                  {issue.file.replace(/^src\//, '')}:{issue.line}
+                </span>
+                <span className="text-muted-foreground" dir="ltr">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+          {data?.fixRequest && (
+            <Button variant="hero" size="sm" onClick={() => onFix(data.fixRequest as string)} disabled={disabled}>
+              <Wand2 className="h-3.5 w-3.5 me-1.5" />
+              {isRtl ? 'إصلاح المشاكل' : 'Fix issues'}
+            </Button>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Download, Inbox, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formSubmissionsToCsv, getFormSubmissions } from '@/lib/formService';
+
+interface FormSubmissionsProps {
+  projectId: string;
+  projectName: string;
+  direction: 'ltr' | 'rtl';
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Contact and booking form submissions of a project's site, with CSV export
+ */
+export function FormSubmissions({ projectId, projectName, direction, open, onOpenChange }: FormSubmissionsProps) {
+  const isRtl = direction === 'rtl';
+
+  const { data: submissions = [], isLoading } = useQuery({
+    queryKey: ['formSubmissions', projectId],
+    queryFn: () => getFormSubmissions(projectId),
+    enabled: open && !!projectId,
+  });
+
+  const handleExport = () => {
+    const blob = new Blob([formSubmissionsToCsv(submissions)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${projectName.trim().replace(/[\s/\\]+/g, '-') || 'project'}-submissions.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" dir={direction}>
+        <DialogHeader>
+          <DialogTitle>{isRtl ? 'رسائل النماذج' : 'Form submissions'}</DialogTitle>
+          <DialogDescription>
+            {isRtl
+              ? `ما أرسله زوار ${projectName} عبر نماذج التواصل والحجز`
+              : `What visitors sent through the contact and booking forms of ${projectName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3">
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+          ) : submissions.length === 0 ? (
+            <div className="py-10 text-center text-muted-foreground">
+              <Inbox className="h-8 w-8 mx-auto mb-3" />
+              <p className="text-sm">{isRtl ? 'لا توجد رسائل بعد' : 'No submissions yet'}</p>
+            </div>
+          ) : (
+            submissions.map(submission => (
+              <div key={submission.id} className="rounded-lg border border-border p-4">
+                <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
+                  <span className="font-medium text-foreground">{submission.form}</span>
+                  <span>{new Date(submission.created_at).toLocaleString(isRtl ? 'ar' : 'en')}</span>
+                </div>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  {Object.entries(submission.data || {}).map(([name, value]) => (
+                    <div key={name} className="contents">
+                      <dt className="text-muted-foreground">{name}</dt>
+                      <dd className="whitespace-pre-wrap break-words">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleExport} disabled={submissions.length === 0}>
+            <Download className="h-4 w-4 me-2" />
+            {isRtl ? 'تصدير CSV' : 'Export CSV'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Languages, Moon, Plus, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import type { GenerationPlan, PlannerLanguageMode } from '@/lib/plannerAgent';
+import type { ArchitecturePlan } from '@/lib/architectAgent';
+
+interface PlanReviewProps {
+  plan: GenerationPlan;
+  architecture: ArchitecturePlan;
+  direction: 'ltr' | 'rtl';
+  disabled?: boolean;
+  onApprove: (plan: GenerationPlan) => void;
+  onCancel: () => void;
+}
+
+interface SectionDraft {
+  id: number;
+  original: string | null; // Section name in the planner's plan (null for added sections)
+  name: string;
+}
+
+/**
+ * Review step of a two-phase generation: the user adjusts the planner's sections,
+ * industry, language mode and dark mode before the Coder runs
+ */
+export function PlanReview({ plan, architecture, direction, disabled, onApprove, onCancel }: PlanReviewProps) {
+  const isRtl = direction === 'rtl';
+  const [industry, setIndustry] = useState(plan.industry);
+  const [languageMode, setLanguageMode] = useState<PlannerLanguageMode>(plan.languageMode);
+  const [darkMode, setDarkMode] = useState(plan.darkMode === true);
+  const [sections, setSections] = useState<SectionDraft[]>(
+    plan.requiredSections.map((name, id) => ({ id, original: name, name }))
+  );
+  const [newSection, setNewSection] = useState('');
+
+  const languageOptions: Array<{ value: PlannerLanguageMode; label: string }> = [
+    { value: 'BILINGUAL', label: isRtl ? 'متعدد اللغات' : 'Multilingual' },
+    { value: 'ARABIC_ONLY', label: isRtl ? 'عربي فقط' : 'Arabic only' },
+    { value: 'ENGLISH_ONLY', label: isRtl ? 'إنجليزي فقط' : 'English only' },
+  ];
+
+  const moveSection = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    const next = [...sections];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSections(next);
+  };
+
+  const addSection = () => {
+    const name = newSection.trim();
+    if (!name) return;
+    setSections(prev => [...prev, { id: Math.max(-1, ...prev.map(s => s.id)) + 1, original: null, name }]);
+    setNewSection('');
+  };
+
+  const handleApprove = () => {
+    // Renamed sections keep their place on multi-page sites
+    const renames = new Map(
+      sections.filter(s => s.original !== null).map(s => [s.original as string, s.name.trim().toLowerCase()])
+    );
+    onApprove({
+      ...plan,
+      industry: industry.trim() || plan.industry,
+      languageMode,
+      darkMode,
+      requiredSections: sections.map(s => s.name.trim().toLowerCase()).filter(Boolean),
+      pages: plan.pages?.map(page => ({
+        ...page,
+        sections: page.sections.map(section => renames.get(section) ?? section),
+      })),
+    });
+  };
+
+  const validSections = sections.filter(s => s.name.trim()).length;
+
+  return (
+    <Card className="px-4 py-4 bg-primary-soft border-primary/10 flex-1 max-w-xl space-y-4">
+      <div>
+        <p className="text-sm font-medium">
+          {isRtl ? 'راجع خطة موقعك قبل الإنشاء' : 'Review your site plan before generating'}
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          {isRtl
+            ? `${architecture.tasks.filter(t => t.priority === 'required').length} ملفات مخططة`
+            : `${architecture.tasks.filter(t => t.priority === 'required').length} files planned`}
+          {architecture.template && (isRtl
+            ? ` · قالب ${architecture.template.id}`
+            : ` · ${architecture.template.id} template`)}
+          {architecture.pages.length > 0 && (isRtl
+            ? ` · الصفحات: ${architecture.pages.map(p => p.name).join('، ')}`
+            : ` · Pages: ${architecture.pages.map(p => p.name).join(', ')}`)}
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={industry}
+          onChange={(e) => setIndustry(e.target.value)}
+          placeholder={isRtl ? 'المجال' : 'Industry'}
+          disabled={disabled}
+          className="flex-1 h-9"
+        />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-9 flex items-center gap-2" disabled={disabled}>
+              <Languages className="h-4 w-4" />
+              {languageOptions.find(option => option.value === languageMode)?.label}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {languageOptions.map((option) => (
+              <DropdownMenuItem
+                key={option.value}
+                onClick={() => setLanguageMode(option.value)}
+                className={cn(languageMode === option.value && "bg-primary-soft")}
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant={darkMode ? 'soft' : 'outline'}
+          size="sm"
+          className="h-9 flex items-center gap-2"
+          onClick={() => setDarkMode(prev => !prev)}
+          disabled={disabled}
+          aria-pressed={darkMode}
+        >
+          <Moon className="h-4 w-4" />
+          {isRtl ? 'الوضع الداكن' : 'Dark mode'}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">
+          {isRtl ? 'الأقسام' : 'Sections'}
+        </p>
+        {sections.map((section, index) => (
+          <div key={section.id} className="flex items-center gap-1">
+            <Input
+              value={section.name}
+              onChange={(e) => setSections(prev => prev.map(s => s.id === section.id ? { ...s, name: e.target.value } : s))}
+              disabled={disabled}
+              className="flex-1 h-8 text-sm"
+            />
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={disabled || index === 0} onClick={() => moveSection(index, -1)}>
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={disabled || index === sections.length - 1} onClick={() => moveSection(index, 1)}>
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={disabled || sections.length === 1}
+              onClick={() => setSections(prev => prev.filter(s => s.id !== section.id))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          <Input
+            value={newSection}
+            onChange={(e) => setNewSection(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addSection()}
+            placeholder={isRtl ? 'أضف قسماً بالإنجليزية (مثل: faq)' : 'Add a section (e.g. FAQ)'}
+            disabled={disabled}
+            className="flex-1 h-8 text-sm"
+          />
+          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={disabled || !newSection.trim()} onClick={addSection}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="hero" size="sm" className="flex-1" disabled={disabled || validSections === 0} onClick={handleApprove}>
+          <Sparkles className="h-3.5 w-3.5 me-1.5" />
+          {isRtl ? 'إنشاء الموقع' : 'Generate site'}
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled} onClick={onCancel}>
+          {isRtl ? 'إلغاء' : 'Cancel'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
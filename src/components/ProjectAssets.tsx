@@ -0,0 +1,194 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { FileText, Loader2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { supabase } from '@/lib/supabaseClient';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import type { AssetKind, ProjectAsset } from '@/lib/assetService';
+
+interface ProjectAssetsProps {
+  projectId: string;
+  direction: 'ltr' | 'rtl';
+  disabled?: boolean;
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+/**
+ * Logos, photos and documents of a project - the next generation uses them
+ */
+export function ProjectAssets({ projectId, direction, disabled }: ProjectAssetsProps) {
+  const isRtl = direction === 'rtl';
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<AssetKind>('image');
+  const [isUploading, setIsUploading] = useState(false);
+  const [deletingPath, setDeletingPath] = useState<string | null>(null);
+
+  const { data: assets = [], isLoading } = useQuery({
+    queryKey: ['assets', projectId],
+    queryFn: async (): Promise<ProjectAsset[]> => {
+      const response = await fetch(`/api/assets?projectId=${projectId}`, { headers: await authHeaders() });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result) {
+        throw new Error(result?.error || 'Failed to load assets');
+      }
+      return result.assets;
+    },
+    enabled: !!projectId,
+  });
+
+  const kindOptions: Array<{ value: AssetKind; label: string; accept: string }> = [
+    { value: 'logo', label: isRtl ? 'شعار' : 'Logo', accept: 'image/png,image/jpeg,image/webp,image/svg+xml' },
+    { value: 'image', label: isRtl ? 'صور' : 'Photos', accept: 'image/png,image/jpeg,image/webp,image/gif' },
+    { value: 'document', label: isRtl ? 'مستندات PDF' : 'PDF documents', accept: 'application/pdf' },
+  ];
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        const formData = new FormData();
+        formData.append('projectId', projectId);
+        formData.append('kind', kind);
+        formData.append('file', file);
+
+        const response = await fetch('/api/assets', { method: 'POST', headers: await authHeaders(), body: formData });
+        const result = await response.json().catch(() => null);
+        if (!response.ok || !result) {
+          throw new Error(`${file.name}: ${result?.message || result?.error || (isRtl ? 'فشل الرفع' : 'Upload failed')}`);
+        }
+      }
+    } catch (error) {
+      toast({
+        title: isRtl ? 'تعذر رفع الملف' : 'Could not upload file',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      queryClient.invalidateQueries({ queryKey: ['assets', projectId] });
+    }
+  };
+
+  const handleDelete = async (asset: ProjectAsset) => {
+    setDeletingPath(asset.filePath);
+    try {
+      const response = await fetch('/api/assets', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ projectId, path: asset.filePath }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.message || result?.error || (isRtl ? 'فشل الحذف' : 'Delete failed'));
+      }
+    } catch (error) {
+      toast({
+        title: isRtl ? 'تعذر حذف الملف' : 'Could not delete file',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingPath(null);
+      queryClient.invalidateQueries({ queryKey: ['assets', projectId] });
+    }
+  };
+
+  return (
+    <Card className="px-4 py-4 bg-primary-soft border-primary/10 space-y-3">
+      <div>
+        <p className="text-sm font-medium">{isRtl ? 'ملفات المشروع' : 'Project files'}</p>
+        <p className="text-xs text-muted-foreground mt-1">
+          {isRtl
+            ? 'ارفع شعارك وصورك وقائمة الطعام (PDF) - سيستخدمها الإنشاء التالي'
+            : 'Upload your logo, photos and menu (PDF) - the next generation uses them'}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {kindOptions.map(option => (
+          <Button
+            key={option.value}
+            variant={kind === option.value ? 'soft' : 'outline'}
+            size="sm"
+            onClick={() => setKind(option.value)}
+            disabled={disabled || isUploading}
+            aria-pressed={kind === option.value}
+          >
+            {option.label}
+          </Button>
+        ))}
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          accept={kindOptions.find(option => option.value === kind)?.accept}
+          multiple={kind !== 'logo'}
+          onChange={(e) => handleUpload(e.target.files)}
+        />
+        <Button
+          variant="hero"
+          size="sm"
+          className="ms-auto"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isUploading}
+        >
+          {isUploading ? <Loader2 className="h-3.5 w-3.5 me-1.5 animate-spin" /> : <Upload className="h-3.5 w-3.5 me-1.5" />}
+          {isRtl ? 'رفع' : 'Upload'}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : assets.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{isRtl ? 'لا توجد ملفات بعد' : 'No files yet'}</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+          {assets.map(asset => (
+            <div key={asset.filePath} className="relative group rounded-md border border-border bg-background overflow-hidden">
+              {asset.kind === 'document' ? (
+                <div className="h-16 flex items-center justify-center">
+                  <FileText className="h-6 w-6 text-muted-foreground" />
+                </div>
+              ) : (
+                // Storage URLs are served as they are (no image optimization)
+                <Image
+                  src={asset.url}
+                  alt={asset.name}
+                  width={160}
+                  height={64}
+                  unoptimized
+                  className={cn("h-16 w-full", asset.kind === 'logo' ? 'object-contain p-1' : 'object-cover')}
+                />
+              )}
+              <p className="text-[10px] px-1 py-0.5 truncate" title={asset.name}>
+                {asset.kind === 'logo' ? `${isRtl ? 'شعار' : 'Logo'} · ` : ''}{asset.name}
+              </p>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute top-0.5 end-0.5 h-6 w-6 bg-background/80"
+                disabled={disabled || deletingPath === asset.filePath}
+                onClick={() => handleDelete(asset)}
+                aria-label={isRtl ? 'حذف' : 'Delete'}
+              >
+                {deletingPath === asset.filePath ? <Loader2 className="h-3 w-3 animate-spin" /> : <X className="h-3 w-3" />}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
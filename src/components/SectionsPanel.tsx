@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronDown, ChevronUp, GripVertical, Loader2, Lock, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/lib/supabaseClient';
+import { cn } from '@/lib/utils';
+import type { PageSection } from '@/lib/siteSections';
+
+interface SectionsPanelProps {
+  projectId: string;
+  version: number;
+  direction: 'ltr' | 'rtl';
+  disabled?: boolean;
+  onReorder: (order: string[]) => void;
+  onRegenerate: (componentName: string, instructions: string) => void;
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+// "FeaturedProducts" -> "Featured Products"
+function sectionLabel(componentName: string): string {
+  return componentName.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+}
+
+/**
+ * Sections of a build: dragged (or moved with the arrows) into a new order on single-page
+ * sites, and regenerated one at a time with optional instructions
+ */
+export function SectionsPanel({ projectId, version, direction, disabled, onReorder, onRegenerate }: SectionsPanelProps) {
+  const isRtl = direction === 'rtl';
+  const [sections, setSections] = useState<PageSection[]>([]);
+  const [draggedName, setDraggedName] = useState<string | null>(null);
+  const [instructions, setInstructions] = useState('');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['sections', projectId, version],
+    queryFn: async (): Promise<{ reorderable: boolean; sections: PageSection[]; components: string[] }> => {
+      const response = await fetch(`/api/sections?projectId=${projectId}&version=${version}`, { headers: await authHeaders() });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result) {
+        throw new Error(result?.message || result?.error || 'Failed to load sections');
+      }
+      return { reorderable: result.reorderable, sections: result.sections, components: result.components || [] };
+    },
+    enabled: !!projectId && version > 0,
+  });
+
+  // Start over from the build's order whenever another version is selected
+  useEffect(() => {
+    setSections(data?.sections || []);
+  }, [data]);
+
+  const movable = sections.filter(section => !section.pinned).map(section => section.componentName);
+  const original = (data?.sections || []).filter(section => !section.pinned).map(section => section.componentName);
+  const isChanged = movable.some((name, index) => name !== original[index]);
+
+  // Move a section to the slot of another one; pinned sections never move
+  const moveSection = (name: string, targetName: string) => {
+    if (name === targetName) return;
+    setSections(prev => {
+      const from = prev.findIndex(section => section.componentName === name);
+      const to = prev.findIndex(section => section.componentName === targetName);
+      if (from === -1 || to === -1 || prev[to].pinned) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const moveBy = (name: string, offset: number) => {
+    const index = movable.indexOf(name) + offset;
+    if (index >= 0 && index < movable.length) {
+      moveSection(name, movable[index]);
+    }
+  };
+
+  const regenerateButton = (componentName: string) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-7 w-7"
+      disabled={disabled}
+      onClick={() => {
+        onRegenerate(componentName, instructions.trim());
+        setInstructions('');
+      }}
+      title={isRtl ? `إعادة إنشاء ${sectionLabel(componentName)}` : `Regenerate ${sectionLabel(componentName)}`}
+      aria-label={isRtl ? `إعادة إنشاء ${sectionLabel(componentName)}` : `Regenerate ${sectionLabel(componentName)}`}
+    >
+      <RefreshCw className="h-3.5 w-3.5" />
+    </Button>
+  );
+
+  const instructionsInput = (
+    <Input
+      value={instructions}
+      onChange={(e) => setInstructions(e.target.value)}
+      maxLength={2000}
+      disabled={disabled}
+      placeholder={isRtl ? 'ما الذي تريد تغييره عند إعادة إنشاء قسم؟ (اختياري)' : 'What should change when you regenerate a section? (optional)'}
+      className="h-8 text-sm bg-background"
+    />
+  );
+
+  return (
+    <Card className="px-4 py-4 bg-primary-soft border-primary/10 space-y-3">
+      <div>
+        <p className="text-sm font-medium">
+          {isRtl ? `الأقسام - الإصدار ${version}` : `Sections - version ${version}`}
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          {isRtl
+            ? 'اسحب الأقسام لترتيبها، وستتبعها روابط القائمة. أعد إنشاء قسم واحد دون تغيير بقية الموقع'
+            : 'Drag the sections into a new order - the navbar links follow. Regenerate one section without touching the rest'}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : error || !data ? (
+        <p className="text-xs text-destructive">
+          {error instanceof Error ? error.message : (isRtl ? 'تعذر تحميل الأقسام' : 'Could not load the sections')}
+        </p>
+      ) : !data.reorderable ? (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {isRtl
+              ? 'الموقع متعدد الصفحات - اطلب تغيير ترتيب أقسام كل صفحة في المحادثة'
+              : 'This is a multi-page site - ask for the section order of each page in the chat'}
+          </p>
+          <ul className="flex flex-wrap gap-1.5">
+            {data.components.map(componentName => (
+              <li key={componentName} className="flex items-center gap-1 rounded-md border border-border bg-background ps-3 text-sm">
+                {sectionLabel(componentName)}
+                {regenerateButton(componentName)}
+              </li>
+            ))}
+          </ul>
+          {instructionsInput}
+        </>
+      ) : (
+        <>
+          <ul className="space-y-1.5">
+            {sections.map(section => section.pinned ? (
+              <li
+                key={section.componentName}
+                className="flex items-center gap-2 rounded-md border border-dashed border-border px-3 py-1 text-sm text-muted-foreground"
+              >
+                <Lock className="h-3.5 w-3.5" />
+                <span className="flex-1">{sectionLabel(section.componentName)}</span>
+                {regenerateButton(section.componentName)}
+              </li>
+            ) : (
+              <li
+                key={section.componentName}
+                draggable={!disabled}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedName(section.componentName);
+                }}
+                onDragOver={(e) => {
+                  if (!draggedName) return;
+                  e.preventDefault();
+                  moveSection(draggedName, section.componentName);
+                }}
+                onDrop={(e) => e.preventDefault()}
+                onDragEnd={() => setDraggedName(null)}
+                className={cn(
+                  'flex items-center gap-2 rounded-md border border-border bg-background px-3 py-1 text-sm',
+                  !disabled && 'cursor-grab',
+                  draggedName === section.componentName && 'opacity-50'
+                )}
+              >
+                <GripVertical className="h-4 w-4 text-muted-foreground" />
+                <span className="flex-1">{sectionLabel(section.componentName)}</span>
+                <span className="font-mono text-xs text-muted-foreground" dir="ltr">#{section.id}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={disabled || movable.indexOf(section.componentName) === 0}
+                  onClick={() => moveBy(section.componentName, -1)}
+                  aria-label={isRtl ? 'تحريك لأعلى' : 'Move up'}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={disabled || movable.indexOf(section.componentName) === movable.length - 1}
+                  onClick={() => moveBy(section.componentName, 1)}
+                  aria-label={isRtl ? 'تحريك لأسفل' : 'Move down'}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                {regenerateButton(section.componentName)}
+              </li>
+            ))}
+          </ul>
+          {instructionsInput}
+          <div className="flex gap-2">
+            <Button variant="hero" size="sm" onClick={() => onReorder(movable)} disabled={disabled || !isChanged}>
+              {isRtl ? 'تطبيق الترتيب' : 'Apply order'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSections(data.sections)} disabled={disabled || !isChanged}>
+              {isRtl ? 'إعادة تعيين' : 'Reset'}
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
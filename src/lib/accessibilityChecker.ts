@@ -0,0 +1,333 @@
+/**
+ * Accessibility Checker - Static accessibility audit of a generated site's JSX
+ *
+ * Parses every component and page of a build and reports, with file and line:
+ *
+ * - img_alt: <img> without an alt attribute (alt="" is fine for decorative images)
+ * - heading_order: a heading that skips a level (h2 followed by h4)
+ * - input_label: an input, select or textarea with no label, aria-label or aria-labelledby
+ * - click_handler: onClick on an element that is not a button or link, without a role
+ *   and a keyboard handler
+ * - contrast: a text/background Tailwind color pair on one element below WCAG AA
+ *   (4.5:1, or 3:1 for large text), including the site's theme tokens
+ *
+ * The score is the share of checked elements that passed. Nothing is fixed here:
+ * describeAccessibilityIssues() turns the report into an Editor Agent request.
+ */
+
+import { parse } from '@babel/parser';
+import tailwindColors from 'tailwindcss/colors';
+import type { ProjectFiles } from './buildService';
+import { THEME_PATH, getThemeTailwindExtend, parseThemeFile } from './siteTheme';
+
+export type AccessibilityRule = 'img_alt' | 'heading_order' | 'input_label' | 'click_handler' | 'contrast';
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  file: string;
+  line: number;
+  column: number;
+  element: string; // Tag name, e.g. "img"
+  message: string;
+}
+
+export interface AccessibilityReport {
+  score: number;        // 0-100, share of checked elements that passed
+  checked: number;      // Elements the rules looked at
+  filesChecked: number;
+  issues: AccessibilityIssue[];
+  counts: Record<AccessibilityRule, number>;
+}
+
+/**
+ * Minimal view of a Babel AST node - only the fields the audit reads
+ */
+interface AstNode {
+  type: string;
+  name?: AstNode | string;
+  value?: AstNode | string;
+  expression?: AstNode;
+  openingElement?: AstNode;
+  attributes?: AstNode[];
+  children?: AstNode[];
+  quasis?: Array<{ value: { cooked?: string } }>;
+  consequent?: AstNode;
+  alternate?: AstNode;
+  left?: AstNode;
+  right?: AstNode;
+  loc?: { start: { line: number; column: number } };
+}
+
+function isAstNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as AstNode).type === 'string';
+}
+
+const RULE_SEVERITY: Record<AccessibilityRule, AccessibilityIssue['severity']> = {
+  img_alt: 'error',
+  heading_order: 'warning',
+  input_label: 'error',
+  click_handler: 'error',
+  contrast: 'error',
+};
+
+const INTERACTIVE_ELEMENTS = ['a', 'button', 'input', 'select', 'textarea', 'summary', 'option', 'label', 'details'];
+const FORM_FIELDS = ['input', 'select', 'textarea'];
+const UNLABELED_INPUT_TYPES = ['hidden', 'submit', 'button', 'reset', 'image'];
+const KEYBOARD_HANDLERS = ['onKeyDown', 'onKeyUp', 'onKeyPress'];
+// Tailwind text sizes that count as large text (3:1 is enough)
+const LARGE_TEXT_SIZES = ['text-2xl', 'text-3xl', 'text-4xl', 'text-5xl', 'text-6xl', 'text-7xl', 'text-8xl', 'text-9xl'];
+
+const AUDITED_FILE = /^src\/(components|pages)\/.+\.jsx$|^src\/App\.jsx$/;
+
+function getTagName(element: AstNode): string | null {
+  const name = element.openingElement?.name;
+  return isAstNode(name) && name.type === 'JSXIdentifier' && typeof name.name === 'string' ? name.name : null;
+}
+
+function getAttribute(element: AstNode, attributeName: string): AstNode | null {
+  return (element.openingElement?.attributes || []).find(attribute =>
+    attribute.type === 'JSXAttribute' && isAstNode(attribute.name) && attribute.name.name === attributeName
+  ) || null;
+}
+
+/**
+ * Static text of an attribute value - "..." or {'...'} or the static parts of {`...`}
+ * Returns '' for an attribute without a value, null for a dynamic one
+ */
+function getStaticValue(attribute: AstNode | null): string | null {
+  if (!attribute) return null;
+  const value = attribute.value;
+  if (value === null || value === undefined) return '';
+  if (!isAstNode(value)) return null;
+  if (value.type === 'StringLiteral') return value.value as string;
+  if (value.type === 'JSXExpressionContainer' && value.expression) {
+    return getStaticText(value.expression);
+  }
+  return null;
+}
+
+function getStaticText(node: AstNode): string | null {
+  if (node.type === 'StringLiteral') return node.value as string;
+  if (node.type === 'TemplateLiteral') return (node.quasis || []).map(quasi => quasi.value.cooked || '').join(' ');
+  return null;
+}
+
+/**
+ * Classes of a static className - dynamic ones ({isOpen ? 'a' : 'b'}) are skipped so
+ * contrast pairs are never mixed across branches
+ */
+function getClasses(element: AstNode): string[] {
+  const attribute = getAttribute(element, 'className');
+  const value = getStaticValue(attribute);
+  return value ? value.split(/\s+/).filter(Boolean) : [];
+}
+
+function relativeLuminance(hex: string): number {
+  const full = hex.length === 4 ? `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}` : hex;
+  const [r, g, b] = [1, 3, 5].map(i => {
+    const channel = parseInt(full.substring(i, i + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio of two hex colors (1 to 21)
+ */
+export function getContrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Shaded color families of Tailwind's default palette (blue-50 ... blue-950)
+const PALETTE_FAMILIES = ['slate', 'gray', 'zinc', 'neutral', 'stone', 'red', 'orange', 'amber', 'yellow', 'lime', 'green',
+  'emerald', 'teal', 'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose'] as const;
+
+/**
+ * Color lookup for Tailwind color names: white, black, the default palette (blue-600)
+ * and the site's theme tokens (primary, primary-dark, surface...)
+ */
+function createColorResolver(files: ProjectFiles): (name: string) => string | null {
+  const colors: Record<string, string> = { white: '#ffffff', black: '#000000' };
+
+  for (const family of PALETTE_FAMILIES) {
+    for (const [shade, hex] of Object.entries(tailwindColors[family])) {
+      colors[`${family}-${shade}`] = hex;
+    }
+  }
+
+  const theme = parseThemeFile(files[THEME_PATH]);
+  if (theme) {
+    const themeColors = getThemeTailwindExtend(theme).colors as Record<string, string | Record<string, string>>;
+    for (const [name, value] of Object.entries(themeColors)) {
+      if (typeof value === 'string') {
+        colors[name] = value;
+      } else {
+        for (const [shade, hex] of Object.entries(value)) {
+          colors[shade === 'DEFAULT' ? name : `${name}-${shade}`] = hex;
+        }
+      }
+    }
+  }
+
+  return (name: string) => colors[name] || null;
+}
+
+/**
+ * Audit the components, pages and App.jsx of a build
+ */
+export function checkAccessibility(files: ProjectFiles): AccessibilityReport {
+  const resolveColor = createColorResolver(files);
+  const issues: AccessibilityIssue[] = [];
+  let checked = 0;
+  let filesChecked = 0;
+
+  for (const [file, code] of Object.entries(files)) {
+    if (!AUDITED_FILE.test(file) || !code) continue;
+
+    let program: unknown;
+    try {
+      program = parse(code, { sourceType: 'module', plugins: ['jsx'], errorRecovery: true }).program;
+    } catch {
+      // Unparseable files are reported by the syntax checker, not here
+      continue;
+    }
+    if (!isAstNode(program)) {
+      continue;
+    }
+    filesChecked++;
+
+    const addIssue = (rule: AccessibilityRule, node: AstNode, element: string, message: string) => {
+      issues.push({
+        rule,
+        severity: RULE_SEVERITY[rule],
+        file,
+        line: node.loc?.start.line || 0,
+        column: (node.loc?.start.column || 0) + 1,
+        element,
+        message,
+      });
+    };
+
+    const labelTargets = new Set<string>(); // <label htmlFor="...">
+    const fields: Array<{ node: AstNode; tag: string; id: string | null; insideLabel: boolean }> = [];
+    let previousHeading = 0;
+
+    const visit = (node: AstNode, insideLabel: boolean) => {
+      let childInsideLabel = insideLabel;
+
+      if (node.type === 'JSXElement') {
+        const tag = getTagName(node);
+        // Only DOM elements - custom components (<Card>) are checked in their own file
+        if (tag && /^[a-z]/.test(tag)) {
+          const location = node.openingElement || node;
+
+          if (tag === 'img') {
+            checked++;
+            if (!getAttribute(node, 'alt')) {
+              addIssue('img_alt', location, tag, '<img> has no alt text - describe the image, or use alt="" if it is decorative');
+            }
+          }
+
+          const headingLevel = /^h([1-6])$/.exec(tag);
+          if (headingLevel) {
+            checked++;
+            const level = Number(headingLevel[1]);
+            if (previousHeading > 0 && level > previousHeading + 1) {
+              addIssue('heading_order', location, tag, `<${tag}> follows <h${previousHeading}> - heading levels should not be skipped (use <h${previousHeading + 1}>)`);
+            }
+            previousHeading = level;
+          }
+
+          if (tag === 'label') {
+            const target = getStaticValue(getAttribute(node, 'htmlFor'));
+            if (target) labelTargets.add(target);
+            childInsideLabel = true;
+          }
+
+          if (FORM_FIELDS.includes(tag)) {
+            const type = getStaticValue(getAttribute(node, 'type'));
+            const hidden = getStaticValue(getAttribute(node, 'aria-hidden')) === 'true';
+            if (!(tag === 'input' && type && UNLABELED_INPUT_TYPES.includes(type)) && !hidden) {
+              checked++;
+              const labeled = ['aria-label', 'aria-labelledby', 'title'].some(name => getAttribute(node, name));
+              if (!labeled) {
+                fields.push({ node: location, tag, id: getStaticValue(getAttribute(node, 'id')), insideLabel });
+              }
+            }
+          }
+
+          if (getAttribute(node, 'onClick') && !INTERACTIVE_ELEMENTS.includes(tag)) {
+            checked++;
+            const hasRole = !!getAttribute(node, 'role');
+            const hasKeyboard = KEYBOARD_HANDLERS.some(name => getAttribute(node, name));
+            if (!hasRole || !hasKeyboard) {
+              addIssue('click_handler', location, tag, `<${tag}> has onClick but ${!hasRole ? 'no role' : 'no keyboard handler'} - use a <button>, or add role="button", tabIndex={0} and onKeyDown`);
+            }
+          }
+
+          // Text and background colors set on the same element (no variants like hover: or opacity like /80)
+          const classes = getClasses(node).filter(name => !name.includes(':') && !name.includes('/'));
+          const textColor = classes.map(name => /^text-(.+)$/.exec(name)?.[1]).map(name => name && resolveColor(name)).find(Boolean);
+          const backgroundColor = classes.map(name => /^bg-(.+)$/.exec(name)?.[1]).map(name => name && resolveColor(name)).find(Boolean);
+          if (textColor && backgroundColor) {
+            checked++;
+            const large = classes.some(name => LARGE_TEXT_SIZES.includes(name)) ||
+              (classes.includes('text-xl') && classes.some(name => name === 'font-bold' || name === 'font-semibold'));
+            const required = large ? 3 : 4.5;
+            const ratio = getContrastRatio(textColor, backgroundColor);
+            if (ratio < required) {
+              const textClass = classes.find(name => name.startsWith('text-') && resolveColor(name.substring(5)));
+              const backgroundClass = classes.find(name => name.startsWith('bg-') && resolveColor(name.substring(3)));
+              addIssue('contrast', location, tag, `${textClass} on ${backgroundClass} has a contrast of ${ratio.toFixed(2)}:1 (needs ${required}:1)`);
+            }
+          }
+        }
+      }
+
+      for (const [field, child] of Object.entries(node)) {
+        if (field === 'loc' || field === 'leadingComments' || field === 'trailingComments') continue;
+        if (Array.isArray(child)) {
+          child.filter(isAstNode).forEach(item => visit(item, childInsideLabel));
+        } else if (isAstNode(child)) {
+          visit(child, childInsideLabel);
+        }
+      }
+    };
+
+    visit(program, false);
+
+    // Labels can come after their field, so fields are matched once the file is read
+    for (const field of fields) {
+      if (field.insideLabel || (field.id && labelTargets.has(field.id))) continue;
+      addIssue('input_label', field.node, field.tag, `<${field.tag}> has no label - wrap it in a <label>, point a <label htmlFor> at its id, or add aria-label (a placeholder is not a label)`);
+    }
+  }
+
+  issues.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  const counts = { img_alt: 0, heading_order: 0, input_label: 0, click_handler: 0, contrast: 0 };
+  issues.forEach(issue => counts[issue.rule]++);
+  const score = checked === 0 ? 100 : Math.max(0, Math.round(100 * (1 - issues.length / checked)));
+
+  console.log(`♿ Accessibility check: score ${score}, ${issues.length} issue(s) in ${filesChecked} file(s)`);
+
+  return { score, checked, filesChecked, issues, counts };
+}
+
+/**
+ * Edit request asking the Editor Agent to fix the reported issues
+ * @param limit - Issues listed at most, so the request stays focused
+ */
+export function describeAccessibilityIssues(report: AccessibilityReport, limit = 25): string {
+  const listed = report.issues.slice(0, limit);
+  const lines = [
+    'Fix these accessibility issues without changing the design or the text content:',
+    ...listed.map(issue => `- ${issue.file}:${issue.line} - ${issue.message}`),
+  ];
+  if (report.issues.length > listed.length) {
+    lines.push(`(and ${report.issues.length - listed.length} more of the same kinds in these files)`);
+  }
+  lines.push('For images use meaningful alt text in the site\'s language, and keep theme colors (use a darker or lighter theme shade for contrast).');
+  return lines.join('\n');
+}
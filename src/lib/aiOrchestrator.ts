@@ -4,7 +4,7 @@
  * Generates complete project structures with conditional sections and bilingual support
  */
 
-import OpenAI from 'openai';
+import { getLLMProvider, LLMMessage, LLMProviderError } from './llmProvider';
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
@@ -22,15 +22,6 @@ export interface GenerateSiteResult {
   sections: string[];
 }
 
-// Initialize OpenAI client
-const getOpenAIClient = () => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-  return new OpenAI({ apiKey });
-};
-
 /**
  * Detect if text contains Arabic characters
  */
@@ -380,10 +371,10 @@ export async function generateSiteFromPrompt(args: {
   const languageMode = detectLanguageMode(message);
   const sections = extractRequestedSections(message);
   
-  const openai = getOpenAIClient();
+  const llm = getLLMProvider();
   
   // Build conversation messages
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     {
       role: 'system',
       content: buildSystemPrompt(message, languageMode, sections),
@@ -401,15 +392,15 @@ export async function generateSiteFromPrompt(args: {
   ];
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4.1',
+    const completion = await llm.complete({
+      stage: 'orchestrator',
       messages,
       temperature: 0.7,
-      max_tokens: 16000, // Increased significantly for full project structure with all sections
-      response_format: { type: 'json_object' }, // Force JSON output
+      maxTokens: 16000, // Increased significantly for full project structure with all sections
+      responseFormat: 'json_object', // Force JSON output
     });
 
-    const responseContent = completion.choices[0]?.message?.content;
+    const responseContent = completion.content;
     
     if (!responseContent) {
       throw new Error('OpenAI returned empty response');
@@ -510,8 +501,8 @@ export async function generateSiteFromPrompt(args: {
   } catch (error) {
     console.error('OpenAI API error:', error);
     
-    if (error instanceof OpenAI.APIError) {
-      // Handle specific OpenAI error types
+    if (error instanceof LLMProviderError) {
+      // Handle specific provider error types
       if (error.status === 429) {
         throw new Error('Rate limit exceeded. Please wait a moment and try again.');
       } else if (error.status === 401) {
@@ -13,19 +13,42 @@
  * - The correct folder structure for Vite + React + Tailwind
  * 
  * Always include:
- * - package.json, index.html, vite.config.js, postcss.config.js, tailwind.config.js
+ * - package.json, index.html, vite.config.js, postcss.config.js, tailwind.config.js, src/theme.json
  * - src/main.jsx, src/App.jsx, src/index.css
  * - src/components/[ComponentName].jsx for each section
- * - If bilingual: src/i18n.js, src/locales/en.json, src/locales/ar.json
+ * - If bilingual: src/i18n.js and src/locales/<code>.json for each of plan.locales
+ *
+ * When a starter template fits plan.industry, component tasks for the sections it
+ * covers are marked with the template section, so the Coder writes the template's
+ * component instead of generating one (see ./templates).
+ *
+ * Multi-page sites (plan.pages) additionally get:
+ * - src/pages/[PageName]Page.jsx for each page
+ * - src/router.jsx - hash-based router, so navigation works in the preview
+ *   iframe and on static hosting without server rewrites
  */
 
 import { GenerationPlan } from './plannerAgent';
+import { getLocalePath, getSiteLocale } from './siteLocales';
+import { THEME_PATH } from './siteTheme';
+import { SEO_PATH } from './siteSeo';
+import { NUMERALS_PATH } from './siteNumerals';
+import { DARK_MODE_PATH } from './siteDarkMode';
+import { getStarterTemplate, resolveTemplateSection, StarterTemplate } from './templates';
 
 export interface FileTask {
   path: string;
-  type: 'component' | 'config' | 'asset' | 'translation' | 'entry';
+  type: 'component' | 'page' | 'config' | 'asset' | 'translation' | 'entry';
   description: string;
   priority: 'required' | 'optional';
+  templateSection?: string; // Template section the component is written from ("navbar"/"footer" for those)
+}
+
+export interface PageTask {
+  name: string;          // Page name from the plan (e.g. "Menu")
+  componentName: string; // Page component (e.g. "MenuPage")
+  route: string;         // Route path (e.g. "/menu")
+  sections: string[];    // Section component names rendered on the page, in order
 }
 
 export interface ArchitecturePlan {
@@ -34,12 +57,42 @@ export interface ArchitecturePlan {
   configFiles: string[];
   assets: string[];
   translationFiles: string[];
+  pages: PageTask[]; // Empty for single-page sites
+  template?: { id: string; version: string }; // Starter template the site is built from
+}
+
+export const ROUTER_PATH = 'src/router.jsx';
+export const FORMS_PATH = 'src/forms.js';
+
+// Sections whose form is submitted to the app (see formService)
+const FORM_SECTION_PATTERN = /contact|booking|book|reserv|appointment|inquiry|enquiry|quote|order/i;
+
+/**
+ * Whether a component holds a form that should be submitted (contact, booking, reservation...)
+ */
+export function isFormComponent(componentName: string): boolean {
+  return FORM_SECTION_PATTERN.test(componentName);
+}
+
+/**
+ * Convert a section name to a valid component name ("contact us" -> "ContactUs")
+ */
+export function sectionToComponentName(section: string): string {
+  // Remove all invalid characters (parentheses, brackets, etc.) and keep only alphanumeric, spaces, dashes, underscores
+  const cleaned = section.replace(/[^a-zA-Z0-9\s\-_]/g, ' ');
+  // Split on spaces, dashes, underscores and convert to PascalCase
+  return cleaned
+    .split(/[\s\-_]+/)
+    .filter(word => word.length > 0) // Remove empty strings
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
 }
 
 /**
  * Architect Agent - Converts generation plan to file-level tasks
+ * @param uploadedAssets - Paths of the project's uploaded assets (public/assets/<kind>/<name>, see assetService)
  */
-export function architectGeneration(plan: GenerationPlan): ArchitecturePlan {
+export function architectGeneration(plan: GenerationPlan, uploadedAssets: string[] = []): ArchitecturePlan {
   const tasks: FileTask[] = [];
   const components: string[] = [];
   const configFiles: string[] = [];
@@ -50,7 +103,9 @@ export function architectGeneration(plan: GenerationPlan): ArchitecturePlan {
   const requiredConfigs = [
     { path: 'package.json', description: 'Project dependencies and scripts' },
     { path: 'vite.config.js', description: 'Vite configuration' },
-    { path: 'tailwind.config.js', description: 'Tailwind CSS configuration' },
+    { path: THEME_PATH, description: 'Site theme (design tokens)' },
+    { path: SEO_PATH, description: 'SEO and social metadata' },
+    { path: 'tailwind.config.js', description: 'Tailwind CSS configuration with theme tokens' },
     { path: 'postcss.config.js', description: 'PostCSS configuration' },
     { path: 'index.html', description: 'HTML entry point' },
   ];
@@ -81,17 +136,9 @@ export function architectGeneration(plan: GenerationPlan): ArchitecturePlan {
     });
   });
 
-  // Helper function to convert section name to valid component name
-  function sectionToComponentName(section: string): string {
-    // Remove all invalid characters (parentheses, brackets, etc.) and keep only alphanumeric, spaces, dashes, underscores
-    const cleaned = section.replace(/[^a-zA-Z0-9\s\-_]/g, ' ');
-    // Split on spaces, dashes, underscores and convert to PascalCase
-    return cleaned
-      .split(/[\s\-_]+/)
-      .filter(word => word.length > 0) // Remove empty strings
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join('');
-  }
+  // Starter template for the industry, if one fits
+  const template = getStarterTemplate(plan.industry);
+  const isMultiPage = Boolean(plan.pages && plan.pages.length > 1);
 
   // Remove duplicates from requiredSections first
   const uniqueSections = Array.from(new Set(plan.requiredSections));
@@ -116,16 +163,92 @@ export function architectGeneration(plan: GenerationPlan): ArchitecturePlan {
       type: 'component',
       description: `${componentName} component for ${section} section`,
       priority: 'required',
+      templateSection: template ? getTemplateSection(template, componentName, isMultiPage) : undefined,
     });
     components.push(componentName);
   });
 
-  // Translation files - ALWAYS include (all websites are bilingual now)
-  const i18nFiles = [
-    { path: 'src/i18n.js', description: 'i18n configuration and LanguageProvider' },
-    { path: 'src/locales/en.json', description: 'English translations' },
-    { path: 'src/locales/ar.json', description: 'Arabic translations' },
-  ];
+  // Pages and router (multi-page sites only)
+  const pages: PageTask[] = [];
+  if (isMultiPage) {
+    tasks.push({
+      path: ROUTER_PATH,
+      type: 'entry',
+      description: 'Hash-based client-side router',
+      priority: 'required',
+    });
+
+    const addedPages = new Set<string>();
+    plan.pages.forEach(page => {
+      const componentName = `${sectionToComponentName(page.name) || 'Untitled'}Page`;
+      if (addedPages.has(componentName)) {
+        return;
+      }
+      addedPages.add(componentName);
+
+      const sections = Array.from(new Set(page.sections.map(sectionToComponentName)))
+        .filter(name => components.includes(name));
+
+      tasks.push({
+        path: `src/pages/${componentName}.jsx`,
+        type: 'page',
+        description: `${page.name} page (${page.path}) with sections: ${sections.join(', ')}`,
+        priority: 'required',
+      });
+      pages.push({
+        name: page.name,
+        componentName,
+        route: page.path,
+        sections,
+      });
+    });
+  }
+
+  // Forms (contact, booking...) submit through a shared helper that knows the project's endpoint
+  const hasForms = tasks.some(t =>
+    t.type === 'component' &&
+    (isFormComponent(t.path.split('/').pop() || '') || t.templateSection === 'contact' || t.templateSection === 'appointment')
+  );
+  if (hasForms) {
+    tasks.push({
+      path: FORMS_PATH,
+      type: 'entry',
+      description: 'Form submission helper',
+      priority: 'required',
+    });
+  }
+
+  // Sites with Arabic show numbers through a helper that follows the numeral style setting
+  if (plan.languageMode === 'ARABIC_ONLY' || plan.locales.includes('ar')) {
+    tasks.push({
+      path: NUMERALS_PATH,
+      type: 'entry',
+      description: 'Numeral style helper',
+      priority: 'required',
+    });
+  }
+
+  // The navbar's light/dark toggle (plans checkpointed before dark mode have no darkMode)
+  if (plan.darkMode) {
+    tasks.push({
+      path: DARK_MODE_PATH,
+      type: 'entry',
+      description: 'Dark mode toggle helper',
+      priority: 'required',
+    });
+  }
+
+  // Translation files - only bilingual sites need a language toggle,
+  // single-language sites hardcode their text directly in the components
+  const i18nFiles = plan.languageMode === 'BILINGUAL'
+    ? [
+        { path: 'src/i18n.js', description: 'i18n configuration and LanguageProvider' },
+        ...plan.locales.map(code => ({
+          path: getLocalePath(code),
+          description: `${getSiteLocale(code).name} translations`,
+        })),
+      ]
+    : [];
 
   i18nFiles.forEach(file => {
     tasks.push({
@@ -137,14 +260,17 @@ export function architectGeneration(plan: GenerationPlan): ArchitecturePlan {
     translationFiles.push(file.path);
   });
 
-  // Assets (optional - placeholder logo)
-  assets.push('public/logo.png');
-  tasks.push({
-    path: 'public/logo.png',
-    type: 'asset',
-    description: 'Logo image (placeholder)',
-    priority: 'optional',
-  });
+  // Assets - uploaded files are served as-is, a placeholder logo stands in when none was uploaded
+  assets.push(...uploadedAssets);
+  if (!uploadedAssets.some(path => path.startsWith('public/assets/logo/'))) {
+    assets.push('public/logo.png');
+    tasks.push({
+      path: 'public/logo.png',
+      type: 'asset',
+      description: 'Logo image (placeholder)',
+      priority: 'optional',
+    });
+  }
 
   return {
     tasks,
@@ -152,5 +278,26 @@ export function architectGeneration(plan: GenerationPlan): ArchitecturePlan {
     configFiles,
     assets,
     translationFiles,
+    pages,
+    template: template ? { id: template.id, version: template.version } : undefined,
   };
 }
+
+/**
+ * Template section a component is written from. The template navbar links to
+ * in-page anchors, so multi-page sites keep a generated one that knows the routes.
+ */
+function getTemplateSection(
+  template: StarterTemplate,
+  componentName: string,
+  isMultiPage: boolean
+): string | undefined {
+  const normalized = componentName.toLowerCase();
+  if (normalized === 'navbar' || normalized === 'header' || normalized === 'navigation') {
+    return isMultiPage ? undefined : 'navbar';
+  }
+  if (normalized === 'footer') {
+    return 'footer';
+  }
+  return resolveTemplateSection(template, componentName) || undefined;
+}
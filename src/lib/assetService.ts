@@ -0,0 +1,232 @@
+/**
+ * Asset Service - Logos, photos and documents uploaded for a project
+ *
+ * Assets live in the `project-assets` storage bucket under `<projectId>/<kind>/<name>`
+ * (see supabase/migration-project-assets.sql). They are not part of a build's files:
+ * - Generated components reference them by site path (`/assets/<kind>/<name>`)
+ * - The preview swaps those paths for the bucket's public URLs
+ * - The ZIP download ships them as `public/assets/...` and the deploy as `assets/...`
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+export const ASSET_BUCKET = 'project-assets';
+
+export type AssetKind = 'logo' | 'image' | 'document';
+
+export const ASSET_KINDS: AssetKind[] = ['logo', 'image', 'document'];
+
+export const MAX_ASSET_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MAX_ASSETS_PER_PROJECT = 30;
+
+// Accepted content types per kind
+const ASSET_CONTENT_TYPES: Record<AssetKind, string[]> = {
+  logo: ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml'],
+  image: ['image/png', 'image/jpeg', 'image/webp', 'image/gif'],
+  document: ['application/pdf'],
+};
+
+export interface ProjectAsset {
+  kind: AssetKind;
+  name: string;        // Sanitized file name
+  storagePath: string; // Object path in the bucket
+  filePath: string;    // Path in the site project (public/assets/<kind>/<name>)
+  sitePath: string;    // URL path on the site (/assets/<kind>/<name>)
+  url: string;         // Public bucket URL, used by the preview
+  contentType: string;
+  size: number;
+}
+
+export function isAssetKind(value: unknown): value is AssetKind {
+  return typeof value === 'string' && (ASSET_KINDS as string[]).includes(value);
+}
+
+/**
+ * Safe file name for storage and URLs ("Menu 2024 (final).PDF" -> "menu-2024-final.pdf")
+ */
+export function sanitizeAssetName(name: string): string {
+  const dot = name.lastIndexOf('.');
+  const clean = (part: string) => part.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  // Names without Latin characters (e.g. Arabic) get a unique one instead of all becoming "file"
+  const base = clean(dot > 0 ? name.substring(0, dot) : name) || `file-${Date.now().toString(36)}`;
+  const extension = dot > 0 ? clean(name.substring(dot + 1)) : '';
+  return extension ? `${base}.${extension}` : base;
+}
+
+/**
+ * URL path of an asset file on the site ("public/assets/logo/a.png" -> "/assets/logo/a.png")
+ */
+export function getAssetSitePath(filePath: string): string {
+  return filePath.replace(/^public\//, '/');
+}
+
+/**
+ * Why a file can't be uploaded as the given kind - null when it can
+ */
+export function validateAssetFile(kind: AssetKind, file: { type: string; size: number }): string | null {
+  if (!ASSET_CONTENT_TYPES[kind].includes(file.type)) {
+    return `Unsupported file type for a ${kind}. Allowed: ${ASSET_CONTENT_TYPES[kind].join(', ')}`;
+  }
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+  if (file.size > MAX_ASSET_SIZE) {
+    return `File is too large (max ${MAX_ASSET_SIZE / 1024 / 1024} MB)`;
+  }
+  return null;
+}
+
+function toProjectAsset(
+  client: SupabaseClient,
+  projectId: string,
+  kind: AssetKind,
+  name: string,
+  contentType: string,
+  size: number
+): ProjectAsset {
+  const storagePath = `${projectId}/${kind}/${name}`;
+  const filePath = `public/assets/${kind}/${name}`;
+  return {
+    kind,
+    name,
+    storagePath,
+    filePath,
+    sitePath: getAssetSitePath(filePath),
+    url: client.storage.from(ASSET_BUCKET).getPublicUrl(storagePath).data.publicUrl,
+    contentType,
+    size,
+  };
+}
+
+/**
+ * List a project's assets, logos first
+ * Returns an empty list if the bucket doesn't exist yet (migration not run)
+ */
+export async function listProjectAssets(
+  projectId: string,
+  client: SupabaseClient = supabase
+): Promise<ProjectAsset[]> {
+  const assets: ProjectAsset[] = [];
+  for (const kind of ASSET_KINDS) {
+    const { data, error } = await client.storage
+      .from(ASSET_BUCKET)
+      .list(`${projectId}/${kind}`, { limit: MAX_ASSETS_PER_PROJECT, sortBy: { column: 'name', order: 'asc' } });
+
+    if (error) {
+      console.warn(`Could not list ${kind} assets - the ${ASSET_BUCKET} bucket may not exist yet:`, error.message);
+      return [];
+    }
+
+    (data || [])
+      .filter(object => object.id && !object.name.startsWith('.')) // Skip folder placeholders
+      .forEach(object => {
+        assets.push(toProjectAsset(
+          client,
+          projectId,
+          kind,
+          object.name,
+          object.metadata?.mimetype || 'application/octet-stream',
+          object.metadata?.size || 0
+        ));
+      });
+  }
+  return assets;
+}
+
+/**
+ * Upload an asset, replacing one of the same kind and name
+ * @param client - Authenticated client of the project owner (storage policies check ownership)
+ */
+export async function uploadProjectAsset(
+  client: SupabaseClient,
+  projectId: string,
+  kind: AssetKind,
+  file: File
+): Promise<ProjectAsset> {
+  const name = sanitizeAssetName(file.name);
+  const asset = toProjectAsset(client, projectId, kind, name, file.type, file.size);
+
+  const { error } = await client.storage
+    .from(ASSET_BUCKET)
+    .upload(asset.storagePath, file, { contentType: file.type, upsert: true });
+
+  if (error) {
+    console.error('Error uploading asset:', error);
+    throw new Error(`Failed to upload asset: ${error.message}`);
+  }
+
+  return asset;
+}
+
+/**
+ * Delete an asset by its path in the site project
+ * @param client - Authenticated client of the project owner
+ */
+export async function deleteProjectAsset(
+  client: SupabaseClient,
+  projectId: string,
+  filePath: string
+): Promise<void> {
+  const match = filePath.match(/^public\/assets\/([a-z]+)\/([^/]+)$/);
+  if (!match || !isAssetKind(match[1])) {
+    throw new Error('Invalid asset path');
+  }
+
+  const { error } = await client.storage
+    .from(ASSET_BUCKET)
+    .remove([`${projectId}/${match[1]}/${match[2]}`]);
+
+  if (error) {
+    console.error('Error deleting asset:', error);
+    throw new Error(`Failed to delete asset: ${error.message}`);
+  }
+}
+
+/**
+ * Download a project's assets for the ZIP download and the deploy
+ * An asset that fails to download is skipped so the rest of the site still ships
+ */
+export async function downloadProjectAssets(
+  projectId: string,
+  client: SupabaseClient = supabase
+): Promise<Array<{ asset: ProjectAsset; data: ArrayBuffer }>> {
+  const assets = await listProjectAssets(projectId, client);
+  const downloads = await Promise.all(assets.map(async (asset) => {
+    const { data, error } = await client.storage.from(ASSET_BUCKET).download(asset.storagePath);
+    if (error || !data) {
+      console.warn(`Skipping asset ${asset.filePath}: ${error?.message || 'no data'}`);
+      return null;
+    }
+    return { asset, data: await data.arrayBuffer() };
+  }));
+  return downloads.filter((download): download is { asset: ProjectAsset; data: ArrayBuffer } => download !== null);
+}
+
+/**
+ * Describe uploaded asset files for the Planner and Coder prompts - empty when there are none
+ * @param filePaths - Asset paths in the site project (public/assets/<kind>/<name>)
+ */
+export function describeProjectAssets(filePaths: string[]): string {
+  const uploaded = filePaths.filter(path => path.startsWith('public/assets/'));
+  if (uploaded.length === 0) {
+    return '';
+  }
+
+  const ofKind = (kind: AssetKind) => uploaded.filter(path => path.startsWith(`public/assets/${kind}/`)).map(getAssetSitePath);
+  const lines = ['UPLOADED ASSETS - the user uploaded these files; use them instead of placeholder or stock images:'];
+  const logos = ofKind('logo');
+  const images = ofKind('image');
+  const documents = ofKind('document');
+  if (logos.length > 0) {
+    lines.push(`- Logo: ${logos.join(', ')} (show it in the navbar, and the footer if there is one)`);
+  }
+  if (images.length > 0) {
+    lines.push(`- Photos: ${images.join(', ')} (use them in the hero, about and gallery sections)`);
+  }
+  if (documents.length > 0) {
+    lines.push(`- Documents: ${documents.join(', ')} (link to them, e.g. a "View menu" button with target="_blank")`);
+  }
+  lines.push('Use these paths exactly as written, e.g. <img src="/assets/logo/name.png" />.');
+  return lines.join('\n');
+}
@@ -4,7 +4,16 @@
  * This service handles all CRUD operations for builds using Supabase Postgres.
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabaseClient';
+import type { FileRepair } from './codeValidator';
+import type { BuildUsage } from './usageService';
+import { getLocalePath, getLocalesFromFiles, getSiteLocale } from './siteLocales';
+import { THEME_PATH, buildThemeFontLinks, getThemeTailwindExtend, parseThemeFile } from './siteTheme';
+import { listProjectAssets } from './assetService';
+import { SEO_PATH, buildSeoHeadTags, getSeoText, parseSeoFile } from './siteSeo';
+import { NUMERALS_PATH } from './siteNumerals';
+import { DARK_MODE_PATH, buildDarkModeInitScript, buildPreviewColorSchemeScript } from './siteDarkMode';
 
 export interface ProjectFiles {
   [filePath: string]: string;
@@ -17,9 +26,40 @@ export interface Build {
   prompt: string;
   files: ProjectFiles; // JSONB object with file paths as keys
   preview_html: string | null;
+  repaired_files: FileRepair[] | null; // Files that failed the syntax check and went through repair
+  usage?: BuildUsage | null; // LLM usage of the run that produced the build (null before usage was recorded)
   created_at: string;
 }
 
+/**
+ * Language mode of a generated site
+ * - bilingual: English/Arabic with a language toggle (src/i18n.js + locales)
+ * - arabic-only / english-only: text hardcoded in one language, no toggle
+ */
+export type LanguageMode = 'arabic-only' | 'english-only' | 'bilingual';
+
+export const LANGUAGE_MODES: LanguageMode[] = ['arabic-only', 'english-only', 'bilingual'];
+
+export function isLanguageMode(value: unknown): value is LanguageMode {
+  return typeof value === 'string' && (LANGUAGE_MODES as string[]).includes(value);
+}
+
+/**
+ * Detect the language mode of an existing build from its files
+ * Used when the project has no stored language mode (projects created before it was persisted)
+ */
+export function detectLanguageModeFromFiles(files: ProjectFiles): LanguageMode {
+  if (files['src/i18n.js'] && getLocalesFromFiles(Object.keys(files)).length > 0) {
+    return 'bilingual';
+  }
+  const html = files['index.html'] || '';
+  const appJsx = files['src/App.jsx'] || '';
+  if (/lang=["']ar["']/.test(html) || appJsx.includes('dir="rtl"') || appJsx.includes("dir='rtl'")) {
+    return 'arabic-only';
+  }
+  return 'english-only';
+}
+
 /**
  * Get the next version number for a project
  */
@@ -44,8 +84,17 @@ async function getNextVersion(projectId: string): Promise<number> {
 /**
  * Generate preview HTML from React project files
  * Uses Babel standalone to run React components in browser
+ * @param assetUrls - Uploaded asset URLs by site path ("/assets/logo/a.png" -> bucket URL), since the
+ * preview iframe has no site to serve them from
+ * @param seoOptions - Public site URL and share image (absolute URL) for the deploy's canonical,
+ * hreflang and Open Graph tags
  */
-export function generatePreviewHTML(files: ProjectFiles, languageMode: string): string {
+export function generatePreviewHTML(
+  files: ProjectFiles,
+  languageMode: string,
+  assetUrls: Record<string, string> = {},
+  seoOptions: { siteUrl?: string; imageUrl?: string } = {}
+): string {
   // Extract key files
   const appJsx = files['src/App.jsx'] || '';
   const mainJsx = files['src/main.jsx'] || '';
@@ -57,13 +106,13 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
     console.warn('Warning: App.jsx is empty or missing - will use fallback');
   }
   
-  // Get all component files
+  // Get all component files (pages of multi-page sites are inlined the same way)
   const components: Record<string, string> = {};
   for (const [path, content] of Object.entries(files)) {
-    if (path.startsWith('src/components/') && path.endsWith('.jsx')) {
+    if ((path.startsWith('src/components/') || path.startsWith('src/pages/')) && path.endsWith('.jsx')) {
       // Extract component name from path
       // File path: "src/components/HistoryTimeline.jsx" -> componentName: "HistoryTimeline"
-      let componentName = path.replace('src/components/', '').replace('.jsx', '');
+      let componentName = path.replace(/^src\/(components|pages)\//, '').replace('.jsx', '');
       
       // Remove invalid characters (parentheses, brackets, etc.) that can't be in JavaScript identifiers
       componentName = componentName.replace(/[^a-zA-Z0-9\/\\\-_]/g, '');
@@ -92,10 +141,9 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
     }
   }
   
-  // Get i18n files if bilingual
+  // Get i18n files if bilingual (one locale file per site language, default language first)
   const i18nJs = files['src/i18n.js'] || '';
-  const enJson = files['src/locales/en.json'] || '{}';
-  const arJson = files['src/locales/ar.json'] || '{}';
+  const locales = getLocalesFromFiles(Object.keys(files), i18nJs);
   
   // Parse package.json to get project name
   let projectName = 'Generated Website';
@@ -107,17 +155,59 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
   }
 
   // Determine direction and language based on language mode
-  const dir = languageMode === 'arabic-only' ? 'rtl' : 'ltr';
-  const lang = languageMode === 'arabic-only' ? 'ar' : languageMode === 'bilingual' ? 'en' : 'en';
-
-  // Build fonts based on language
-  const fonts = languageMode === 'arabic-only'
-    ? '<link href="https://fonts.googleapis.com/css2?family=Cairo:wght@300;400;500;600;700;800;900&display=swap" rel="stylesheet">'
-    : '<link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;800;900&family=Poppins:wght@300;400;500;600;700;800;900&display=swap" rel="stylesheet">';
-
-  const fontFamily = languageMode === 'arabic-only'
-    ? 'font-family: \'Cairo\', sans-serif;'
-    : 'font-family: \'Inter\', \'Poppins\', sans-serif;';
+  // Translated sites start in their default (first) locale
+  const defaultLocale = languageMode === 'bilingual' && locales.length > 0 ? getSiteLocale(locales[0]) : null;
+  const dir = defaultLocale ? defaultLocale.dir : languageMode === 'arabic-only' ? 'rtl' : 'ltr';
+  const lang = defaultLocale ? defaultLocale.code : languageMode === 'arabic-only' ? 'ar' : 'en';
+
+  // Search and social metadata (sites generated before SEO only have a title)
+  const seo = parseSeoFile(files[SEO_PATH]);
+  const title = seo ? getSeoText(seo, lang).title : projectName;
+  const seoTags = seo ? buildSeoHeadTags(seo, { locale: lang, ...seoOptions }) : '';
+
+  // Build fonts based on language (bilingual sites need both, Arabic is shown after toggling)
+  // Sites with a theme use its fonts and tokens; older sites keep the default fonts
+  const theme = parseThemeFile(files[THEME_PATH]);
+  const hasDarkMode = files[DARK_MODE_PATH] !== undefined;
+  let fonts: string;
+  let fontFamily: string;
+  let rtlFontFamily: string;
+  let themeCss = '';
+  let tailwindConfig = '';
+  if (theme) {
+    const { heading, body, arabic, arabicLineHeight } = theme.typography;
+    fonts = buildThemeFontLinks(theme, {
+      latin: languageMode !== 'arabic-only',
+      arabic: languageMode !== 'english-only',
+    });
+    fontFamily = languageMode === 'arabic-only'
+      ? `font-family: '${arabic}', sans-serif;`
+      : `font-family: '${body}', sans-serif;`;
+    rtlFontFamily = languageMode === 'bilingual'
+      ? `[dir="rtl"] body, [dir="rtl"] h1, [dir="rtl"] h2, [dir="rtl"] h3 { font-family: '${arabic}', sans-serif; }`
+      : '';
+    // index.css applies these with @apply, which the Tailwind CDN doesn't process in a plain <style>
+    themeCss = `body { background-color: ${theme.palette.background}; color: ${theme.palette.foreground}; }
+    h1, h2, h3, h4, h5, h6 { font-family: '${languageMode === 'arabic-only' ? arabic : heading}', sans-serif; }
+    [dir="rtl"] body { line-height: ${arabicLineHeight}; }${hasDarkMode ? `
+    .dark body { background-color: ${theme.darkPalette.background}; color: ${theme.darkPalette.foreground}; }` : ''}`;
+    tailwindConfig = `<script>tailwind.config = { ${hasDarkMode ? "darkMode: 'class', " : ''}theme: { extend: ${JSON.stringify(getThemeTailwindExtend(theme))} } };</script>`;
+  } else {
+    const arabicFonts = '<link href="https://fonts.googleapis.com/css2?family=Cairo:wght@300;400;500;600;700;800;900&display=swap" rel="stylesheet">';
+    const englishFonts = '<link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;800;900&family=Poppins:wght@300;400;500;600;700;800;900&display=swap" rel="stylesheet">';
+    fonts = languageMode === 'arabic-only'
+      ? arabicFonts
+      : languageMode === 'bilingual'
+        ? `${englishFonts}\n  ${arabicFonts}`
+        : englishFonts;
+
+    fontFamily = languageMode === 'arabic-only'
+      ? 'font-family: \'Cairo\', sans-serif;'
+      : 'font-family: \'Inter\', \'Poppins\', sans-serif;';
+    rtlFontFamily = languageMode === 'bilingual'
+      ? '[dir="rtl"] body { font-family: \'Cairo\', sans-serif; }'
+      : '';
+  }
 
   // Build component code - inline all components
   let componentCode = '';
@@ -266,31 +356,64 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
   // Remove any standalone component name expressions from componentCode
   componentCode = componentCode.replace(/^\s*[A-Z][a-zA-Z0-9]*\s*;?\s*$/gm, '');
 
+  // Inline the numeral helper (sites with Arabic) - i18n's n() and single-language components use it
+  let numeralsCode = '';
+  const numeralsJs = files[NUMERALS_PATH] || '';
+  if (numeralsJs) {
+    numeralsCode = numeralsJs
+      .replace(/^import\s+.*$/gm, '')
+      .replace(/^export\s+/gm, '')
+      .trim();
+  }
+  // Inline the light/dark toggle hook (sites with dark mode) - the navbar uses it
+  let darkModeCode = '';
+  if (hasDarkMode) {
+    darkModeCode = files[DARK_MODE_PATH]
+      .replace(/^import\s+.*$/gm, '')
+      .replace(/^export\s+/gm, '')
+      .trim();
+  }
+
+  const formatNumber = numeralsCode
+    ? 'formatNumerals(value, language)'
+    : "(value === undefined || value === null ? '' : String(value))";
+
   // Build i18n code if bilingual - generate our own reliable implementation
   let i18nCode = '';
-  if (languageMode === 'bilingual' && i18nJs) {
+  if (languageMode === 'bilingual' && i18nJs && locales.length > 0) {
     // Parse JSON files to ensure they're valid objects
-    let enTranslations = {};
-    let arTranslations = {};
-    try {
-      enTranslations = JSON.parse(enJson);
-    } catch {
-      enTranslations = {};
-    }
-    try {
-      arTranslations = JSON.parse(arJson);
-    } catch {
-      arTranslations = {};
+    const translations: Record<string, unknown> = {};
+    for (const code of locales) {
+      try {
+        translations[code] = JSON.parse(files[getLocalePath(code)] || '{}');
+      } catch {
+        translations[code] = {};
+      }
     }
+    const localeOptions = locales.map(code => {
+      const { nativeName, dir } = getSiteLocale(code);
+      return { code, label: nativeName, dir };
+    });
+
+    // Sites whose components never switch language still get a switcher in the preview
+    const hasSwitcher = Object.values(components).some(content => /toggleLanguage|setLanguage/.test(content));
+    const switcher = hasSwitcher ? '' : `
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            style={{ position: 'fixed', bottom: 16, insetInlineEnd: 16, zIndex: 9999, padding: '6px 10px', borderRadius: 8, border: '1px solid #d1d5db', background: '#fff', fontSize: 14 }}
+            aria-label="Language"
+          >
+            {localeOptions.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+          </select>`;
     
     // Generate our own reliable i18n implementation instead of using AI-generated code
     // This ensures it always works correctly
     i18nCode = `
     // i18n setup - reliable implementation
-    const translations = {
-      en: ${JSON.stringify(enTranslations)},
-      ar: ${JSON.stringify(arTranslations)}
-    };
+    const translations = ${JSON.stringify(translations)};
+    const LOCALES = ${JSON.stringify(locales)};
+    const localeOptions = ${JSON.stringify(localeOptions)};
     
     const LanguageContext = React.createContext();
     
@@ -302,11 +425,17 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
       return context;
     }
     
+    // Links like /?lang=ar (hreflang alternates) open the site in that language
+    function getInitialLanguage() {
+      const requested = new URLSearchParams(window.location.search).get('lang');
+      return LOCALES.includes(requested) ? requested : LOCALES[0];
+    }
+    
     function LanguageProvider({ children }) {
-      const [language, setLanguage] = React.useState('en');
+      const [language, setLanguage] = React.useState(getInitialLanguage);
       
       const toggleLanguage = () => {
-        setLanguage(prev => prev === 'en' ? 'ar' : 'en');
+        setLanguage(prev => LOCALES[(LOCALES.indexOf(prev) + 1) % LOCALES.length]);
       };
       
       const t = (key) => {
@@ -318,18 +447,56 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
         return value || key;
       };
       
+      const n = (value) => ${formatNumber};
+      
+      const dir = localeOptions.find(option => option.code === language)?.dir || 'ltr';
+      
       React.useEffect(() => {
-        document.documentElement.setAttribute('dir', language === 'ar' ? 'rtl' : 'ltr');
+        document.documentElement.setAttribute('dir', dir);
         document.documentElement.setAttribute('lang', language);
-      }, [language]);
+      }, [language, dir]);
       
       return (
-        <LanguageContext.Provider value={{ language, setLanguage, toggleLanguage, t }}>
-          {children}
+        <LanguageContext.Provider value={{ language, setLanguage, toggleLanguage, t, n, dir, locales: localeOptions }}>
+          {children}${switcher}
         </LanguageContext.Provider>
       );
     }
     `;
+  } else {
+    // Single-language sites don't use translations - this fallback only keeps
+    // components that still call useLanguage() (e.g. from older bilingual edits) rendering
+    i18nCode = `
+    function useLanguage() {
+      const language = '${lang}';
+      return { language, setLanguage: () => {}, toggleLanguage: () => {}, t: (key) => key, n: (value) => ${formatNumber} };
+    }
+    
+    function LanguageProvider({ children }) {
+      return children;
+    }
+    `;
+  }
+
+  // Inline the router for multi-page sites (static code written by the Coder Agent)
+  let routerCode = '';
+  const routerJsx = files['src/router.jsx'] || '';
+  if (routerJsx) {
+    routerCode = routerJsx
+      .replace(/^import\s+.*$/gm, '')
+      .replace(/^export\s+default\s+/gm, '')
+      .replace(/^export\s+/gm, '')
+      .trim();
+  }
+
+  // Inline the form helper - preview forms post to the real submissions endpoint
+  let formsCode = '';
+  const formsJs = files['src/forms.js'] || '';
+  if (formsJs) {
+    formsCode = formsJs
+      .replace(/^import\s+.*$/gm, '')
+      .replace(/^export\s+/gm, '')
+      .trim();
   }
 
   // Clean App.jsx - remove imports, keep component logic
@@ -395,22 +562,27 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
     `;
   }
 
-  return `<!DOCTYPE html>
+  const html = `<!DOCTYPE html>
 <html lang="${lang}" dir="${dir}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta http-equiv="Content-Type" content="text/html; charset=UTF-8">
-  <title>${projectName}</title>
+  <title>${title.replace(/</g, '&lt;')}</title>
+  ${seoTags}
   ${fonts}
   <script crossorigin src="https://unpkg.com/react@18/umd/react.development.js"></script>
   <script crossorigin src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
   <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
   <script src="https://cdn.tailwindcss.com"></script>
+  ${tailwindConfig}
+  ${hasDarkMode ? `${buildDarkModeInitScript()}\n  ${buildPreviewColorSchemeScript()}` : ''}
   <style>
     ${indexCss}
     html { scroll-behavior: smooth; }
     body { ${fontFamily} }
+    ${themeCss}
+    ${rtlFontFamily}
     * { font-family: inherit; }
     #error-display {
       display: none;
@@ -515,7 +687,11 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
   <script type="text/babel">
     try {
       const { useState, useEffect, createContext, useContext } = React;
+      ${numeralsCode}
+      ${darkModeCode}
       ${i18nCode}
+      ${routerCode}
+      ${formsCode}
       ${componentCode}
       ${cleanedAppJsx}
       
@@ -568,41 +744,43 @@ export function generatePreviewHTML(files: ProjectFiles, languageMode: string):
   </script>
   <script>
     // Smooth scroll navigation with browser compatibility
+    // Delegated so links rendered later (e.g. after a page change) are handled too
     (function() {
       if (typeof document === 'undefined' || typeof window === 'undefined') return;
       
-      setTimeout(function() {
-        var anchors = document.querySelectorAll('a[href^="#"]');
-        for (var i = 0; i < anchors.length; i++) {
-          anchors[i].addEventListener('click', function (e) {
-            var href = this.getAttribute('href');
-            if (href && href !== '#' && href !== '#!') {
-              e.preventDefault();
-              var targetId = href.substring(1);
-              var targetElement = document.getElementById(targetId);
-              if (targetElement) {
-                var offset = 80;
-                var elementPosition = targetElement.getBoundingClientRect().top;
-                var offsetPosition = elementPosition + (window.pageYOffset || window.scrollY || 0) - offset;
-                
-                // Use smooth scroll with fallback
-                if (window.scrollTo && typeof window.scrollTo === 'function') {
-                  if ('scrollBehavior' in document.documentElement.style) {
-                    window.scrollTo({ top: offsetPosition, behavior: 'smooth' });
-                  } else {
-                    // Fallback for browsers without smooth scroll support
-                    window.scrollTo(0, offsetPosition);
-                  }
-                }
-              }
+      document.addEventListener('click', function (e) {
+        var anchor = e.target && e.target.closest ? e.target.closest('a[href^="#"]') : null;
+        if (!anchor) return;
+        
+        var href = anchor.getAttribute('href');
+        // Page routes (#/menu) are handled by the router via hashchange
+        if (!href || href === '#' || href === '#!' || href.indexOf('#/') === 0) return;
+        
+        e.preventDefault();
+        var targetId = href.substring(1);
+        var targetElement = document.getElementById(targetId);
+        if (targetElement) {
+          var offset = 80;
+          var elementPosition = targetElement.getBoundingClientRect().top;
+          var offsetPosition = elementPosition + (window.pageYOffset || window.scrollY || 0) - offset;
+          
+          // Use smooth scroll with fallback
+          if (window.scrollTo && typeof window.scrollTo === 'function') {
+            if ('scrollBehavior' in document.documentElement.style) {
+              window.scrollTo({ top: offsetPosition, behavior: 'smooth' });
+            } else {
+              // Fallback for browsers without smooth scroll support
+              window.scrollTo(0, offsetPosition);
             }
-          });
+          }
         }
-      }, 1000);
+      });
     })();
   </script>
 </body>
 </html>`;
+
+  return Object.entries(assetUrls).reduce((result, [sitePath, url]) => result.split(sitePath).join(url), html);
 }
 
 /**
@@ -613,28 +791,56 @@ export async function createBuild(args: {
   prompt: string;
   files: ProjectFiles;
   summary?: string;
-  languageMode?: string;
+  languageMode?: LanguageMode;
+  repairedFiles?: FileRepair[];
+  usage?: BuildUsage;
+  client?: SupabaseClient; // The request's authenticated client - only the owner can list the project's assets
 }): Promise<Build> {
-  const { projectId, prompt, files, languageMode = 'english-only' } = args;
+  const { projectId, prompt, files, languageMode = 'english-only', repairedFiles = [], usage, client } = args;
 
   // Get next version number
   const version = await getNextVersion(projectId);
 
-  // Generate preview HTML from React project
-  const previewHtml = generatePreviewHTML(files, languageMode);
+  // Generate preview HTML from React project, with the project's uploaded assets
+  const assets = await listProjectAssets(projectId, client);
+  const previewHtml = generatePreviewHTML(
+    files,
+    languageMode,
+    Object.fromEntries(assets.map(asset => [asset.sitePath, asset.url]))
+  );
+
+  const row = {
+    project_id: projectId,
+    version,
+    prompt,
+    files: files as unknown, // Store as JSONB
+    preview_html: previewHtml,
+  };
+
+  // Repairs and usage are bookkeeping, stored as JSONB when there is something to store
+  const bookkeeping: Record<string, unknown> = {};
+  if (repairedFiles.length > 0) {
+    bookkeeping.repaired_files = repairedFiles;
+  }
+  if (usage) {
+    bookkeeping.usage = usage;
+  }
+  const hasBookkeeping = Object.keys(bookkeeping).length > 0;
 
-  const { data, error } = await supabase
+  let { data, error } = await supabase
     .from('builds')
-    .insert({
-      project_id: projectId,
-      version,
-      prompt,
-      files: files as unknown, // Store as JSONB
-      preview_html: previewHtml,
-    })
+    .insert(hasBookkeeping ? { ...row, ...bookkeeping } : row)
     .select()
     .single();
 
+  // Save the build without them if their migrations haven't been run
+  if (error && hasBookkeeping && (
+    error.code === '42703' || error.message?.includes('usage') || error.message?.includes('repaired_files')
+  )) {
+    console.warn('repaired_files or usage column not found - migrations may not be run. Build saved without them.');
+    ({ data, error } = await supabase.from('builds').insert(row).select().single());
+  }
+
   if (error) {
     console.error('Error creating build:', error);
     throw new Error(`Failed to create build: ${error.message}`);
@@ -693,12 +899,17 @@ export async function getBuildByVersion(
 
 /**
  * Get the latest build for a project
+ * @param beforeVersion - Only consider builds older than this version
  */
-export async function getLatestBuild(projectId: string): Promise<Build | null> {
-  const { data, error } = await supabase
+export async function getLatestBuild(projectId: string, beforeVersion?: number): Promise<Build | null> {
+  let query = supabase
     .from('builds')
     .select('*')
-    .eq('project_id', projectId)
+    .eq('project_id', projectId);
+  if (beforeVersion !== undefined) {
+    query = query.lt('version', beforeVersion);
+  }
+  const { data, error } = await query
     .order('version', { ascending: false })
     .limit(1)
     .single();
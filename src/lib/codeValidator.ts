@@ -0,0 +1,203 @@
+/**
+ * Code Validator - Syntax checks and automatic repair for generated files
+ *
+ * Every JS/JSX file is parsed with @babel/parser (JSON files with JSON.parse)
+ * before it is written to the workspace. A file with syntax errors is sent back
+ * to the model together with the parser diagnostics and re-checked, up to
+ * CODE_REPAIR_ATTEMPTS times (default 2). Files that still fail are never
+ * written - the write throws so the caller can treat it as a failed file.
+ *
+ * Repairs are recorded so the build can show which files needed fixing.
+ */
+
+import { parse } from '@babel/parser';
+import { FileTools } from './workspaceService';
+import { getLLMProvider } from './llmProvider';
+
+export interface SyntaxDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface FileRepair {
+  path: string;
+  attempts: number;
+  repaired: boolean;
+  diagnostics: string[]; // Diagnostics of the original (broken) content
+}
+
+/**
+ * Max number of repair round-trips per file (CODE_REPAIR_ATTEMPTS, default 2)
+ */
+function getRepairAttempts(): number {
+  const parsed = parseInt(process.env.CODE_REPAIR_ATTEMPTS || '', 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : 2;
+}
+
+/**
+ * Convert a character offset to a 1-based line/column position
+ */
+function offsetToPosition(content: string, offset: number): { line: number; column: number } {
+  const before = content.substring(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length };
+}
+
+/**
+ * Parse a file and return its syntax errors (empty when the file is valid)
+ * Only JS/JSX and JSON files are checked, anything else is always valid
+ */
+export function checkSyntax(path: string, content: string): SyntaxDiagnostic[] {
+  if (path.endsWith('.json')) {
+    try {
+      JSON.parse(content);
+      return [];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid JSON';
+      const positionMatch = message.match(/position (\d+)/);
+      const position = positionMatch
+        ? offsetToPosition(content, parseInt(positionMatch[1], 10))
+        : { line: 1, column: 0 };
+      return [{ message, ...position }];
+    }
+  }
+
+  if (!/\.(jsx?|mjs|cjs)$/.test(path)) {
+    return [];
+  }
+
+  // Babel appends "(line:column)" to messages - we report the position separately
+  const cleanMessage = (message: string) => message.replace(/\s*\(\d+:\d+\)$/, '');
+
+  try {
+    const ast = parse(content, {
+      sourceType: 'module',
+      plugins: ['jsx'],
+      errorRecovery: true,
+    });
+    // Recovered errors are SyntaxErrors at runtime, but Babel's ParseError type doesn't declare message
+    return (ast.errors || []).map(error => ({
+      message: cleanMessage(error instanceof Error ? error.message : String(error)),
+      line: error.loc?.line || 1,
+      column: error.loc?.column || 0,
+    }));
+  } catch (error) {
+    // Unrecoverable syntax error - Babel stops at the first one
+    const babelError = error as Error & { loc?: { line: number; column: number } };
+    return [{
+      message: cleanMessage(babelError.message || 'Syntax error'),
+      line: babelError.loc?.line || 1,
+      column: babelError.loc?.column || 0,
+    }];
+  }
+}
+
+/**
+ * Format diagnostics for logs and model prompts
+ */
+export function formatDiagnostics(diagnostics: SyntaxDiagnostic[]): string[] {
+  return diagnostics.map(d => `Line ${d.line}, column ${d.column}: ${d.message}`);
+}
+
+/**
+ * Ask the model to fix the syntax errors in a file, returning the full corrected file
+ */
+async function requestRepair(
+  path: string,
+  content: string,
+  diagnostics: SyntaxDiagnostic[],
+  stage: string
+): Promise<string> {
+  const llm = getLLMProvider();
+  const isJson = path.endsWith('.json');
+
+  const systemPrompt = `You fix syntax errors in a single ${isJson ? 'JSON' : 'JavaScript/JSX (React)'} file.
+
+RULES:
+- Fix ONLY the reported syntax errors - do not change behavior, text, styling or structure otherwise
+- Return the COMPLETE corrected file
+- Return ONLY the raw file content - no markdown, no code blocks, no explanations`;
+
+  const userMessage = `File: ${path}
+
+Parser errors:
+${formatDiagnostics(diagnostics).map(d => `- ${d}`).join('\n')}
+
+Current content:
+${content}`;
+
+  const completion = await llm.complete({
+    stage,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userMessage },
+    ],
+    temperature: 0.1,
+    maxTokens: 4000,
+  });
+
+  return (completion.content || '')
+    .replace(/^```[\w]*\n?/, '')
+    .replace(/\n?```$/, '')
+    .trim();
+}
+
+/**
+ * Wrap file tools so every write is syntax-checked and repaired before it is saved
+ *
+ * Patches go through the same check: apply_patch writes via this.write_file,
+ * which resolves to the checked write_file on the wrapped object.
+ */
+export function withSyntaxRepair(
+  fileTools: FileTools,
+  options: { stage: string; repairs: FileRepair[] }
+): FileTools {
+  const maxAttempts = getRepairAttempts();
+
+  return {
+    ...fileTools,
+    async write_file(path: string, content: string): Promise<void> {
+      const originalDiagnostics = checkSyntax(path, content);
+      if (originalDiagnostics.length === 0) {
+        await fileTools.write_file(path, content);
+        return;
+      }
+
+      console.warn(`🩹 Syntax errors in ${path}:`, formatDiagnostics(originalDiagnostics));
+
+      let current = content;
+      let diagnostics = originalDiagnostics;
+      let attempts = 0;
+
+      while (diagnostics.length > 0 && attempts < maxAttempts) {
+        attempts++;
+        try {
+          const candidate = await requestRepair(path, current, diagnostics, options.stage);
+          if (candidate) {
+            current = candidate;
+            diagnostics = checkSyntax(path, current);
+          }
+        } catch (error) {
+          console.error(`❌ Repair attempt ${attempts} for ${path} failed:`, error);
+        }
+      }
+
+      const repaired = diagnostics.length === 0;
+      options.repairs.push({
+        path,
+        attempts,
+        repaired,
+        diagnostics: formatDiagnostics(originalDiagnostics),
+      });
+
+      if (!repaired) {
+        throw new Error(
+          `Syntax errors in ${path} after ${attempts} repair attempt(s): ${formatDiagnostics(diagnostics).join('; ')}`
+        );
+      }
+
+      console.log(`✅ Repaired ${path} after ${attempts} attempt(s)`);
+      await fileTools.write_file(path, current);
+    },
+  };
+}
@@ -3,71 +3,294 @@
  * 
  * Uses file tools (list/read/write/apply_patch) to generate:
  * - Config files (package.json, vite.config.js, etc.)
+ * - Theme files (src/theme.json, tailwind.config.js with the plan's design tokens)
  * - React components
+ * - Pages and router (multi-page sites)
  * - Translation files (if bilingual)
  * - Entry files (main.jsx, App.jsx, index.css)
+ *
+ * Sites built from a starter template get the template's components as-is and
+ * its locale content customized for the business (see ./templates).
  */
 
-import OpenAI from 'openai';
 import { FileTools } from './workspaceService';
-import { ArchitecturePlan } from './architectAgent';
+import { ProjectFiles } from './buildService';
+import { describeProjectAssets } from './assetService';
+import { ArchitecturePlan, FORMS_PATH, PageTask, ROUTER_PATH, isFormComponent } from './architectAgent';
 import { GenerationPlan } from './plannerAgent';
+import { getLLMProvider, LLMProvider } from './llmProvider';
+import { ProgressReporter } from './progressStream';
+import { getLocalePath, getSiteLocale, localeFromPath } from './siteLocales';
+import { SiteTheme, THEME_PATH, THEME_TOKEN_GUIDE, buildTailwindConfig, buildThemeFontLinks, normalizeTheme } from './siteTheme';
+import { SEO_PATH, SiteSeo, buildSeoHeadTags, getSeoText, normalizeSeo } from './siteSeo';
+import { NUMERALS_PATH, NumeralStyle, buildNumeralsSource, describeNumeralUsage, isNumeralStyle } from './siteNumerals';
+import { DARK_MODE_PATH, buildDarkModeInitScript, buildDarkModeSource, describeDarkModeUsage } from './siteDarkMode';
+import { isPinnedSection, orderPageComponents } from './siteSections';
+import {
+  StarterTemplate,
+  TemplateId,
+  buildSectionLinks,
+  buildTemplateComponent,
+  buildTemplateFooter,
+  buildTemplateLocale,
+  buildTemplateNavbar,
+  getStarterTemplateById,
+  inlineTranslations,
+} from './templates';
+
+export interface TaskFailure {
+  path: string;
+  error: string;
+}
 
-const getOpenAIClient = () => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-  return new OpenAI({ apiKey });
-};
+export interface CodeGenerationResult {
+  failures: TaskFailure[];
+}
+
+// Longest previous file version passed to a prompt when regenerating
+const MAX_PREVIOUS_VERSION_LENGTH = 8000;
+
+/**
+ * Max number of LLM calls the Coder runs at once (CODER_CONCURRENCY, default 4)
+ */
+function getConcurrencyLimit(): number {
+  const parsed = parseInt(process.env.CODER_CONCURRENCY || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 4;
+}
+
+/**
+ * Run tasks with a bounded number in flight
+ * A failed task is recorded in `failures` instead of aborting the remaining tasks
+ */
+async function runTasks<T extends { path: string }>(
+  tasks: T[],
+  limit: number,
+  worker: (task: T) => Promise<void>,
+  failures: TaskFailure[],
+  onProgress?: ProgressReporter
+): Promise<void> {
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < tasks.length) {
+      const task = tasks[nextIndex++];
+      onProgress?.({ type: 'file_started', path: task.path });
+      try {
+        await worker(task);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Failed to generate ${task.path}:`, error);
+        failures.push({ path: task.path, error: message });
+        onProgress?.({ type: 'error', message, path: task.path });
+      }
+    }
+  };
+
+  const workerCount = Math.min(limit, tasks.length);
+  await Promise.all(Array.from({ length: workerCount }, () => runNext()));
+}
 
 /**
  * Coder Agent - Generates project files using file tools
+ *
+ * Independent tasks run concurrently, in three ordered phases:
+ * 1. Config files, translation files and entry files other than App.jsx
+ *    (extra locales are translated from the English/Arabic files once those exist)
+ * 2. Components (after translations, so they can reference existing keys)
+ * 3. Pages, then App.jsx (after components, so they only import files that were written)
+ *
+ * When resuming a checkpointed run, tasks in completedPaths are skipped. Pages and
+ * App.jsx are always rewritten since they depend on which components now exist.
+ *
+ * When regenerating, previousFiles holds the latest build so components and locale
+ * files keep the text the user already refined.
+ *
+ * Forms post to formEndpoint (see formService.getFormEndpoint) through src/forms.js.
  */
 export async function codeGeneration(
   plan: GenerationPlan,
   architecture: ArchitecturePlan,
   fileTools: FileTools,
-  userPrompt: string
-): Promise<void> {
-  const openai = getOpenAIClient();
+  userPrompt: string,
+  onProgress?: ProgressReporter,
+  options: { completedPaths?: Set<string>; previousFiles?: ProjectFiles; formEndpoint?: string } = {}
+): Promise<CodeGenerationResult> {
+  const llm = getLLMProvider();
+  const limit = getConcurrencyLimit();
+  const failures: TaskFailure[] = [];
+
+  const completedPaths = options.completedPaths || new Set<string>();
+  const requiredTasks = architecture.tasks.filter(t =>
+    t.priority === 'required' &&
+    (!completedPaths.has(t.path) || t.type === 'page' || t.path === 'src/App.jsx')
+  );
+  if (completedPaths.size > 0) {
+    console.log(`⏩ Resuming run: ${requiredTasks.length} task(s) left (${completedPaths.size} file(s) restored)`);
+  }
+  const entryTasks = requiredTasks.filter(t => t.type === 'entry');
+  const appJsxTask = entryTasks.find(t => t.path === 'src/App.jsx');
+  const previousFiles = options.previousFiles || {};
+  const templateContext = createTemplateContext(plan, architecture, llm, userPrompt, previousFiles);
+  if (templateContext) {
+    console.log(`🧩 Using starter template: ${templateContext.template.id}@${templateContext.template.version} (${templateContext.sections.length} sections)`);
+  }
 
-  // Generate files in order: configs → translations FIRST → components → entry files
-  const requiredTasks = architecture.tasks.filter(t => t.priority === 'required');
+  // Phase 1: Config, translation and entry files (none depend on each other)
+  const sourceLocales = getSourceLocales(plan);
+  const isTranslatedLocale = (path: string) => {
+    const locale = localeFromPath(path);
+    return locale !== null && !sourceLocales.includes(locale);
+  };
+  const foundationTasks = requiredTasks.filter(t =>
+    t.type === 'config' ||
+    (t.type === 'translation' && !isTranslatedLocale(t.path)) ||
+    (t.type === 'entry' && t.path !== 'src/App.jsx')
+  );
+  await runTasks(foundationTasks, limit, async (task) => {
+    if (task.type === 'config') {
+      await generateConfigFile(task, plan, fileTools, llm);
+    } else if (task.type === 'translation') {
+      const locale = localeFromPath(task.path);
+      if (templateContext && locale) {
+        await fileTools.write_file(task.path, JSON.stringify(await templateContext.getContent(locale), null, 2));
+      } else {
+        await generateTranslationFile(task, plan, architecture, fileTools, llm, userPrompt, previousFiles[task.path]);
+      }
+    } else if (task.path === FORMS_PATH) {
+      // The form helper is static code with the project's endpoint - never worth an LLM call
+      await fileTools.write_file(FORMS_PATH, buildFormsSource(options.formEndpoint || ''));
+    } else if (task.path === NUMERALS_PATH) {
+      await fileTools.write_file(NUMERALS_PATH, buildNumeralsSource(getPlanNumerals(plan)));
+    } else if (task.path === DARK_MODE_PATH) {
+      await fileTools.write_file(DARK_MODE_PATH, buildDarkModeSource());
+    } else {
+      await generateEntryFile(task, plan, architecture, fileTools, llm);
+    }
+  }, failures, onProgress);
+
+  // Remaining locales are translated from the source locale files written above
+  const translatedLocaleTasks = requiredTasks.filter(t => t.type === 'translation' && isTranslatedLocale(t.path));
+  await runTasks(translatedLocaleTasks, limit, async (task) => {
+    await generateTranslationFile(task, plan, architecture, fileTools, llm, userPrompt);
+  }, failures, onProgress);
+
+  // Phase 2: Components (they can now reference translation keys)
+  const requiredComponents = requiredTasks.filter(t => t.type === 'component');
+  console.log(`📦 Generating ${requiredComponents.length} required components (concurrency ${limit}):`, requiredComponents.map(t => t.path));
+
+  const failuresBeforeComponents = failures.length;
+  await runTasks(requiredComponents, limit, async (task) => {
+    if (templateContext && task.templateSection) {
+      await writeTemplateComponent(task, plan, architecture, templateContext, fileTools);
+    } else {
+      await generateComponent(task, plan, architecture, fileTools, llm, userPrompt, previousFiles[task.path]);
+    }
+  }, failures, onProgress);
 
-  // Step 1: Generate config files
-  for (const task of requiredTasks.filter(t => t.type === 'config')) {
-    await generateConfigFile(task, plan, fileTools, openai);
+  // Nothing usable was produced - fail the run instead of shipping an empty site
+  const componentFailures = failures.length - failuresBeforeComponents;
+  const restoredComponents = architecture.tasks.filter(t => t.type === 'component' && completedPaths.has(t.path));
+  if (requiredComponents.length > 0 && componentFailures === requiredComponents.length && restoredComponents.length === 0) {
+    throw new Error(`Coder Agent failed to generate any components: ${failures[failures.length - 1].error}`);
   }
 
-  // Step 2: Generate translation files FIRST (before components so components know what keys exist)
-  for (const task of requiredTasks.filter(t => t.type === 'translation')) {
-    await generateTranslationFile(task, plan, architecture, fileTools, openai, userPrompt);
+  // Phase 3: Pages and App.jsx last, after all components exist
+  const pageTasks = requiredTasks.filter(t => t.type === 'page');
+  await runTasks(pageTasks, limit, async (task) => {
+    await generatePageFile(task, architecture, fileTools);
+  }, failures, onProgress);
+
+  if (appJsxTask) {
+    await runTasks([appJsxTask], 1, async (task) => {
+      await generateEntryFile(task, plan, architecture, fileTools, llm);
+    }, failures, onProgress);
   }
 
-  // Step 3: Generate required components (they can now reference translation keys)
-  const requiredComponents = requiredTasks.filter(t => t.type === 'component');
-  console.log(`📦 Generating ${requiredComponents.length} required components:`, requiredComponents.map(t => t.path));
-  
-  for (const task of requiredComponents) {
-    await generateComponent(task, plan, architecture, fileTools, openai, userPrompt);
+  if (failures.length > 0) {
+    console.warn(`⚠️  ${failures.length} file(s) failed to generate:`, failures.map(f => f.path));
   }
 
-  // Step 4: Generate entry files (App.jsx needs components to exist first)
-  // Generate main.jsx and index.css first, then App.jsx
-  const entryTasks = requiredTasks.filter(t => t.type === 'entry');
-  const appJsxTask = entryTasks.find(t => t.path === 'src/App.jsx');
-  const otherEntryTasks = entryTasks.filter(t => t.path !== 'src/App.jsx');
-  
-  // Generate other entry files first
-  for (const task of otherEntryTasks) {
-    await generateEntryFile(task, plan, architecture, fileTools, openai);
+  return { failures };
+}
+
+/**
+ * Previous version of a file for a prompt when regenerating, empty when there is none
+ */
+function describePreviousVersion(content: string | undefined, kind: 'component' | 'translations' | 'redesign'): string {
+  if (!content) {
+    return '';
   }
-  
-  // Generate App.jsx last, after all components exist
-  if (appJsxTask) {
-    await generateEntryFile(appJsxTask, plan, architecture, fileTools, openai);
+  const excerpt = content.length > MAX_PREVIOUS_VERSION_LENGTH
+    ? `${content.substring(0, MAX_PREVIOUS_VERSION_LENGTH)}\n... (truncated)`
+    : content;
+  if (kind === 'redesign') {
+    return `
+
+CURRENT VERSION of this file - the user wants a different version of it:
+Keep its text, items, section id and translation keys, but give it a new layout and styling unless the user's request says otherwise, and still follow every rule above.
+${excerpt}`;
   }
+  const keep = kind === 'component' ? 'its text, items and layout choices' : 'its keys and text';
+  return `
+
+PREVIOUS VERSION of this file (the user may have refined it through edits):
+Keep ${keep} unless the user's request changes them, and still follow every rule above.
+${excerpt}`;
+}
+
+/**
+ * Describe the site's pages for prompts, e.g. "Home → #/, Menu → #/menu"
+ * Returns an empty string for single-page sites
+ */
+function describePageRoutes(architecture: ArchitecturePlan): string {
+  return architecture.pages
+    .map(page => `${page.name} → #${page.route}`)
+    .join(', ');
+}
+
+/**
+ * Language settings for the plan's language mode
+ * Bilingual sites start in English and switch at runtime; single-language sites are fixed
+ */
+function getLanguageSettings(plan: GenerationPlan): {
+  isBilingual: boolean;
+  lang: 'en' | 'ar';
+  dir: 'ltr' | 'rtl';
+  languageName: string;
+} {
+  const isArabicOnly = plan.languageMode === 'ARABIC_ONLY';
+  return {
+    isBilingual: plan.languageMode === 'BILINGUAL',
+    lang: isArabicOnly ? 'ar' : 'en',
+    dir: isArabicOnly ? 'rtl' : 'ltr',
+    languageName: isArabicOnly ? 'Arabic' : 'English',
+  };
+}
+
+/**
+ * The plan's theme - plans checkpointed before Arabic line heights get the default one
+ */
+function getPlanTheme(plan: GenerationPlan): SiteTheme {
+  return normalizeTheme(plan.theme);
+}
+
+/**
+ * The plan's numeral style - plans checkpointed before numeral styles use Western digits
+ */
+function getPlanNumerals(plan: GenerationPlan): NumeralStyle {
+  return isNumeralStyle(plan.numerals) ? plan.numerals : 'western';
+}
+
+/**
+ * The plan's SEO text - plans checkpointed before SEO existed get it from the project name
+ */
+function getPlanSeo(plan: GenerationPlan): SiteSeo {
+  return normalizeSeo(plan.seo, {
+    projectName: plan.projectName,
+    industry: plan.industry,
+    locales: plan.locales,
+    pages: plan.pages?.map(page => page.path),
+  });
 }
 
 /**
@@ -77,9 +300,52 @@ async function generateConfigFile(
   task: { path: string; description: string },
   plan: GenerationPlan,
   fileTools: FileTools,
-  openai: OpenAI
+  llm: LLMProvider
 ): Promise<void> {
   const fileName = task.path.split('/').pop() || '';
+
+  // Theme, SEO and index.html are written directly so the tokens, font block and head tags stay exact
+  if (task.path === THEME_PATH) {
+    await fileTools.write_file(THEME_PATH, JSON.stringify(getPlanTheme(plan), null, 2));
+    return;
+  }
+  if (task.path === SEO_PATH) {
+    await fileTools.write_file(SEO_PATH, JSON.stringify(getPlanSeo(plan), null, 2));
+    return;
+  }
+  if (fileName === 'tailwind.config.js') {
+    await fileTools.write_file(task.path, buildTailwindConfig(getPlanTheme(plan), { darkMode: plan.darkMode === true }));
+    return;
+  }
+  if (fileName === 'index.html') {
+    // Bilingual sites need both Latin and Arabic fonts, single-language sites only their own
+    const { isBilingual, lang, dir } = getLanguageSettings(plan);
+    const fontLinks = buildThemeFontLinks(getPlanTheme(plan), {
+      latin: isBilingual || lang === 'en',
+      arabic: isBilingual || lang === 'ar',
+    });
+    // The site URL isn't known yet - the deploy adds canonical, hreflang, sitemap.xml and robots.txt
+    const seoLocale = plan.locales[0] || lang;
+    const seo = getPlanSeo(plan);
+    const seoTags = buildSeoHeadTags(seo, { locale: seoLocale });
+    await fileTools.write_file(task.path, `<!DOCTYPE html>
+<html lang="${lang}" dir="${dir}">
+  <head>
+    <meta charset="UTF-8" />
+    <link rel="icon" type="image/svg+xml" href="/vite.svg" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${getSeoText(seo, seoLocale).title.replace(/</g, '&lt;')}</title>
+    ${seoTags}
+    ${fontLinks}${plan.darkMode === true ? `\n    ${buildDarkModeInitScript()}` : ''}
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`);
+    return;
+  }
   
   let systemPrompt = '';
   
@@ -98,41 +364,12 @@ MANDATORY DEPENDENCIES (must include):
 
 Requirements:
 - Project name: ${plan.projectName}
+- "type": "module" (tailwind.config.js uses export default)
 - Include all standard Vite + React scripts
 - Use latest stable versions
 - Make it production-ready
 
 Return ONLY valid JSON, no markdown, no code blocks.`;
-  } else if (fileName === 'index.html') {
-    // Always bilingual - include both English and Arabic fonts
-    const fontLinks: string[] = [];
-      fontLinks.push('<link rel="preconnect" href="https://fonts.googleapis.com">');
-      fontLinks.push('<link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>');
-      fontLinks.push('<link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;800&family=Poppins:wght@300;400;500;600;700;800&display=swap" rel="stylesheet">');
-    fontLinks.push('<link href="https://fonts.googleapis.com/css2?family=Cairo:wght@300;400;500;600;700;800&display=swap" rel="stylesheet">');
-    const fontLinksHtml = fontLinks.join('\n    ');
-    
-    systemPrompt = `You are an expert at generating index.html files for Vite + React + Tailwind projects.
-
-Generate the complete index.html file.
-
-MANDATORY CONTENT:
-<!DOCTYPE html>
-<html lang="en" dir="ltr">
-  <head>
-    <meta charset="UTF-8" />
-    <link rel="icon" type="image/svg+xml" href="/vite.svg" />
-    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-    <title>${plan.projectName}</title>
-    ${fontLinksHtml}
-  </head>
-  <body>
-    <div id="root"></div>
-    <script type="module" src="/src/main.jsx"></script>
-  </body>
-</html>
-
-Return ONLY the file content, no markdown, no code blocks.`;
   } else {
     systemPrompt = `You are an expert at generating ${task.path} files for Vite + React + Tailwind projects.
 
@@ -148,17 +385,17 @@ Requirements:
 Return ONLY the file content, no markdown, no code blocks, just the raw file content.`;
   }
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4.1',
+  const completion = await llm.complete({
+    stage: 'coder.config',
     messages: [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: `Generate ${task.path} for a ${plan.industry} website.` },
     ],
     temperature: 0.3,
-    max_tokens: 2000,
+    maxTokens: 2000,
   });
 
-  const content = completion.choices[0]?.message?.content?.trim() || '';
+  const content = completion.content || '';
   if (content) {
     // Remove markdown code blocks if present
     const cleaned = content.replace(/^```[\w]*\n?/, '').replace(/\n?```$/, '');
@@ -174,8 +411,10 @@ async function generateComponent(
   plan: GenerationPlan,
   architecture: ArchitecturePlan,
   fileTools: FileTools,
-  openai: OpenAI,
-  userPrompt: string
+  llm: LLMProvider,
+  userPrompt: string,
+  previousContent?: string,
+  previousKind: 'component' | 'redesign' = 'component'
 ): Promise<void> {
   // Extract component name from path
   let componentName = task.path.split('/').pop()?.replace('.jsx', '') || 'Component';
@@ -202,8 +441,60 @@ async function generateComponent(
   }
   
   console.log(`🔨 Generating component: ${componentName} (path: ${task.path})`);
-  // All websites are now bilingual (always support both English and Arabic)
-  const isBilingual = true;
+  const { isBilingual, dir, languageName } = getLanguageSettings(plan);
+  const localeFiles = plan.locales.map(code => `${code}.json`).join(', ');
+  // Anything other than the classic English/Arabic pair gets a dropdown switcher instead of a toggle
+  const needsLocaleSwitcher = isBilingual && plan.locales.join(',') !== 'en,ar';
+
+  // Bilingual sites read all text from the locale files, single-language sites hardcode it
+  const languageRules = isBilingual ? `========================================================
+= 4. LANGUAGE MODE HANDLING (BILINGUAL)                =
+========================================================
+
+CRITICAL: This website supports BOTH English and Arabic with a language toggle button.
+
+### BILINGUAL MODE:
+- NO hardcoded strings allowed
+- ALL text must come from translation files (${localeFiles})
+- MUST use the translation hook: const { t, language } = useLanguage()
+- Example: <h1>{t('hero.title')}</h1> instead of <h1>Welcome</h1>
+- All components must import: import { useLanguage } from '../i18n.js' (or appropriate path)
+- Text direction (RTL/LTR) is handled automatically by LanguageProvider based on selected language
+
+### Translation Keys - CRITICAL RULES:
+- ALWAYS access NESTED properties: t('componentName.key') NOT t('componentName')
+- NEVER render objects directly: {t('comparison')} is WRONG - it returns an object
+- ALWAYS access specific keys: {t('comparison.goals')}, {t('comparison.title')}, etc.
+- If you need multiple values from the same section, access each key individually:
+  - CORRECT: <div>{t('comparison.goals')}</div> <div>{t('comparison.assists')}</div>
+  - WRONG: <div>{t('comparison')}</div> (this returns an object and causes errors)
+- For arrays (like menu items, links, features list):
+  - In JSON, arrays must be actual arrays: { "navbar": { "links": ["Home", "About", "Contact"] } }
+  - Component MUST use defensive code: {(Array.isArray(t('navbar.links')) ? t('navbar.links') : []).map(...)}
+  - NOTE: Footer should NOT have links - use navbar.links instead
+  - ALWAYS check if the value is an array before calling .map() to prevent errors
+  - Pattern: {(Array.isArray(t('key')) ? t('key') : []).map(...)} or {(t('key') || []).map(...)} if you're sure it's always an array
+  - BUT: Ensure the translation JSON has arrays, not objects - both English AND Arabic must use arrays
+  - If you need structured data, use array of objects: { "links": [{ "label": "Home", "href": "#" }, ...] }
+  - Then access: {(Array.isArray(t('navbar.links')) ? t('navbar.links') : []).map(link => ...)}
+  - NOTE: Footer should NOT have links - use navbar.links instead
+  - Common array keys: features.list, features.items, navbar.links, services, gallery.items
+- Translation structure in JSON: { "comparison": { "title": "...", "goals": "...", "assists": "..." } }
+- Component must access: t('comparison.title'), t('comparison.goals'), t('comparison.assists')
+- Keys should match the component name (lowercase) and content type
+- Example: Component "Comparison" uses keys like 'comparison.title', 'comparison.goals', 'comparison.assists'` : `========================================================
+= 4. LANGUAGE MODE HANDLING (${languageName.toUpperCase()} ONLY)
+========================================================
+
+CRITICAL: This website is ${languageName} ONLY - there is NO language toggle and NO translation system.
+
+### SINGLE-LANGUAGE MODE:
+- Write ALL text directly in the JSX, in ${languageName}
+- Do NOT import i18n.js, do NOT use useLanguage() or t() - those files do not exist
+- Do NOT add a language toggle button
+- Lists (links, features, menu items) are plain arrays defined in the component: const features = [{ title: '...', description: '...' }]
+${dir === 'rtl' ? `- The page is right-to-left (dir="rtl"): prefer logical spacing/alignment (ms-*, me-*, ps-*, pe-*, text-start, text-end) over left/right
+- Use natural, professional Modern Standard Arabic` : '- Use natural, professional English copy'}`;
 
   const systemPrompt = `You are the Coder Agent for Aqall.  
 You are responsible for creating and editing files inside the project workspace using file tools.
@@ -237,10 +528,12 @@ You receive:
 ========================================================
 
 ### Tailwind rules:
-- Use generous spacing: py-20, px-6
-- Use modern layouts: flex, grid, gap-6+
-- Buttons: rounded-lg, px-6, py-3, font-medium
-- Cards: shadow-md, rounded-xl, p-6
+${THEME_TOKEN_GUIDE}
+- Sections: py-section, container px-gutter
+- Use modern layouts: flex, grid, gap-gutter
+- Buttons: rounded-theme, px-6, py-3, font-medium, bg-primary hover:bg-primary-dark text-white
+- Cards: shadow-md, rounded-theme, p-6, bg-surface or bg-background
+- Headings: font-heading text-foreground; body text: text-muted
 - Hover transitions: hover:scale-[1.02]
 
 ### Component rules:
@@ -257,49 +550,14 @@ You receive:
 - Container: max-w-7xl mx-auto px-4 sm:px-6 lg:px-8
 
 ### Visual Polish:
-- Professional palettes: blue-600, indigo-600, purple-600, emerald-600 for primary
-- Backgrounds: gray-50, gray-100, white
-- Text: gray-900 for headings, gray-700 for body
+- Colors come ONLY from the theme tokens (primary, secondary, accent, background, surface, foreground, muted)
+- Alternate section backgrounds between bg-background and bg-surface
+- Gradients: from-primary to-secondary
 - Shadows: shadow-sm, shadow-md, shadow-lg for depth
-- Rounded corners: rounded-lg, rounded-xl, rounded-2xl
+- Rounded corners: rounded-theme (rounded-full for avatars and pills)
 - Smooth transitions: transition-all duration-300
 
-========================================================
-= 4. LANGUAGE MODE HANDLING (ALWAYS BILINGUAL)         =
-========================================================
-
-CRITICAL: All websites support BOTH English and Arabic with a language toggle button.
-
-### BILINGUAL MODE (ALWAYS):
-- NO hardcoded strings allowed
-- ALL text must come from translation files (en.json, ar.json)
-- MUST use the translation hook: const { t, language } = useLanguage()
-- Example: <h1>{t('hero.title')}</h1> instead of <h1>Welcome</h1>
-- All components must import: import { useLanguage } from '../i18n.js' (or appropriate path)
-- Text direction (RTL/LTR) is handled automatically by LanguageProvider based on selected language
-
-### Translation Keys - CRITICAL RULES:
-- ALWAYS access NESTED properties: t('componentName.key') NOT t('componentName')
-- NEVER render objects directly: {t('comparison')} is WRONG - it returns an object
-- ALWAYS access specific keys: {t('comparison.goals')}, {t('comparison.title')}, etc.
-- If you need multiple values from the same section, access each key individually:
-  - CORRECT: <div>{t('comparison.goals')}</div> <div>{t('comparison.assists')}</div>
-  - WRONG: <div>{t('comparison')}</div> (this returns an object and causes errors)
-- For arrays (like menu items, links, features list):
-  - In JSON, arrays must be actual arrays: { "navbar": { "links": ["Home", "About", "Contact"] } }
-  - Component MUST use defensive code: {(Array.isArray(t('navbar.links')) ? t('navbar.links') : []).map(...)}
-  - NOTE: Footer should NOT have links - use navbar.links instead
-  - ALWAYS check if the value is an array before calling .map() to prevent errors
-  - Pattern: {(Array.isArray(t('key')) ? t('key') : []).map(...)} or {(t('key') || []).map(...)} if you're sure it's always an array
-  - BUT: Ensure the translation JSON has arrays, not objects - both English AND Arabic must use arrays
-  - If you need structured data, use array of objects: { "links": [{ "label": "Home", "href": "#" }, ...] }
-  - Then access: {(Array.isArray(t('navbar.links')) ? t('navbar.links') : []).map(link => ...)}
-  - NOTE: Footer should NOT have links - use navbar.links instead
-  - Common array keys: features.list, features.items, navbar.links, services, gallery.items
-- Translation structure in JSON: { "comparison": { "title": "...", "goals": "...", "assists": "..." } }
-- Component must access: t('comparison.title'), t('comparison.goals'), t('comparison.assists')
-- Keys should match the component name (lowercase) and content type
-- Example: Component "Comparison" uses keys like 'comparison.title', 'comparison.goals', 'comparison.assists'
+${languageRules}
 
 ========================================================
 = 5. EDITING / PATCH MODE                              =
@@ -378,7 +636,7 @@ CRITICAL FOR NAVBAR (BILINGUAL MODE) - MUST CREATE COMPLETE NAVBAR WITH CONTENT:
 
 5. STYLING REQUIREMENTS:
    - Fixed position: fixed top-0 left-0 right-0 z-50
-   - Background: bg-white/90 backdrop-blur-md or bg-white with shadow
+   - Background: bg-background/90 backdrop-blur-md or bg-background with shadow
    - Padding: px-4 md:px-6 py-4
    - Responsive: flex items-center justify-between
    - Mobile menu button: visible md:hidden
@@ -392,20 +650,20 @@ const Navbar = () => {
   const linkHrefs = ['#hero', '#about', '#features', '#services', '#contact'];
   
   return (
-    <nav className="fixed top-0 left-0 right-0 z-50 bg-white/90 backdrop-blur-md border-b border-gray-200">
+    <nav className="fixed top-0 left-0 right-0 z-50 bg-background/90 backdrop-blur-md border-b border-muted/20">
       <div className="container mx-auto px-4 md:px-6 py-4">
         <div className="flex items-center justify-between">
           {/* Logo */}
-          <div className="text-xl font-bold">{t('navbar.logo') || 'Logo'}</div>
+          <div className="text-xl font-bold font-heading text-primary">{t('navbar.logo') || 'Logo'}</div>
           
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center gap-6">
             {navLinks.map((link, index) => (
-              <a key={index} href={linkHrefs[index] || '#'} className="hover:text-blue-600 transition">
+              <a key={index} href={linkHrefs[index] || '#'} className="text-foreground hover:text-primary transition">
                 {link}
               </a>
             ))}
-            <button onClick={toggleLanguage} className="px-3 py-1 rounded bg-blue-600 text-white">
+            <button onClick={toggleLanguage} className="px-3 py-1 rounded-theme bg-primary hover:bg-primary-dark text-white">
               {language === 'en' ? 'عربي' : 'English'}
             </button>
           </div>
@@ -421,12 +679,12 @@ const Navbar = () => {
         
         {/* Mobile Menu */}
         {isMenuOpen && (
-          <div className="md:hidden mt-4 pb-4 border-t border-gray-200">
+          <div className="md:hidden mt-4 pb-4 border-t border-muted/20">
             {navLinks.map((link, index) => (
               <a 
                 key={index} 
                 href={linkHrefs[index] || '#'} 
-                className="block py-2 hover:text-blue-600"
+                className="block py-2 text-foreground hover:text-primary"
                 onClick={() => setIsMenuOpen(false)}
               >
                 {link}
@@ -434,7 +692,7 @@ const Navbar = () => {
             ))}
             <button 
               onClick={() => { toggleLanguage(); setIsMenuOpen(false); }} 
-              className="block mt-2 px-3 py-2 rounded bg-blue-600 text-white w-full"
+              className="block mt-2 px-3 py-2 rounded-theme bg-primary text-white w-full"
             >
               {language === 'en' ? 'عربي' : 'English'}
             </button>
@@ -447,6 +705,28 @@ const Navbar = () => {
 
 IMPORTANT: Generate a COMPLETE, FUNCTIONAL navbar with actual navigation links, not just a placeholder!
 ` : ''}
+${componentName === 'Navbar' && needsLocaleSwitcher ? `
+CRITICAL - LANGUAGE SWITCHER (${plan.locales.length} LANGUAGES: ${plan.locales.map(code => getSiteLocale(code).name).join(', ')}):
+- Replace the language toggle button with a dropdown switcher, on desktop AND in the mobile menu
+- Use: const { t, language, setLanguage, locales } = useLanguage()
+- locales is an array of { code, label, dir } - render: <select value={language} onChange={(e) => setLanguage(e.target.value)}>{locales.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}</select>
+- Style it like the toggle button: rounded-theme px-3 py-1 border border-muted/30 bg-background text-foreground
+` : ''}
+${componentName === 'Navbar' && !isBilingual ? `
+CRITICAL FOR NAVBAR (${languageName.toUpperCase()} ONLY) - MUST CREATE COMPLETE NAVBAR WITH CONTENT:
+- Fixed/sticky navbar at top with backdrop blur: fixed top-0 left-0 right-0 z-50 bg-background/90 backdrop-blur-md
+- Site name/logo, navigation links and a mobile hamburger menu (useState for open/close, visible md:hidden)
+- Links are a plain array in the component: const navLinks = [{ label: '...', href: '#hero' }, ...] with labels in ${languageName}
+- Use href="#section-id" matching the sections of the website
+- NO language toggle button
+` : ''}
+${componentName === 'Navbar' && architecture.pages.length > 0 ? `
+CRITICAL - MULTI-PAGE SITE - NAVBAR LINKS GO TO PAGES, NOT SECTIONS:
+- Pages in order: ${describePageRoutes(architecture)}
+- Use exactly these hrefs: const linkHrefs = [${architecture.pages.map(page => `'#${page.route}'`).join(', ')}];
+- ${isBilingual ? 'navbar.links contains' : 'Link labels are'} the page names in the same order
+- Highlight the current page: import { useRouter } from '../router.jsx' and const { path } = useRouter(); a link is active when linkHrefs[index] === '#' + path
+` : ''}
 ${componentName !== 'Navbar' && !componentName.includes('Footer') ? 'IMPORTANT: Add an id attribute to the main section: <section id="' + componentName.toLowerCase() + '">. This id must match Navbar links.' : ''}
 
 Return ONLY the complete, polished component code with NO syntax errors, NO markdown, NO code blocks, NO file operation syntax.`;
@@ -467,28 +747,76 @@ Return ONLY the complete, polished component code with NO syntax errors, NO mark
   
   // Try to read translation files to see what keys are available (if translations already generated)
   let translationKeysHint = '';
-  try {
-    const enJsonContent = await fileTools.read_file('src/locales/en.json');
-    if (enJsonContent) {
-      const translations = JSON.parse(enJsonContent);
-      const componentKey = componentName.toLowerCase();
-      if (translations[componentKey]) {
-        const keys = Object.keys(translations[componentKey]);
-        translationKeysHint = `\nAvailable translation keys for ${componentName} component: ${keys.map(k => `"${componentKey}.${k}"`).join(', ')}\nUse these exact keys in your component: t('${componentKey}.${keys[0]}'), t('${componentKey}.${keys[1]}'), etc.`;
+  if (isBilingual) {
+    try {
+      const sourceJsonContent = await fileTools.read_file(getLocalePath(getSourceLocales(plan)[0]));
+      if (sourceJsonContent) {
+        const translations = JSON.parse(sourceJsonContent);
+        const componentKey = componentName.toLowerCase();
+        if (translations[componentKey]) {
+          const keys = Object.keys(translations[componentKey]);
+          translationKeysHint = `\nAvailable translation keys for ${componentName} component: ${keys.map(k => `"${componentKey}.${k}"`).join(', ')}\nUse these exact keys in your component: t('${componentKey}.${keys[0]}'), t('${componentKey}.${keys[1]}'), etc.`;
+        }
       }
+    } catch (e) {
+      // Translations not generated yet, that's okay - use standard keys
+      const componentKey = componentName.toLowerCase();
+      translationKeysHint = `\nUse standard translation keys like: t('${componentKey}.title'), t('${componentKey}.subtitle'), t('${componentKey}.description'), etc.\nMake sure these keys exist in all translation files (${localeFiles}).`;
     }
-  } catch (e) {
-    // Translations not generated yet, that's okay - use standard keys
-    const componentKey = componentName.toLowerCase();
-    translationKeysHint = `\nUse standard translation keys like: t('${componentKey}.title'), t('${componentKey}.subtitle'), t('${componentKey}.description'), etc.\nMake sure these keys exist in both en.json and ar.json translation files.`;
   }
   
-  const userMessage = `Generate ${componentName} component for a ${plan.industry} website.
-
-IMPORTANT: This website will have ONLY these components: ${actualComponents.join(', ')}.
-Do NOT reference or import any other components that are not in this list.
+  // Multi-page sites: tell the component which page it lives on and how to link to the others
+  let pagesHint = '';
+  if (architecture.pages.length > 0 && componentName !== 'Navbar') {
+    const page = architecture.pages.find(p => p.sections.includes(componentName));
+    pagesHint = `
+MULTI-PAGE SITE:
+- Pages: ${describePageRoutes(architecture)}${page ? `\n- This section is on the ${page.name} page` : ''}
+- To link to another page use its hash route (e.g. href="#${architecture.pages[architecture.pages.length - 1].route}"), never a section id from another page
+`;
+  }
 
-CRITICAL - BILINGUAL MODE:
+  // Files the user uploaded (logo, photos, documents) - referenced by their site paths
+  const assetsHint = describeProjectAssets(architecture.assets);
+
+  // Contact and booking forms submit through src/forms.js
+  const hasFormHelper = architecture.tasks.some(t => t.path === FORMS_PATH);
+  const formKey = componentName.toLowerCase();
+  const formsHint = hasFormHelper && isFormComponent(componentName) ? `
+WORKING FORM:
+- Import: import { submitForm } from '../forms.js'
+- Give every field a name attribute, mark required fields with required, use type="email" / type="tel" / type="date" where they fit
+- Add a hidden spam trap field: <input type="text" name="_gotcha" tabIndex={-1} autoComplete="off" className="hidden" aria-hidden="true" />
+- Submit like this (capture the form before awaiting):
+  const [status, setStatus] = useState('idle');
+  const handleSubmit = async (event) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    setStatus('sending');
+    try {
+      await submitForm('${formKey}', form);
+      form.reset();
+      setStatus('success');
+    } catch (error) {
+      setStatus('error');
+    }
+  };
+- Disable the submit button while status === 'sending'
+- Below the button show {status === 'success' && <p role="status">...</p>} and {status === 'error' && <p role="alert">...</p>}
+- ${isBilingual
+    ? `The success and error messages come from t('${formKey}.success') and t('${formKey}.error')`
+    : `Write the success message (e.g. "Thank you! We will get back to you soon.") and the error message (e.g. "Sorry, something went wrong. Please try again.") in ${languageName}`}
+` : '';
+
+  // Sites with Arabic render numbers through src/numerals.js (n() on translated sites)
+  const numeralsHint = architecture.tasks.some(t => t.path === NUMERALS_PATH) ? describeNumeralUsage(isBilingual) : '';
+
+  // Sites with dark mode pair every color token with a dark: variant, and the navbar gets the toggle
+  const darkModeHint = architecture.tasks.some(t => t.path === DARK_MODE_PATH)
+    ? describeDarkModeUsage({ isNavbar: componentName === 'Navbar', isBilingual, languageName })
+    : '';
+
+  const languageInstructions = isBilingual ? `CRITICAL - BILINGUAL MODE:
 - ALL text must use translation keys from i18n system
 - Import: import { useLanguage } from '../i18n.js'
 - Use: const { t } = useLanguage()
@@ -496,7 +824,7 @@ CRITICAL - BILINGUAL MODE:
 - NEVER render translation objects directly: {t('comparison')} is WRONG - React cannot render objects
 - ALWAYS access nested keys individually: {t('comparison.goals')}, {t('comparison.title')}, {t('comparison.description')}
 - If you need multiple values, access each key separately, never render the parent object
-- All text content must reference translation keys from en.json and ar.json${translationKeysHint}
+- All text content must reference translation keys from ${localeFiles}${translationKeysHint}
 
 CRITICAL - ARRAY HANDLING FOR LIST ITEMS:
 - When using .map() on translation values (features list, links, menu items, etc.), ALWAYS use defensive code
@@ -507,21 +835,32 @@ CRITICAL - ARRAY HANDLING FOR LIST ITEMS:
 - CRITICAL: If array items are STRINGS, render directly: {array.map((item, i) => <div key={i}>{item}</div>)}
 - CRITICAL: If array items are OBJECTS (with title, description, etc.), you MUST access object properties: {array.map((item, i) => <div key={i}><h3>{item.title}</h3><p>{item.description}</p></div>)}
 - NEVER render an object directly: {item} is WRONG if item is {title: "...", description: "..."} - always use {item.title}, {item.description}
-- Example for Features component: const featuresList = Array.isArray(t('features.list')) ? t('features.list') : []; {featuresList.map((item, i) => typeof item === 'string' ? <div key={i}>{item}</div> : <div key={i}><h3>{item.title}</h3><p>{item.description}</p></div>)}
+- Example for Features component: const featuresList = Array.isArray(t('features.list')) ? t('features.list') : []; {featuresList.map((item, i) => typeof item === 'string' ? <div key={i}>{item}</div> : <div key={i}><h3>{item.title}</h3><p>{item.description}</p></div>)}` : `CRITICAL - ${languageName.toUpperCase()} ONLY:
+- Write ALL text directly in the JSX in ${languageName} - there are no translation files
+- Do NOT import i18n.js and do NOT use useLanguage() or t()
+- Define lists (features, links, menu items) as plain arrays inside the component and .map() over them
+- NEVER render an object directly: use {item.title}, {item.description}`;
+
+  const userMessage = `Generate ${componentName} component for a ${plan.industry} website.
+
+IMPORTANT: This website will have ONLY these components: ${actualComponents.join(', ')}.
+Do NOT reference or import any other components that are not in this list.
+${componentName === 'Navbar' && architecture.pages.length === 0 ? `NAVBAR LINK ORDER: link the sections in the order the page shows them, top to bottom: ${actualComponents.filter(name => !isPinnedSection(name)).map(name => `#${name.toLowerCase()}`).join(', ')}\n` : ''}${pagesHint}
+${assetsHint ? `${assetsHint}\n` : ''}${formsHint}${numeralsHint}${darkModeHint}${languageInstructions}
 
-User's request: ${userPrompt}`;
+User's request: ${userPrompt}${describePreviousVersion(previousContent, previousKind)}`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4.1',
+  const completion = await llm.complete({
+    stage: 'coder.component',
     messages: [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userMessage },
     ],
     temperature: 0.7,
-    max_tokens: 3000,
+    maxTokens: 3000,
   });
 
-  const content = completion.choices[0]?.message?.content?.trim() || '';
+  const content = completion.content || '';
   if (content) {
     let cleaned = content.replace(/^```jsx?\n?/, '').replace(/\n?```$/, '').replace(/^```\n?/, '').replace(/\n?```$/, '');
     
@@ -559,6 +898,36 @@ User's request: ${userPrompt}`;
   }
 }
 
+/**
+ * Regenerate one section component of an existing site ("give me a different Hero")
+ * The current version is passed along so its text and translation keys carry over;
+ * no other file is written.
+ * @param userPrompt - The user's instructions, with the project context
+ */
+export async function regenerateComponent(
+  componentName: string,
+  plan: GenerationPlan,
+  architecture: ArchitecturePlan,
+  fileTools: FileTools,
+  userPrompt: string
+): Promise<void> {
+  const path = `src/components/${componentName}.jsx`;
+  const previousContent = await fileTools.read_file(path);
+  if (!previousContent) {
+    throw new Error(`Section ${componentName} not found`);
+  }
+  await generateComponent(
+    { path, description: `New version of the ${componentName} component` },
+    plan,
+    architecture,
+    fileTools,
+    getLLMProvider(),
+    userPrompt,
+    previousContent,
+    'redesign'
+  );
+}
+
 /**
  * Generate an entry file (main.jsx, App.jsx, index.css)
  */
@@ -567,26 +936,45 @@ async function generateEntryFile(
   plan: GenerationPlan,
   architecture: ArchitecturePlan,
   fileTools: FileTools,
-  openai: OpenAI
+  llm: LLMProvider
 ): Promise<void> {
   const fileName = task.path.split('/').pop() || '';
-  // Force all websites to be bilingual (always include language toggle)
-  const isBilingual = true; // Always bilingual now
+  const { isBilingual, dir } = getLanguageSettings(plan);
+
+  if (task.path === ROUTER_PATH) {
+    // The router is static code - never worth an LLM call
+    await fileTools.write_file(ROUTER_PATH, ROUTER_SOURCE);
+    return;
+  }
 
   let systemPrompt = '';
   if (fileName === 'main.jsx') {
-    // Always bilingual - always wrap with LanguageProvider
-    systemPrompt = `Generate src/main.jsx for Vite + React project.
+    // Only bilingual sites have an i18n.js to wrap App with
+    systemPrompt = isBilingual ? `Generate src/main.jsx for Vite + React project.
 - Import React and ReactDOM
 - Import App component
 - Import LanguageProvider from './i18n.js'
 - Import index.css
 - Use ReactDOM.createRoot
 - Wrap App with LanguageProvider: <LanguageProvider><App /></LanguageProvider>
+- Return ONLY the file content, no markdown.` : `Generate src/main.jsx for Vite + React project.
+- Import React and ReactDOM
+- Import App component
+- Import index.css
+- Use ReactDOM.createRoot and render <App /> inside React.StrictMode
+- Do NOT import i18n.js or LanguageProvider (this site has a single language)
 - Return ONLY the file content, no markdown.`;
+  } else if (fileName === 'App.jsx' && architecture.pages.length > 0) {
+    await fileTools.write_file('src/App.jsx', await buildMultiPageApp(architecture, plan, fileTools));
+    return;
   } else if (fileName === 'App.jsx') {
-    // Use architecture.components as source of truth
-    let componentNames = architecture.components.filter(name => name.length > 0);
+    // Use architecture.components as source of truth, skipping components that failed to generate
+    const componentNames: string[] = [];
+    for (const name of architecture.components.filter(name => name.length > 0)) {
+      if (await fileTools.read_file(`src/components/${name}.jsx`)) {
+        componentNames.push(name);
+      }
+    }
     
     if (componentNames.length === 0) {
       // Fallback: derive from plan.requiredSections
@@ -604,68 +992,47 @@ async function generateEntryFile(
       componentNames.push(...fallbackNames);
     }
     
-    // Sort components in logical order: Navbar -> Hero -> About -> Features -> Gallery -> Contact -> Footer
-    // Any other components go in the middle (after Features, before Gallery if possible, or after Gallery but before Contact/Footer)
-    const componentOrder = [
-      'Navbar',
-      'Hero',
-      'About',
-      'Features',
-      'Services',
-      'Gallery',
-      'Contact',
-      'Footer'
-    ];
-    
-    // Function to get sort order (lower number = earlier in list)
-    function getComponentOrder(componentName: string): number {
-      const index = componentOrder.indexOf(componentName);
-      if (index !== -1) return index;
-      // Components not in the predefined order go after Features but before Gallery, or after Gallery but before Contact/Footer
-      // Put them at position 4.5 (between Features and Gallery) by default
-      return 4.5;
-    }
-    
-    // Sort components
-    componentNames.sort((a, b) => {
-      const orderA = getComponentOrder(a);
-      const orderB = getComponentOrder(b);
-      return orderA - orderB;
-    });
+    // Sections follow the plan's order (the order the user asked for); Navbar first, Footer last
+    const orderedComponents = orderPageComponents(componentNames);
     
-    const componentImports = componentNames
+    const componentImports = orderedComponents
       .map(c => `import ${c} from './components/${c}.jsx';`)
       .join('\n');
     
-    const componentRenders = componentNames
-      .map(c => `      <${c} />`)
-      .join('\n');
-    
     // Generate App.jsx programmatically to ensure accuracy
-    // Always use bilingual mode now (default is BILINGUAL)
-    const appJsxContent = `import LanguageProvider from './i18n.js';
+    // Bilingual sites wrap everything in LanguageProvider, Arabic-only sites use a fixed RTL root
+    const appJsxContent = isBilingual ? `import LanguageProvider from './i18n.js';
 ${componentImports}
 
 function App() {
   return (
     <LanguageProvider>
       <div className="min-h-screen">
-${componentRenders}
+${orderedComponents.map(c => `        <${c} />`).join('\n')}
       </div>
     </LanguageProvider>
   );
 }
 
+export default App;` : `${componentImports}
+
+function App() {
+  return (
+    <div className="min-h-screen"${dir === 'rtl' ? ' dir="rtl" lang="ar"' : ''}>
+${orderedComponents.map(c => `      <${c} />`).join('\n')}
+    </div>
+  );
+}
+
 export default App;`;
     
     // Write directly instead of using AI to avoid hallucinations
     await fileTools.write_file('src/App.jsx', appJsxContent);
     return; // Skip AI generation for App.jsx
   } else if (fileName === 'index.css') {
-    // Always bilingual now - include both fonts
-    const englishFont = 'Inter, system-ui, sans-serif';
-    const arabicFont = 'Cairo, system-ui, sans-serif';
-    const fontFamily = `${englishFont}, ${arabicFont}`;
+    // Fonts come from the theme tokens; Arabic-only sites use the Arabic font everywhere
+    const bodyFont = !isBilingual && dir === 'rtl' ? 'font-arabic' : 'font-body';
+    const headingFont = !isBilingual && dir === 'rtl' ? 'font-arabic' : 'font-heading';
     
     systemPrompt = `Generate src/index.css with Tailwind imports and professional global styles.
 
@@ -681,33 +1048,42 @@ MANDATORY CONTENT:
   
   html {
     scroll-behavior: smooth;
-    font-family: ${fontFamily};
+    @apply ${bodyFont};
   }
   
   body {
-    @apply text-gray-900 bg-white;
+    @apply text-foreground bg-background;
     font-feature-settings: "kern" 1;
     text-rendering: optimizeLegibility;
     -webkit-font-smoothing: antialiased;
     -moz-osx-font-smoothing: grayscale;
   }
   
-  [dir="rtl"] {
-    font-family: ${arabicFont};
+  h1, h2, h3, h4, h5, h6 {
+    @apply ${headingFont};
+  }
+  
+  [dir="rtl"],
+  [dir="rtl"] h1, [dir="rtl"] h2, [dir="rtl"] h3, [dir="rtl"] h4, [dir="rtl"] h5, [dir="rtl"] h6 {
+    @apply font-arabic;
   }
+  
+  [dir="rtl"] body {
+    @apply leading-arabic;
+  }${architecture.tasks.some(t => t.path === DARK_MODE_PATH) ? `
+
+  .dark body {
+    @apply text-dark-foreground bg-dark-background;
+  }` : ''}
 }
 
 @layer utilities {
-  .font-arabic {
-    font-family: ${arabicFont};
-  }
-  
   .text-balance {
     text-wrap: balance;
   }
   
   .gradient-text {
-    @apply bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent;
+    @apply bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent;
   }
 }
 
@@ -715,26 +1091,233 @@ html {
   scroll-padding-top: 80px;
 }
 
+Colors and fonts MUST use the theme tokens from tailwind.config.js - no hardcoded colors or font names.
+
 Return ONLY the file content, no markdown.`;
   }
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4.1',
+  const completion = await llm.complete({
+    stage: 'coder.entry',
     messages: [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: `Generate ${task.path} for ${plan.industry} website.` },
     ],
     temperature: 0.3,
-    max_tokens: 2000,
+    maxTokens: 2000,
   });
 
-  const content = completion.choices[0]?.message?.content?.trim() || '';
+  const content = completion.content || '';
   if (content) {
     const cleaned = content.replace(/^```[\w]*\n?/, '').replace(/\n?```$/, '');
     await fileTools.write_file(task.path, cleaned);
   }
 }
 
+/**
+ * Hash-based router for multi-page sites
+ * Routes live in the URL hash (#/menu) so navigation works inside the preview
+ * iframe and on static hosts; plain anchors (#contact) still scroll within a page.
+ * Unknown paths render the first (home) route.
+ */
+const ROUTER_SOURCE = `import React from 'react';
+
+const RouterContext = React.createContext({ path: '/', route: null, navigate: () => {} });
+
+function getRoutePath() {
+  const hash = window.location.hash.replace(/^#/, '');
+  // Fall back to the URL path so deep links (/menu) work when the host rewrites them to index.html
+  return hash.startsWith('/') ? hash : window.location.pathname;
+}
+
+export function useRouter() {
+  return React.useContext(RouterContext);
+}
+
+export function Link({ to, children, ...props }) {
+  return (
+    <a href={'#' + to} {...props}>
+      {children}
+    </a>
+  );
+}
+
+export default function Router({ routes, children }) {
+  const [path, setPath] = React.useState(getRoutePath);
+
+  React.useEffect(() => {
+    const handleHashChange = () => {
+      // In-page anchors (#contact) keep the current page
+      if (!window.location.hash.startsWith('#/')) return;
+      setPath(getRoutePath());
+      window.scrollTo(0, 0);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = (to) => {
+    window.location.hash = to;
+  };
+
+  const route = routes.find(r => r.path === path) || routes[0];
+
+  return (
+    <RouterContext.Provider value={{ path, route, navigate }}>
+      {children}
+    </RouterContext.Provider>
+  );
+}
+
+export function RouteView() {
+  const { route } = useRouter();
+  if (!route) return null;
+  const Page = route.component;
+  return <Page />;
+}`;
+
+/**
+ * src/forms.js - posts contact and booking forms to the project's submissions endpoint
+ * submitForm checks required and email fields before sending and throws on any failure,
+ * so components only switch between their success and error messages.
+ */
+function buildFormsSource(endpoint: string): string {
+  return `export const FORM_ENDPOINT = ${JSON.stringify(endpoint)};
+
+const FORM_EMAIL_PATTERN = /^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/;
+
+export async function submitForm(formName, formElement) {
+  const fields = {};
+  new FormData(formElement).forEach((value, name) => {
+    if (typeof value === 'string') fields[name] = value.trim();
+  });
+
+  const invalid = Array.from(formElement.elements)
+    .filter(element => element.name && (
+      (element.required && !fields[element.name]) ||
+      (element.type === 'email' && fields[element.name] && !FORM_EMAIL_PATTERN.test(fields[element.name]))
+    ))
+    .map(element => element.name);
+  if (invalid.length > 0) {
+    const error = new Error('Please check the highlighted fields');
+    error.fields = invalid;
+    throw error;
+  }
+
+  const response = await fetch(FORM_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ form: formName, fields, locale: document.documentElement.lang || null }),
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => null);
+    throw new Error((result && result.error) || 'Failed to send the form');
+  }
+  return true;
+}`;
+}
+
+/**
+ * Generate a page file - written programmatically, it only composes section components
+ */
+async function generatePageFile(
+  task: { path: string },
+  architecture: ArchitecturePlan,
+  fileTools: FileTools
+): Promise<void> {
+  const page = architecture.pages.find(p => task.path === `src/pages/${p.componentName}.jsx`);
+  if (!page) {
+    throw new Error(`No page in architecture for ${task.path}`);
+  }
+
+  // Skip sections whose component failed to generate
+  const sections: string[] = [];
+  for (const name of page.sections) {
+    if (await fileTools.read_file(`src/components/${name}.jsx`)) {
+      sections.push(name);
+    }
+  }
+
+  const imports = sections
+    .map(name => `import ${name} from '../components/${name}.jsx';`)
+    .join('\n');
+  const renders = sections
+    .map(name => `      <${name} />`)
+    .join('\n');
+
+  const content = `${imports}
+
+const ${page.componentName} = () => {
+  return (
+    <main>
+${renders}
+    </main>
+  );
+};
+
+export default ${page.componentName};`;
+
+  await fileTools.write_file(task.path, content);
+}
+
+/**
+ * Build App.jsx for a multi-page site: shared Navbar/Footer around the routed page
+ */
+async function buildMultiPageApp(
+  architecture: ArchitecturePlan,
+  plan: GenerationPlan,
+  fileTools: FileTools
+): Promise<string> {
+  const { isBilingual, dir } = getLanguageSettings(plan);
+  const pages: PageTask[] = [];
+  for (const page of architecture.pages) {
+    if (await fileTools.read_file(`src/pages/${page.componentName}.jsx`)) {
+      pages.push(page);
+    }
+  }
+
+  const hasNavbar = !!(await fileTools.read_file('src/components/Navbar.jsx'));
+  const hasFooter = !!(await fileTools.read_file('src/components/Footer.jsx'));
+
+  const imports = [
+    ...(isBilingual ? [`import LanguageProvider from './i18n.js';`] : []),
+    `import Router, { RouteView } from './router.jsx';`,
+    ...(hasNavbar ? [`import Navbar from './components/Navbar.jsx';`] : []),
+    ...(hasFooter ? [`import Footer from './components/Footer.jsx';`] : []),
+    ...pages.map(page => `import ${page.componentName} from './pages/${page.componentName}.jsx';`),
+  ].join('\n');
+
+  const routes = pages
+    .map(page => `  { path: '${page.route}', component: ${page.componentName} },`)
+    .join('\n');
+
+  // Bilingual sites wrap everything in LanguageProvider, Arabic-only sites use a fixed RTL root
+  const app = isBilingual ? `    <LanguageProvider>
+      <Router routes={routes}>
+        <div className="min-h-screen">
+${hasNavbar ? '          <Navbar />\n' : ''}          <RouteView />
+${hasFooter ? '          <Footer />\n' : ''}        </div>
+      </Router>
+    </LanguageProvider>` : `    <Router routes={routes}>
+      <div className="min-h-screen"${dir === 'rtl' ? ' dir="rtl" lang="ar"' : ''}>
+${hasNavbar ? '        <Navbar />\n' : ''}        <RouteView />
+${hasFooter ? '        <Footer />\n' : ''}      </div>
+    </Router>`;
+
+  return `${imports}
+
+const routes = [
+${routes}
+];
+
+function App() {
+  return (
+${app}
+  );
+}
+
+export default App;`;
+}
+
 /**
  * Generate translation files
  */
@@ -743,77 +1326,39 @@ async function generateTranslationFile(
   plan: GenerationPlan,
   architecture: ArchitecturePlan,
   fileTools: FileTools,
-  openai: OpenAI,
-  userPrompt: string
+  llm: LLMProvider,
+  userPrompt: string,
+  previousContent?: string
 ): Promise<void> {
-  if (task.path === 'src/i18n.js') {
-    // Generate i18n.js with LanguageProvider
-    const i18nContent = `import React, { createContext, useContext, useState, useEffect } from 'react';
-import enTranslations from './locales/en.json';
-import arTranslations from './locales/ar.json';
+  const locale = localeFromPath(task.path);
 
-const LanguageContext = createContext();
+  if (task.path === 'src/i18n.js') {
+    await fileTools.write_file(task.path, buildI18nSource(plan.locales, architecture.tasks.some(t => t.path === NUMERALS_PATH)));
+    return;
+  }
 
-export function useLanguage() {
-  const context = useContext(LanguageContext);
-  if (!context) {
-    throw new Error('useLanguage must be used within LanguageProvider');
+  if (locale && !getSourceLocales(plan).includes(locale)) {
+    await translateLocaleFile(locale, plan, fileTools, llm);
+    return;
   }
-  return context;
-}
 
-export default function LanguageProvider({ children }) {
-  const [language, setLanguage] = useState('en');
-  
-  const toggleLanguage = () => {
-    setLanguage(prev => prev === 'en' ? 'ar' : 'en');
-  };
-  
-  const t = (key) => {
-    const translations = language === 'en' ? enTranslations : arTranslations;
-    const keys = key.split('.');
-    let value = translations;
-    for (const k of keys) {
-      value = value?.[k];
-    }
-    // If value is undefined or null, return the key or empty string for arrays
-    if (value === undefined || value === null) {
-      return key;
-    }
-    // If value is an object (not an array), return as-is (component should access nested keys)
-    if (typeof value === 'object' && !Array.isArray(value)) {
-      return value;
-    }
-    // Return the value (string, number, array, etc.)
-    return value;
-  };
-  
-  useEffect(() => {
-    document.documentElement.setAttribute('dir', language === 'ar' ? 'rtl' : 'ltr');
-    document.documentElement.setAttribute('lang', language);
-  }, [language]);
-  
-  return (
-    <LanguageContext.Provider value={{ language, setLanguage, toggleLanguage, t }}>
-      {children}
-    </LanguageContext.Provider>
-  );
-}`;
-    await fileTools.write_file(task.path, i18nContent);
-  } else if (task.path.includes('en.json')) {
-    // Generate English translations with actual content based on user prompt
+  if (locale !== 'ar') {
+    // Generate English (or the site's first language) translations with actual content based on user prompt
+    const { name: languageName } = getSiteLocale(locale || 'en');
     const componentKeys = architecture.components.map(c => c.toLowerCase()).join(', ');
-    const systemPrompt = `You are generating English translations for a ${plan.industry} website. You MUST return valid JSON only.
+    const pageNames = architecture.pages.map(page => page.name);
+    const formsRequirement = describeFormTranslationKeys(architecture);
+    const systemPrompt = `You are generating ${languageName} translations for a ${plan.industry} website. You MUST return valid JSON only.
 
 CRITICAL REQUIREMENTS:
 1. Generate ACTUAL, MEANINGFUL translations based on the user's request - NOT placeholder text like "hero.title" or "..."
 2. Create comprehensive translations for ALL components: ${componentKeys}
 3. Use descriptive keys that match component names (e.g., "hero", "navbar", "footer")
 4. Include ALL text content that will appear in each section
-5. For Navbar: Include navigation links and language toggle text
+5. For Navbar: Include navigation links and language toggle text${architecture.tasks.some(t => t.path === DARK_MODE_PATH) ? ', plus "navbar.darkMode": the label of the dark mode toggle' : ''}
 6. Make translations professional and contextually appropriate for a ${plan.industry} website
 7. Return ONLY valid JSON format - no markdown, no code blocks, just the JSON object
-
+${pageNames.length > 0 ? `8. MULTI-PAGE SITE: "navbar.links" MUST list exactly these pages, in this order: ${pageNames.join(', ')}\n` : ''}${formsRequirement}${languageName !== 'English' ? `- ALL text values must be written in ${languageName} (the example below is in English for structure only)\n` : ''}
 CRITICAL - ARRAY CONSISTENCY:
 - For ANY list/array-like content (features list, services list, menu items, navigation links, gallery items, etc.), you MUST use ARRAYS in JSON
 - NOTE: Footer should NOT have links array - footer should only have copyright and optional social media
@@ -853,6 +1398,8 @@ Example JSON structure:
     "email": "Email",
     "message": "Message",
     "submit": "Send Message",
+    "success": "Thank you! We will get back to you soon.",
+    "error": "Sorry, we could not send your message. Please try again.",
     "socialTitle": "Follow Us"
   },
   "footer": {
@@ -863,23 +1410,25 @@ Example JSON structure:
 
 Generate comprehensive, actual translations in valid JSON format - NOT placeholders.`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4.1',
+    const completion = await llm.complete({
+      stage: 'coder.translation',
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: `User's original request: "${userPrompt}"\n\nGenerate complete English translations in JSON format for all components in this ${plan.industry} website. Return valid JSON with all text content, not just placeholder keys.` },
+        { role: 'user', content: `User's original request: "${userPrompt}"\n\nGenerate complete ${languageName} translations in JSON format for all components in this ${plan.industry} website. Return valid JSON with all text content, not just placeholder keys.${describePreviousVersion(previousContent, 'translations')}` },
       ],
       temperature: 0.7,
-      max_tokens: 3000,
-      response_format: { type: 'json_object' },
+      maxTokens: 3000,
+      responseFormat: 'json_object',
     });
 
-    const content = completion.choices[0]?.message?.content?.trim() || '{}';
+    const content = completion.content || '{}';
     const cleaned = content.replace(/^```json\n?/, '').replace(/\n?```$/, '');
     await fileTools.write_file(task.path, cleaned);
-  } else if (task.path.includes('ar.json')) {
+  } else {
     // Generate Arabic translations with actual content based on user prompt
     const componentKeys = architecture.components.map(c => c.toLowerCase()).join(', ');
+    const pageNames = architecture.pages.map(page => page.name);
+    const formsRequirement = describeFormTranslationKeys(architecture);
     const systemPrompt = `You are generating Arabic translations for a ${plan.industry} website. You MUST return valid JSON only.
 
 CRITICAL REQUIREMENTS:
@@ -887,11 +1436,11 @@ CRITICAL REQUIREMENTS:
 2. Create comprehensive translations for ALL components: ${componentKeys}
 3. Use descriptive keys that match component names (e.g., "hero", "navbar", "footer")
 4. Include ALL text content that will appear in each section
-5. For Navbar: Include navigation links and language toggle text
+5. For Navbar: Include navigation links and language toggle text${architecture.tasks.some(t => t.path === DARK_MODE_PATH) ? ', plus "navbar.darkMode": the label of the dark mode toggle' : ''}
 6. Make translations professional and contextually appropriate for a ${plan.industry} website
 7. ALL text must be in proper Arabic - translate naturally, don't just transliterate
 8. Return ONLY valid JSON format - no markdown, no code blocks, just the JSON object
-
+${pageNames.length > 0 ? `9. MULTI-PAGE SITE: "navbar.links" MUST list exactly these pages translated to Arabic, in this order: ${pageNames.join(', ')}\n` : ''}${formsRequirement}
 CRITICAL - ARRAY CONSISTENCY (MUST MATCH ENGLISH STRUCTURE):
 - For ANY list/array-like content (features list, services list, menu items, navigation links, gallery items, etc.), you MUST use ARRAYS in JSON
 - NOTE: Footer should NOT have links array - footer should only have copyright and optional social media - EXACTLY like the English version
@@ -934,6 +1483,8 @@ Example JSON structure:
     "email": "البريد الإلكتروني",
     "message": "الرسالة",
     "submit": "إرسال الرسالة",
+    "success": "شكرًا لك! سنتواصل معك قريبًا.",
+    "error": "عذرًا، تعذر إرسال رسالتك. يرجى المحاولة مرة أخرى.",
     "socialTitle": "تابعنا"
   },
   "footer": {
@@ -944,19 +1495,346 @@ Example JSON structure:
 
 Generate comprehensive, actual Arabic translations in valid JSON format - NOT placeholders or English text.`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4.1',
+    const completion = await llm.complete({
+      stage: 'coder.translation',
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: `User's original request: "${userPrompt}"\n\nGenerate complete Arabic translations in JSON format for all components in this ${plan.industry} website. Return valid JSON with all text content in proper Arabic, not just placeholder keys.` },
+        { role: 'user', content: `User's original request: "${userPrompt}"\n\nGenerate complete Arabic translations in JSON format for all components in this ${plan.industry} website. Return valid JSON with all text content in proper Arabic, not just placeholder keys.${describePreviousVersion(previousContent, 'translations')}` },
       ],
       temperature: 0.7,
-      max_tokens: 3000,
-      response_format: { type: 'json_object' },
+      maxTokens: 3000,
+      responseFormat: 'json_object',
     });
 
-    const content = completion.choices[0]?.message?.content?.trim() || '{}';
+    const content = completion.content || '{}';
     const cleaned = content.replace(/^```json\n?/, '').replace(/\n?```$/, '');
     await fileTools.write_file(task.path, cleaned);
   }
 }
+
+/**
+ * Translation requirement for sections with a working form - empty when the site has none
+ */
+function describeFormTranslationKeys(architecture: ArchitecturePlan): string {
+  if (!architecture.tasks.some(t => t.path === FORMS_PATH)) {
+    return '';
+  }
+  const formKeys = architecture.components.filter(isFormComponent).map(c => c.toLowerCase());
+  if (formKeys.length === 0) {
+    return '';
+  }
+  return `- FORMS: ${formKeys.map(key => `"${key}"`).join(', ')} MUST include "success" (shown after the form is sent) and "error" (shown when sending fails) messages\n`;
+}
+
+/**
+ * Locale files written from scratch - English and Arabic have dedicated prompts,
+ * a site with neither writes its first locale from scratch.
+ * Every other locale is translated from one of these so the keys line up.
+ */
+function getSourceLocales(plan: GenerationPlan): string[] {
+  const sources = plan.locales.filter(code => code === 'en' || code === 'ar');
+  return sources.length > 0 ? sources : plan.locales.slice(0, 1);
+}
+
+/**
+ * src/i18n.js for a translated site - static code, one import per locale
+ * LOCALES keeps the declared order (the first locale is the default language),
+ * toggleLanguage cycles through them and setLanguage picks one directly.
+ * n() shows numbers in the numeral style of the current language (src/numerals.js).
+ * @param hasNumerals - The site has src/numerals.js (sites with Arabic); otherwise n() returns the value
+ */
+function buildI18nSource(locales: string[], hasNumerals: boolean): string {
+  const imports = locales
+    .map(code => `import ${code}Translations from './locales/${code}.json';`)
+    .join('\n');
+  const translations = locales
+    .map(code => `  ${code}: ${code}Translations,`)
+    .join('\n');
+  const localeInfo = locales
+    .map(code => {
+      const { nativeName, dir } = getSiteLocale(code);
+      return `  { code: '${code}', label: '${nativeName}', dir: '${dir}' },`;
+    })
+    .join('\n');
+
+  return `import React, { createContext, useContext, useState, useEffect } from 'react';
+${hasNumerals ? "import { formatNumerals } from './numerals.js';\n" : ''}${imports}
+
+export const LOCALES = [${locales.map(code => `'${code}'`).join(', ')}];
+
+const translations = {
+${translations}
+};
+
+// Language switcher entries: code, native label and text direction
+export const localeOptions = [
+${localeInfo}
+];
+
+const LanguageContext = createContext();
+
+export function useLanguage() {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error('useLanguage must be used within LanguageProvider');
+  }
+  return context;
+}
+
+// Links like /?lang=ar (hreflang alternates) open the site in that language
+function getInitialLanguage() {
+  const requested = new URLSearchParams(window.location.search).get('lang');
+  return LOCALES.includes(requested) ? requested : LOCALES[0];
+}
+
+export default function LanguageProvider({ children }) {
+  const [language, setLanguage] = useState(getInitialLanguage);
+  
+  // Cycle to the next language (a simple toggle for two-language sites)
+  const toggleLanguage = () => {
+    setLanguage(prev => LOCALES[(LOCALES.indexOf(prev) + 1) % LOCALES.length]);
+  };
+  
+  const t = (key) => {
+    const keys = key.split('.');
+    let value = translations[language];
+    for (const k of keys) {
+      value = value?.[k];
+    }
+    // If value is undefined or null, return the key
+    if (value === undefined || value === null) {
+      return key;
+    }
+    // Return the value (string, number, array, or object for nested access)
+    return value;
+  };
+  
+  // Prices, phone numbers and stats in the current language's digits
+  const n = (value) => ${hasNumerals ? 'formatNumerals(value, language)' : "(value === undefined || value === null ? '' : String(value))"};
+  
+  const dir = localeOptions.find(option => option.code === language)?.dir || 'ltr';
+  
+  useEffect(() => {
+    document.documentElement.setAttribute('dir', dir);
+    document.documentElement.setAttribute('lang', language);
+  }, [language, dir]);
+  
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage, toggleLanguage, t, n, dir, locales: localeOptions }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+}`;
+}
+
+/**
+ * Translate the source locale file into another locale, keeping keys and structure identical
+ */
+async function translateLocaleFile(
+  locale: string,
+  plan: GenerationPlan,
+  fileTools: FileTools,
+  llm: LLMProvider
+): Promise<void> {
+  const sourceLocale = getSourceLocales(plan).find(code => code === 'en') || getSourceLocales(plan)[0];
+  const sourceContent = await fileTools.read_file(getLocalePath(sourceLocale));
+  if (!sourceContent) {
+    throw new Error(`Cannot translate ${locale}: ${getLocalePath(sourceLocale)} was not generated`);
+  }
+
+  const source = getSiteLocale(sourceLocale);
+  const target = getSiteLocale(locale);
+  const systemPrompt = `You translate website translation files from ${source.name} to ${target.name} for a ${plan.industry} website. You MUST return valid JSON only.
+
+CRITICAL REQUIREMENTS:
+1. Keep EXACTLY the same keys, nesting and array lengths - translate only the string values
+2. Translate naturally and professionally for native ${target.name} speakers - don't transliterate
+3. Keep brand names, URLs, emails and phone numbers unchanged
+4. The language toggle label ("toggleLanguage") should name the NEXT language in the switcher, in that language
+5. Return ONLY valid JSON format - no markdown, no code blocks, just the JSON object`;
+
+  const completion = await llm.complete({
+    stage: 'coder.translation',
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: `Translate this ${source.name} file to ${target.name}:\n${sourceContent}` },
+    ],
+    temperature: 0.3,
+    maxTokens: 3000,
+    responseFormat: 'json_object',
+  });
+
+  const content = completion.content || '{}';
+  const cleaned = content.replace(/^```json\n?/, '').replace(/\n?```$/, '');
+  await fileTools.write_file(getLocalePath(locale), cleaned);
+}
+
+interface TemplateContext {
+  template: StarterTemplate;
+  sections: Array<{ componentName: string; sectionId: string }>; // Components written from template sections
+  navComponents: string[];                                       // Components linked from the template navbar
+  getContent: (locale: string) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Starter template state for one run, or null when the architecture has no template.
+ * The customized content is produced once per locale and shared by the locale file
+ * and, on single-language sites, the components it is inlined into.
+ */
+function createTemplateContext(
+  plan: GenerationPlan,
+  architecture: ArchitecturePlan,
+  llm: LLMProvider,
+  userPrompt: string,
+  previousFiles: ProjectFiles
+): TemplateContext | null {
+  const template = architecture.template ? getStarterTemplateById(architecture.template.id as TemplateId) : null;
+  if (!template) {
+    return null;
+  }
+
+  const componentTasks = architecture.tasks.filter(t => t.type === 'component');
+  const componentOf = (path: string) => path.split('/').pop()?.replace('.jsx', '') || '';
+  const sections = componentTasks
+    .filter(t => t.templateSection && t.templateSection !== 'navbar' && t.templateSection !== 'footer')
+    .map(t => ({ componentName: componentOf(t.path), sectionId: t.templateSection as string }));
+  const layoutNames = ['navbar', 'header', 'navigation', 'footer'];
+  const navComponents = architecture.components.filter(name => !layoutNames.includes(name.toLowerCase()));
+
+  const cache = new Map<string, Promise<Record<string, unknown>>>();
+  const getContent = (locale: string) => {
+    if (!cache.has(locale)) {
+      cache.set(locale, customizeTemplateContent(
+        template, locale, sections, navComponents, plan, architecture, llm, userPrompt, previousFiles[getLocalePath(locale)]
+      ));
+    }
+    return cache.get(locale)!;
+  };
+
+  return { template, sections, navComponents, getContent };
+}
+
+/**
+ * Write a component straight from the template - single-language sites get the
+ * customized text inlined instead of t() lookups
+ */
+async function writeTemplateComponent(
+  task: { path: string; templateSection?: string },
+  plan: GenerationPlan,
+  architecture: ArchitecturePlan,
+  templateContext: TemplateContext,
+  fileTools: FileTools
+): Promise<void> {
+  const componentName = task.path.split('/').pop()?.replace('.jsx', '') || 'Component';
+  console.log(`🧩 Writing template component: ${componentName} (${task.templateSection})`);
+
+  let source = task.templateSection === 'navbar'
+    ? buildTemplateNavbar(templateContext.navComponents, { darkMode: architecture.tasks.some(t => t.path === DARK_MODE_PATH) })
+    : task.templateSection === 'footer'
+      ? buildTemplateFooter()
+      : buildTemplateComponent(componentName, task.templateSection as string, buildSectionLinks(architecture.components, architecture.pages));
+
+  const { isBilingual, lang } = getLanguageSettings(plan);
+  if (!isBilingual) {
+    source = inlineTranslations(source, await templateContext.getContent(lang), {
+      numerals: architecture.tasks.some(t => t.path === NUMERALS_PATH),
+    });
+  }
+
+  await fileTools.write_file(task.path, source);
+}
+
+/**
+ * Lay customized template content over the template's: keys the model dropped keep the
+ * template's text, and an array whose length changed keeps the template's items
+ * (the template components expect them). New keys, such as uncovered sections, are kept.
+ * @param resized - Collects the paths of arrays that were replaced by the template's
+ */
+function mergeTemplateContent(base: unknown, custom: unknown, path: string, resized: string[]): unknown {
+  if (custom === undefined) {
+    return base;
+  }
+  if (Array.isArray(base)) {
+    if (!Array.isArray(custom) || custom.length !== base.length) {
+      resized.push(path);
+      return base;
+    }
+    return base.map((item, index) => mergeTemplateContent(item, custom[index], `${path}[${index}]`, resized));
+  }
+  if (typeof base === 'object' && base !== null) {
+    if (typeof custom !== 'object' || custom === null || Array.isArray(custom)) {
+      return base;
+    }
+    const merged: Record<string, unknown> = { ...(custom as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(base)) {
+      merged[key] = mergeTemplateContent(value, (custom as Record<string, unknown>)[key], path ? `${path}.${key}` : key, resized);
+    }
+    return merged;
+  }
+  // A text stays text, a flag stays a flag
+  return typeof custom === typeof base ? custom : base;
+}
+
+/**
+ * Rewrite the template's locale content for the user's business in one call.
+ * Keys and array lengths stay fixed (the template components read them), text for
+ * components the template doesn't cover is added under their own keys.
+ * Falls back to the template content unchanged if the call fails.
+ */
+async function customizeTemplateContent(
+  template: StarterTemplate,
+  locale: string,
+  sections: Array<{ componentName: string; sectionId: string }>,
+  navComponents: string[],
+  plan: GenerationPlan,
+  architecture: ArchitecturePlan,
+  llm: LLMProvider,
+  userPrompt: string,
+  previousContent?: string
+): Promise<Record<string, unknown>> {
+  const base = buildTemplateLocale(template, locale === 'ar' ? 'ar' : 'en', sections, navComponents, {
+    darkMode: architecture.tasks.some(t => t.path === DARK_MODE_PATH),
+  });
+  const covered = new Set(sections.map(section => section.componentName.toLowerCase()));
+  const uncovered = architecture.components
+    .map(name => name.toLowerCase())
+    .filter(key => !covered.has(key) && !['navbar', 'header', 'navigation', 'footer'].includes(key));
+  const { name: languageName } = getSiteLocale(locale);
+  const assetsHint = describeProjectAssets(architecture.assets);
+
+  const systemPrompt = `You customize the starting content of a ${plan.industry} website for a specific business. You MUST return valid JSON only.
+
+CRITICAL REQUIREMENTS:
+1. Rewrite the text values so they fit the user's business: its name, offering, tone and any details they gave
+2. Keep EXACTLY the same keys, nesting and array lengths for every existing section - the components read them as-is
+3. Keep image URLs unless the user asked for something else or uploaded photos (use those paths instead); keep "featured" booleans and "icon" emoji fitting the items
+4. Write ALL text in ${languageName}
+${uncovered.length > 0 ? `5. ADD a top-level object for each of these sections, with the text they need (title, subtitle and arrays of items where lists make sense): ${uncovered.join(', ')}
+6. Keep "navbar" labels short and make sure every section key in "navbar" has a label
+` : ''}Return ONLY the complete JSON object - no markdown, no code blocks.`;
+
+  try {
+    const completion = await llm.complete({
+      stage: 'coder.template',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `User's original request: "${userPrompt}"${assetsHint ? `\n\n${assetsHint}` : ''}\n\nTemplate content:\n${JSON.stringify(base, null, 2)}${describePreviousVersion(previousContent, 'translations')}` },
+      ],
+      temperature: 0.5,
+      maxTokens: 4000,
+      responseFormat: 'json_object',
+    });
+
+    const content = (completion.content || '').replace(/^```json\n?/, '').replace(/\n?```$/, '');
+    const customized = JSON.parse(content) as Record<string, unknown>;
+    const resized: string[] = [];
+    const merged = mergeTemplateContent(base, customized, '', resized) as Record<string, unknown>;
+    if (resized.length > 0) {
+      console.warn(`⚠️  Template content for ${locale} changed the length of ${resized.join(', ')} - kept the template's items`);
+    }
+    return merged;
+  } catch (error) {
+    console.warn(`⚠️  Could not customize template content for ${locale}, using it as-is:`, error);
+    return base;
+  }
+}
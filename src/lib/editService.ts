@@ -14,18 +14,35 @@ import {
   WorkspaceFile,
   saveWorkspaceFiles 
 } from './workspaceService';
-import { applyEdits, EditRequest, EditResult } from './editorAgent';
-import { getLatestBuild, getBuildByVersion, createBuild, ProjectFiles, generatePreviewHTML } from './buildService';
+import { applyEdits, EditPatch, EditRequest, EditResult } from './editorAgent';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getLatestBuild, getBuildByVersion, createBuild, ProjectFiles, generatePreviewHTML, detectLanguageModeFromFiles } from './buildService';
+import { getProjectLanguageMode } from './projectService';
+import { ProgressReporter, withWriteEvents } from './progressStream';
+import { FileRepair, withSyntaxRepair } from './codeValidator';
+import { checkTranslations, TranslationReport } from './translationChecker';
+import { checkRtl, RtlReport } from './rtlLinter';
+import { DARK_MODE_PATH, addDarkVariants } from './siteDarkMode';
+import { syncLocales, LocaleSyncResult } from './localeSync';
+import { getLocalesFromFiles, localeFromPath } from './siteLocales';
+import { trackUsage } from './usageTracker';
+import { reportRetries } from './llmRetry';
+import type { BuildUsage } from './usageService';
 
 export interface EditSiteResult {
   files: ProjectFiles;
   summary: string;
   filesChanged: string[];
-  patches: Array<{ path: string; diff: string; summary: string }>;
+  patches: EditPatch[];
   version: number;
   previewHtml: string;
   success: boolean;
   errors?: string[];
+  repairedFiles: FileRepair[];
+  translationReport: TranslationReport;
+  rtlReport: RtlReport | null; // Direction-sensitive styling (null for English-only sites)
+  localeSync: LocaleSyncResult;
+  usage: BuildUsage;
 }
 
 /**
@@ -36,8 +53,10 @@ export async function editSiteFromPrompt(args: {
   message: string;
   history?: Array<{ role: 'user' | 'assistant'; content: string }>;
   buildVersion?: number; // Optional: edit specific version, otherwise uses latest
+  onProgress?: ProgressReporter;
+  client?: SupabaseClient; // The request's authenticated client - only the owner can list the project's assets
 }): Promise<EditSiteResult> {
-  const { projectId, message, history, buildVersion } = args;
+  const { projectId, message, history, buildVersion, onProgress, client } = args;
 
   console.log('✏️  Starting edit pipeline...');
   console.log('📝 Edit request:', message);
@@ -75,8 +94,26 @@ export async function editSiteFromPrompt(args: {
   
   console.log(`✅ Loaded ${workspaceFiles.length} files from build version ${targetVersion}`);
 
+  // Keep the project's language mode - older projects don't have one stored, so detect it from the build
+  const languageMode = (await getProjectLanguageMode(projectId)) || detectLanguageModeFromFiles(buildFiles);
+  const locales = getLocalesFromFiles(Object.keys(buildFiles), buildFiles['src/i18n.js']);
+  console.log(`🌐 Language mode: ${languageMode}${locales.length > 0 ? ` (${locales.join(', ')})` : ''}`);
+
+  // Snapshot locale files so edited text can be carried over to the other locales afterwards
+  const localesBefore: Record<string, string> = {};
+  for (const [path, content] of Object.entries(buildFiles)) {
+    if (localeFromPath(path)) {
+      localesBefore[path] = content;
+    }
+  }
+
   // Step 3: Create file tools for editing
-  const fileTools = createFileTools(projectId, targetVersion, workspaceFiles);
+  // Every edited file is syntax-checked (and repaired if needed) before it is saved
+  const repairs: FileRepair[] = [];
+  const fileTools = withWriteEvents(
+    withSyntaxRepair(createFileTools(projectId, targetVersion, workspaceFiles), { stage: 'editor.repair', repairs }),
+    onProgress
+  );
 
   // Step 4: Apply edits using Editor Agent
   const editRequest: EditRequest = {
@@ -84,16 +121,35 @@ export async function editSiteFromPrompt(args: {
     projectId,
     buildVersion: targetVersion,
     history,
+    languageMode,
+    locales,
   };
 
-  const editResult: EditResult = await applyEdits(editRequest, fileTools);
-  console.log('✅ Edit complete:', editResult.summary);
+  onProgress?.({ type: 'stage', stage: 'editing', message: 'Applying your changes' });
+  const { result: { editResult, localeSync, translationReport, rtlReport }, usage } = await reportRetries(onProgress, () => trackUsage(async () => {
+    const editResult: EditResult = await applyEdits(editRequest, fileTools, onProgress);
+    console.log('✅ Edit complete:', editResult.summary);
 
-  if (!editResult.success && editResult.filesChanged.length === 0) {
-    throw new Error(editResult.errors?.join('; ') || 'Edit failed with no changes');
-  }
+    if (!editResult.success && editResult.filesChanged.length === 0) {
+      throw new Error(editResult.errors?.join('; ') || 'Edit failed with no changes');
+    }
+
+    // Step 5: Bring every locale up to date with the edited text, then re-check translation keys
+    // (edits often add keys to one locale only)
+    const localeSync = await syncLocales(fileTools, localesBefore);
+    const translationReport = await checkTranslations(fileTools);
 
-  // Step 5: Convert workspace files to ProjectFiles format
+    // Edits bring in new left/right classes - convert them like after generation
+    const rtlReport = languageMode !== 'english-only' ? await checkRtl(fileTools) : null;
+    // ...and new color classes get their dark: pair on sites with dark mode
+    if (buildFiles[DARK_MODE_PATH] !== undefined) {
+      await addDarkVariants(fileTools);
+    }
+    return { editResult, localeSync, translationReport, rtlReport };
+  }, { projectId, operation: 'edit' }));
+  console.log(`🪙 LLM usage: ${usage.calls} calls, ${usage.totalTokens} tokens, $${usage.costUsd.toFixed(4)}, ${usage.retries} retries`);
+
+  // Step 6: Convert workspace files to ProjectFiles format
   const projectFiles: ProjectFiles = {};
   workspaceFiles.forEach(file => {
     if (file.type === 'file') {
@@ -101,20 +157,22 @@ export async function editSiteFromPrompt(args: {
     }
   });
 
-  // Step 6: Always use bilingual mode (all websites are bilingual now)
-  const languageMode = 'bilingual';
-
   // Step 7: Create new build with edited files
   console.log(`📦 Creating new build version with edited files...`);
+  onProgress?.({ type: 'stage', stage: 'saving', message: 'Building preview' });
   const newBuild = await createBuild({
     projectId,
     prompt: message,
     files: projectFiles,
     summary: editResult.summary,
     languageMode,
+    repairedFiles: repairs,
+    usage,
+    client,
   });
 
   console.log(`✅ Created build version ${newBuild.version}`);
+  onProgress?.({ type: 'preview_built', version: newBuild.version });
 
   // Step 8: Return result
   return {
@@ -126,5 +184,10 @@ export async function editSiteFromPrompt(args: {
     previewHtml: newBuild.preview_html || '',
     success: editResult.success,
     errors: editResult.errors,
+    repairedFiles: repairs,
+    translationReport,
+    rtlReport,
+    localeSync,
+    usage,
   };
 }
\ No newline at end of file
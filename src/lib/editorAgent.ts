@@ -5,28 +5,33 @@
  * to existing files using the patch/diff system.
  */
 
-import OpenAI from 'openai';
 import { FileTools } from './workspaceService';
-// Note: diff library available for future use if needed
-
-const getOpenAIClient = () => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-  return new OpenAI({ apiKey });
-};
+import { getLLMProvider, LLMMessage, LLMProviderError } from './llmProvider';
+import { ProgressReporter } from './progressStream';
+import type { LanguageMode } from './buildService';
+import { DEFAULT_SITE_LOCALES, getLocalePath } from './siteLocales';
+import { applyUnifiedDiff, createFileDiff, describeHunks, HunkResult } from './patchEngine';
 
 export interface EditRequest {
   userPrompt: string;
   projectId: string;
   buildVersion: number;
   history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  languageMode?: LanguageMode; // Project's language mode, defaults to bilingual
+  locales?: string[]; // Locale codes of a translated site (src/locales/<code>.json)
+}
+
+export interface EditPatch {
+  path: string;
+  diff: string; // Unified diff of what was written to the file
+  summary: string;
+  method: 'patch' | 'regenerated'; // Regenerated when the Editor's patch didn't apply or changed too much
+  hunks: HunkResult[]; // How each hunk of the Editor's patch applied
 }
 
 export interface EditResult {
   filesChanged: string[];
-  patches: Array<{ path: string; diff: string; summary: string }>;
+  patches: EditPatch[];
   summary: string;
   success: boolean;
   errors?: string[];
@@ -40,7 +45,7 @@ async function analyzeEditRequest(
   fileTools: FileTools,
   history?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<{ filesToEdit: string[]; editType: string }> {
-  const openai = getOpenAIClient();
+  const llm = getLLMProvider();
   
   // List all files in workspace
   const allFiles = await fileTools.list_files();
@@ -204,20 +209,21 @@ Be EXTREMELY specific - only include files that are DIRECTLY related to the user
     ? `\n\n🎯 STRONG MATCHES - Components containing your text:\n${contentMatches.slice(0, 3).map((c, i) => `${i + 1}. ${c.name} (${c.file}) - score: ${c.score}\n   Found: ${c.matches.join(', ')}`).join('\n')}\n\nThese components contain the text/content you mentioned. These are the MOST LIKELY files to edit.`
     : '';
 
-  const messages: any[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt + contextMessage },
     ...(history || []).map(h => ({ role: h.role, content: h.content })),
     { role: 'user', content: userPrompt }
   ];
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.complete({
+    stage: 'editor.analyze',
+    tier: 'fast',
     messages,
     temperature: 0.3,
-    response_format: { type: 'json_object' },
+    responseFormat: 'json_object',
   });
 
-  const content = completion.choices[0]?.message?.content?.trim() || '{}';
+  const content = completion.content || '{}';
   const analysis = JSON.parse(content);
   
   return {
@@ -226,6 +232,22 @@ Be EXTREMELY specific - only include files that are DIRECTLY related to the user
   };
 }
 
+/**
+ * Language rules for edit prompts - edits must not switch a site between
+ * translated (bilingual) and hardcoded (single-language) text
+ */
+function describeLanguageMode(languageMode: LanguageMode = 'bilingual', locales: string[] = []): string {
+  const codes = locales.length > 0 ? locales : DEFAULT_SITE_LOCALES;
+  switch (languageMode) {
+    case 'arabic-only':
+      return `Language mode: ARABIC ONLY - all text is hardcoded in Arabic (RTL). Write any new text in Arabic directly in the JSX. Do NOT add translation keys, useLanguage() or a language toggle.`;
+    case 'english-only':
+      return `Language mode: ENGLISH ONLY - all text is hardcoded in English. Write any new text in English directly in the JSX. Do NOT add translation keys, useLanguage() or a language toggle.`;
+    default:
+      return `Language mode: TRANSLATED (${codes.join(', ')}) - all text comes from ${codes.map(getLocalePath).join(', ')} via t('key'). Never hardcode text; any new key must exist in EVERY locale file.`;
+  }
+}
+
 /**
  * Generate a patch for a specific file
  */
@@ -235,9 +257,11 @@ async function generatePatch(
   currentContent: string,
   editType: string,
   fileTools: FileTools,
-  history?: Array<{ role: 'user' | 'assistant'; content: string }>
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>,
+  languageMode?: LanguageMode,
+  locales?: string[]
 ): Promise<{ diff: string; summary: string }> {
-  const openai = getOpenAIClient();
+  const llm = getLLMProvider();
   
   // Read related files for context if needed
   const relatedFiles: Record<string, string> = {};
@@ -274,6 +298,10 @@ EXAMPLE - If user says "change button color to blue":
 ✅ CORRECT: Change only the button's color class (e.g., bg-red-500 → bg-blue-500)
 ❌ WRONG: Change multiple buttons, modify button structure, change other styling
 
+THEME TOKENS: Colors, fonts, corners and section spacing come from tailwind.config.js tokens
+(bg-primary, text-foreground, bg-surface, font-heading, rounded-theme, py-section...).
+Keep using tokens; only use a raw color class when the user wants ONE element to differ from the theme.
+
 Unified diff format:
 @@ -start,count +start,count @@
  context line
@@ -284,6 +312,7 @@ Unified diff format:
 Edit type: ${editType}
 Current file: ${filePath}
 User request: ${userPrompt}
+${describeLanguageMode(languageMode, locales)}
 
 ${Object.keys(relatedFiles).length > 0 ? `\nRelated files for context:\n${Object.entries(relatedFiles).map(([path, content]) => `\n${path}:\n${content}`).join('\n')}` : ''}
 
@@ -295,20 +324,21 @@ Return a JSON object:
   "summary": "brief description of what changed"
 }`;
 
-  const messages: any[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: `Current file content:\n\`\`\`\n${currentContent}\n\`\`\`\n\nUser request: "${userPrompt}"\n\nGenerate a MINIMAL patch that changes ONLY what was requested. Do NOT modify any other parts of the file.` }
   ];
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await llm.complete({
+      stage: 'editor.patch',
+      tier: 'fast',
       messages,
       temperature: 0.2,
-      response_format: { type: 'json_object' },
+      responseFormat: 'json_object',
     });
 
-    const content = completion.choices[0]?.message?.content?.trim() || '{}';
+    const content = completion.content || '{}';
     let result;
     try {
       result = JSON.parse(content);
@@ -322,15 +352,15 @@ Return a JSON object:
       summary: result.summary || 'File modified',
     };
   } catch (error) {
-    if (error instanceof OpenAI.APIError) {
+    if (error instanceof LLMProviderError) {
       if (error.status === 429) {
         throw new Error('Rate limit exceeded. Please wait a moment and try again.');
       } else if (error.status === 401) {
-        throw new Error('OpenAI API key is invalid.');
+        throw new Error('LLM API key is invalid.');
       } else if (error.status === 402 || error.status === 403) {
-        throw new Error('OpenAI API quota exceeded. Please check your account.');
+        throw new Error('LLM API quota exceeded. Please check your account.');
       }
-      throw new Error(`OpenAI API error: ${error.message}`);
+      throw new Error(`LLM API error (${error.provider}): ${error.message}`);
     }
     throw error;
   }
@@ -344,9 +374,11 @@ async function regenerateFileWithEdit(
   userPrompt: string,
   currentContent: string,
   editType: string,
-  fileTools: FileTools
+  fileTools: FileTools,
+  languageMode?: LanguageMode,
+  locales?: string[]
 ): Promise<string | null> {
-  const openai = getOpenAIClient();
+  const llm = getLLMProvider();
   
   const systemPrompt = `You are an expert code editor. The user wants to edit a file, but patch application failed.
 Your task: Return the COMPLETE, CORRECTED file with ONLY the requested change applied.
@@ -362,6 +394,7 @@ CRITICAL RULES:
 Edit type: ${editType}
 File: ${filePath}
 User request: ${userPrompt}
+${describeLanguageMode(languageMode, locales)}
 
 Return a JSON object:
 {
@@ -369,20 +402,21 @@ Return a JSON object:
   "summary": "brief description of what changed"
 }`;
 
-  const messages: any[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: `Current file content:\n\`\`\`\n${currentContent}\n\`\`\`\n\nUser request: "${userPrompt}"\n\nReturn the complete file with ONLY the requested change applied. Everything else must stay exactly the same.` }
   ];
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await llm.complete({
+      stage: 'editor.regenerate',
+      tier: 'fast',
       messages,
       temperature: 0.1,
-      response_format: { type: 'json_object' },
+      responseFormat: 'json_object',
     });
 
-    const content = completion.choices[0]?.message?.content?.trim() || '{}';
+    const content = completion.content || '{}';
     let result;
     try {
       result = JSON.parse(content);
@@ -394,96 +428,22 @@ Return a JSON object:
     return result.content || null;
   } catch (error) {
     console.error(`Error regenerating file ${filePath}:`, error);
-    if (error instanceof OpenAI.APIError) {
-      console.error(`OpenAI API error (${error.status}): ${error.message}`);
+    if (error instanceof LLMProviderError) {
+      console.error(`LLM API error (${error.provider}, ${error.status}): ${error.message}`);
     }
     return null;
   }
 }
 
-/**
- * Validate patch before applying
- */
-function validatePatch(
-  currentContent: string,
-  diff: string
-): { valid: boolean; error?: string; preview?: string } {
-  try {
-    // Parse unified diff format
-    const lines = diff.split('\n');
-    let newContent = currentContent.split('\n');
-    let lineOffset = 0;
-    let inHunk = false;
-    let hunkStart = 0;
-    let hunkOldCount = 0;
-    let hunkNewCount = 0;
-    let hunkLine = 0;
-
-    for (const line of lines) {
-      // Match hunk header: @@ -start,count +start,count @@
-      const hunkMatch = line.match(/^@@\s+-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?\s+@@/);
-      if (hunkMatch) {
-        inHunk = true;
-        hunkStart = parseInt(hunkMatch[1]) - 1; // Convert to 0-based
-        hunkOldCount = parseInt(hunkMatch[2] || '1');
-        hunkNewCount = parseInt(hunkMatch[4] || '1');
-        hunkLine = 0;
-        lineOffset = 0;
-        continue;
-      }
-
-      if (!inHunk) continue;
-
-      if (line.startsWith(' ')) {
-        // Context line - verify it matches
-        const expectedLine = newContent[hunkStart + hunkLine + lineOffset];
-        if (expectedLine !== line.substring(1)) {
-          return {
-            valid: false,
-            error: `Context mismatch at line ${hunkStart + hunkLine + 1}: expected "${expectedLine}", got "${line.substring(1)}"`,
-          };
-        }
-        hunkLine++;
-      } else if (line.startsWith('-')) {
-        // Deletion - verify line exists
-        const expectedLine = newContent[hunkStart + hunkLine + lineOffset];
-        if (expectedLine !== line.substring(1)) {
-          return {
-            valid: false,
-            error: `Deletion mismatch at line ${hunkStart + hunkLine + 1}: expected "${expectedLine}", got "${line.substring(1)}"`,
-          };
-        }
-        newContent.splice(hunkStart + hunkLine + lineOffset, 1);
-        lineOffset--;
-        hunkLine++;
-      } else if (line.startsWith('+')) {
-        // Addition
-        newContent.splice(hunkStart + hunkLine + lineOffset + 1, 0, line.substring(1));
-        lineOffset++;
-        hunkLine++;
-      }
-    }
-
-    return {
-      valid: true,
-      preview: newContent.join('\n'),
-    };
-  } catch (error) {
-    return {
-      valid: false,
-      error: error instanceof Error ? error.message : 'Unknown validation error',
-    };
-  }
-}
-
 /**
  * Apply edits to workspace files
  */
 export async function applyEdits(
   request: EditRequest,
-  fileTools: FileTools
+  fileTools: FileTools,
+  onProgress?: ProgressReporter
 ): Promise<EditResult> {
-  const { userPrompt, history } = request;
+  const { userPrompt, history, languageMode, locales } = request;
   
   console.log('✏️  Editor Agent: Analyzing edit request...');
   
@@ -524,11 +484,12 @@ export async function applyEdits(
   console.log(`✅ Final files to edit: ${analysis.filesToEdit.join(', ')}`);
 
   const filesChanged: string[] = [];
-  const patches: Array<{ path: string; diff: string; summary: string }> = [];
+  const patches: EditPatch[] = [];
   const errors: string[] = [];
 
   // Step 2: Generate and apply patches for each file
   for (const filePath of analysis.filesToEdit) {
+    onProgress?.({ type: 'file_started', path: filePath });
     try {
       const currentContent = await fileTools.read_file(filePath);
       
@@ -545,7 +506,9 @@ export async function applyEdits(
         currentContent,
         analysis.editType,
         fileTools,
-        history
+        history,
+        languageMode,
+        locales
       );
 
       if (!diff || diff.trim().length === 0) {
@@ -553,106 +516,61 @@ export async function applyEdits(
         continue;
       }
 
-      // Validate patch
-      console.log(`✅ Validating patch for ${filePath}...`);
-      const validation = validatePatch(currentContent, diff);
-      
-      // Count context mismatches by checking the diff structure
-      // If validation fails, regenerate the file instead
-      if (!validation.valid) {
-        console.warn(`⚠️  Patch validation failed or too many mismatches for ${filePath}. Regenerating file instead...`);
-        
-        // Regenerate the entire file with the edit applied
-        const regeneratedContent = await regenerateFileWithEdit(
-          filePath,
-          userPrompt,
-          currentContent,
-          analysis.editType,
-          fileTools
-        );
-        
-        if (regeneratedContent) {
-          await fileTools.write_file(filePath, regeneratedContent);
-          filesChanged.push(filePath);
-          patches.push({ 
-            path: filePath, 
-            diff: `[File regenerated with edit applied]`, 
-            summary: `Regenerated ${filePath} with requested changes` 
-          });
-          console.log(`✅ Successfully regenerated ${filePath}`);
-          continue;
-        } else {
-          errors.push(`Failed to regenerate ${filePath} after patch validation failed`);
-          continue;
-        }
+      // Apply the patch in memory first - nothing is written unless every hunk applies
+      console.log(`✅ Applying patch to ${filePath}...`);
+      const patch = applyUnifiedDiff(currentContent, diff);
+      for (const line of describeHunks(patch.hunks)) {
+        console.log(`   ${line}`);
       }
 
-      // Check if patch changes too much (more than 30% of file = probably wrong)
-      if (validation.preview) {
+      // A patch that changes more than 30% of the file is probably wrong
+      let fallbackReason = patch.content === null ? `patch didn't apply (${patch.error})` : null;
+      if (patch.content !== null) {
         const originalLines = currentContent.split('\n').length;
-        const newLines = validation.preview.split('\n').length;
-        const changedLines = Math.abs(originalLines - newLines);
-        const changePercentage = (changedLines / originalLines) * 100;
-        
+        const changePercentage = (Math.abs(originalLines - patch.content.split('\n').length) / originalLines) * 100;
         if (changePercentage > 30) {
-          console.warn(`⚠️  WARNING: Patch changes ${changePercentage.toFixed(1)}% of file ${filePath}. Regenerating instead...`);
-          // Regenerate instead of applying large patch
-          const regeneratedContent = await regenerateFileWithEdit(
-            filePath,
-            userPrompt,
-            currentContent,
-            analysis.editType,
-            fileTools
-          );
-          
-          if (regeneratedContent) {
-            await fileTools.write_file(filePath, regeneratedContent);
-            filesChanged.push(filePath);
-            patches.push({ 
-              path: filePath, 
-              diff: `[File regenerated - patch was too large]`, 
-              summary: `Regenerated ${filePath} with requested changes` 
-            });
-            console.log(`✅ Successfully regenerated ${filePath}`);
-            continue;
-          }
+          fallbackReason = `patch changes ${changePercentage.toFixed(1)}% of the file`;
         }
       }
 
-      // Apply patch only if validation passed
-      if (validation.valid && validation.preview) {
-        // Use the validated preview instead of applying patch
-        await fileTools.write_file(filePath, validation.preview);
-        filesChanged.push(filePath);
-        patches.push({ path: filePath, diff, summary });
-        console.log(`✅ Successfully edited ${filePath}`);
-      } else {
-        // Validation failed - use regeneration fallback
-        console.warn(`⚠️  Patch validation failed for ${filePath}. Using regeneration fallback...`);
-        const regeneratedContent = await regenerateFileWithEdit(
+      let regeneratedContent: string | null = null;
+      if (fallbackReason) {
+        console.warn(`⚠️  ${filePath}: ${fallbackReason}. Regenerating file instead...`);
+        regeneratedContent = await regenerateFileWithEdit(
           filePath,
           userPrompt,
           currentContent,
           analysis.editType,
-          fileTools
+          fileTools,
+          languageMode,
+          locales
         );
-        
-        if (regeneratedContent) {
-          await fileTools.write_file(filePath, regeneratedContent);
-          filesChanged.push(filePath);
-          patches.push({ 
-            path: filePath, 
-            diff: `[File regenerated - patch validation failed]`, 
-            summary: `Regenerated ${filePath} with requested changes` 
-          });
-          console.log(`✅ Successfully regenerated ${filePath}`);
-        } else {
-          errors.push(`Failed to regenerate ${filePath} after patch validation failed`);
-        }
       }
+
+      // A large patch that applied is still used when regeneration fails
+      const newContent = regeneratedContent || patch.content;
+      if (newContent === null) {
+        errors.push(`Failed to regenerate ${filePath} after the patch failed: ${patch.error}`);
+        continue;
+      }
+      const method: EditPatch['method'] = regeneratedContent ? 'regenerated' : 'patch';
+
+      await fileTools.write_file(filePath, newContent);
+      // Diff of what was actually saved (the write may have repaired the syntax)
+      const written = (await fileTools.read_file(filePath)) ?? newContent;
+      filesChanged.push(filePath);
+      patches.push({
+        path: filePath,
+        diff: createFileDiff(filePath, currentContent, written),
+        summary: regeneratedContent ? `Regenerated ${filePath} with requested changes` : summary,
+        method,
+        hunks: patch.hunks,
+      });
+      console.log(`✅ Successfully ${method === 'patch' ? 'edited' : 'regenerated'} ${filePath}`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       errors.push(`Failed to edit ${filePath}: ${errorMsg}`);
+      onProgress?.({ type: 'error', message: errorMsg, path: filePath });
       console.error(`❌ Error editing ${filePath}:`, error);
     }
   }
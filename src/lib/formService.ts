@@ -0,0 +1,209 @@
+/**
+ * Form Service - Contact and booking form submissions of generated sites
+ *
+ * Generated sites post their forms to /api/forms/<projectId> through src/forms.js
+ * (written by the Coder). Submissions are stored per project in form_submissions
+ * (see supabase/migration-form-submissions.sql) and listed in the dashboard.
+ */
+
+import { supabase } from './supabaseClient';
+
+export interface FormSubmission {
+  id: string;
+  project_id: string;
+  form: string;                  // Section the form is in (e.g. "contact", "booking")
+  data: Record<string, string>;  // Field name -> value
+  locale: string | null;         // Site language the visitor used
+  created_at: string;
+}
+
+export const MAX_FORM_FIELDS = 30;
+export const MAX_FIELD_LENGTH = 5000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Spam trap: a field hidden from people that bots fill in
+export const HONEYPOT_FIELD = '_gotcha';
+
+/**
+ * Public URL generated sites post their forms to
+ * NEXT_PUBLIC_APP_URL must be reachable from deployed sites (defaults to the local dev server)
+ */
+export function getFormEndpoint(projectId: string): string {
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${appUrl}/api/forms/${projectId}`;
+}
+
+/**
+ * Validate a submission from a generated site
+ * Returns the cleaned submission, or the reason it was rejected
+ */
+export function validateFormSubmission(
+  body: unknown
+): { form: string; data: Record<string, string>; locale: string | null; spam: boolean } | { error: string } {
+  if (typeof body !== 'object' || body === null) {
+    return { error: 'Invalid submission' };
+  }
+  const { form, fields, locale } = body as Record<string, unknown>;
+
+  if (typeof form !== 'string' || !/^[\w-]{1,50}$/.test(form)) {
+    return { error: 'Invalid form name' };
+  }
+  if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+    return { error: 'Fields must be an object' };
+  }
+
+  const entries = Object.entries(fields as Record<string, unknown>);
+  const spam = entries.some(([name, value]) => name === HONEYPOT_FIELD && String(value ?? '').trim() !== '');
+  const data: Record<string, string> = {};
+  for (const [name, value] of entries) {
+    if (name === HONEYPOT_FIELD) {
+      continue;
+    }
+    if (!/^[\w-]{1,50}$/.test(name)) {
+      return { error: `Invalid field name "${name.substring(0, 50)}"` };
+    }
+    if (value !== null && typeof value === 'object') {
+      return { error: `Field "${name}" must be a text value` };
+    }
+    const text = String(value ?? '').trim();
+    if (text.length > MAX_FIELD_LENGTH) {
+      return { error: `Field "${name}" is too long (max ${MAX_FIELD_LENGTH} characters)` };
+    }
+    if (/email/i.test(name) && text && !EMAIL_PATTERN.test(text)) {
+      return { error: `Field "${name}" is not a valid email address` };
+    }
+    data[name] = text;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return { error: 'Submission has no fields' };
+  }
+  if (Object.keys(data).length > MAX_FORM_FIELDS) {
+    return { error: `Too many fields (max ${MAX_FORM_FIELDS})` };
+  }
+  if (Object.values(data).every(value => value === '')) {
+    return { error: 'Submission is empty' };
+  }
+
+  return {
+    form,
+    data,
+    locale: typeof locale === 'string' && /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(locale) ? locale : null,
+    spam,
+  };
+}
+
+/**
+ * Store a submission
+ * Returns 'not-found' when the project doesn't exist and 'limited' when the insert
+ * policy refuses it (the submission passed validateFormSubmission, so the project hit
+ * its per-minute cap)
+ */
+export async function saveFormSubmission(args: {
+  projectId: string;
+  form: string;
+  data: Record<string, string>;
+  locale: string | null;
+}): Promise<'saved' | 'not-found' | 'limited'> {
+  const { error } = await supabase
+    .from('form_submissions')
+    .insert({
+      project_id: args.projectId,
+      form: args.form,
+      data: args.data,
+      locale: args.locale,
+    });
+
+  if (error) {
+    // Foreign key violation - no such project
+    if (error.code === '23503') {
+      return 'not-found';
+    }
+    // Row level security violation - see the insert policy
+    if (error.code === '42501') {
+      return 'limited';
+    }
+    console.error('Error saving form submission:', error);
+    throw new Error(`Failed to save form submission: ${error.message}`);
+  }
+  return 'saved';
+}
+
+/**
+ * Get a project's submissions, newest first
+ * Returns an empty list if the migration hasn't been run
+ */
+export async function getFormSubmissions(projectId: string): Promise<FormSubmission[]> {
+  const { data, error } = await supabase
+    .from('form_submissions')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (error.message?.includes('form_submissions') || error.code === '42P01') {
+      console.warn('form_submissions table not found - migration may not be run. Submissions are not available.');
+      return [];
+    }
+    console.error('Error fetching form submissions:', error);
+    throw new Error(`Failed to fetch form submissions: ${error.message}`);
+  }
+
+  return (data || []) as FormSubmission[];
+}
+
+/**
+ * Number of submissions per project, for the dashboard cards
+ * Counted by the database (one head request per project), no rows are fetched
+ */
+export async function getFormSubmissionCounts(projectIds: string[]): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  if (projectIds.length === 0) {
+    return counts;
+  }
+
+  const results = await Promise.all(projectIds.map(async (projectId) => {
+    const { count, error } = await supabase
+      .from('form_submissions')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId);
+    return { projectId, count, error };
+  }));
+
+  for (const { projectId, count, error } of results) {
+    if (error) {
+      if (error.message?.includes('form_submissions') || error.code === '42P01') {
+        return {};
+      }
+      console.error('Error fetching form submission counts:', error);
+      throw new Error(`Failed to fetch form submission counts: ${error.message}`);
+    }
+    if (count) {
+      counts[projectId] = count;
+    }
+  }
+  return counts;
+}
+
+/**
+ * CSV of submissions - one column per field name seen in any submission
+ */
+export function formSubmissionsToCsv(submissions: FormSubmission[]): string {
+  const fieldNames = Array.from(new Set(submissions.flatMap(submission => Object.keys(submission.data || {}))));
+  const escape = (value: string) => {
+    // Visitors write these values - keep spreadsheet apps from running them as formulas
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  };
+
+  const header = ['submitted_at', 'form', 'locale', ...fieldNames];
+  const rows = submissions.map(submission => [
+    submission.created_at,
+    submission.form,
+    submission.locale || '',
+    ...fieldNames.map(name => submission.data?.[name] ?? ''),
+  ]);
+
+  // BOM so spreadsheet apps read Arabic text as UTF-8
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escape).join(',')).join('\r\n');
+}
@@ -0,0 +1,306 @@
+/**
+ * LLM Provider - Shared completion interface for all pipeline agents
+ *
+ * The Planner, Coder and Editor agents talk to a single LLMProvider instead of
+ * building their own OpenAI clients. The provider is selected from environment:
+ *
+ * - LLM_PROVIDER=openai (default): OpenAI API using OPENAI_API_KEY
+ * - LLM_PROVIDER=openai-compatible: any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM)
+ *   using LLM_BASE_URL and optional LLM_API_KEY
+ * - LLM_PROVIDER=fixture: replays recorded completions from LLM_FIXTURES_DIR (no network)
+ *
+ * Setting LLM_RECORD_FIXTURES=true with a live provider writes every completion
+ * to LLM_FIXTURES_DIR so the same run can later be replayed offline.
+ *
+ * Every provider is wrapped with retries (see llmRetry), so transient API errors are
+ * retried with backoff, and with usage tracking (see usageTracker), so token usage,
+ * latency and cost are recorded for whichever generation or edit issued the call.
+ *
+ * Models are resolved per tier so agents never hardcode model names:
+ * - 'default' → LLM_MODEL (gpt-4.1)
+ * - 'fast' → LLM_FAST_MODEL (gpt-4o-mini)
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { withUsageTracking } from './usageTracker';
+import { withRetries } from './llmRetry';
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export type ModelTier = 'default' | 'fast';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  /** Pipeline stage issuing the call (e.g. 'planner', 'coder.component') */
+  stage: string;
+  messages: LLMMessage[];
+  /** Model tier, resolved to a concrete model by the provider */
+  tier?: ModelTier;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json_object';
+  /** Aborts the call (set by withRetries when the stage timeout elapses) */
+  signal?: AbortSignal;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+  /** Transient failures retried before the call succeeded (set by withRetries) */
+  retries?: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+}
+
+/**
+ * Provider-agnostic error so agents don't depend on the OpenAI SDK error types
+ */
+export class LLMProviderError extends Error {
+  status?: number;
+  provider: LLMProviderName;
+  code?: string;          // API error code (e.g. 'insufficient_quota')
+  retryAfterMs?: number;  // From the Retry-After header
+  circuitOpen?: boolean;  // Rejected without calling the API (see llmRetry)
+
+  constructor(
+    message: string,
+    provider: LLMProviderName,
+    status?: number,
+    details: { code?: string; retryAfterMs?: number; circuitOpen?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.code = details.code;
+    this.retryAfterMs = details.retryAfterMs;
+    this.circuitOpen = details.circuitOpen;
+  }
+}
+
+/**
+ * Parse Retry-After (OpenAI also sends retry-after-ms) into milliseconds
+ */
+function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  const retryAfterMs = Number(headers?.get('retry-after-ms'));
+  if (retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+  const retryAfter = headers?.get('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter); // HTTP date form
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Resolve a model tier to a concrete model name
+ */
+export function resolveModel(tier: ModelTier = 'default'): string {
+  if (tier === 'fast') {
+    return process.env.LLM_FAST_MODEL || 'gpt-4o-mini';
+  }
+  return process.env.LLM_MODEL || 'gpt-4.1';
+}
+
+/**
+ * OpenAI provider - also used for OpenAI-compatible local endpoints via baseURL
+ */
+export function createOpenAIProvider(options: {
+  apiKey: string;
+  baseURL?: string;
+  name?: 'openai' | 'openai-compatible';
+}): LLMProvider {
+  const name = options.name || 'openai';
+  // Retries are handled by withRetries, not the SDK
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+
+  return {
+    name,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const model = resolveModel(request.tier);
+      try {
+        const completion = await client.chat.completions.create({
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.responseFormat === 'json_object' && {
+            response_format: { type: 'json_object' as const },
+          }),
+        }, { signal: request.signal });
+
+        return {
+          content: completion.choices[0]?.message?.content?.trim() || '',
+          model: completion.model || model,
+          usage: completion.usage
+            ? {
+                promptTokens: completion.usage.prompt_tokens,
+                completionTokens: completion.usage.completion_tokens,
+                totalTokens: completion.usage.total_tokens,
+              }
+            : undefined,
+        };
+      } catch (error) {
+        if (error instanceof OpenAI.APIError) {
+          throw new LLMProviderError(error.message, name, error.status, {
+            code: error.code || undefined,
+            retryAfterMs: parseRetryAfter(error.headers),
+          });
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Fixture key - stable hash of the request content (model-independent so
+ * fixtures survive model upgrades)
+ */
+export function getFixtureKey(request: CompletionRequest): string {
+  const payload = JSON.stringify({
+    messages: request.messages,
+    responseFormat: request.responseFormat || 'text',
+  });
+  return createHash('sha256').update(payload).digest('hex').substring(0, 32);
+}
+
+interface FixtureFile {
+  key: string;
+  stage: string;
+  model: string;
+  content: string;
+  usage?: CompletionUsage;
+}
+
+/**
+ * Fixture provider - replays recorded completions, never touches the network
+ */
+export function createFixtureProvider(fixturesDir: string): LLMProvider {
+  return {
+    name: 'fixture',
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const key = getFixtureKey(request);
+      const filePath = path.join(fixturesDir, `${key}.json`);
+
+      let raw: string;
+      try {
+        raw = await fs.readFile(filePath, 'utf-8');
+      } catch {
+        throw new LLMProviderError(
+          `No recorded fixture for stage "${request.stage}" (key ${key}) in ${fixturesDir}. Record it with LLM_RECORD_FIXTURES=true.`,
+          'fixture',
+          404
+        );
+      }
+
+      const fixture = JSON.parse(raw) as FixtureFile;
+      return {
+        content: fixture.content,
+        model: fixture.model,
+        usage: fixture.usage,
+      };
+    },
+  };
+}
+
+/**
+ * Wrap a live provider so every completion is written to the fixtures directory
+ */
+export function withFixtureRecording(provider: LLMProvider, fixturesDir: string): LLMProvider {
+  return {
+    name: provider.name,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const result = await provider.complete(request);
+      const key = getFixtureKey(request);
+      const fixture: FixtureFile = {
+        key,
+        stage: request.stage,
+        model: result.model,
+        content: result.content,
+        usage: result.usage,
+      };
+
+      try {
+        await fs.mkdir(fixturesDir, { recursive: true });
+        await fs.writeFile(path.join(fixturesDir, `${key}.json`), JSON.stringify(fixture, null, 2));
+      } catch (error) {
+        // Recording is best-effort - never fail a real generation because of it
+        console.warn(`Failed to record fixture for stage "${request.stage}":`, error);
+      }
+
+      return result;
+    },
+  };
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Get the configured LLM provider (cached per process)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const providerName = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+  const fixturesDir = path.resolve(process.env.LLM_FIXTURES_DIR || 'fixtures/llm');
+
+  let provider: LLMProvider;
+  if (providerName === 'fixture') {
+    provider = createFixtureProvider(fixturesDir);
+  } else if (providerName === 'openai-compatible') {
+    const baseURL = process.env.LLM_BASE_URL;
+    if (!baseURL) {
+      throw new Error('LLM_BASE_URL environment variable is not set');
+    }
+    // Local servers usually ignore the key, but the SDK requires one
+    provider = createOpenAIProvider({
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+      baseURL,
+      name: 'openai-compatible',
+    });
+  } else if (providerName === 'openai') {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is not set');
+    }
+    provider = createOpenAIProvider({ apiKey });
+  } else {
+    throw new Error(`Unknown LLM_PROVIDER "${providerName}". Use openai, openai-compatible or fixture.`);
+  }
+
+  if (process.env.LLM_RECORD_FIXTURES === 'true' && provider.name !== 'fixture') {
+    provider = withFixtureRecording(provider, fixturesDir);
+  }
+
+  cachedProvider = withUsageTracking(withRetries(provider));
+  return cachedProvider;
+}
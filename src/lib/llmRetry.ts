@@ -0,0 +1,228 @@
+/**
+ * LLM Retry - Backoff, timeouts and circuit breaking for model calls (server only)
+ *
+ * getLLMProvider() wraps every provider with withRetries, so a transient 429 or
+ * 5xx from the model API no longer fails a whole generation or edit:
+ *
+ * - Transient errors (408, 409, 429, 5xx, network) are retried with exponential
+ *   backoff and jitter, waiting at least as long as the API's Retry-After
+ * - Every attempt is bounded by a per-stage timeout (LLM_STAGE_TIMEOUTS overrides
+ *   the defaults as JSON, e.g. {"planner": 20000, "coder": 90000})
+ * - After LLM_CIRCUIT_THRESHOLD consecutive transient failures the circuit opens
+ *   and calls fail fast for LLM_CIRCUIT_COOLDOWN_MS, then a single trial call
+ *   decides whether it closes again
+ *
+ * Retries are announced to the active reportRetries() scopes (progress stream)
+ * and counted on the completion result, so usage tracking stores them on the build.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMProviderError } from './llmProvider';
+import type { ProgressReporter } from './progressStream';
+
+export interface LLMRetry {
+  stage: string;
+  attempt: number; // Retry number, starting at 1
+  delayMs: number; // Wait before the retry
+  status?: number; // HTTP status of the failed attempt (undefined for network errors and timeouts)
+  message: string;
+}
+
+type RetryListener = (retry: LLMRetry) => void;
+
+// Per-attempt timeouts in ms, matched by stage prefix ('coder' covers 'coder.component')
+const STAGE_TIMEOUTS_MS: Record<string, number> = {
+  planner: 30_000,
+  theme: 30_000,
+  coder: 60_000,
+  editor: 60_000,
+};
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+const retryScope = new AsyncLocalStorage<RetryListener[]>();
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Per-attempt timeout for a pipeline stage
+ */
+export function getStageTimeout(stage: string): number {
+  let timeouts = STAGE_TIMEOUTS_MS;
+  if (process.env.LLM_STAGE_TIMEOUTS) {
+    try {
+      timeouts = { ...STAGE_TIMEOUTS_MS, ...JSON.parse(process.env.LLM_STAGE_TIMEOUTS) };
+    } catch {
+      console.warn('⚠️  LLM_STAGE_TIMEOUTS is not valid JSON - using default timeouts');
+    }
+  }
+
+  const match = Object.keys(timeouts)
+    .filter(name => stage === name || stage.startsWith(`${name}.`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? timeouts[match] : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Whether a failed call is worth retrying
+ */
+export function isTransientError(error: unknown): error is LLMProviderError {
+  if (!(error instanceof LLMProviderError)) {
+    return false;
+  }
+  // A 429 for an exhausted quota won't clear up by waiting, and an open circuit already waited
+  if (error.code === 'insufficient_quota' || error.circuitOpen) {
+    return false;
+  }
+  const { status } = error;
+  return status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): exponential with jitter,
+ * never shorter than the API's Retry-After
+ */
+export function getRetryDelay(attempt: number, retryAfterMs?: number): number {
+  const baseDelay = readNumberEnv('LLM_RETRY_BASE_DELAY_MS', 1000);
+  const maxDelay = readNumberEnv('LLM_RETRY_MAX_DELAY_MS', 20_000);
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  // Equal jitter - keeps some backoff while spreading out concurrent Coder tasks
+  const delay = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.round(Math.max(delay, retryAfterMs || 0));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a single attempt, aborting it when the stage timeout elapses
+ */
+async function completeWithTimeout(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  timeoutMs: number
+): Promise<CompletionResult> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMProviderError(
+        `Model call for stage "${request.stage}" timed out after ${Math.round(timeoutMs / 1000)}s`,
+        provider.name,
+        408
+      ));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([provider.complete({ ...request, signal: controller.signal }), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Wrap a provider with retries, per-stage timeouts and a circuit breaker
+ */
+export function withRetries(provider: LLMProvider): LLMProvider {
+  // Circuit breaker state is shared by every call through this provider
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  let trialInFlight = false;
+
+  const checkCircuit = (stage: string) => {
+    if (openUntil === 0) {
+      return false;
+    }
+    const remainingMs = openUntil - Date.now();
+    if (remainingMs > 0 || trialInFlight) {
+      throw new LLMProviderError(
+        `Model API is unavailable after repeated failures (stage "${stage}"). Try again in ${Math.max(1, Math.ceil(remainingMs / 1000))}s.`,
+        provider.name,
+        503,
+        { circuitOpen: true }
+      );
+    }
+    // Half-open: let one trial call through
+    trialInFlight = true;
+    return true;
+  };
+
+  const recordSuccess = () => {
+    consecutiveFailures = 0;
+    if (openUntil !== 0) {
+      console.log('🔌 Model API recovered - closing circuit');
+    }
+    openUntil = 0;
+  };
+
+  const recordFailure = (isTrial: boolean) => {
+    consecutiveFailures += 1;
+    const threshold = readNumberEnv('LLM_CIRCUIT_THRESHOLD', 5);
+    if (isTrial || (threshold > 0 && consecutiveFailures >= threshold)) {
+      const cooldownMs = readNumberEnv('LLM_CIRCUIT_COOLDOWN_MS', 30_000);
+      openUntil = Date.now() + cooldownMs;
+      console.warn(`🔌 Circuit open after ${consecutiveFailures} consecutive model API failures - pausing calls for ${Math.round(cooldownMs / 1000)}s`);
+    }
+  };
+
+  return {
+    name: provider.name,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const maxRetries = readNumberEnv('LLM_MAX_RETRIES', 3);
+      const timeoutMs = getStageTimeout(request.stage);
+
+      for (let attempt = 0; ; attempt++) {
+        const isTrial = checkCircuit(request.stage);
+        try {
+          const result = await completeWithTimeout(provider, request, timeoutMs);
+          recordSuccess();
+          return { ...result, retries: attempt };
+        } catch (error) {
+          if (!isTransientError(error)) {
+            throw error;
+          }
+          recordFailure(isTrial);
+
+          const delayMs = getRetryDelay(attempt + 1, error.retryAfterMs);
+          const maxDelay = readNumberEnv('LLM_RETRY_MAX_DELAY_MS', 20_000);
+          // Give up when out of retries, asked to wait too long, or the circuit just opened
+          if (attempt >= maxRetries || delayMs > maxDelay || openUntil > Date.now()) {
+            throw error;
+          }
+
+          const retry: LLMRetry = {
+            stage: request.stage,
+            attempt: attempt + 1,
+            delayMs,
+            status: error.status,
+            message: error.message,
+          };
+          console.warn(`🔁 Retrying ${request.stage} (${retry.attempt}/${maxRetries}) in ${delayMs}ms: ${error.message}`);
+          retryScope.getStore()?.forEach(listener => listener(retry));
+          await sleep(delayMs);
+        } finally {
+          if (isTrial) {
+            trialInFlight = false;
+          }
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Run an operation and report every model call retry it triggers as a progress event
+ */
+export async function reportRetries<T>(onProgress: ProgressReporter | undefined, operation: () => Promise<T>): Promise<T> {
+  if (!onProgress) {
+    return operation();
+  }
+  const listener: RetryListener = (retry) => onProgress({ type: 'retry', ...retry });
+  return retryScope.run([...(retryScope.getStore() || []), listener], operation);
+}
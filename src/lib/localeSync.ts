@@ -0,0 +1,177 @@
+/**
+ * Locale Sync - Keeps every locale file in step after an edit
+ *
+ * Edits usually change the text of one or two locales (the editor patches the
+ * files it was asked about). Values that were added or changed in some locales
+ * but not in others are translated into the locales that were left behind, so
+ * a French or Urdu version never keeps stale or missing text.
+ *
+ * Removed keys are not propagated - the translation checker reports them.
+ */
+
+import { FileTools } from './workspaceService';
+import { getLLMProvider } from './llmProvider';
+import { getSiteLocale, localeFromPath } from './siteLocales';
+
+export interface LocaleSyncResult {
+  keys: string[];           // Keys translated into other locales
+  updatedLocales: string[]; // Locale files that were rewritten
+}
+
+type LocaleData = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is LocaleData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseLocale(content: string | null | undefined): LocaleData | null {
+  if (!content) return null;
+  try {
+    const parsed = JSON.parse(content);
+    return isPlainObject(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Flatten a locale into leaf values keyed by dotted path - arrays are leaves, they are translated whole
+ */
+function flatten(data: LocaleData, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, value] of Object.entries(data)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flatten(value, path, out);
+    } else {
+      out[path] = value;
+    }
+  }
+  return out;
+}
+
+function setPath(data: LocaleData, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = data;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as LocaleData;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Translate a set of values between two locales, returning the same keys
+ * (also used by the translation checker for keys it copies between locales)
+ */
+export async function translateValues(
+  values: Record<string, unknown>,
+  sourceLocale: string,
+  targetLocale: string
+): Promise<Record<string, unknown>> {
+  const llm = getLLMProvider();
+  const source = getSiteLocale(sourceLocale);
+  const target = getSiteLocale(targetLocale);
+
+  const completion = await llm.complete({
+    stage: 'editor.locale_sync',
+    tier: 'fast',
+    messages: [
+      {
+        role: 'system',
+        content: `You translate website text from ${source.name} to ${target.name}.
+
+RULES:
+- Return a JSON object with EXACTLY the same keys as the input
+- Translate only the values; arrays keep their length and item structure
+- Translate naturally for native ${target.name} speakers - don't transliterate
+- Keep brand names, URLs, emails and phone numbers unchanged`,
+      },
+      { role: 'user', content: JSON.stringify(values, null, 2) },
+    ],
+    temperature: 0.3,
+    responseFormat: 'json_object',
+  });
+
+  const parsed = parseLocale(completion.content);
+  return parsed || {};
+}
+
+/**
+ * Translate values added or changed by an edit into the locales that didn't get them
+ * @param before - Locale file contents before the edit, by path
+ */
+export async function syncLocales(
+  fileTools: FileTools,
+  before: Record<string, string>
+): Promise<LocaleSyncResult> {
+  const result: LocaleSyncResult = { keys: [], updatedLocales: [] };
+
+  // Only locales that existed before the edit can be compared
+  const paths = (await fileTools.list_files()).filter(path => localeFromPath(path) && before[path]);
+  if (paths.length < 2) {
+    return result;
+  }
+
+  const locales: Record<string, { path: string; data: LocaleData; leaves: Record<string, unknown>; changed: Set<string> }> = {};
+  for (const path of paths) {
+    const data = parseLocale(await fileTools.read_file(path));
+    const previous = parseLocale(before[path]);
+    if (!data || !previous) continue;
+
+    const leaves = flatten(data);
+    const previousLeaves = flatten(previous);
+    const changed = new Set(
+      Object.keys(leaves).filter(key => JSON.stringify(leaves[key]) !== JSON.stringify(previousLeaves[key]))
+    );
+    locales[localeFromPath(path)!] = { path, data, leaves, changed };
+  }
+
+  const codes = Object.keys(locales);
+  const changedKeys = Array.from(new Set(codes.flatMap(code => Array.from(locales[code].changed))));
+  if (changedKeys.length === 0) {
+    return result;
+  }
+
+  // Group what each stale locale needs by the locale it is translated from (English preferred)
+  const pending: Record<string, Record<string, Record<string, unknown>>> = {}; // target -> source -> values
+  for (const key of changedKeys) {
+    const sources = codes.filter(code => locales[code].changed.has(key));
+    const source = sources.includes('en') ? 'en' : sources[0];
+    for (const target of codes.filter(code => !sources.includes(code))) {
+      pending[target] = pending[target] || {};
+      pending[target][source] = pending[target][source] || {};
+      pending[target][source][key] = locales[source].leaves[key];
+    }
+  }
+
+  const syncedKeys = new Set<string>();
+  for (const [target, bySource] of Object.entries(pending)) {
+    let updated = false;
+    for (const [source, values] of Object.entries(bySource)) {
+      try {
+        const translated = await translateValues(values, source, target);
+        for (const key of Object.keys(values)) {
+          if (translated[key] === undefined) continue;
+          setPath(locales[target].data, key, translated[key]);
+          syncedKeys.add(key);
+          updated = true;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to sync ${source} → ${target}:`, error);
+      }
+    }
+
+    if (updated) {
+      await fileTools.write_file(locales[target].path, JSON.stringify(locales[target].data, null, 2));
+      result.updatedLocales.push(target);
+    }
+  }
+
+  result.keys = Array.from(syncedKeys);
+  if (result.keys.length > 0) {
+    console.log(`🌐 Synced ${result.keys.length} key(s) into ${result.updatedLocales.join(', ')}`);
+  }
+  return result;
+}
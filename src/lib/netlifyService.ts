@@ -2,7 +2,7 @@
  * Netlify Service - Handles Netlify API integration for deployments
  * 
  * This service provides functions to:
- * - Create Netlify sites
+ * - Create Netlify sites and look up their public URL
  * - Deploy files to Netlify
  * - Check deployment status
  */
@@ -67,6 +67,29 @@ export async function createNetlifySite(siteName: string): Promise<NetlifySite>
   return await response.json();
 }
 
+/**
+ * Get a Netlify site (its public URL is ssl_url)
+ */
+export async function getNetlifySite(siteId: string): Promise<NetlifySite> {
+  if (!NETLIFY_API_TOKEN) {
+    throw new Error('NETLIFY_API_TOKEN is not configured');
+  }
+
+  const response = await fetch(`${NETLIFY_API_BASE}/sites/${siteId}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${NETLIFY_API_TOKEN}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to get Netlify site: ${response.status} ${error}`);
+  }
+
+  return await response.json();
+}
+
 /**
  * Deploy files to a Netlify site using the Deploy API
  * This creates a ZIP file from the project files and deploys it
@@ -0,0 +1,253 @@
+/**
+ * Patch Engine - Applies unified diffs written by the LLM to file content
+ *
+ * Diffs are parsed with the diff library after their hunk headers are recounted
+ * (the LLM rarely gets the line counts right). Each hunk is then searched for
+ * around the line its header claims, shifted by what earlier hunks added or
+ * removed, at increasing fuzz:
+ *
+ * - 0: every context and removed line matches exactly
+ * - 1: lines match once whitespace is collapsed (re-indented code)
+ * - 2: up to two context lines at each end of the hunk are dropped
+ *
+ * A hunk is never applied where its removed lines don't match, so a patch that
+ * doesn't fit fails instead of corrupting the file. In strict mode one failed
+ * hunk fails the whole patch; otherwise the hunks that fit are applied and the
+ * others reported.
+ */
+
+import { createTwoFilesPatch, parsePatch, StructuredPatchHunk } from 'diff';
+
+export interface HunkResult {
+  index: number;      // Position of the hunk in the patch (0-based)
+  oldStart: number;   // Line the hunk header claims (1-based)
+  applied: boolean;
+  line?: number;      // Line the hunk was applied at (1-based)
+  offset?: number;    // Lines between where the hunk was expected and where it was found
+  fuzz?: number;      // 0 exact, 1 whitespace ignored, 2 outer context dropped
+  error?: string;
+}
+
+export interface PatchResult {
+  content: string | null; // Patched content, null when the patch couldn't be applied
+  applied: boolean;       // True when every hunk applied
+  hunks: HunkResult[];
+  error?: string;         // Why the patch couldn't be parsed or applied
+}
+
+export interface PatchOptions {
+  strict?: boolean;   // Fail the whole patch when a hunk doesn't apply (default true)
+  maxFuzz?: number;   // Highest fuzz level to try, 0-2 (default 2)
+  maxOffset?: number; // Furthest a hunk may be found from its expected line (default: anywhere)
+}
+
+const MAX_FUZZ = 2;
+
+// File headers of a diff: --- a/path followed by +++ b/path
+function isFileHeader(lines: string[], index: number): boolean {
+  return /^---(\s|$)/.test(lines[index]) && /^\+\+\+(\s|$)/.test(lines[index + 1] || '');
+}
+
+/**
+ * Clean up an LLM diff so parsePatch accepts it: code fences and prose are dropped,
+ * blank lines inside hunks become context and the hunk headers are recounted
+ */
+function normalizeDiff(diff: string): string {
+  const lines = diff
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .filter(line => !/^```/.test(line));
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (isFileHeader(lines, index)) {
+      output.push(lines[index], lines[index + 1]);
+      index += 2;
+      continue;
+    }
+
+    const header = /^@@\s*-(\d+)(?:,\d+)?\s+\+(\d+)(?:,\d+)?\s*@@/.exec(lines[index]);
+    if (!header && !/^@@/.test(lines[index])) {
+      index++;
+      continue;
+    }
+
+    // Hunk body up to the next hunk or file header
+    const body: string[] = [];
+    index++;
+    while (index < lines.length && !/^@@/.test(lines[index]) && !isFileHeader(lines, index)) {
+      const line = lines[index++];
+      body.push(/^[ +\-\\]/.test(line) ? line : ` ${line}`);
+    }
+    // Trailing blank lines are the end of the diff, not context
+    while (body.length > 0 && body[body.length - 1] === ' ') {
+      body.pop();
+    }
+    if (body.length === 0) continue;
+
+    const oldCount = body.filter(line => line[0] === ' ' || line[0] === '-').length;
+    const newCount = body.filter(line => line[0] === ' ' || line[0] === '+').length;
+    const oldStart = header ? parseInt(header[1], 10) : 1;
+    const newStart = header ? parseInt(header[2], 10) : 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body);
+  }
+
+  return output.join('\n');
+}
+
+const collapseWhitespace = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+interface HunkMatch {
+  position: number; // 0-based index of the first matched line
+  fuzz: number;
+  lead: number;     // Context lines dropped from the start of the hunk
+  trail: number;    // Context lines dropped from the end of the hunk
+}
+
+/**
+ * Find where a hunk's context and removed lines are in the file, nearest to the expected line first
+ */
+function findHunk(
+  lines: string[],
+  hunkLines: string[],
+  expected: number,
+  minPosition: number,
+  options: { maxFuzz: number; maxOffset: number }
+): HunkMatch | null {
+  // Context lines before the first and after the last change
+  const operations = hunkLines.map(line => line[0]);
+  const firstChange = operations.findIndex(operation => operation !== ' ');
+  const leadContext = firstChange === -1 ? 0 : firstChange;
+  const trailContext = firstChange === -1 ? 0 : hunkLines.length - 1 - Math.max(operations.lastIndexOf('-'), operations.lastIndexOf('+'));
+
+  for (let fuzz = 0; fuzz <= options.maxFuzz; fuzz++) {
+    const trim = fuzz === 2 ? 2 : 0;
+    const lead = Math.min(trim, leadContext);
+    const trail = Math.min(trim, trailContext);
+    const pattern = hunkLines
+      .slice(lead, hunkLines.length - trail)
+      .filter(line => line[0] === ' ' || line[0] === '-')
+      .map(line => line.slice(1));
+    // Dropping the context must leave something to find
+    if (fuzz === 2 && (lead + trail === 0 || pattern.length === 0)) {
+      break;
+    }
+    // A hunk of additions only has nothing to look for
+    if (pattern.length === 0) {
+      return { position: Math.min(Math.max(expected + lead, minPosition), lines.length), fuzz, lead, trail };
+    }
+
+    const same = fuzz === 0
+      ? (a: string, b: string) => a === b
+      : (a: string, b: string) => collapseWhitespace(a) === collapseWhitespace(b);
+    const matchesAt = (position: number) =>
+      position >= minPosition
+      && position + pattern.length <= lines.length
+      && pattern.every((line, offset) => same(lines[position + offset], line));
+
+    const start = expected + lead;
+    const maxOffset = Math.min(options.maxOffset, Math.max(start, lines.length));
+    for (let offset = 0; offset <= maxOffset; offset++) {
+      if (matchesAt(start + offset)) return { position: start + offset, fuzz, lead, trail };
+      if (offset > 0 && matchesAt(start - offset)) return { position: start - offset, fuzz, lead, trail };
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply a unified diff to file content
+ * @param diff - Diff of a single file; headers are optional and line counts are recounted
+ */
+export function applyUnifiedDiff(content: string, diff: string, options: PatchOptions = {}): PatchResult {
+  const strict = options.strict !== false;
+  const search = {
+    maxFuzz: Math.min(Math.max(options.maxFuzz ?? MAX_FUZZ, 0), MAX_FUZZ),
+    maxOffset: options.maxOffset ?? Number.POSITIVE_INFINITY,
+  };
+
+  let hunks: StructuredPatchHunk[];
+  try {
+    const parsed = parsePatch(normalizeDiff(diff)).filter(file => file.hunks.length > 0);
+    if (parsed.length > 1) {
+      return { content: null, applied: false, hunks: [], error: `Patch changes ${parsed.length} files, expected one` };
+    }
+    hunks = parsed[0]?.hunks || [];
+  } catch (error) {
+    return { content: null, applied: false, hunks: [], error: `Invalid diff: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (hunks.length === 0) {
+    return { content: null, applied: false, hunks: [], error: 'Patch has no hunks' };
+  }
+
+  const lines = content.split('\n');
+  const results: HunkResult[] = [];
+  let delta = 0;       // Lines added minus lines removed by the hunks applied so far
+  let minPosition = 0; // Hunks apply in order and never overlap
+
+  hunks.forEach((hunk, index) => {
+    const hunkLines = hunk.lines.filter(line => line[0] !== '\\');
+    const expected = Math.max(hunk.oldStart - 1 + delta, 0);
+    const match = findHunk(lines, hunkLines, expected, minPosition, search);
+
+    if (!match) {
+      const firstLine = hunkLines.find(line => line[0] !== '+')?.slice(1).trim();
+      results.push({
+        index,
+        oldStart: hunk.oldStart,
+        applied: false,
+        error: `Hunk ${index + 1} (line ${hunk.oldStart}) doesn't match the file${firstLine ? ` near "${firstLine.slice(0, 60)}"` : ''}`,
+      });
+      return;
+    }
+
+    // Context keeps the file's own lines (whitespace included), additions come from the patch
+    const kept = hunkLines.slice(match.lead, hunkLines.length - match.trail);
+    const replacement: string[] = [];
+    let cursor = match.position;
+    for (const line of kept) {
+      if (line[0] === ' ') replacement.push(lines[cursor++]);
+      else if (line[0] === '-') cursor++;
+      else replacement.push(line.slice(1));
+    }
+    const removedCount = cursor - match.position;
+    lines.splice(match.position, removedCount, ...replacement);
+
+    results.push({
+      index,
+      oldStart: hunk.oldStart,
+      applied: true,
+      line: match.position + 1,
+      offset: match.position - (expected + match.lead),
+      fuzz: match.fuzz,
+    });
+    delta += replacement.length - removedCount;
+    minPosition = match.position + replacement.length;
+  });
+
+  const failed = results.filter(result => !result.applied);
+  if (failed.length > 0 && (strict || failed.length === results.length)) {
+    return { content: null, applied: false, hunks: results, error: failed.map(result => result.error).join('; ') };
+  }
+  return { content: lines.join('\n'), applied: failed.length === 0, hunks: results };
+}
+
+/**
+ * One line per hunk that didn't apply exactly where its header said (for logs)
+ */
+export function describeHunks(hunks: HunkResult[]): string[] {
+  return hunks
+    .filter(hunk => !hunk.applied || hunk.offset !== 0 || hunk.fuzz !== 0)
+    .map(hunk => hunk.applied
+      ? `Hunk ${hunk.index + 1} applied at line ${hunk.line} (offset ${hunk.offset! > 0 ? '+' : ''}${hunk.offset}, fuzz ${hunk.fuzz})`
+      : hunk.error || `Hunk ${hunk.index + 1} failed`);
+}
+
+/**
+ * Unified diff between two versions of a file, with a/ and b/ headers like git
+ */
+export function createFileDiff(path: string, before: string, after: string): string {
+  return createTwoFilesPatch(`a/${path}`, `b/${path}`, before, after, undefined, undefined, { context: 3 })
+    .replace(/^=+\n/, '');
+}
@@ -0,0 +1,253 @@
+/**
+ * Pipeline Run Service - Checkpoints of generation runs
+ *
+ * A generation records its plan and architecture once the Architect is done,
+ * then every file the Coder completes. When a run fails halfway (or finishes
+ * with failed files), it can be resumed: the pipeline restores the checkpoint
+ * and only generates the tasks that never completed.
+ *
+ * Checkpointing is best-effort - if the pipeline_runs migration has not been
+ * run, generation works as before without resume support.
+ */
+
+import { supabase } from './supabaseClient';
+import type { GenerationPlan } from './plannerAgent';
+import type { ArchitecturePlan } from './architectAgent';
+import type { TaskFailure } from './coderAgent';
+import type { FileTools } from './workspaceService';
+
+export type PipelineRunStatus = 'running' | 'failed' | 'partial' | 'completed';
+
+export interface PipelineRun {
+  id: string;
+  project_id: string;
+  prompt: string;
+  status: PipelineRunStatus;
+  plan: GenerationPlan | null;
+  architecture: ArchitecturePlan | null;
+  failed_files: TaskFailure[];
+  error: string | null;
+  build_version: number | null;
+  created_at: string;
+  updated_at: string;
+  files?: Record<string, string>; // Completed files, only loaded by getPipelineRun
+}
+
+/**
+ * Thrown when a checkpointed run fails, so callers can offer to resume it
+ */
+export class PipelineRunError extends Error {
+  runId: string;
+
+  constructor(message: string, runId: string) {
+    super(message);
+    this.name = 'PipelineRunError';
+    this.runId = runId;
+  }
+}
+
+function isMissingTable(error: { message?: string; code?: string }): boolean {
+  return error.message?.includes('pipeline_run') || error.code === '42P01';
+}
+
+/**
+ * Start a checkpointed run
+ * Returns null when runs can't be recorded (migration not run)
+ */
+export async function createPipelineRun(input: {
+  projectId: string;
+  prompt: string;
+  plan: GenerationPlan;
+  architecture: ArchitecturePlan;
+}): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .insert({
+      project_id: input.projectId,
+      prompt: input.prompt,
+      plan: input.plan,
+      architecture: input.architecture,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (isMissingTable(error)) {
+      console.warn('pipeline_runs table not found - migration may not be run. Generation will not be resumable.');
+    } else {
+      console.error('Error creating pipeline run:', error);
+    }
+    return null;
+  }
+
+  return data.id;
+}
+
+/**
+ * Update a run's status (best-effort - a lost update only affects resuming)
+ */
+export async function updatePipelineRun(
+  runId: string,
+  fields: {
+    status: PipelineRunStatus;
+    error?: string | null;
+    failedFiles?: TaskFailure[];
+    buildVersion?: number;
+  }
+): Promise<void> {
+  const update: Record<string, unknown> = {
+    status: fields.status,
+    updated_at: new Date().toISOString(),
+  };
+  if (fields.error !== undefined) {
+    update.error = fields.error;
+  }
+  if (fields.failedFiles) {
+    update.failed_files = fields.failedFiles;
+  }
+  if (fields.buildVersion !== undefined) {
+    update.build_version = fields.buildVersion;
+  }
+
+  const { error } = await supabase
+    .from('pipeline_runs')
+    .update(update)
+    .eq('id', runId);
+
+  if (error) {
+    console.error('Error updating pipeline run:', error);
+  }
+}
+
+/**
+ * Get a run of a project with its completed files
+ */
+export async function getPipelineRun(projectId: string, runId: string): Promise<PipelineRun | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .select('*')
+    .eq('id', runId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingTable(error)) {
+      console.warn('pipeline_runs table not found - migration may not be run.');
+      return null;
+    }
+    console.error('Error fetching pipeline run:', error);
+    throw new Error(`Failed to fetch pipeline run: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const { data: fileRows, error: filesError } = await supabase
+    .from('pipeline_run_files')
+    .select('path, content')
+    .eq('run_id', runId);
+
+  if (filesError) {
+    console.error('Error fetching pipeline run files:', filesError);
+    throw new Error(`Failed to fetch pipeline run files: ${filesError.message}`);
+  }
+
+  const files: Record<string, string> = {};
+  (fileRows || []).forEach(row => {
+    files[row.path] = row.content;
+  });
+
+  return { ...(data as PipelineRun), files };
+}
+
+/**
+ * The project's latest run, if it can be resumed
+ * - failed: stopped before creating a build
+ * - partial: created the latest build but some files failed to generate
+ */
+export async function getResumableRun(projectId: string): Promise<PipelineRun | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingTable(error)) {
+      return null;
+    }
+    console.error('Error fetching latest pipeline run:', error);
+    return null;
+  }
+
+  const run = data as PipelineRun | null;
+  if (!run || !run.plan || !run.architecture) {
+    return null;
+  }
+  if (run.status === 'failed') {
+    return run;
+  }
+  if (run.status !== 'partial') {
+    return null;
+  }
+
+  // Retrying a partial run builds on top of its build - not once a newer build exists
+  const { data: latestBuild } = await supabase
+    .from('builds')
+    .select('version')
+    .eq('project_id', projectId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return latestBuild?.version === run.build_version ? run : null;
+}
+
+/**
+ * Plan of the project's latest run that built something (completed or partial),
+ * reused when a single section is regenerated - null when no run was recorded
+ */
+export async function getLatestBuiltPlan(projectId: string): Promise<GenerationPlan | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .select('plan')
+    .eq('project_id', projectId)
+    .in('status', ['completed', 'partial'])
+    .not('plan', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    if (!isMissingTable(error)) {
+      console.error('Error fetching latest plan:', error);
+    }
+    return null;
+  }
+
+  return (data?.plan as GenerationPlan | null) || null;
+}
+
+/**
+ * Wrap file tools so every completed file is checkpointed to the run
+ */
+export function withCheckpoints(fileTools: FileTools, runId: string | null): FileTools {
+  if (!runId) {
+    return fileTools;
+  }
+
+  return {
+    ...fileTools,
+    async write_file(path: string, content: string): Promise<void> {
+      await fileTools.write_file(path, content);
+      const { error } = await supabase
+        .from('pipeline_run_files')
+        .upsert({ run_id: runId, path, content, updated_at: new Date().toISOString() });
+      if (error) {
+        console.warn(`⚠️  Failed to checkpoint ${path}:`, error.message);
+      }
+    },
+  };
+}
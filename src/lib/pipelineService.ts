@@ -2,32 +2,63 @@
  * Pipeline Service - Orchestrates the Lovable-style multi-agent pipeline
  * 
  * Pipeline flow: Planner → Architect → Coder
+ *
+ * Plans can be reviewed first: planSiteFromPrompt() stops after the Architect,
+ * and generateSiteFromPrompt() with the approved `reviewedPlan` skips the Planner.
+ *
+ * A generation in a project that already has a build is a new version: the
+ * Planner and Coder get the previous build and earlier requests (see projectContext)
+ * so sections, brand, theme and refined text carry over.
+ *
+ * Files the user uploaded for the project (see assetService) are passed to the
+ * Planner, Architect and Coder so the site uses them.
  * 
  * This replaces the old aiOrchestrator.ts with a structured,
  * multi-agent approach matching Lovable's backend system.
  */
 
-import { planGeneration, GenerationPlan } from './plannerAgent';
+import { planGeneration, GenerationPlan, PlannerLanguageMode } from './plannerAgent';
 import { architectGeneration, ArchitecturePlan } from './architectAgent';
-import { codeGeneration } from './coderAgent';
+import { codeGeneration, TaskFailure } from './coderAgent';
 import { 
   createFileTools, 
   initializeWorkspace, 
   WorkspaceFile 
 } from './workspaceService';
-import { ProjectFiles } from './buildService';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LanguageMode, ProjectFiles } from './buildService';
+import { ProgressReporter, withWriteEvents } from './progressStream';
+import { FileRepair, withSyntaxRepair } from './codeValidator';
+import { checkTranslations, TranslationReport } from './translationChecker';
+import { checkRtl, RtlReport } from './rtlLinter';
+import { addDarkVariants } from './siteDarkMode';
+import { trackUsage } from './usageTracker';
+import { reportRetries } from './llmRetry';
+import { createPipelineRun, PipelineRun, PipelineRunError, updatePipelineRun, withCheckpoints } from './pipelineRunService';
+import { describeProjectContext, getProjectContext, ProjectContext } from './projectContext';
+import { describeProjectAssets, listProjectAssets } from './assetService';
+import { getFormEndpoint } from './formService';
+import { BuildUsage, recordUsageRun } from './usageService';
 
 export interface GenerateSiteResult {
   files: ProjectFiles;
   summary: string;
-  languageMode: 'arabic-only' | 'english-only' | 'bilingual';
+  languageMode: LanguageMode;
+  locales: string[];
   sections: string[];
+  failedFiles: TaskFailure[];
+  repairedFiles: FileRepair[];
+  translationReport: TranslationReport;
+  rtlReport: RtlReport | null;                 // Direction-sensitive styling (null for English-only sites)
+  template?: { id: string; version: string }; // Starter template the site was built from
+  usage: BuildUsage;                           // Tokens and cost of every LLM call in the run
+  runId?: string;                              // Checkpointed run (absent when runs can't be recorded)
 }
 
 /**
  * Convert language mode from planner format to buildService format
  */
-function convertLanguageMode(mode: 'ARABIC_ONLY' | 'ENGLISH_ONLY' | 'BILINGUAL'): 'arabic-only' | 'english-only' | 'bilingual' {
+function convertLanguageMode(mode: PlannerLanguageMode): LanguageMode {
   switch (mode) {
     case 'ARABIC_ONLY':
       return 'arabic-only';
@@ -41,46 +72,209 @@ function convertLanguageMode(mode: 'ARABIC_ONLY' | 'ENGLISH_ONLY' | 'BILINGUAL')
 }
 
 /**
- * Generate website using the Lovable-style multi-agent pipeline
+ * Convert language mode from buildService format to planner format
  */
-export async function generateSiteFromPrompt(args: {
+function toPlannerLanguageMode(mode: LanguageMode): PlannerLanguageMode {
+  switch (mode) {
+    case 'arabic-only':
+      return 'ARABIC_ONLY';
+    case 'english-only':
+      return 'ENGLISH_ONLY';
+    default:
+      return 'BILINGUAL';
+  }
+}
+
+type GenerateSiteArgs = {
   projectId: string;
   message: string;
   history?: Array<{ role: 'user' | 'assistant'; content: string }>;
-}): Promise<GenerateSiteResult> {
-  const { message } = args;
+  languageMode?: LanguageMode; // Explicit choice from the request - skips detection
+  locales?: string[]; // Explicit site locales from the request, default language first
+  darkMode?: boolean; // Explicit dark mode choice from the request
+  onProgress?: ProgressReporter;
+  resumeRun?: PipelineRun; // Failed or partial run to continue from its checkpoint
+  reviewedPlan?: GenerationPlan; // Plan approved by the user (see normalizeReviewedPlan)
+  client?: SupabaseClient; // The request's authenticated client - only the owner can list the project's assets
+};
+
+export interface SitePlanResult {
+  plan: GenerationPlan;
+  architecture: ArchitecturePlan;
+  languageMode: LanguageMode;
+  usage: BuildUsage;
+}
+
+/**
+ * Plan a site without generating it, so the user can review the plan first
+ */
+export async function planSiteFromPrompt(
+  args: Pick<GenerateSiteArgs, 'projectId' | 'message' | 'history' | 'languageMode' | 'locales' | 'darkMode' | 'onProgress' | 'client'>
+): Promise<SitePlanResult> {
+  // A plan for a new version starts from the previous build, like runPipeline
+  const context = await getProjectContext(args.projectId, args.history);
+  const assetPaths = (await listProjectAssets(args.projectId, args.client)).map(asset => asset.filePath);
+  const { result: plan, usage } = await reportRetries(args.onProgress, () => trackUsage(() => createPlan(args, context, assetPaths), { projectId: args.projectId, operation: 'plan' }));
+  const architecture = architectGeneration(plan, assetPaths);
+  console.log(`📝 Plan ready for review: ${plan.requiredSections.join(', ')} (${architecture.tasks.length} tasks)`);
+  // A plan creates no build, so its usage is recorded on its own
+  await recordUsageRun({ projectId: args.projectId, operation: 'plan', status: 'completed', usage });
+  return { plan, architecture, languageMode: convertLanguageMode(plan.languageMode), usage };
+}
+
+async function createPlan(
+  args: Pick<GenerateSiteArgs, 'message' | 'languageMode' | 'locales' | 'darkMode'>,
+  context: ProjectContext | null = null,
+  assetPaths: string[] = []
+): Promise<GenerationPlan> {
+  // A new version keeps the previous language unless the request chose one
+  const languageMode = args.languageMode ?? context?.languageMode;
+  const locales = args.locales ?? (context && context.locales.length > 0 ? context.locales : undefined);
+  return planGeneration(args.message, {
+    languageMode: languageMode ? toPlannerLanguageMode(languageMode) : undefined,
+    locales,
+    context: context ? describeProjectContext(context) : undefined,
+    previousTheme: context?.theme,
+    previousNumerals: context?.numerals,
+    darkMode: args.darkMode,
+    previousDarkMode: context?.darkMode,
+    assets: describeProjectAssets(assetPaths) || undefined,
+  });
+}
+
+/**
+ * Generate website using the Lovable-style multi-agent pipeline
+ */
+export async function generateSiteFromPrompt(args: GenerateSiteArgs): Promise<GenerateSiteResult> {
+  const { result, usage } = await reportRetries(args.onProgress, () => trackUsage(() => runPipeline(args), { projectId: args.projectId, operation: 'generate' }));
+  console.log(`🪙 LLM usage: ${usage.calls} calls, ${usage.totalTokens} tokens, $${usage.costUsd.toFixed(4)}, ${usage.retries} retries`);
+  return { ...result, usage };
+}
+
+async function runPipeline(args: GenerateSiteArgs): Promise<Omit<GenerateSiteResult, 'usage'>> {
+  const { projectId, message, onProgress, resumeRun, reviewedPlan, client } = args;
 
   console.log('🚀 Starting Lovable-style pipeline generation...');
   console.log('📝 User prompt:', message);
 
-  // Step 1: Planner Agent - Analyze prompt and create plan
+  // Earlier decisions of the project (null for its first generation). A resumed run restores its plan
+  // and architecture, but its remaining files are still written with the version it started from
+  const context = await getProjectContext(projectId, args.history, resumeRun?.build_version ?? undefined);
+  if (context) {
+    console.log(`🧭 Regenerating from version ${context.version}: ${context.sections.length} sections, brand ${context.brandName || 'unknown'}, ${context.requests.length} earlier requests`);
+  }
+
+  // Uploaded logo, photos and documents the site should use
+  const assetPaths = (await listProjectAssets(projectId, client)).map(asset => asset.filePath);
+  if (assetPaths.length > 0) {
+    console.log(`🖼️  Using ${assetPaths.length} uploaded asset(s):`, assetPaths);
+  }
+
+  // Step 1: Planner Agent - Analyze prompt and create plan (restored when resuming, approved when reviewed)
   console.log('📋 Step 1: Planner Agent - Creating generation plan...');
-  const plan = await planGeneration(message);
+  onProgress?.({ type: 'stage', stage: 'planning', message: 'Analyzing your request' });
+  const plan: GenerationPlan = resumeRun?.plan || reviewedPlan || await createPlan(args, context, assetPaths);
   console.log('✅ Plan created:', {
     industry: plan.industry,
     requiredSections: plan.requiredSections,
     languageMode: plan.languageMode,
+    locales: plan.locales,
+    pages: plan.pages?.map(page => page.path),
+  });
+  onProgress?.({
+    type: 'plan_ready',
+    industry: plan.industry,
+    sections: plan.requiredSections,
+    languageMode: convertLanguageMode(plan.languageMode),
+    locales: plan.locales,
   });
 
   // Step 2: Architect Agent - Convert plan to file tasks
   console.log('🏗️  Step 2: Architect Agent - Creating architecture...');
-  const architecture = architectGeneration(plan);
+  onProgress?.({ type: 'stage', stage: 'architecture', message: 'Designing file structure' });
+  const architecture: ArchitecturePlan = resumeRun?.architecture || architectGeneration(plan, assetPaths);
   console.log('✅ Architecture created:', {
     components: architecture.components,
     configFiles: architecture.configFiles,
+    template: architecture.template ? `${architecture.template.id}@${architecture.template.version}` : 'none',
   });
+  onProgress?.({
+    type: 'architecture_ready',
+    components: architecture.components,
+    totalFiles: architecture.tasks.filter(t => t.priority === 'required').length,
+    template: architecture.template,
+  });
+
+  // Checkpoint the run so a failure from here on can be resumed
+  const runId = resumeRun
+    ? resumeRun.id
+    : await createPipelineRun({ projectId, prompt: message, plan, architecture });
+  if (runId) {
+    if (resumeRun) {
+      await updatePipelineRun(runId, { status: 'running', error: null });
+    }
+    onProgress?.({ type: 'run_started', runId });
+  }
 
-  // Step 3: Initialize workspace
+  // Step 3: Initialize workspace (with the run's completed files when resuming)
   console.log('📁 Step 3: Initializing workspace...');
   const workspaceFiles: WorkspaceFile[] = initializeWorkspace();
-  const fileTools = createFileTools('', 0, workspaceFiles);
+  const completedPaths = new Set(Object.keys(resumeRun?.files || {}));
+  Object.entries(resumeRun?.files || {}).forEach(([path, content]) => {
+    const index = workspaceFiles.findIndex(file => file.path === path);
+    const file: WorkspaceFile = { path, content, type: 'file' };
+    if (index >= 0) {
+      workspaceFiles[index] = file;
+    } else {
+      workspaceFiles.push(file);
+    }
+  });
+  const repairs: FileRepair[] = [];
+  const fileTools = withWriteEvents(
+    withCheckpoints(
+      withSyntaxRepair(createFileTools('', 0, workspaceFiles), { stage: 'coder.repair', repairs }),
+      runId
+    ),
+    onProgress
+  );
+
+  let failures: TaskFailure[];
+  let translationReport: TranslationReport;
+  let rtlReport: RtlReport | null = null;
+  try {
+    // Step 4: Coder Agent - Generate all files using file tools
+    console.log('💻 Step 4: Coder Agent - Generating files...');
+    onProgress?.({ type: 'stage', stage: 'coding', message: 'Writing files' });
+    const userPrompt = context ? `${message}\n\n${describeProjectContext(context)}` : message;
+    ({ failures } = await codeGeneration(plan, architecture, fileTools, userPrompt, onProgress, {
+      completedPaths,
+      previousFiles: context?.files,
+      formEndpoint: getFormEndpoint(projectId),
+    }));
+    console.log(`✅ Files generated (${failures.length} failed)`);
 
-  // Step 4: Coder Agent - Generate all files using file tools
-  console.log('💻 Step 4: Coder Agent - Generating files...');
-  await codeGeneration(plan, architecture, fileTools, message);
-  console.log('✅ Files generated');
+    // Step 5: Verify translation keys across components and locales, filling gaps
+    translationReport = await checkTranslations(fileTools);
 
-  // Step 5: Convert workspace files to ProjectFiles format
+    // Step 5b: Make left/right styling follow the reading direction on sites with Arabic
+    if (plan.languageMode !== 'ENGLISH_ONLY') {
+      rtlReport = await checkRtl(fileTools);
+    }
+
+    // Step 5c: Pair the color tokens the Coder left without a dark: variant
+    if (plan.darkMode) {
+      await addDarkVariants(fileTools);
+    }
+  } catch (error) {
+    if (!runId) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await updatePipelineRun(runId, { status: 'failed', error: errorMessage });
+    throw new PipelineRunError(errorMessage, runId);
+  }
+
+  // Step 6: Convert workspace files to ProjectFiles format
   const projectFiles: ProjectFiles = {};
   workspaceFiles.forEach(file => {
     if (file.type === 'file') {
@@ -90,9 +284,19 @@ export async function generateSiteFromPrompt(args: {
 
   // Generate summary
   const languageModeDisplay = convertLanguageMode(plan.languageMode);
-  const summary = languageModeDisplay === 'arabic-only'
+  let summary = languageModeDisplay === 'arabic-only'
     ? `تم إنشاء موقع ${plan.industry} مع الأقسام: ${plan.requiredSections.join('، ')}`
     : `Generated ${plan.industry} website with sections: ${plan.requiredSections.join(', ')}`;
+  if (architecture.pages.length > 0) {
+    summary += languageModeDisplay === 'arabic-only'
+      ? ` عبر ${architecture.pages.length} صفحات: ${architecture.pages.map(p => p.name).join('، ')}`
+      : ` across ${architecture.pages.length} pages: ${architecture.pages.map(p => p.name).join(', ')}`;
+  }
+  if (failures.length > 0) {
+    summary += languageModeDisplay === 'arabic-only'
+      ? ` (تعذر إنشاء: ${failures.map(f => f.path).join('، ')})`
+      : ` (failed to generate: ${failures.map(f => f.path).join(', ')})`;
+  }
 
   console.log('✅ Pipeline complete!');
   console.log(`📦 Generated ${Object.keys(projectFiles).length} files`);
@@ -101,6 +305,13 @@ export async function generateSiteFromPrompt(args: {
     files: projectFiles,
     summary,
     languageMode: languageModeDisplay,
+    locales: plan.locales,
     sections: plan.requiredSections,
+    failedFiles: failures,
+    repairedFiles: repairs,
+    translationReport,
+    rtlReport,
+    template: architecture.template,
+    runId: runId || undefined,
   };
 }
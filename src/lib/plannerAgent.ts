@@ -6,29 +6,44 @@
  * - Required sections
  * - Optional sections
  * - Language requirements (Arabic, English, bilingual) with automatic detection
+ * - Site locales for translated sites (e.g. ar, en, fr, ur)
+ * - Pages (only when the user asks for a multi-page site)
+ * - Theme (palette, typography, radius, spacing) compiled into Tailwind tokens
+ * - Numeral style of Arabic text (Western 123 or Eastern Arabic ١٢٣ digits)
+ * - Dark mode (a light/dark toggle with dark: variants)
+ * - SEO text (title, description, keywords, social cards) in every site language
  * - Suggested folder/file structure
  * - Required libraries
  */
 
-import OpenAI from 'openai';
-
-const getOpenAIClient = () => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-  return new OpenAI({ apiKey });
-};
+import { getLLMProvider } from './llmProvider';
+import { DEFAULT_SITE_LOCALES, normalizeLocales } from './siteLocales';
+import { ARABIC_FONTS, DEFAULT_THEME, LATIN_FONTS, SiteTheme, normalizeTheme } from './siteTheme';
+import { SiteSeo, describeSeoPlan, normalizeSeo } from './siteSeo';
+import { NumeralStyle, isNumeralStyle } from './siteNumerals';
+import { getStarterTemplate } from './templates';
+
+export interface PagePlan {
+  name: string;       // Page name shown in navigation (e.g. "Menu")
+  path: string;       // Route path (e.g. "/menu"), the first page is always "/"
+  sections: string[]; // Sections rendered on this page, in order (navbar/footer are shared)
+}
 
 export interface GenerationPlan {
   industry: string;
   requiredSections: string[];
   optionalSections: string[];
-  languageMode: 'ARABIC_ONLY' | 'ENGLISH_ONLY' | 'BILINGUAL';
+  languageMode: 'ARABIC_ONLY' | 'ENGLISH_ONLY' | 'BILINGUAL'; // BILINGUAL = translated site with a language switcher
+  locales: string[]; // Site locales, default language first (a single locale for single-language sites)
   folderStructure: string[];
   requiredLibraries: string[];
   suggestedComponents: string[];
   projectName: string;
+  pages?: PagePlan[]; // Only set for multi-page sites
+  theme: SiteTheme;   // Design tokens, written to src/theme.json and tailwind.config.js
+  seo: SiteSeo;       // Search and social metadata, written to src/seo.json
+  numerals: NumeralStyle; // Digits in Arabic text, written to src/numerals.js (sites with Arabic only)
+  darkMode: boolean; // Light/dark toggle, written to src/darkMode.js
 }
 
 /**
@@ -59,24 +74,280 @@ function analyzeLanguageContent(text: string): {
   };
 }
 
+export type PlannerLanguageMode = GenerationPlan['languageMode'];
+
+/**
+ * Explicit language requests in the prompt (checked before character analysis)
+ */
+const EXPLICIT_LANGUAGE_PATTERNS: Array<{ mode: PlannerLanguageMode; pattern: RegExp }> = [
+  { mode: 'BILINGUAL', pattern: /\b(bilingual|both (languages|arabic and english|english and arabic)|arabic and english|english and arabic)\b|ثنائي(ة)? اللغة|باللغتين|عربي وإنجليزي|عربي و ?انجليزي/i },
+  { mode: 'ARABIC_ONLY', pattern: /\b(arabic[- ]only|only (in )?arabic|in arabic)\b|عربي(ة)? فقط|بالعربية فقط|باللغة العربية فقط/i },
+  { mode: 'ENGLISH_ONLY', pattern: /\b(english[- ]only|only (in )?english|in english)\b|(إنجليزي|انجليزي|الإنجليزية|الانجليزية)(ة)? فقط|بالإنجليزية فقط|بالانجليزية فقط/i },
+];
+
 /**
- * Language mode detection - ALWAYS returns BILINGUAL
- * All websites now support both English and Arabic with language toggle
+ * Language mode detection
+ * 1. An explicit language request in the prompt wins
+ * 2. Otherwise the ratio of Arabic to English characters decides:
+ *    mostly Arabic -> ARABIC_ONLY, mostly English -> ENGLISH_ONLY, mixed -> BILINGUAL
  */
-function detectLanguageMode(prompt: string): 'ARABIC_ONLY' | 'ENGLISH_ONLY' | 'BILINGUAL' {
-  // Force all websites to be bilingual (always include language toggle)
-  // Users can toggle between English and Arabic in the navbar
+export function detectLanguageMode(prompt: string): PlannerLanguageMode {
+  for (const { mode, pattern } of EXPLICIT_LANGUAGE_PATTERNS) {
+    if (pattern.test(prompt)) {
+      return mode;
+    }
+  }
+
+  if (!isArabic(prompt)) {
+    return 'ENGLISH_ONLY';
+  }
+
+  const { arabicCount, englishCount } = analyzeLanguageContent(prompt);
+  const letters = arabicCount + englishCount;
+  if (letters === 0) {
+    return 'BILINGUAL';
+  }
+
+  const arabicRatio = arabicCount / letters;
+  if (arabicRatio >= 0.8) {
+    return 'ARABIC_ONLY';
+  }
+  if (arabicRatio <= 0.2) {
+    return 'ENGLISH_ONLY';
+  }
   return 'BILINGUAL';
+}
+
+/**
+ * Convert a page name to a route path ("About Us" -> "/about-us")
+ */
+function pageNameToPath(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s\-_]/g, ' ')
+    .trim()
+    .split(/[\s\-_]+/)
+    .filter(word => word.length > 0)
+    .join('-');
+  return slug ? `/${slug}` : '/';
+}
+
+/**
+ * Add a section the planner left out where it belongs in page order:
+ * hero right after the navbar, footer last, anything else before contact and footer
+ */
+function addPlanSection(sections: string[], section: string): void {
+  const position = section === 'hero'
+    ? sections.indexOf('navbar') + 1
+    : section === 'footer'
+      ? -1
+      : sections.findIndex(s => s === 'footer' || (section !== 'contact' && s === 'contact'));
+  if (position === -1) {
+    sections.push(section);
+  } else {
+    sections.splice(position, 0, section);
+  }
+}
+
+/**
+ * Normalize planner pages in place
+ * - Fewer than two pages means a single-page site, so pages are dropped
+ * - Navbar/footer are removed from pages (they are shared layout)
+ * - Page sections are added to requiredSections if missing
+ * - Required sections not placed on any page go on the home page
+ */
+function normalizePages(plan: GenerationPlan): void {
+  if (!Array.isArray(plan.pages)) {
+    delete plan.pages;
+    return;
+  }
+
+  const sharedSections = ['navbar', 'footer'];
+  const usedPaths = new Set<string>();
+  const pages: PagePlan[] = [];
+
+  for (const rawPage of plan.pages) {
+    const name = String(rawPage?.name || '').trim();
+    if (!name) continue;
+
+    // First page is always the home page
+    let path = pages.length === 0 ? '/' : pageNameToPath(String(rawPage.path || name));
+    if (path === '/' && pages.length > 0) {
+      path = pageNameToPath(name);
+    }
+    if (usedPaths.has(path)) continue;
+    usedPaths.add(path);
+
+    const sections = Array.isArray(rawPage.sections) ? rawPage.sections : [];
+    pages.push({
+      name,
+      path,
+      sections: Array.from(new Set(
+        sections
+          .map(s => String(s).toLowerCase().trim())
+          .filter(s => s.length > 0 && !sharedSections.includes(s))
+      )),
+    });
+  }
+
+  if (pages.length < 2) {
+    delete plan.pages;
+    return;
+  }
+
+  const placedSections = new Set(pages.flatMap(page => page.sections));
+  for (const section of placedSections) {
+    if (!plan.requiredSections.includes(section)) {
+      plan.requiredSections.push(section);
+    }
+  }
+  for (const section of plan.requiredSections) {
+    if (!placedSections.has(section) && !sharedSections.includes(section)) {
+      pages[0].sections.push(section);
+    }
   }
 
+  plan.pages = pages;
+}
+
+/**
+ * Resolve the plan's locales in place
+ * - Requested locales (from the request, else the planner) win when there are two or more,
+ *   and turn the site into a translated one unless the language mode was set explicitly
+ * - Translated sites default to English + Arabic
+ * - Single-language sites have exactly their one locale
+ */
+function normalizePlanLocales(
+  plan: GenerationPlan,
+  requestedLocales: string[] | undefined,
+  languageModeIsExplicit: boolean
+): void {
+  const requested = normalizeLocales(requestedLocales || plan.locales);
+
+  if (requested.length > 1 && !languageModeIsExplicit) {
+    plan.languageMode = 'BILINGUAL';
+  }
+
+  if (plan.languageMode === 'BILINGUAL') {
+    plan.locales = requested.length > 1 ? requested : [...DEFAULT_SITE_LOCALES];
+  } else {
+    plan.locales = [plan.languageMode === 'ARABIC_ONLY' ? 'ar' : 'en'];
+  }
+}
+
+/**
+ * Resolve the plan's SEO text in place - call after pages and locales are final
+ */
+function normalizePlanSeo(plan: GenerationPlan): void {
+  plan.seo = normalizeSeo(plan.seo, {
+    projectName: plan.projectName,
+    industry: plan.industry,
+    locales: plan.locales,
+    pages: plan.pages?.map(page => page.path),
+  });
+}
+
+const PLANNER_LANGUAGE_MODES: PlannerLanguageMode[] = ['ARABIC_ONLY', 'ENGLISH_ONLY', 'BILINGUAL'];
+
+/**
+ * Validate and normalize a plan the user reviewed before generation
+ * (sections renamed, added, removed or reordered; industry or language mode changed)
+ * - Sections removed from requiredSections are removed from pages too (pages left
+ *   empty are dropped), and pages follow the reviewed section order
+ * - Locales are re-resolved for the (possibly changed) language mode
+ * - Missing theme tokens come from the industry's starter template
+ * Throws when the plan is unusable
+ */
+export function normalizeReviewedPlan(input: unknown): GenerationPlan {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Plan must be an object');
+  }
+  const plan = { ...(input as GenerationPlan) };
+
+  if (typeof plan.industry !== 'string' || plan.industry.trim().length === 0) {
+    throw new Error('Plan industry must be a non-empty string');
+  }
+  plan.industry = plan.industry.trim().toLowerCase();
+
+  if (!PLANNER_LANGUAGE_MODES.includes(plan.languageMode)) {
+    throw new Error(`Plan languageMode must be one of: ${PLANNER_LANGUAGE_MODES.join(', ')}`);
+  }
+
+  if (!Array.isArray(plan.requiredSections)) {
+    throw new Error('Plan requiredSections must be an array');
+  }
+  plan.requiredSections = Array.from(new Set(
+    plan.requiredSections
+      .map(s => String(s).toLowerCase().trim())
+      .filter(s => /[a-z0-9]/.test(s))
+  ));
+  if (plan.requiredSections.length === 0 || plan.requiredSections.length > 30) {
+    throw new Error('Plan must have between 1 and 30 sections');
+  }
+  plan.optionalSections = (Array.isArray(plan.optionalSections) ? plan.optionalSections : [])
+    .map(s => String(s).toLowerCase().trim())
+    .filter(s => !plan.requiredSections.includes(s));
+
+  plan.folderStructure = Array.isArray(plan.folderStructure) ? plan.folderStructure : [];
+  plan.requiredLibraries = Array.isArray(plan.requiredLibraries) ? plan.requiredLibraries : [];
+  plan.suggestedComponents = Array.isArray(plan.suggestedComponents) ? plan.suggestedComponents : [];
+  plan.projectName = typeof plan.projectName === 'string' && plan.projectName.trim() ? plan.projectName.trim() : 'My Project';
+  plan.locales = Array.isArray(plan.locales) ? plan.locales : [];
+
+  // Pages only keep the reviewed sections, in the reviewed order
+  if (Array.isArray(plan.pages)) {
+    const order = (section: string) => plan.requiredSections.indexOf(section);
+    plan.pages = plan.pages.map(page => ({
+      ...page,
+      sections: (Array.isArray(page?.sections) ? page.sections : [])
+        .map(s => String(s).toLowerCase().trim())
+        .filter(s => order(s) !== -1)
+        .sort((a, b) => order(a) - order(b)),
+    })).filter((page, index) => index === 0 || page.sections.length > 0);
+  }
+
+  normalizePages(plan);
+  normalizePlanLocales(plan, undefined, true);
+  const template = getStarterTemplate(plan.industry);
+  plan.theme = normalizeTheme(plan.theme, template ? normalizeTheme(template.theme) : DEFAULT_THEME);
+  normalizePlanSeo(plan);
+  plan.numerals = isNumeralStyle(plan.numerals) ? plan.numerals : 'western';
+  plan.darkMode = plan.darkMode === true;
+
+  return plan;
+}
+
 /**
  * Planner Agent - Analyzes prompt and creates generation plan
+ * @param options.context - Earlier decisions of the project when regenerating (see projectContext)
+ * @param options.previousTheme - Theme of the previous version, the base for tokens the planner leaves out
+ * @param options.previousNumerals - Numeral style of the previous version, kept when the planner leaves it out
+ * @param options.darkMode - Explicit dark mode choice from the request - skips detection
+ * @param options.previousDarkMode - Dark mode of the previous version, kept when the planner leaves it out
+ * @param options.assets - Files the user uploaded for the project (see describeProjectAssets)
  */
-export async function planGeneration(prompt: string): Promise<GenerationPlan> {
-  const openai = getOpenAIClient();
+export async function planGeneration(
+  prompt: string,
+  options: {
+    languageMode?: PlannerLanguageMode;
+    locales?: string[];
+    context?: string;
+    previousTheme?: SiteTheme | null;
+    previousNumerals?: NumeralStyle | null;
+    darkMode?: boolean;
+    previousDarkMode?: boolean;
+    assets?: string;
+  } = {}
+): Promise<GenerationPlan> {
+  const llm = getLLMProvider();
   
-  // Detect language mode first
-  const languageMode = detectLanguageMode(prompt);
+  // Detect language mode first (an explicit override from the request wins)
+  const languageMode = options.languageMode || detectLanguageMode(prompt);
+  // Locales the SEO text is written for (the planner may still request others)
+  const requestedLocales = normalizeLocales(options.locales);
+  const seoLocales = requestedLocales.length > 1
+    ? requestedLocales
+    : languageMode === 'BILINGUAL' ? DEFAULT_SITE_LOCALES : [languageMode === 'ARABIC_ONLY' ? 'ar' : 'en'];
   
   // Use AI to analyze the prompt and create a detailed plan
   const systemPrompt = `You are the Planner Agent for Aqall. Your responsibility is to analyze the user's prompt and produce a COMPLETE structured plan describing what the project should contain.
@@ -122,6 +393,11 @@ Priority:
 
 Language mode detected: ${languageMode} (use this value in your response)
 
+Locales:
+- If the user asks for languages other than Arabic and English (e.g. "English, French and Urdu"),
+  list them in "locales" as ISO 639-1 codes, default language first: ["en", "fr", "ur"]
+- Otherwise omit "locales"
+
 ========================================================
 = 3. SECTION DECISION LOGIC                            =
 ========================================================
@@ -131,6 +407,10 @@ STRICT RULES:
 If user explicitly lists sections:
   → ONLY include those. No extras.
 
+Order:
+  → requiredSections lists the sections in page order, top to bottom (navbar first, footer last)
+  → If the user gives an order ("hero, then menu, then reviews"), keep it exactly
+
 If prompt is generic:
   → Use Lovable defaults:
      - Navbar
@@ -152,7 +432,69 @@ If industry-specific sections conflict with explicit user instructions:
   → EXPLICIT REQUESTS WIN.
 
 ========================================================
-= 4. OUTPUT FILE STRUCTURE PLAN                        =
+= 4. PAGES (MULTI-PAGE SITES)                          =
+========================================================
+
+Default to a single-page site. Only output "pages" when the user asks for
+multiple pages (e.g. "a Home page, a Menu page and a Contact page").
+
+When you do:
+- Each page has a name, a path and the sections it shows, in order
+- The first page is the home page with path "/"
+- Navbar and Footer are shared by every page - do NOT list them in page sections
+- Every page section must also appear in requiredSections
+
+Example:
+"pages": [
+  { "name": "Home", "path": "/", "sections": ["hero", "about", "testimonials"] },
+  { "name": "Menu", "path": "/menu", "sections": ["menu", "gallery"] },
+  { "name": "Contact", "path": "/contact", "sections": ["contact"] }
+]
+
+========================================================
+= 5. THEME (DESIGN TOKENS)                             =
+========================================================
+
+Pick a theme that fits the brand and industry. It becomes named Tailwind
+tokens, so every component shares the same look.
+
+- palette: hex colors for primary, secondary, accent, background, surface,
+  foreground (main text) and muted (secondary text).
+  Use colors the user names; otherwise choose ones that suit the industry.
+  Keep foreground/muted readable on background and surface.
+- darkPalette: background, surface, foreground and muted for the dark color scheme
+  (only used with darkMode; keep them readable and close to the brand)
+- typography: heading and body from [${LATIN_FONTS.join(', ')}],
+  arabic from [${ARABIC_FONTS.join(', ')}],
+  arabicLineHeight from 1.5 to 2.2 (1.8 for most Arabic fonts, 2 for naskh fonts like Amiri)
+- radius: "none" | "sm" | "md" | "lg" | "xl"
+- spacing: "compact" | "comfortable" | "spacious"
+
+Example:
+"theme": {
+  "palette": { "primary": "#b45309", "secondary": "#92400e", "accent": "#0f766e", "background": "#fffbf5", "surface": "#fef3e2", "foreground": "#451a03", "muted": "#78716c" },
+  "typography": { "heading": "Playfair Display", "body": "Lato", "arabic": "El Messiri", "arabicLineHeight": 1.8 },
+  "radius": "sm",
+  "spacing": "spacious"
+}
+
+Numerals: "eastern" when the user wants Eastern Arabic digits in Arabic text
+(١٢٣, "أرقام هندية", "الأرقام العربية المشرقية"), otherwise "western".
+
+Dark mode: true when the user wants a dark mode, a light/dark toggle or a theme switcher
+("الوضع الليلي", "الوضع الداكن"), otherwise false. A site that is simply dark-colored
+is a dark palette, not dark mode.
+
+========================================================
+= 6. SEO                                               =
+========================================================
+
+Write search and social metadata that fits the business:
+
+${describeSeoPlan(seoLocales)}
+
+========================================================
+= 7. OUTPUT FILE STRUCTURE PLAN                        =
 ========================================================
 
 Produce a clean object describing:
@@ -182,7 +524,7 @@ Example:
 }
 
 ========================================================
-= 5. EDGE CASE HANDLING                                =
+= 8. EDGE CASE HANDLING                                =
 ========================================================
 
 Handle tricky situations:
@@ -194,7 +536,7 @@ Handle tricky situations:
 - User prompt is extremely short ("make a site") → generate defaults.
 
 ========================================================
-= 6. FINAL OUTPUT FORMAT                               =
+= 9. FINAL OUTPUT FORMAT                               =
 ========================================================
 
 Always output a clean JSON object:
@@ -207,24 +549,35 @@ Always output a clean JSON object:
   "requiredLibraries": [...],
   "suggestedComponents": [...],
   "projectName": "...",
+  "pages": [...] (ONLY for multi-page sites, omit otherwise),
+  "locales": [...] (ONLY when the user asks for specific languages, omit otherwise),
+  "theme": { "palette": {...}, "darkPalette": {...}, "typography": {...}, "radius": "...", "spacing": "..." },
+  "numerals": "western" | "eastern",
+  "darkMode": true | false,
+  "seo": { ${seoLocales.map(code => `"${code}": { "title": "...", "description": "...", "keywords": [...], "ogTitle": "...", "ogDescription": "..." }`).join(', ')} },
   "notes": "Any clarifying notes here"
 }
 
 NO code. NO JSX. Only the planning JSON.`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4.1',
+    const completion = await llm.complete({
+      stage: 'planner',
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt },
+        {
+          role: 'user',
+          content: (options.context
+            ? `${options.context}\n\nThis is a new version of the project above: keep its sections (same names), brand and theme, and only change what the new request asks for.\n\nNew request: ${prompt}`
+            : prompt) + (options.assets ? `\n\n${options.assets}\nPlan sections that show them (photos need a section that displays images, documents a section that links to them).` : ''),
+        },
       ],
       temperature: 0.3,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' },
+      maxTokens: 2600,
+      responseFormat: 'json_object',
     });
 
-    const responseContent = completion.choices[0]?.message?.content;
+    const responseContent = completion.content;
     if (!responseContent) {
       throw new Error('Planner returned empty response');
     }
@@ -256,13 +609,13 @@ NO code. NO JSX. Only the planning JSON.`;
       plan.requiredSections.unshift('navbar');
     }
     if (!hasSection(plan.requiredSections, 'hero')) {
-      plan.requiredSections.push('hero');
+      addPlanSection(plan.requiredSections, 'hero');
     }
     if (!hasSection(plan.requiredSections, 'contact')) {
-      plan.requiredSections.push('contact');
+      addPlanSection(plan.requiredSections, 'contact');
     }
     if (!hasSection(plan.requiredSections, 'footer')) {
-      plan.requiredSections.push('footer');
+      addPlanSection(plan.requiredSections, 'footer');
     }
     
     // Auto-add industry-specific sections to requiredSections (using case-insensitive check)
@@ -270,63 +623,63 @@ NO code. NO JSX. Only the planning JSON.`;
     if (industry === 'restaurant' || industry.includes('cafe') || industry.includes('coffee')) {
       // Restaurant/cafe specific sections
       if (!hasSection(plan.requiredSections, 'menu') && !hasSection(plan.optionalSections, 'menu')) {
-        plan.requiredSections.push('menu');
+        addPlanSection(plan.requiredSections, 'menu');
       }
       if (!hasSection(plan.requiredSections, 'gallery') && !hasSection(plan.optionalSections, 'gallery')) {
-        plan.requiredSections.push('gallery');
+        addPlanSection(plan.requiredSections, 'gallery');
       }
       if (!hasSection(plan.requiredSections, 'testimonials') && !hasSection(plan.optionalSections, 'testimonials')) {
-        plan.requiredSections.push('testimonials');
+        addPlanSection(plan.requiredSections, 'testimonials');
       }
       if (!hasSection(plan.requiredSections, 'about') && !hasSection(plan.optionalSections, 'about')) {
-        plan.requiredSections.push('about');
+        addPlanSection(plan.requiredSections, 'about');
       }
     } else if (industry === 'portfolio') {
       // Portfolio specific sections
       if (!hasSection(plan.requiredSections, 'gallery') && !hasSection(plan.optionalSections, 'gallery')) {
-        plan.requiredSections.push('gallery');
+        addPlanSection(plan.requiredSections, 'gallery');
       }
       if (!hasSection(plan.requiredSections, 'projects') && !hasSection(plan.optionalSections, 'projects')) {
-        plan.requiredSections.push('projects');
+        addPlanSection(plan.requiredSections, 'projects');
       }
       if (!hasSection(plan.requiredSections, 'skills') && !hasSection(plan.optionalSections, 'skills')) {
-        plan.requiredSections.push('skills');
+        addPlanSection(plan.requiredSections, 'skills');
       }
       if (!hasSection(plan.requiredSections, 'about') && !hasSection(plan.optionalSections, 'about')) {
-        plan.requiredSections.push('about');
+        addPlanSection(plan.requiredSections, 'about');
       }
     } else if (industry === 'clinic' || industry.includes('medical')) {
       // Medical/clinic specific sections
       if (!hasSection(plan.requiredSections, 'services') && !hasSection(plan.optionalSections, 'services')) {
-        plan.requiredSections.push('services');
+        addPlanSection(plan.requiredSections, 'services');
       }
       if (!hasSection(plan.requiredSections, 'appointment') && !hasSection(plan.optionalSections, 'appointment')) {
-        plan.requiredSections.push('appointment');
+        addPlanSection(plan.requiredSections, 'appointment');
       }
       if (!hasSection(plan.requiredSections, 'about') && !hasSection(plan.optionalSections, 'about')) {
-        plan.requiredSections.push('about');
+        addPlanSection(plan.requiredSections, 'about');
       }
     } else if (industry === 'agency') {
       // Agency specific sections
       if (!hasSection(plan.requiredSections, 'services') && !hasSection(plan.optionalSections, 'services')) {
-        plan.requiredSections.push('services');
+        addPlanSection(plan.requiredSections, 'services');
       }
       if (!hasSection(plan.requiredSections, 'pricing') && !hasSection(plan.optionalSections, 'pricing')) {
-        plan.requiredSections.push('pricing');
+        addPlanSection(plan.requiredSections, 'pricing');
       }
       if (!hasSection(plan.requiredSections, 'portfolio') && !hasSection(plan.optionalSections, 'portfolio')) {
-        plan.requiredSections.push('portfolio');
+        addPlanSection(plan.requiredSections, 'portfolio');
       }
       if (!hasSection(plan.requiredSections, 'about') && !hasSection(plan.optionalSections, 'about')) {
-        plan.requiredSections.push('about');
+        addPlanSection(plan.requiredSections, 'about');
       }
     } else {
       // Default: add about and features for generic websites
       if (!hasSection(plan.requiredSections, 'about') && !hasSection(plan.optionalSections, 'about')) {
-        plan.requiredSections.push('about');
+        addPlanSection(plan.requiredSections, 'about');
       }
       if (!hasSection(plan.requiredSections, 'features') && !hasSection(plan.optionalSections, 'features')) {
-        plan.requiredSections.push('features');
+        addPlanSection(plan.requiredSections, 'features');
       }
     }
     
@@ -334,19 +687,37 @@ NO code. NO JSX. Only the planning JSON.`;
     plan.requiredSections = Array.from(new Set(plan.requiredSections.map(s => String(s).toLowerCase().trim())));
     plan.optionalSections = Array.from(new Set(plan.optionalSections.map(s => String(s).toLowerCase().trim())));
     
+    // Pages need to agree with requiredSections, so normalize them last
+    normalizePages(plan);
+    normalizePlanLocales(plan, options.locales, !!options.languageMode);
+    // Tokens the planner left out come from the previous version, else the industry's starter template
+    const template = getStarterTemplate(plan.industry);
+    plan.theme = normalizeTheme(plan.theme, options.previousTheme || (template ? normalizeTheme(template.theme) : DEFAULT_THEME));
+    normalizePlanSeo(plan);
+    plan.numerals = isNumeralStyle(plan.numerals) ? plan.numerals : options.previousNumerals || 'western';
+    plan.darkMode = options.darkMode ?? (typeof plan.darkMode === 'boolean' ? plan.darkMode : !!options.previousDarkMode);
+    
     return plan;
   } catch (error) {
     console.error('Planner error:', error);
     // Fallback to basic plan
-    return {
+    const fallbackPlan: GenerationPlan = {
       industry: 'other',
       requiredSections: ['navbar', 'hero', 'about', 'contact', 'footer'],
       optionalSections: [],
       languageMode,
+      locales: [],
       folderStructure: ['src/components', 'src/locales', 'public'],
       requiredLibraries: ['react', 'react-dom', 'vite'],
       suggestedComponents: ['Navbar', 'Hero', 'About', 'Contact', 'Footer'],
       projectName: 'My Project',
+      theme: options.previousTheme || DEFAULT_THEME,
+      seo: normalizeSeo(null, { projectName: 'My Project', industry: 'other', locales: [] }),
+      numerals: options.previousNumerals || 'western',
+      darkMode: options.darkMode ?? !!options.previousDarkMode,
     };
+    normalizePlanLocales(fallbackPlan, options.locales, !!options.languageMode);
+    normalizePlanSeo(fallbackPlan);
+    return fallbackPlan;
   }
 }
@@ -0,0 +1,157 @@
+/**
+ * Progress Stream - Typed pipeline progress events over Server-Sent Events
+ *
+ * The generate and edit pipelines report progress through a ProgressReporter.
+ * API routes turn those events into an SSE response when the client sends
+ * `Accept: text/event-stream`; the build page reads them with readProgressStream().
+ *
+ * Each event is sent as a single `data: <json>` frame. The stream always ends
+ * with either a `complete` event (carrying the normal JSON response payload)
+ * or a fatal `error` event.
+ */
+
+import type { FileTools } from './workspaceService';
+
+export type PipelineStage = 'planning' | 'architecture' | 'coding' | 'editing' | 'saving';
+
+/**
+ * An event of the stream - TResult is the payload of the final `complete` event
+ * (the route's JSON response), which the reader of the stream names
+ */
+export type PipelineEvent<TResult = unknown> =
+  | { type: 'stage'; stage: PipelineStage; message: string }
+  | { type: 'plan_ready'; industry: string; sections: string[]; languageMode: string; locales: string[] }
+  | { type: 'architecture_ready'; components: string[]; totalFiles: number; template?: { id: string; version: string } }
+  | { type: 'run_started'; runId: string }
+  | { type: 'file_started'; path: string }
+  | { type: 'file_written'; path: string }
+  | { type: 'retry'; stage: string; attempt: number; delayMs: number; status?: number; message: string }
+  | { type: 'preview_built'; version: number }
+  | { type: 'error'; message: string; path?: string; fatal?: boolean }
+  | { type: 'complete'; result: TResult };
+
+export type ProgressReporter = (event: PipelineEvent) => void;
+
+/**
+ * Format a single event as an SSE frame
+ */
+function formatEvent(event: PipelineEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Check whether the client asked for a streamed response
+ */
+export function wantsProgressStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') || false;
+}
+
+/**
+ * Create an SSE response that runs the given pipeline and streams its events
+ * Errors thrown by `run` are reported as a fatal error event, not an HTTP error
+ */
+export function createProgressStream(run: (emit: ProgressReporter) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: ProgressReporter = (event) => {
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event)));
+        } catch {
+          // Client disconnected - keep the pipeline running so the build still completes
+        }
+      };
+
+      try {
+        await run(emit);
+      } catch (error) {
+        console.error('Pipeline stream error:', error);
+        emit({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          fatal: true,
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a disconnected client
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering so events arrive immediately
+    },
+  });
+}
+
+/**
+ * Wrap file tools so every write is reported as a file_written event
+ */
+export function withWriteEvents(fileTools: FileTools, onProgress?: ProgressReporter): FileTools {
+  if (!onProgress) {
+    return fileTools;
+  }
+
+  return {
+    ...fileTools,
+    async write_file(path: string, content: string): Promise<void> {
+      await fileTools.write_file(path, content);
+      onProgress({ type: 'file_written', path });
+    },
+  };
+}
+
+/**
+ * Read an SSE progress stream in the browser, calling onEvent for each event
+ * @typeParam TResult - Payload of the `complete` event, the route's JSON response
+ */
+export async function readProgressStream<TResult>(
+  response: Response,
+  onEvent: (event: PipelineEvent<TResult>) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE frames are separated by a blank line
+    let separatorIndex = buffer.indexOf('\n\n');
+    while (separatorIndex !== -1) {
+      const frame = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('');
+
+      if (data) {
+        try {
+          onEvent(JSON.parse(data) as PipelineEvent<TResult>);
+        } catch (parseError) {
+          console.warn('Skipping malformed progress event:', parseError);
+        }
+      }
+
+      separatorIndex = buffer.indexOf('\n\n');
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Project Context - Earlier decisions carried into a regeneration
+ *
+ * "Generate new version" runs the full pipeline again. Without context the
+ * Planner and Coder only see the new message, so the brand name, sections,
+ * colors and everything the user refined through edits would be lost. This
+ * module reads them back from the latest build and the conversation so the
+ * new version starts from them:
+ * - The Planner keeps the sections, brand, language and theme unless asked otherwise
+ * - The Coder sees each component's and locale file's previous version and keeps its text
+ */
+
+import { detectLanguageModeFromFiles, getLatestBuild, LanguageMode, ProjectFiles } from './buildService';
+import { getProjectLanguageMode } from './projectService';
+import { getLocalePath, getLocalesFromFiles } from './siteLocales';
+import { parseThemeFile, SiteTheme, THEME_PATH } from './siteTheme';
+import { NUMERALS_PATH, NumeralStyle, parseNumeralStyle } from './siteNumerals';
+import { DARK_MODE_PATH } from './siteDarkMode';
+
+export interface ProjectContext {
+  version: number;           // Build the context was read from
+  files: ProjectFiles;       // Files of that build
+  sections: string[];        // Section names, in page order
+  brandName: string | null;
+  languageMode: LanguageMode;
+  locales: string[];         // Empty for single-language sites
+  theme: SiteTheme | null;   // Null for sites generated before themes
+  numerals: NumeralStyle | null; // Null for English-only sites and sites generated before numeral styles
+  darkMode: boolean;         // The site has a light/dark toggle
+  requests: string[];        // Earlier user requests, oldest first
+}
+
+const MAX_REQUESTS = 10;
+const MAX_REQUEST_LENGTH = 500;
+
+/**
+ * Section name of a component file ("ContactUs" -> "contact us")
+ */
+function componentToSection(componentName: string): string {
+  return componentName.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+/**
+ * Sections of a build, in the order App.jsx (or the pages) render them
+ */
+function getSections(files: ProjectFiles): string[] {
+  const components = Object.keys(files)
+    .map(path => path.match(/^src\/components\/([A-Za-z0-9]+)\.jsx$/)?.[1])
+    .filter((name): name is string => !!name);
+
+  const layout = [files['src/App.jsx'] || '', ...Object.keys(files).filter(p => p.startsWith('src/pages/')).map(p => files[p])].join('\n');
+  const position = (name: string) => {
+    const index = layout.indexOf(`<${name}`);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+
+  return components
+    .sort((a, b) => position(a) - position(b))
+    .map(componentToSection);
+}
+
+/**
+ * Brand name from the navbar text, falling back to the page title
+ */
+function getBrandName(files: ProjectFiles, locales: string[]): string | null {
+  for (const locale of locales) {
+    try {
+      const navbar = JSON.parse(files[getLocalePath(locale)] || '{}').navbar || {};
+      const brand = navbar.logo || navbar.brand || navbar.name;
+      if (typeof brand === 'string' && brand.trim()) {
+        return brand.trim();
+      }
+    } catch {
+      // Invalid locale file - try the next one
+    }
+  }
+  const title = (files['index.html'] || '').match(/<title>([^<]*)<\/title>/i)?.[1]?.trim();
+  return title || null;
+}
+
+/**
+ * Read a project's earlier decisions - null when it has no build yet
+ * @param projectId - The project ID
+ * @param history - Conversation so far (the new message not included)
+ * @param beforeVersion - Read the decisions as they were before this version (a resumed run's own partial build)
+ */
+export async function getProjectContext(
+  projectId: string,
+  history: Array<{ role: string; content: string }> = [],
+  beforeVersion?: number
+): Promise<ProjectContext | null> {
+  const build = await getLatestBuild(projectId, beforeVersion);
+  if (!build?.files || Object.keys(build.files).length === 0) {
+    return null;
+  }
+
+  const files = build.files;
+  const languageMode = (await getProjectLanguageMode(projectId)) || detectLanguageModeFromFiles(files);
+  const locales = languageMode === 'bilingual'
+    ? getLocalesFromFiles(Object.keys(files), files['src/i18n.js'] || '')
+    : [];
+
+  return {
+    version: build.version,
+    files,
+    sections: getSections(files),
+    brandName: getBrandName(files, locales),
+    languageMode,
+    locales,
+    theme: parseThemeFile(files[THEME_PATH]),
+    numerals: parseNumeralStyle(files[NUMERALS_PATH]),
+    darkMode: files[DARK_MODE_PATH] !== undefined,
+    requests: history
+      .filter(message => message.role === 'user' && message.content.trim())
+      .slice(-MAX_REQUESTS)
+      .map(message => message.content.trim().substring(0, MAX_REQUEST_LENGTH)),
+  };
+}
+
+/**
+ * Describe the earlier decisions for the Planner and Coder prompts
+ */
+export function describeProjectContext(context: ProjectContext): string {
+  const lines = [
+    `EXISTING PROJECT (version ${context.version}) - keep these decisions unless the new request changes them:`,
+    `- Sections: ${context.sections.join(', ') || 'none'}`,
+  ];
+  if (context.brandName) {
+    lines.push(`- Brand name: ${context.brandName}`);
+  }
+  lines.push(`- Language: ${context.languageMode}${context.locales.length > 0 ? ` (${context.locales.join(', ')})` : ''}`);
+  if (context.theme) {
+    lines.push(`- Theme (reuse it as-is unless a new look is requested): ${JSON.stringify(context.theme)}`);
+  }
+  if (context.numerals) {
+    lines.push(`- Numerals in Arabic text: ${context.numerals}`);
+  }
+  if (context.darkMode) {
+    lines.push('- Dark mode: a light/dark toggle in the navbar');
+  }
+  if (context.requests.length > 0) {
+    lines.push('', 'Earlier requests in this project, oldest first:');
+    context.requests.forEach((request, index) => lines.push(`${index + 1}. ${request}`));
+  }
+  return lines.join('\n');
+}
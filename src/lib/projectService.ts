@@ -12,7 +12,8 @@
  * 
  * **Database Schema:**
  * - Table: `public.projects`
- * - Fields: id (UUID), user_id (UUID), name (TEXT), created_at (TIMESTAMP), updated_at (TIMESTAMP)
+ * - Fields: id (UUID), user_id (UUID), name (TEXT), language_mode (TEXT, nullable),
+ *   created_at (TIMESTAMP), updated_at (TIMESTAMP)
  * 
  * **Future Enhancements:**
  * - Add `main_prompt` field to store the initial project description
@@ -21,11 +22,13 @@
  */
 
 import { supabase } from './supabaseClient';
+import type { LanguageMode } from './buildService';
 
 export interface Project {
   id: string;
   user_id: string;
   name: string;
+  language_mode?: LanguageMode | null; // Set by the first generation (see migration-project-language-mode.sql)
   created_at: string;
   updated_at: string;
 }
@@ -156,3 +159,48 @@ export async function deleteProject(userId: string, projectId: string): Promise<
     throw new Error(`Failed to delete project: ${error.message}`);
   }
 }
+
+/**
+ * Get the language mode stored for a project
+ * @param projectId - The project ID
+ * @returns The stored mode, or null if none is stored yet (or the migration hasn't been run)
+ */
+export async function getProjectLanguageMode(projectId: string): Promise<LanguageMode | null> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('language_mode')
+    .eq('id', projectId)
+    .single();
+
+  if (error) {
+    // If the column doesn't exist (migration not run), fall back to detection
+    if (error.message?.includes('column') || error.code === '42703') {
+      console.warn('language_mode column not found - migration may not be run. Detecting language mode from files.');
+      return null;
+    }
+    console.error('Error fetching project language mode:', error);
+    return null;
+  }
+
+  return data?.language_mode || null;
+}
+
+/**
+ * Store the language mode for a project, so edits and deploys keep using it
+ * @param projectId - The project ID
+ * @param languageMode - The language mode the site was generated with
+ */
+export async function updateProjectLanguageMode(projectId: string, languageMode: LanguageMode): Promise<void> {
+  const { error } = await supabase
+    .from('projects')
+    .update({ language_mode: languageMode })
+    .eq('id', projectId);
+
+  if (error) {
+    if (error.message?.includes('column') || error.code === '42703') {
+      console.warn('language_mode column not found - migration may not be run. Language mode not saved.');
+      return;
+    }
+    console.error('Error saving project language mode:', error);
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * RTL Linter - Converts direction-sensitive styling in components to logical equivalents
+ *
+ * Arabic and bilingual sites flip `dir`, so anything tied to left/right breaks
+ * in one of the two directions. This pass parses every component and page and
+ * rewrites, in className strings and inline style objects:
+ *
+ * - ml-4 / pr-2 / left-0 / text-right -> ms-4 / pe-2 / start-0 / text-end
+ * - rounded-l / border-r / float-left  -> rounded-s / border-e / float-start
+ * - space-x-4 / divide-x               -> adds rtl:space-x-reverse / rtl:divide-x-reverse
+ * - style={{ marginLeft, textAlign: 'right' }} -> marginInlineStart, textAlign: 'end'
+ *
+ * Classes that have no logical form (translate-x-*, origin-left, bg-gradient-to-r...)
+ * are only reported, as are left/right positions next to a translate. Centering
+ * (left-1/2 -translate-x-1/2) works in both directions and is skipped. Classes
+ * with an rtl: or ltr: variant were written for one direction on purpose and
+ * are left alone.
+ */
+
+import { parse } from '@babel/parser';
+import { FileTools } from './workspaceService';
+
+export interface RtlIssue {
+  file: string;
+  line: number;
+  original: string;      // Class or style property as written
+  replacement?: string;  // Logical equivalent (not set when it can't be fixed)
+  message: string;
+  fixed: boolean;
+}
+
+export interface RtlReport {
+  filesChecked: number;
+  filesChanged: string[];
+  issues: RtlIssue[];
+  fixedCount: number;
+  ok: boolean; // True when every issue was fixed
+}
+
+/**
+ * Minimal view of a Babel AST node - only the fields the linter reads
+ */
+interface AstNode {
+  type: string;
+  name?: AstNode | string;
+  value?: AstNode | string | null;
+  key?: AstNode;
+  computed?: boolean;
+  quasis?: AstNode[];
+  start?: number | null;
+  end?: number | null;
+  loc?: { start: { line: number } };
+}
+
+function isAstNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as AstNode).type === 'string';
+}
+
+// A source range to replace, with the text that replaces it
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const LINTED_FILE = /^src\/(components|pages)\/.+\.jsx$|^src\/App\.jsx$/;
+
+const SIDE: Record<string, string> = { l: 's', r: 'e', left: 'start', right: 'end' };
+const CORNER: Record<string, string> = { tl: 'ss', tr: 'se', bl: 'es', br: 'ee' };
+
+// Inline style properties and their logical names
+const LOGICAL_STYLE_PROPERTIES: Record<string, string> = {
+  marginLeft: 'marginInlineStart',
+  marginRight: 'marginInlineEnd',
+  paddingLeft: 'paddingInlineStart',
+  paddingRight: 'paddingInlineEnd',
+  left: 'insetInlineStart',
+  right: 'insetInlineEnd',
+  borderLeft: 'borderInlineStart',
+  borderRight: 'borderInlineEnd',
+  borderLeftWidth: 'borderInlineStartWidth',
+  borderRightWidth: 'borderInlineEndWidth',
+  borderLeftColor: 'borderInlineStartColor',
+  borderRightColor: 'borderInlineEndColor',
+  borderTopLeftRadius: 'borderStartStartRadius',
+  borderTopRightRadius: 'borderStartEndRadius',
+  borderBottomLeftRadius: 'borderEndStartRadius',
+  borderBottomRightRadius: 'borderEndEndRadius',
+};
+const ALIGNED_STYLE_PROPERTIES = ['textAlign', 'float', 'clear'];
+
+/**
+ * Logical form of one Tailwind class (without its variants), or null when it is not direction-sensitive
+ * `unfixable` is set for classes that are direction-sensitive but have no logical form
+ */
+function toLogicalClass(base: string): { replacement?: string; unfixable?: string } | null {
+  let match: RegExpExecArray | null;
+
+  if ((match = /^(-?)(m|p)(l|r)-(.*)$/.exec(base))) {
+    return { replacement: `${match[1]}${match[2]}${SIDE[match[3]]}-${match[4]}` };
+  }
+  if ((match = /^(-?)(left|right)-(.+)$/.exec(base))) {
+    return { replacement: `${match[1]}${SIDE[match[2]]}-${match[3]}` };
+  }
+  if ((match = /^(text|float|clear)-(left|right)$/.exec(base))) {
+    return { replacement: `${match[1]}-${SIDE[match[2]]}` };
+  }
+  if ((match = /^(rounded|border)-(l|r)(-.+)?$/.exec(base))) {
+    return { replacement: `${match[1]}-${SIDE[match[2]]}${match[3] || ''}` };
+  }
+  if ((match = /^rounded-(tl|tr|bl|br)(-.+)?$/.exec(base))) {
+    return { replacement: `rounded-${CORNER[match[1]]}${match[2] || ''}` };
+  }
+  if ((match = /^scroll-(m|p)(l|r)-(.+)$/.exec(base))) {
+    return { replacement: `scroll-${match[1]}${SIDE[match[2]]}-${match[3]}` };
+  }
+  if (/^-?translate-x-/.test(base)) {
+    return { unfixable: 'moves along the x axis - add an rtl: variant with the opposite value if it should follow the reading direction' };
+  }
+  if (/^origin-(.+-)?(left|right)$/.test(base)) {
+    return { unfixable: 'has no logical form - add an rtl: variant with the mirrored origin' };
+  }
+  if (/^bg-gradient-to-(t|b)?(l|r)$/.test(base)) {
+    return { unfixable: 'points left or right in both directions - add an rtl: variant if it should follow the reading direction' };
+  }
+  return null;
+}
+
+/**
+ * Lint the classes of one string (a className literal or a static part of a template)
+ * Returns the rewritten text, or null when nothing changed
+ */
+function lintClassString(
+  text: string,
+  report: (original: string, replacement: string | undefined, message: string) => void
+): string | null {
+  const parts = text.split(/(\s+)/);
+  const tokens = parts.filter((_, index) => index % 2 === 0);
+  const hasTranslate = tokens.some(token => /(^|:)-?translate-x-/.test(token));
+  // left-1/2 with -translate-x-1/2 centers the element, which is right in both directions
+  const isCentered = hasTranslate &&
+    tokens.some(token => /(^|:)(left|right)-1\/2$/.test(token)) &&
+    tokens.some(token => /(^|:)-?translate-x-1\/2$/.test(token));
+  let changed = false;
+
+  const output = parts.map((part, index) => {
+    if (index % 2 === 1 || !part) return part;
+
+    const [, variants, important, base] = /^((?:[^:\s]+:)*)(!?)(.*)$/.exec(part) || [];
+    if (base === undefined || /(^|:)(rtl|ltr):/.test(variants)) return part;
+
+    // Gaps between items are physical margins in Tailwind 3 - reverse them in RTL
+    const gap = /^-?(space|divide)-x(-|$)/.exec(base);
+    if (gap && !/-reverse$/.test(base)) {
+      const reverse = `rtl:${gap[1]}-x-reverse`;
+      if (!tokens.includes(reverse)) {
+        tokens.push(reverse);
+        changed = true;
+        report(part, `${part} ${reverse}`, `${part} spaces items with physical margins - added ${reverse}`);
+        return `${part} ${reverse}`;
+      }
+      return part;
+    }
+
+    if (isCentered && /^-?(left-|right-|translate-x-)1\/2$/.test(base)) return part;
+
+    const logical = toLogicalClass(base);
+    if (!logical) return part;
+
+    if (logical.unfixable) {
+      report(part, undefined, `${part} ${logical.unfixable}`);
+      return part;
+    }
+    if (hasTranslate && /^-?(left|right)-/.test(base)) {
+      report(part, undefined, `${part} is positioned together with a translate-x - check it in both directions`);
+      return part;
+    }
+
+    const replacement = `${variants}${important}${logical.replacement}`;
+    changed = true;
+    report(part, replacement, `${part} -> ${replacement}`);
+    return replacement;
+  }).join('');
+
+  return changed ? output : null;
+}
+
+/**
+ * Find direction-sensitive classes and inline styles in a component
+ * Returns the source edits that make it direction-neutral
+ */
+function lintComponent(code: string, file: string, addIssue: (issue: RtlIssue) => void): Edit[] | null {
+  let program: unknown;
+  try {
+    program = parse(code, { sourceType: 'module', plugins: ['jsx'], errorRecovery: true }).program;
+  } catch {
+    // Unparseable files are reported by the syntax checker, not here
+    return null;
+  }
+  if (!isAstNode(program)) {
+    return null;
+  }
+
+  const edits: Edit[] = [];
+  const lineOf = (node: AstNode) => node.loc?.start.line || 0;
+
+  // Rewrite the text between start and end (string contents without their quotes)
+  const lintText = (node: AstNode, start: number, end: number) => {
+    const rewritten = lintClassString(code.substring(start, end), (original, replacement, message) => {
+      addIssue({ file, line: lineOf(node), original, replacement, message, fixed: replacement !== undefined });
+    });
+    if (rewritten !== null) {
+      edits.push({ start, end, text: rewritten });
+    }
+  };
+
+  // Every string inside a className={...} - cn('ml-2', active && 'pl-4'), ternaries, templates
+  const visitClassName = (node: AstNode) => {
+    if (node.type === 'StringLiteral' && node.start != null && node.end != null) {
+      lintText(node, node.start + 1, node.end - 1);
+    } else if (node.type === 'TemplateElement' && node.start != null && node.end != null) {
+      lintText(node, node.start, node.end);
+    }
+    forEachChild(node, visitClassName);
+  };
+
+  // style={{ marginLeft: 8, textAlign: 'right' }}
+  const visitStyle = (node: AstNode) => {
+    if (node.type === 'ObjectProperty' && node.key && !node.computed) {
+      const key = node.key;
+      const name = key.type === 'Identifier' ? key.name : key.type === 'StringLiteral' ? key.value : null;
+      if (typeof name === 'string' && LOGICAL_STYLE_PROPERTIES[name] && key.start != null && key.end != null) {
+        const replacement = LOGICAL_STYLE_PROPERTIES[name];
+        edits.push({ start: key.start, end: key.end, text: key.type === 'StringLiteral' ? `'${replacement}'` : replacement });
+        addIssue({ file, line: lineOf(key), original: name, replacement, message: `style ${name} -> ${replacement}`, fixed: true });
+      }
+      const value = isAstNode(node.value) ? node.value : null;
+      if (typeof name === 'string' && ALIGNED_STYLE_PROPERTIES.includes(name) && value?.type === 'StringLiteral' &&
+        (value.value === 'left' || value.value === 'right') && value.start != null && value.end != null) {
+        const side = value.value as string;
+        // float/clear: inline-start is too new for older browsers - report instead
+        if (name === 'textAlign') {
+          const replacement = SIDE[side];
+          edits.push({ start: value.start + 1, end: value.end - 1, text: replacement });
+          addIssue({ file, line: lineOf(value), original: `${name}: '${side}'`, replacement: `${name}: '${replacement}'`, message: `style ${name}: '${side}' -> '${replacement}'`, fixed: true });
+        } else {
+          addIssue({ file, line: lineOf(value), original: `${name}: '${side}'`, message: `style ${name}: '${side}' does not follow the reading direction - use the float-start / float-end classes`, fixed: false });
+        }
+      }
+    }
+    forEachChild(node, visitStyle);
+  };
+
+  const visit = (node: AstNode) => {
+    if (node.type === 'JSXAttribute' && isAstNode(node.name) && isAstNode(node.value)) {
+      if (node.name.name === 'className') {
+        visitClassName(node.value);
+        return;
+      }
+      if (node.name.name === 'style') {
+        visitStyle(node.value);
+        return;
+      }
+    }
+    forEachChild(node, visit);
+  };
+
+  visit(program);
+  return edits;
+}
+
+function forEachChild(node: AstNode, callback: (child: AstNode) => void): void {
+  for (const [field, child] of Object.entries(node)) {
+    if (field === 'loc' || field === 'leadingComments' || field === 'trailingComments') continue;
+    if (Array.isArray(child)) {
+      child.filter(isAstNode).forEach(callback);
+    } else if (isAstNode(child)) {
+      callback(child);
+    }
+  }
+}
+
+/**
+ * Check every component, page and App file for direction-sensitive styling
+ * @param options.autoFix - Rewrite the files (default) or only report
+ */
+export async function checkRtl(
+  fileTools: FileTools,
+  options: { autoFix?: boolean } = {}
+): Promise<RtlReport> {
+  const { autoFix = true } = options;
+  const allFiles = await fileTools.list_files();
+  const report: RtlReport = { filesChecked: 0, filesChanged: [], issues: [], fixedCount: 0, ok: true };
+
+  for (const file of allFiles.filter(f => LINTED_FILE.test(f))) {
+    const code = await fileTools.read_file(file);
+    if (!code) continue;
+
+    const issues: RtlIssue[] = [];
+    const edits = lintComponent(code, file, issue => issues.push(issue));
+    if (!edits) continue;
+    report.filesChecked++;
+
+    if (autoFix && edits.length > 0) {
+      // Apply from the end so earlier offsets stay valid
+      const fixed = edits
+        .sort((a, b) => b.start - a.start)
+        .reduce((source, edit) => source.substring(0, edit.start) + edit.text + source.substring(edit.end), code);
+      await fileTools.write_file(file, fixed);
+      report.filesChanged.push(file);
+    } else if (!autoFix) {
+      issues.forEach(issue => { issue.fixed = false; });
+    }
+
+    report.issues.push(...issues);
+  }
+
+  report.fixedCount = report.issues.filter(issue => issue.fixed).length;
+  report.ok = report.issues.every(issue => issue.fixed);
+
+  console.log(`↔️  RTL check: ${report.fixedCount} fixed in ${report.filesChanged.length} file(s), ${report.issues.length - report.fixedCount} to review`);
+  return report;
+}
@@ -0,0 +1,60 @@
+/**
+ * Section Order Service - Moves the sections of a single-page site
+ *
+ * The new order is applied without the LLM: App.jsx, the navbar links and the
+ * navbar.links labels are rewritten (see siteSections) and saved as a new build.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getLatestBuild, createBuild, ProjectFiles, detectLanguageModeFromFiles } from './buildService';
+import { getProjectLanguageMode } from './projectService';
+import { PageSection, getPageSections, reorderSections } from './siteSections';
+
+export interface ReorderSectionsResult {
+  sections: PageSection[];
+  filesChanged: string[];
+  version: number;
+  previewHtml: string;
+}
+
+/**
+ * Reorder the sections of a project's latest build and save the result as a new build
+ * @param order - Component names of the sections between the navbar and the footer, in the new order
+ * @param client - The request's authenticated client, to list the project's assets
+ */
+export async function reorderSiteSections(args: {
+  projectId: string;
+  order: string[];
+  client?: SupabaseClient;
+}): Promise<ReorderSectionsResult> {
+  const { projectId, order, client } = args;
+
+  const build = await getLatestBuild(projectId);
+  if (!build || !build.files || Object.keys(build.files).length === 0) {
+    throw new Error('No builds found for this project. Please generate a site first.');
+  }
+
+  const files: ProjectFiles = { ...(build.files as ProjectFiles) };
+  const updates = reorderSections(files, order);
+  Object.assign(files, updates);
+  console.log(`↕️  New section order: ${order.join(', ')} (${Object.keys(updates).length} file(s) changed)`);
+
+  const languageMode = (await getProjectLanguageMode(projectId)) || detectLanguageModeFromFiles(files);
+  const newBuild = await createBuild({
+    projectId,
+    prompt: `Reorder sections: ${order.join(', ')}`,
+    files,
+    summary: 'Reordered sections',
+    languageMode,
+    client,
+  });
+
+  console.log(`✅ Created reordered build version ${newBuild.version}`);
+
+  return {
+    sections: getPageSections(files) || [],
+    filesChanged: Object.keys(updates),
+    version: newBuild.version,
+    previewHtml: newBuild.preview_html || '',
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Section Regeneration Service - A new version of one section ("give me a different Hero")
+ *
+ * Only the Coder runs, for a single component: the plan is the one the site was
+ * generated from (see pipelineRunService) updated with the current build's sections,
+ * languages, theme, numerals and dark mode. The component keeps its text and
+ * translation keys, and every other file of the build is left untouched.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createBuild, LanguageMode, ProjectFiles } from './buildService';
+import { createFileTools, FileTools, WorkspaceFile } from './workspaceService';
+import { GenerationPlan, PlannerLanguageMode } from './plannerAgent';
+import { architectGeneration } from './architectAgent';
+import { regenerateComponent } from './coderAgent';
+import { getLatestBuiltPlan } from './pipelineRunService';
+import { describeProjectContext, getProjectContext, ProjectContext } from './projectContext';
+import { listProjectAssets } from './assetService';
+import { ProgressReporter, withWriteEvents } from './progressStream';
+import { FileRepair, withSyntaxRepair } from './codeValidator';
+import { checkTranslations, TranslationIssue } from './translationChecker';
+import { checkRtl } from './rtlLinter';
+import { addDarkVariants } from './siteDarkMode';
+import { DEFAULT_THEME } from './siteTheme';
+import { normalizeSeo } from './siteSeo';
+import { trackUsage } from './usageTracker';
+import { reportRetries } from './llmRetry';
+import type { BuildUsage } from './usageService';
+
+export interface RegenerateSectionResult {
+  componentName: string;
+  version: number;
+  previewHtml: string;
+  repairedFiles: FileRepair[];
+  translationIssues: TranslationIssue[]; // Keys the new version uses that the locales lack (not auto-filled)
+  usage: BuildUsage;
+}
+
+const PLANNER_LANGUAGE_MODES: Record<LanguageMode, PlannerLanguageMode> = {
+  'arabic-only': 'ARABIC_ONLY',
+  'english-only': 'ENGLISH_ONLY',
+  'bilingual': 'BILINGUAL',
+};
+
+/**
+ * The stored plan brought up to date with the current build (a plan built from the
+ * build alone for sites generated before runs were recorded)
+ */
+function getSectionPlan(stored: GenerationPlan | null, context: ProjectContext): GenerationPlan {
+  const languageMode = PLANNER_LANGUAGE_MODES[context.languageMode];
+  const locales = languageMode === 'BILINGUAL'
+    ? context.locales
+    : [languageMode === 'ARABIC_ONLY' ? 'ar' : 'en'];
+  const projectName = stored?.projectName || context.brandName || 'My Project';
+  const industry = stored?.industry || 'other';
+
+  return {
+    industry,
+    optionalSections: [],
+    folderStructure: [],
+    requiredLibraries: [],
+    suggestedComponents: [],
+    ...stored,
+    // Sections may have been added, removed or reordered by edits since the plan was made
+    requiredSections: context.sections,
+    languageMode,
+    locales,
+    projectName,
+    theme: context.theme || stored?.theme || DEFAULT_THEME,
+    seo: stored?.seo || normalizeSeo(null, { projectName, industry, locales }),
+    numerals: context.numerals || stored?.numerals || 'western',
+    darkMode: context.darkMode,
+  };
+}
+
+/**
+ * File tools that only list one file, so the whole-site checks touch nothing else
+ */
+function scopeFileTools(fileTools: FileTools, path: string): FileTools {
+  return { ...fileTools, list_files: async () => [path] };
+}
+
+/**
+ * Regenerate one section component of a project's latest build and save the result as a new build
+ * @param componentName - Component of the section (e.g. "Hero")
+ * @param instructions - What the new version should change, optional
+ * @param client - The request's authenticated client, to list the project's assets
+ */
+export async function regenerateSiteSection(args: {
+  projectId: string;
+  componentName: string;
+  instructions?: string;
+  onProgress?: ProgressReporter;
+  client?: SupabaseClient;
+}): Promise<RegenerateSectionResult> {
+  const { projectId, componentName, instructions, onProgress, client } = args;
+
+  const context = await getProjectContext(projectId);
+  if (!context) {
+    throw new Error('No builds found for this project. Please generate a site first.');
+  }
+
+  const path = `src/components/${componentName}.jsx`;
+  if (context.files[path] === undefined) {
+    throw new Error(`Section ${componentName} not found in version ${context.version}`);
+  }
+
+  const plan = getSectionPlan(await getLatestBuiltPlan(projectId), context);
+  const assetPaths = (await listProjectAssets(projectId, client)).map(asset => asset.filePath);
+  const architecture = architectGeneration(plan, assetPaths);
+  if (!architecture.components.includes(componentName)) {
+    architecture.components.push(componentName);
+  }
+  console.log(`🔁 Regenerating ${componentName} from version ${context.version}${instructions ? `: ${instructions}` : ''}`);
+
+  const workspaceFiles: WorkspaceFile[] = Object.entries(context.files).map(([filePath, content]) => ({
+    path: filePath,
+    content,
+    type: 'file' as const,
+  }));
+  const repairs: FileRepair[] = [];
+  const fileTools = withWriteEvents(
+    withSyntaxRepair(createFileTools(projectId, context.version, workspaceFiles), { stage: 'coder.repair', repairs }),
+    onProgress
+  );
+
+  onProgress?.({ type: 'stage', stage: 'coding', message: `Regenerating ${componentName}` });
+  const request = instructions?.trim() || `Give the ${componentName} section a different design`;
+  const { result: translationIssues, usage } = await reportRetries(onProgress, () => trackUsage(async () => {
+    await regenerateComponent(componentName, plan, architecture, fileTools, `${request}\n\n${describeProjectContext(context)}`);
+
+    // The same clean-up as after generation, on this file only
+    const sectionTools = scopeFileTools(fileTools, path);
+    if (context.languageMode !== 'english-only') {
+      await checkRtl(sectionTools);
+    }
+    if (context.darkMode) {
+      await addDarkVariants(sectionTools);
+    }
+
+    // Locale files stay as they are - report the keys the new version is missing instead of adding them
+    const report = await checkTranslations(fileTools, { autoFix: false });
+    return report.components.find(component => component.file === path)?.issues.filter(issue => issue.type !== 'orphaned') || [];
+  }, { projectId, operation: 'section' }));
+  console.log(`🪙 LLM usage: ${usage.calls} calls, ${usage.totalTokens} tokens, $${usage.costUsd.toFixed(4)}, ${usage.retries} retries`);
+
+  const content = await fileTools.read_file(path);
+  if (!content || content === context.files[path]) {
+    throw new Error(`The Coder Agent returned no new version of ${componentName}`);
+  }
+  if (translationIssues.length > 0) {
+    console.warn(`⚠️  ${componentName} uses ${translationIssues.length} translation key(s) the locales lack`);
+  }
+
+  const files: ProjectFiles = { ...context.files, [path]: content };
+  onProgress?.({ type: 'stage', stage: 'saving', message: 'Building preview' });
+  const newBuild = await createBuild({
+    projectId,
+    prompt: instructions?.trim() || `Regenerate ${componentName}`,
+    files,
+    summary: `Regenerated the ${componentName} section`,
+    languageMode: context.languageMode,
+    repairedFiles: repairs,
+    usage,
+    client,
+  });
+
+  console.log(`✅ Created build version ${newBuild.version}`);
+  onProgress?.({ type: 'preview_built', version: newBuild.version });
+
+  return {
+    componentName,
+    version: newBuild.version,
+    previewHtml: newBuild.preview_html || '',
+    repairedFiles: repairs,
+    translationIssues,
+    usage,
+  };
+}
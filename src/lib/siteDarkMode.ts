@@ -0,0 +1,181 @@
+/**
+ * Site Dark Mode - A light/dark toggle for generated websites
+ *
+ * Sites with dark mode get src/darkMode.js, static code: useDarkMode() switches the
+ * "dark" class on <html> and keeps the visitor's choice in localStorage, and
+ * tailwind.config.js sets darkMode: 'class'. Components pair each color token
+ * with its dark-* token (bg-surface dark:bg-dark-surface); addDarkVariants()
+ * adds the pairs the Coder or the Editor left out.
+ *
+ * Shared by the pipeline (server) and the preview builder, so keep it free of
+ * server-only imports.
+ */
+
+import type { FileTools } from './workspaceService';
+
+export const DARK_MODE_PATH = 'src/darkMode.js';
+
+// Not "theme": in the preview the site shares localStorage with the builder, which uses that key
+const STORAGE_KEY = 'color-scheme';
+const CHANGE_EVENT = 'colorschemechange';
+
+// Message the preview page sends to force a color scheme: { type, scheme: 'light' | 'dark' | null }
+export const PREVIEW_COLOR_SCHEME_MESSAGE = 'aqall:color-scheme';
+
+// Accessible name of the navbar toggle (navbar.darkMode on translated sites)
+export const DARK_MODE_LABELS: Record<'en' | 'ar', string> = {
+  en: 'Dark mode',
+  ar: 'الوضع الداكن',
+};
+
+/**
+ * src/darkMode.js
+ */
+export function buildDarkModeSource(): string {
+  return `// Light/dark mode - the "dark" class on <html> turns on the dark: variants
+import { useEffect, useState } from 'react';
+
+const DARK_MODE_STORAGE_KEY = '${STORAGE_KEY}';
+const DARK_MODE_EVENT = '${CHANGE_EVENT}';
+
+export function setDarkMode(isDark) {
+  document.documentElement.classList.toggle('dark', isDark);
+  try {
+    localStorage.setItem(DARK_MODE_STORAGE_KEY, isDark ? 'dark' : 'light');
+  } catch (error) {
+    // localStorage can be unavailable (private browsing) - the choice lasts until reload
+  }
+  window.dispatchEvent(new CustomEvent(DARK_MODE_EVENT, { detail: isDark }));
+}
+
+// index.html applies the saved choice (or the system setting) before the page paints
+export function useDarkMode() {
+  const [isDark, setIsDark] = useState(() => document.documentElement.classList.contains('dark'));
+
+  useEffect(() => {
+    const handleChange = (event) => setIsDark(event.detail);
+    window.addEventListener(DARK_MODE_EVENT, handleChange);
+    return () => window.removeEventListener(DARK_MODE_EVENT, handleChange);
+  }, []);
+
+  const toggleDarkMode = () => setDarkMode(!isDark);
+  return { isDark, toggleDarkMode };
+}
+`;
+}
+
+// The saved choice, else the system setting (plain ES5 - runs before any bundle)
+const INITIAL_DARK_MODE = `(function () {
+  var saved = null;
+  try { saved = localStorage.getItem('${STORAGE_KEY}'); } catch (error) {}
+  return saved ? saved === 'dark' : window.matchMedia('(prefers-color-scheme: dark)').matches;
+})()`;
+
+/**
+ * <script> for the <head> of index.html - sets the "dark" class before the first paint
+ */
+export function buildDarkModeInitScript(): string {
+  return `<script>
+      document.documentElement.classList.toggle('dark', ${INITIAL_DARK_MODE});
+    </script>`;
+}
+
+/**
+ * <script> for the preview - lets the preview page force light or dark without
+ * changing the visitor choice saved by the site's own toggle
+ */
+export function buildPreviewColorSchemeScript(): string {
+  return `<script>
+    window.addEventListener('message', function (event) {
+      var data = event.data;
+      if (!data || data.type !== '${PREVIEW_COLOR_SCHEME_MESSAGE}') return;
+      var isDark = data.scheme === 'dark' || (data.scheme !== 'light' && ${INITIAL_DARK_MODE.replace(/\n/g, '\n      ')});
+      document.documentElement.classList.toggle('dark', isDark);
+      window.dispatchEvent(new CustomEvent('${CHANGE_EVENT}', { detail: isDark }));
+    });
+  </script>`;
+}
+
+/**
+ * Component prompt rules for dark mode
+ */
+export function describeDarkModeUsage(options: { isNavbar: boolean; isBilingual: boolean; languageName: string }): string {
+  const toggle = options.isNavbar ? `
+- Add a dark mode toggle right next to the language toggle (or where it would be), on desktop AND in the mobile menu:
+  import { useDarkMode } from '../darkMode.js'
+  const { isDark, toggleDarkMode } = useDarkMode();
+  <button onClick={toggleDarkMode} aria-pressed={isDark} aria-label={${options.isBilingual ? "t('navbar.darkMode')" : `"${options.languageName === 'Arabic' ? DARK_MODE_LABELS.ar : DARK_MODE_LABELS.en}"`}} className="p-2 rounded-theme border border-muted/30 text-foreground dark:text-dark-foreground">{isDark ? '☀' : '☾'}</button>` : '';
+  return `
+DARK MODE (the site has a light/dark toggle - tailwind darkMode: 'class'):
+- Give every background, text and border color token a dark: pair from the dark-* tokens:
+  bg-background dark:bg-dark-background, bg-surface dark:bg-dark-surface,
+  text-foreground dark:text-dark-foreground, text-muted dark:text-dark-muted, border-muted/20 dark:border-dark-muted/20
+- primary, secondary and accent work in both modes - text-white on bg-primary needs no pair${toggle}
+`;
+}
+
+// Color tokens with a dark-* counterpart, as utility-color pairs
+const DARK_PAIRS: Record<string, string> = {
+  'bg-background': 'bg-dark-background',
+  'bg-surface': 'bg-dark-surface',
+  'bg-white': 'bg-dark-surface',
+  'text-foreground': 'text-dark-foreground',
+  'text-muted': 'text-dark-muted',
+  'border-muted': 'border-dark-muted',
+  'border-surface': 'border-dark-surface',
+};
+
+// A class with optional variants (hover:, md:...) and opacity (/20)
+const CLASS_PATTERN = /^((?:[a-z0-9-]+:)*)([a-z]+-[a-z]+)(\/\d{1,3})?$/;
+
+function addDarkClasses(classes: string): string {
+  const tokens = classes.split(/\s+/).filter(Boolean);
+  const added: string[] = [];
+  for (const token of tokens) {
+    const match = CLASS_PATTERN.exec(token);
+    if (!match) continue;
+    const [, variants, utility, opacity = ''] = match;
+    const pair = DARK_PAIRS[utility];
+    if (!pair || variants.includes('dark:')) continue;
+    // The component already chose a dark color for this utility
+    const prefix = `dark:${variants}${utility.split('-')[0]}-`;
+    if (tokens.some(other => other.startsWith(prefix))) continue;
+    added.push(`dark:${variants}${pair}${opacity}`);
+  }
+  return added.length > 0 ? `${classes.trimEnd()} ${added.join(' ')}` : classes;
+}
+
+/**
+ * Add the missing dark: variants to the className strings of a component
+ */
+export function addDarkVariantsToSource(source: string): string {
+  return source.replace(
+    /className=(?:"([^"]*)"|'([^']*)'|\{`([^`]*)`\})/g,
+    (match, double?: string, single?: string, template?: string) => {
+      if (double !== undefined) return `className="${addDarkClasses(double)}"`;
+      if (single !== undefined) return `className='${addDarkClasses(single)}'`;
+      // Classes inside \${...} expressions are quoted and don't match a bare class
+      return `className={\`${addDarkClasses(template as string)}\`}`;
+    }
+  );
+}
+
+/**
+ * Add the missing dark: variants to every component and page
+ * @returns Files that changed
+ */
+export async function addDarkVariants(fileTools: FileTools): Promise<string[]> {
+  const changed: string[] = [];
+  const files = await fileTools.list_files();
+  for (const file of files.filter(f => /^src\/(components|pages)\/.+\.jsx$/.test(f))) {
+    const code = await fileTools.read_file(file);
+    if (!code) continue;
+    const updated = addDarkVariantsToSource(code);
+    if (updated !== code) {
+      await fileTools.write_file(file, updated);
+      changed.push(file);
+    }
+  }
+  console.log(`🌙 Dark mode: added dark: variants in ${changed.length} file(s)`);
+  return changed;
+}
@@ -0,0 +1,102 @@
+/**
+ * Site Locales - Languages a generated (translated) website can be offered in
+ *
+ * Translated sites declare an ordered list of locale codes (the first one is the
+ * default language). Each locale gets its own src/locales/<code>.json file and a
+ * text direction, so RTL languages like Urdu or Persian work the same as Arabic.
+ *
+ * Shared by the pipeline (server) and the preview builder, so keep it free of
+ * server-only imports.
+ */
+
+export interface SiteLocale {
+  code: string;       // ISO 639-1 code, also the locale file name (src/locales/<code>.json)
+  name: string;       // English name, used in prompts
+  nativeName: string; // Name shown in the site's language switcher
+  dir: 'ltr' | 'rtl';
+}
+
+export const SITE_LOCALES: Record<string, SiteLocale> = {
+  en: { code: 'en', name: 'English', nativeName: 'English', dir: 'ltr' },
+  ar: { code: 'ar', name: 'Arabic', nativeName: 'العربية', dir: 'rtl' },
+  fr: { code: 'fr', name: 'French', nativeName: 'Français', dir: 'ltr' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español', dir: 'ltr' },
+  de: { code: 'de', name: 'German', nativeName: 'Deutsch', dir: 'ltr' },
+  it: { code: 'it', name: 'Italian', nativeName: 'Italiano', dir: 'ltr' },
+  pt: { code: 'pt', name: 'Portuguese', nativeName: 'Português', dir: 'ltr' },
+  tr: { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', dir: 'ltr' },
+  ru: { code: 'ru', name: 'Russian', nativeName: 'Русский', dir: 'ltr' },
+  zh: { code: 'zh', name: 'Chinese', nativeName: '中文', dir: 'ltr' },
+  hi: { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', dir: 'ltr' },
+  id: { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia', dir: 'ltr' },
+  ms: { code: 'ms', name: 'Malay', nativeName: 'Bahasa Melayu', dir: 'ltr' },
+  ur: { code: 'ur', name: 'Urdu', nativeName: 'اردو', dir: 'rtl' },
+  fa: { code: 'fa', name: 'Persian', nativeName: 'فارسی', dir: 'rtl' },
+  he: { code: 'he', name: 'Hebrew', nativeName: 'עברית', dir: 'rtl' },
+};
+
+// Locales of a translated site when none are requested
+export const DEFAULT_SITE_LOCALES = ['en', 'ar'];
+
+export const LOCALES_DIR = 'src/locales/';
+
+export function isSupportedLocale(code: unknown): code is string {
+  return typeof code === 'string' && code in SITE_LOCALES;
+}
+
+/**
+ * Get a locale's settings - unknown codes fall back to a left-to-right locale named after the code
+ */
+export function getSiteLocale(code: string): SiteLocale {
+  return SITE_LOCALES[code] || { code, name: code, nativeName: code, dir: 'ltr' };
+}
+
+/**
+ * Clean up a requested locale list: lowercase, drop unsupported codes and duplicates, keep order
+ */
+export function normalizeLocales(codes: unknown): string[] {
+  if (!Array.isArray(codes)) {
+    return [];
+  }
+  const normalized = codes
+    .map(code => String(code).toLowerCase().trim().split(/[-_]/)[0])
+    .filter(isSupportedLocale);
+  return Array.from(new Set(normalized));
+}
+
+export function getLocalePath(code: string): string {
+  return `${LOCALES_DIR}${code}.json`;
+}
+
+/**
+ * Locale code of a locale file path ("src/locales/fr.json" -> "fr"), null for other files
+ */
+export function localeFromPath(path: string): string | null {
+  const match = path.match(/^src\/locales\/([\w-]+)\.json$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Locales of an existing site, from its locale files
+ * The declared order comes from the LOCALES list in src/i18n.js when available;
+ * otherwise English and Arabic come first, then the rest alphabetically
+ */
+export function getLocalesFromFiles(paths: string[], i18nSource = ''): string[] {
+  const codes = paths
+    .map(localeFromPath)
+    .filter((code): code is string => code !== null);
+
+  const declared = (i18nSource.match(/LOCALES\s*=\s*\[([^\]]*)\]/)?.[1] || '')
+    .split(',')
+    .map(code => code.replace(/['"\s]/g, ''))
+    .filter(code => codes.includes(code));
+
+  const rank = (code: string) => {
+    const index = DEFAULT_SITE_LOCALES.indexOf(code);
+    return index === -1 ? DEFAULT_SITE_LOCALES.length : index;
+  };
+  const rest = codes
+    .filter(code => !declared.includes(code))
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  return [...declared, ...rest];
+}
@@ -0,0 +1,69 @@
+/**
+ * Site Numerals - Western (123) or Eastern Arabic (١٢٣) digits in Arabic text
+ *
+ * Sites with Arabic get src/numerals.js, static code with one setting. Components
+ * show prices, phone numbers and stats through formatNumerals() (n() from
+ * useLanguage() on translated sites), which converts the digits in the Arabic
+ * locale when the style is "eastern". Changing the style rewrites that file only.
+ *
+ * Shared by the pipeline (server) and the preview builder, so keep it free of
+ * server-only imports.
+ */
+
+export type NumeralStyle = 'western' | 'eastern';
+
+export const NUMERAL_STYLES: NumeralStyle[] = ['western', 'eastern'];
+
+export const NUMERALS_PATH = 'src/numerals.js';
+
+export function isNumeralStyle(value: unknown): value is NumeralStyle {
+  return typeof value === 'string' && NUMERAL_STYLES.includes(value as NumeralStyle);
+}
+
+/**
+ * src/numerals.js for a numeral style
+ */
+export function buildNumeralsSource(style: NumeralStyle): string {
+  return `// Digits in Arabic text: 'western' (123) or 'eastern' (١٢٣) - set from the site settings
+export const NUMERAL_STYLE = '${style}';
+
+const EASTERN_DIGITS = ['٠', '١', '٢', '٣', '٤', '٥', '٦', '٧', '٨', '٩'];
+
+// Show a price, phone number or stat in the site's numeral style.
+// Only Arabic text changes - keep raw values in links (tel:, mailto:) and inputs.
+export function formatNumerals(value, locale = 'ar') {
+  const text = value === undefined || value === null ? '' : String(value);
+  if (NUMERAL_STYLE !== 'eastern' || !String(locale).startsWith('ar')) {
+    return text;
+  }
+  return text
+    .replace(/(\\d),(?=\\d{3}(\\D|$))/g, '$1٬')
+    .replace(/(\\d)\\.(?=\\d)/g, '$1٫')
+    .replace(/\\d/g, (digit) => EASTERN_DIGITS[Number(digit)]);
+}
+`;
+}
+
+/**
+ * Read the style of src/numerals.js - null when the file is missing (English-only or older sites)
+ */
+export function parseNumeralStyle(content: string | null | undefined): NumeralStyle | null {
+  const match = content ? /NUMERAL_STYLE\s*=\s*['"](\w+)['"]/.exec(content) : null;
+  return match && isNumeralStyle(match[1]) ? match[1] : null;
+}
+
+/**
+ * Component prompt rules for showing numbers through the numerals helper
+ */
+export function describeNumeralUsage(isBilingual: boolean): string {
+  const usage = isBilingual
+    ? `- Use: const { t, n } = useLanguage() and render numbers with n(...): {n(item.price)}, {n(t('contact.phone'))}, {n(stat.value)}`
+    : `- Import: import { formatNumerals } from '../numerals.js'
+- Write numbers with Western digits and render them with formatNumerals(...): {formatNumerals('35 ر.س')}, {formatNumerals('+966 50 123 4567')}`;
+  return `
+NUMBERS (prices, phone numbers, stats, years, opening hours):
+${usage}
+- Keep raw values in attributes: href={\`tel:\${phone}\`}, value, type="number" inputs - never format those
+- Phone numbers read left to right: wrap them in <span dir="ltr">...</span>
+`;
+}
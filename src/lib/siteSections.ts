@@ -0,0 +1,267 @@
+/**
+ * Site Sections - The order of the sections on a single-page site
+ *
+ * App.jsx renders one self-closing tag per section component, and the navbar
+ * links to each section by its id (#hero, #menu...). Reordering rewrites the
+ * tags of App.jsx and the navbar's link arrays - both its own hrefs and the
+ * navbar.links labels of the locale files - so no component is regenerated.
+ * Navbar and Footer are pinned first and last.
+ *
+ * Shared by the pipeline (server) and the sections API, so keep it free of
+ * server-only imports.
+ */
+
+import type { ProjectFiles } from './buildService';
+import { localeFromPath } from './siteLocales';
+
+export const APP_PATH = 'src/App.jsx';
+
+export interface PageSection {
+  componentName: string;
+  id: string; // Anchor the navbar links to (#id)
+  pinned: boolean; // Navbar and Footer don't move
+}
+
+/**
+ * Navbar stays first and Footer last - every other section goes where the user put it
+ */
+export function isPinnedSection(componentName: string): boolean {
+  return componentName === 'Navbar' || componentName.includes('Footer');
+}
+
+/**
+ * Order the components of App.jsx: the navbar, the sections in the given (plan) order, the footer
+ */
+export function orderPageComponents(componentNames: string[]): string[] {
+  const rank = (name: string) => name === 'Navbar' ? 0 : name.includes('Footer') ? 2 : 1;
+  // Array.prototype.sort is stable, so sections keep their plan order
+  return [...componentNames].sort((a, b) => rank(a) - rank(b));
+}
+
+// A section tag on its own line: <Hero />
+const SECTION_TAG = /^([ \t]*)<([A-Z][A-Za-z0-9]*)\s*\/>[ \t]*$/gm;
+
+/**
+ * Sections of a single-page site, in the order App.jsx renders them
+ * @returns null for multi-page sites (their sections live in the pages) and builds without App.jsx
+ */
+export function getPageSections(files: ProjectFiles): PageSection[] | null {
+  const app = files[APP_PATH];
+  if (!app || app.includes('<RouteView')) {
+    return null;
+  }
+
+  const sections: PageSection[] = [];
+  for (const match of Array.from(app.matchAll(SECTION_TAG))) {
+    const componentName = match[2];
+    const source = files[`src/components/${componentName}.jsx`];
+    if (source === undefined || sections.some(section => section.componentName === componentName)) continue;
+    sections.push({
+      componentName,
+      id: /\bid=["']([\w-]+)["']/.exec(source)?.[1] || componentName.toLowerCase(),
+      pinned: isPinnedSection(componentName),
+    });
+  }
+  return sections;
+}
+
+/**
+ * Put the section tags of App.jsx in the given order (pinned tags stay where they are)
+ */
+function reorderAppSource(source: string, order: string[]): string {
+  const queue = [...order];
+  return source.replace(SECTION_TAG, (line, indent: string, name: string) =>
+    order.includes(name) ? `${indent}<${queue.shift()} />` : line
+  );
+}
+
+interface ArrayElement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Elements of the array literals assigned in a source file (const links = [...])
+ */
+function findArrayLiterals(source: string): ArrayElement[][] {
+  const arrays: ArrayElement[][] = [];
+  const assignment = /=\s*\[/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = assignment.exec(source)) !== null) {
+    const elements: ArrayElement[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let elementStart = match.index + match[0].length;
+    let index = elementStart;
+
+    const pushElement = (end: number) => {
+      const raw = source.slice(elementStart, end);
+      const text = raw.trim();
+      if (text) {
+        const start = elementStart + raw.indexOf(text);
+        elements.push({ start, end: start + text.length, text });
+      }
+    };
+
+    for (; index < source.length; index++) {
+      const char = source[index];
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '[' || char === '{' || char === '(') {
+        depth++;
+      } else if (char === ')' || char === '}' || (char === ']' && depth > 0)) {
+        depth--;
+      } else if (char === ']') {
+        pushElement(index);
+        break;
+      } else if (char === ',' && depth === 0) {
+        pushElement(index);
+        elementStart = index + 1;
+      }
+    }
+
+    arrays.push(elements);
+    assignment.lastIndex = index;
+  }
+  return arrays;
+}
+
+// '#hero' in a plain href array, or href: '#hero' in an array of links
+function getLinkHref(element: string): string | null {
+  return /^['"](#[\w-]*)['"]$/.exec(element)?.[1] || /\bhref:\s*['"](#[\w-]*)['"]/.exec(element)?.[1] || null;
+}
+
+/**
+ * New order of a list of links: the links to sections follow the section order,
+ * other links (#, external pages) keep their slot
+ * @returns Old index of each new position, null when the list isn't a list of section links
+ */
+function reorderLinks(hrefs: Array<string | null>, hrefOrder: string[]): number[] | null {
+  const rank = (href: string | null) => href ? hrefOrder.indexOf(href) : -1;
+  const slots = hrefs.map((href, index) => index).filter(index => rank(hrefs[index]) !== -1);
+  if (hrefs.some(href => href === null) || slots.length < 2) {
+    return null;
+  }
+  const sorted = [...slots].sort((a, b) => rank(hrefs[a]) - rank(hrefs[b]));
+  const moves = hrefs.map((href, index) => index);
+  slots.forEach((slot, position) => {
+    moves[slot] = sorted[position];
+  });
+  return moves;
+}
+
+/**
+ * Reorder the link arrays of the navbar
+ * @returns The new source and, for a plain href array (linkHrefs), the moves to apply to the navbar.links labels
+ */
+function reorderNavbarSource(source: string, hrefOrder: string[]): { source: string; labelMoves: number[] | null } {
+  let updated = source;
+  let labelMoves: number[] | null = null;
+
+  // From the last array to the first, so earlier offsets stay valid
+  for (const elements of findArrayLiterals(source).reverse()) {
+    const moves = reorderLinks(elements.map(element => getLinkHref(element.text)), hrefOrder);
+    if (!moves) continue;
+    if (elements.every(element => /^['"]/.test(element.text))) {
+      labelMoves = moves;
+    }
+    for (let index = elements.length - 1; index >= 0; index--) {
+      const { start, end } = elements[index];
+      updated = updated.slice(0, start) + elements[moves[index]].text + updated.slice(end);
+    }
+  }
+  return { source: updated, labelMoves };
+}
+
+/**
+ * Reorder navbar.links in a locale file - links with an href follow the section order,
+ * plain labels follow the navbar's href array
+ */
+function reorderLocaleLinks(content: string, hrefOrder: string[], labelMoves: number[] | null): string {
+  let locale: Record<string, unknown>;
+  try {
+    locale = JSON.parse(content);
+  } catch {
+    return content;
+  }
+
+  const navbar = locale.navbar as Record<string, unknown> | undefined;
+  const links = navbar?.links;
+  if (!navbar || !Array.isArray(links)) {
+    return content;
+  }
+
+  const hrefs = links.map(link => link && typeof link === 'object' && typeof (link as { href?: unknown }).href === 'string'
+    ? (link as { href: string }).href
+    : null);
+  const moves = reorderLinks(hrefs, hrefOrder)
+    || (labelMoves && labelMoves.length === links.length && links.every(link => typeof link === 'string') ? labelMoves : null);
+  if (!moves || moves.every((from, index) => from === index)) {
+    return content;
+  }
+
+  navbar.links = moves.map(from => links[from]);
+  return JSON.stringify(locale, null, 2);
+}
+
+/**
+ * Why a new order can't be applied to a build
+ * @returns null when the order can be applied
+ */
+export function checkSectionOrder(files: ProjectFiles, order: string[]): string | null {
+  const sections = getPageSections(files);
+  if (!sections) {
+    return 'Sections can only be reordered on single-page sites';
+  }
+
+  const movable = sections.filter(section => !section.pinned).map(section => section.componentName);
+  if (order.length !== movable.length || new Set(order).size !== order.length || order.some(name => !movable.includes(name))) {
+    return `The new order must list each of these sections once: ${movable.join(', ')}`;
+  }
+
+  // Each section tag is swapped for the next one in the order, so a section rendered twice can't be moved
+  const tags = Array.from(files[APP_PATH].matchAll(SECTION_TAG)).map(match => match[2]);
+  const repeated = movable.filter(name => tags.filter(tag => tag === name).length > 1);
+  if (repeated.length > 0) {
+    return `App.jsx renders ${repeated.join(', ')} more than once - ask for the new order in the chat instead`;
+  }
+  return null;
+}
+
+/**
+ * Files to rewrite to show a single-page site's sections in a new order
+ * @param order - Component names of every section that isn't pinned, in the new order
+ */
+export function reorderSections(files: ProjectFiles, order: string[]): ProjectFiles {
+  const problem = checkSectionOrder(files, order);
+  if (problem) {
+    throw new Error(problem);
+  }
+  const sections = getPageSections(files) || [];
+
+  const updates: ProjectFiles = { [APP_PATH]: reorderAppSource(files[APP_PATH], order) };
+
+  // Pinned sections keep their place around the reordered ones
+  const queue = [...order];
+  const idOf = new Map(sections.map(section => [section.componentName, section.id]));
+  const hrefOrder = sections.map(section => `#${section.pinned ? section.id : idOf.get(queue.shift() as string)}`);
+
+  const navbarPath = 'src/components/Navbar.jsx';
+  let labelMoves: number[] | null = null;
+  if (files[navbarPath]) {
+    const navbar = reorderNavbarSource(files[navbarPath], hrefOrder);
+    updates[navbarPath] = navbar.source;
+    labelMoves = navbar.labelMoves;
+  }
+  for (const path of Object.keys(files).filter(path => localeFromPath(path))) {
+    updates[path] = reorderLocaleLinks(files[path], hrefOrder, labelMoves);
+  }
+
+  // Only the files that changed
+  return Object.fromEntries(Object.entries(updates).filter(([path, content]) => files[path] !== content));
+}
@@ -0,0 +1,290 @@
+/**
+ * Site SEO - Search and social metadata for generated websites
+ *
+ * The planner writes a title, meta description, keywords and Open Graph / Twitter
+ * card text for every site locale. It is saved as src/seo.json and turned into:
+ * - Head tags (description, keywords, Open Graph, Twitter card, hreflang alternates)
+ * - schema.org JSON-LD for the industry (Restaurant, MedicalClinic, LocalBusiness)
+ * - sitemap.xml and robots.txt, which need the site's public URL (known at deploy)
+ *
+ * Translated sites switch language in the browser, so each locale is addressed as
+ * `/?lang=<code>` (src/i18n.js starts in that language).
+ *
+ * Shared by the pipeline (server) and the preview builder, so keep it free of
+ * server-only imports.
+ */
+
+import { getSiteLocale } from './siteLocales';
+
+export interface SeoText {
+  title: string;         // <title>, up to ~60 characters
+  description: string;   // Meta description, up to ~160 characters
+  keywords: string[];
+  ogTitle: string;       // Title when shared (Open Graph / Twitter card)
+  ogDescription: string; // Description when shared
+}
+
+export type SeoSchemaType = 'Restaurant' | 'MedicalClinic' | 'LocalBusiness';
+
+export interface SiteSeo {
+  name: string;                   // Business name (og:site_name, JSON-LD)
+  schemaType: SeoSchemaType;
+  texts: Record<string, SeoText>; // Per site locale, default locale first
+  pages: string[];                // Route paths for the sitemap ("/" and, on multi-page sites, "/menu"...)
+}
+
+export const SEO_PATH = 'src/seo.json';
+
+const MAX_TITLE_LENGTH = 70;
+const MAX_DESCRIPTION_LENGTH = 160;
+const MAX_KEYWORDS = 12;
+
+// Open Graph wants language_TERRITORY locales
+const OG_LOCALES: Record<string, string> = {
+  en: 'en_US', ar: 'ar_AR', fr: 'fr_FR', es: 'es_ES', de: 'de_DE', it: 'it_IT', pt: 'pt_PT', tr: 'tr_TR',
+  ru: 'ru_RU', zh: 'zh_CN', hi: 'hi_IN', id: 'id_ID', ms: 'ms_MY', ur: 'ur_PK', fa: 'fa_IR', he: 'he_IL',
+};
+
+/**
+ * schema.org type for an industry
+ */
+export function getSeoSchemaType(industry: string): SeoSchemaType {
+  const value = industry.toLowerCase();
+  if (/restaurant|cafe|coffee|bakery|food/.test(value)) {
+    return 'Restaurant';
+  }
+  if (/clinic|medical|dental|health|doctor|hospital/.test(value)) {
+    return 'MedicalClinic';
+  }
+  return 'LocalBusiness';
+}
+
+function cleanText(value: unknown, maxLength: number): string {
+  if (typeof value !== 'string') return '';
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.substring(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function cleanKeywords(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,،]/) : [];
+  return Array.from(new Set(list.map(keyword => cleanText(keyword, 50)).filter(Boolean))).slice(0, MAX_KEYWORDS);
+}
+
+/**
+ * Validate SEO text from the planner, filling gaps so every locale has every field
+ * Locales the planner skipped borrow another locale's text, then the project name
+ */
+export function normalizeSeo(
+  raw: unknown,
+  site: { projectName: string; industry: string; locales: string[]; pages?: string[] }
+): SiteSeo {
+  const input = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  // The planner may return { en: {...} } or { texts: { en: {...} } }
+  const rawTexts = (typeof input.texts === 'object' && input.texts !== null ? input.texts : input) as Record<string, unknown>;
+  const locales = site.locales.length > 0 ? site.locales : ['en'];
+
+  const parsed: Record<string, Partial<SeoText>> = {};
+  for (const code of locales) {
+    const entry = (typeof rawTexts[code] === 'object' && rawTexts[code] !== null ? rawTexts[code] : {}) as Record<string, unknown>;
+    parsed[code] = {
+      title: cleanText(entry.title, MAX_TITLE_LENGTH),
+      description: cleanText(entry.description, MAX_DESCRIPTION_LENGTH),
+      keywords: cleanKeywords(entry.keywords),
+      ogTitle: cleanText(entry.ogTitle, MAX_TITLE_LENGTH),
+      ogDescription: cleanText(entry.ogDescription, MAX_DESCRIPTION_LENGTH * 2),
+    };
+  }
+
+  const fallback = locales.map(code => parsed[code]).find(text => text.title && text.description) || {};
+  const texts: Record<string, SeoText> = {};
+  for (const code of locales) {
+    const text = parsed[code];
+    const title = text.title || fallback.title || site.projectName;
+    const description = text.description || fallback.description || title;
+    texts[code] = {
+      title,
+      description,
+      keywords: text.keywords && text.keywords.length > 0 ? text.keywords : fallback.keywords || [],
+      ogTitle: text.ogTitle || title,
+      ogDescription: text.ogDescription || description,
+    };
+  }
+
+  const pages = Array.from(new Set(['/', ...(site.pages || []).filter(path => /^\/[\w\-/]*$/.test(path))]));
+  return { name: site.projectName, schemaType: getSeoSchemaType(site.industry), texts, pages };
+}
+
+/**
+ * Read src/seo.json - null when the file is missing or invalid (sites generated before SEO)
+ */
+export function parseSeoFile(content: string | null | undefined): SiteSeo | null {
+  if (!content) return null;
+  try {
+    const seo = JSON.parse(content) as SiteSeo;
+    if (!seo || typeof seo.texts !== 'object' || Object.keys(seo.texts).length === 0) {
+      return null;
+    }
+    return {
+      name: typeof seo.name === 'string' && seo.name ? seo.name : Object.values(seo.texts)[0].title,
+      schemaType: ['Restaurant', 'MedicalClinic', 'LocalBusiness'].includes(seo.schemaType) ? seo.schemaType : 'LocalBusiness',
+      texts: seo.texts,
+      pages: Array.isArray(seo.pages) && seo.pages.length > 0 ? seo.pages : ['/'],
+    };
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function trimUrl(siteUrl: string): string {
+  return siteUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Public URL of a locale's version of a page - the default locale has no ?lang
+ */
+function getLocaleUrl(siteUrl: string, path: string, code: string, defaultLocale: string): string {
+  const url = `${trimUrl(siteUrl)}${path}`;
+  return code === defaultLocale ? url : `${url}?lang=${code}`;
+}
+
+/**
+ * SEO text for a locale, falling back to the default locale
+ */
+export function getSeoText(seo: SiteSeo, locale: string): SeoText {
+  return seo.texts[locale] || Object.values(seo.texts)[0];
+}
+
+/**
+ * schema.org JSON-LD describing the business, as a <script> tag
+ */
+export function buildSeoJsonLd(
+  seo: SiteSeo,
+  options: { locale: string; siteUrl?: string; imageUrl?: string }
+): string {
+  const text = getSeoText(seo, options.locale);
+  const data: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': seo.schemaType,
+    name: seo.name,
+    description: text.description,
+    inLanguage: Object.keys(seo.texts),
+  };
+  if (options.siteUrl) data.url = `${trimUrl(options.siteUrl)}/`;
+  if (options.imageUrl) data.image = options.imageUrl;
+  if (text.keywords.length > 0) data.keywords = text.keywords.join(', ');
+
+  // "<" is escaped so text can't close the script tag
+  return `<script type="application/ld+json">${JSON.stringify(data).replace(/</g, '\\u003c')}</script>`;
+}
+
+/**
+ * Head tags for a site: description, keywords, Open Graph, Twitter card and JSON-LD
+ * canonical, og:url and hreflang alternates need the siteUrl; og:image and twitter:image the imageUrl
+ */
+export function buildSeoHeadTags(
+  seo: SiteSeo,
+  options: { locale: string; siteUrl?: string; imageUrl?: string }
+): string {
+  const { locale, siteUrl, imageUrl } = options;
+  const text = getSeoText(seo, locale);
+  const codes = Object.keys(seo.texts);
+  const defaultLocale = codes[0];
+  const ogLocale = (code: string) => OG_LOCALES[code] || code;
+
+  const tags = [
+    `<meta name="description" content="${escapeHtml(text.description)}" />`,
+    text.keywords.length > 0 ? `<meta name="keywords" content="${escapeHtml(text.keywords.join(', '))}" />` : '',
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:site_name" content="${escapeHtml(seo.name)}" />`,
+    `<meta property="og:title" content="${escapeHtml(text.ogTitle)}" />`,
+    `<meta property="og:description" content="${escapeHtml(text.ogDescription)}" />`,
+    `<meta property="og:locale" content="${ogLocale(locale)}" />`,
+    ...codes.filter(code => code !== locale).map(code => `<meta property="og:locale:alternate" content="${ogLocale(code)}" />`),
+    `<meta name="twitter:card" content="${imageUrl ? 'summary_large_image' : 'summary'}" />`,
+    `<meta name="twitter:title" content="${escapeHtml(text.ogTitle)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(text.ogDescription)}" />`,
+  ];
+
+  if (imageUrl) {
+    tags.push(
+      `<meta property="og:image" content="${escapeHtml(imageUrl)}" />`,
+      `<meta name="twitter:image" content="${escapeHtml(imageUrl)}" />`
+    );
+  }
+
+  if (siteUrl) {
+    tags.push(
+      `<link rel="canonical" href="${escapeHtml(getLocaleUrl(siteUrl, '/', locale, defaultLocale))}" />`,
+      `<meta property="og:url" content="${escapeHtml(getLocaleUrl(siteUrl, '/', locale, defaultLocale))}" />`
+    );
+    if (codes.length > 1) {
+      tags.push(
+        ...codes.map(code => `<link rel="alternate" hreflang="${code}" href="${escapeHtml(getLocaleUrl(siteUrl, '/', code, defaultLocale))}" />`),
+        `<link rel="alternate" hreflang="x-default" href="${escapeHtml(`${trimUrl(siteUrl)}/`)}" />`
+      );
+    }
+  }
+
+  tags.push(buildSeoJsonLd(seo, options));
+  return tags.filter(Boolean).join('\n    ');
+}
+
+/**
+ * sitemap.xml - every page, with hreflang alternates on translated sites
+ */
+export function buildSitemap(seo: SiteSeo, siteUrl: string, lastModified = new Date()): string {
+  const codes = Object.keys(seo.texts);
+  const defaultLocale = codes[0];
+  const lastmod = lastModified.toISOString().split('T')[0];
+
+  const urls = seo.pages.flatMap(path => codes.map(code => {
+    const alternates = codes.length > 1
+      ? codes.map(alternate =>
+        `    <xhtml:link rel="alternate" hreflang="${alternate}" href="${escapeHtml(getLocaleUrl(siteUrl, path, alternate, defaultLocale))}" />`
+      ).join('\n') + '\n'
+      : '';
+    return `  <url>
+    <loc>${escapeHtml(getLocaleUrl(siteUrl, path, code, defaultLocale))}</loc>
+${alternates}    <lastmod>${lastmod}</lastmod>
+  </url>`;
+  }));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls.join('\n')}
+</urlset>
+`;
+}
+
+/**
+ * robots.txt - allow everything and point crawlers at the sitemap
+ */
+export function buildRobotsTxt(siteUrl: string): string {
+  return `User-agent: *
+Allow: /
+
+Sitemap: ${trimUrl(siteUrl)}/sitemap.xml
+`;
+}
+
+/**
+ * Planner prompt text describing the "seo" field for the site's languages
+ */
+export function describeSeoPlan(locales: string[]): string {
+  const names = locales.map(code => `"${code}" (${getSiteLocale(code).name})`).join(', ');
+  return `"seo": one entry per site language - ${names} - each written in that language:
+  { "title": "...", "description": "...", "keywords": ["...", "..."], "ogTitle": "...", "ogDescription": "..." }
+- title: up to 60 characters, brand name first
+- description: 120-160 characters, what the business offers and where
+- keywords: 5-10 search phrases people would use to find this business
+- ogTitle / ogDescription: catchier text for when the link is shared on social media
+If you list other "locales", write one entry per listed locale instead.`;
+}
@@ -0,0 +1,423 @@
+/**
+ * Site Theme - Design tokens for generated websites
+ *
+ * The planner extracts a theme (palette, typography, radius, spacing) from the
+ * prompt. Arabic text gets its own font and line height (Arabic script needs
+ * more room for its ascenders, descenders and dots than Latin). It is saved as src/theme.json and compiled into tailwind.config.js as
+ * named tokens, so components use classes like bg-primary, text-foreground,
+ * font-heading, rounded-theme and py-section instead of raw Tailwind colors.
+ * Changing the theme rewrites the tokens only - components stay untouched.
+ * Sites with dark mode (see siteDarkMode) also get dark-* tokens for their
+ * dark: variants.
+ *
+ * Shared by the pipeline (server) and the preview builder, so keep it free of
+ * server-only imports.
+ */
+
+export interface ThemePalette {
+  primary: string;    // Main brand color (buttons, links, highlights)
+  secondary: string;  // Supporting brand color
+  accent: string;     // Small highlights (badges, icons)
+  background: string; // Page background
+  surface: string;    // Cards and alternating sections
+  foreground: string; // Headings and body text
+  muted: string;      // Secondary text
+}
+
+// Colors of the dark color scheme - brand colors (primary, secondary, accent) are shared
+export type ThemeDarkPalette = Pick<ThemePalette, 'background' | 'surface' | 'foreground' | 'muted'>;
+
+export type ThemeRadius = 'none' | 'sm' | 'md' | 'lg' | 'xl';
+export type ThemeSpacing = 'compact' | 'comfortable' | 'spacious';
+
+export interface SiteTheme {
+  palette: ThemePalette;
+  darkPalette: ThemeDarkPalette; // Used by dark: variants, only on sites with dark mode
+  typography: {
+    heading: string; // Google Fonts family for headings
+    body: string;    // Google Fonts family for body text
+    arabic: string;  // Google Fonts family for Arabic (RTL) text
+    arabicLineHeight: number; // Line height of Arabic body text (1.5-2.2)
+  };
+  radius: ThemeRadius;
+  spacing: ThemeSpacing;
+}
+
+export const THEME_PATH = 'src/theme.json';
+
+export const DEFAULT_THEME: SiteTheme = {
+  palette: {
+    primary: '#2563eb',
+    secondary: '#4f46e5',
+    accent: '#f59e0b',
+    background: '#ffffff',
+    surface: '#f9fafb',
+    foreground: '#111827',
+    muted: '#4b5563',
+  },
+  darkPalette: {
+    background: '#0f172a',
+    surface: '#1e293b',
+    foreground: '#f1f5f9',
+    muted: '#94a3b8',
+  },
+  typography: {
+    heading: 'Poppins',
+    body: 'Inter',
+    arabic: 'Cairo',
+    arabicLineHeight: 1.8,
+  },
+  radius: 'lg',
+  spacing: 'comfortable',
+};
+
+// Fonts the planner may pick - all available on Google Fonts
+export const LATIN_FONTS = [
+  'Inter', 'Poppins', 'Roboto', 'Open Sans', 'Lato', 'Montserrat', 'Nunito', 'Raleway',
+  'Playfair Display', 'Merriweather', 'Lora', 'DM Sans', 'Work Sans', 'Space Grotesk', 'Outfit',
+  'IBM Plex Sans', 'Noto Sans',
+];
+export const ARABIC_FONTS = [
+  'Cairo', 'Tajawal', 'Almarai', 'IBM Plex Sans Arabic', 'Noto Kufi Arabic', 'Noto Naskh Arabic',
+  'Amiri', 'Changa', 'El Messiri', 'Readex Pro',
+];
+
+const ARABIC_LINE_HEIGHT = { min: 1.5, max: 2.2 };
+
+// Weights requested from Google Fonts - families without the default 300-800 range
+// must list exactly the weights they have, or the whole stylesheet request fails
+const DEFAULT_FONT_WEIGHTS = [300, 400, 500, 600, 700, 800];
+const FONT_WEIGHTS: Record<string, number[]> = {
+  'Merriweather': [300, 400, 700, 900],
+  'Lato': [300, 400, 700, 900],
+  'Lora': [400, 500, 600, 700],
+  'Space Grotesk': [300, 400, 500, 600, 700],
+  'IBM Plex Sans': [300, 400, 500, 600, 700],
+  'Tajawal': [300, 400, 500, 700, 800],
+  'Almarai': [300, 400, 700, 800],
+  'IBM Plex Sans Arabic': [300, 400, 500, 600, 700],
+  'Noto Naskh Arabic': [400, 500, 600, 700],
+  'Amiri': [400, 700],
+  'El Messiri': [400, 500, 600, 700],
+  'Readex Pro': [300, 400, 500, 600, 700],
+};
+
+/**
+ * Arabic typography pairings offered per project - an Arabic font, Latin fonts that
+ * sit well next to it on bilingual pages, and the line height its script needs
+ */
+export const ARABIC_TYPOGRAPHY: Array<{
+  id: string;
+  name: { en: string; ar: string };
+  typography: SiteTheme['typography'];
+}> = [
+  {
+    id: 'cairo',
+    name: { en: 'Cairo - modern', ar: 'القاهرة - عصري' },
+    typography: { arabic: 'Cairo', heading: 'Poppins', body: 'Inter', arabicLineHeight: 1.8 },
+  },
+  {
+    id: 'tajawal',
+    name: { en: 'Tajawal - clean', ar: 'تجوّل - واضح' },
+    typography: { arabic: 'Tajawal', heading: 'Montserrat', body: 'Open Sans', arabicLineHeight: 1.8 },
+  },
+  {
+    id: 'ibm-plex',
+    name: { en: 'IBM Plex Sans Arabic - technical', ar: 'IBM Plex - تقني' },
+    typography: { arabic: 'IBM Plex Sans Arabic', heading: 'IBM Plex Sans', body: 'IBM Plex Sans', arabicLineHeight: 1.8 },
+  },
+  {
+    id: 'noto-kufi',
+    name: { en: 'Noto Kufi Arabic - geometric', ar: 'نوتو كوفي - هندسي' },
+    typography: { arabic: 'Noto Kufi Arabic', heading: 'Noto Sans', body: 'Noto Sans', arabicLineHeight: 1.9 },
+  },
+  {
+    id: 'amiri',
+    name: { en: 'Amiri - classic naskh', ar: 'أميري - نسخ كلاسيكي' },
+    typography: { arabic: 'Amiri', heading: 'Playfair Display', body: 'Lora', arabicLineHeight: 2 },
+  },
+  {
+    id: 'almarai',
+    name: { en: 'Almarai - friendly', ar: 'المراعي - ودود' },
+    typography: { arabic: 'Almarai', heading: 'Nunito', body: 'Nunito', arabicLineHeight: 1.8 },
+  },
+];
+
+const RADIUS_VALUES: Record<ThemeRadius, string> = {
+  none: '0px',
+  sm: '0.25rem',
+  md: '0.5rem',
+  lg: '0.75rem',
+  xl: '1.25rem',
+};
+
+const SPACING_VALUES: Record<ThemeSpacing, { section: string; gutter: string }> = {
+  compact: { section: '3rem', gutter: '1rem' },
+  comfortable: { section: '5rem', gutter: '1.5rem' },
+  spacious: { section: '7rem', gutter: '2rem' },
+};
+
+/**
+ * Prompt text telling component generators which tokens exist
+ */
+export const THEME_TOKEN_GUIDE = `THEME TOKENS (defined in tailwind.config.js - ALWAYS use these instead of raw Tailwind colors like blue-600 or gray-900):
+- Colors: primary, primary-light, primary-dark, secondary, secondary-light, secondary-dark, accent, background, surface, foreground, muted
+  e.g. bg-primary hover:bg-primary-dark text-primary bg-surface bg-background text-foreground text-muted border-primary/20
+- Fonts: font-heading (headings), font-body (text), font-arabic (Arabic text), leading-arabic (Arabic line height)
+- Corners: rounded-theme for cards, buttons and images
+- Spacing: py-section for section padding, px-gutter / gap-gutter for horizontal padding and grid gaps
+- White/black text on colored backgrounds is fine (text-white on bg-primary)`;
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value.trim());
+}
+
+function pickFont(value: unknown, allowed: string[], fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const match = allowed.find(font => font.toLowerCase() === value.trim().toLowerCase());
+  return match || fallback;
+}
+
+function pickLineHeight(value: unknown, fallback: number): number {
+  const lineHeight = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof lineHeight !== 'number' || !Number.isFinite(lineHeight)) return fallback;
+  return Math.round(Math.min(ARABIC_LINE_HEIGHT.max, Math.max(ARABIC_LINE_HEIGHT.min, lineHeight)) * 100) / 100;
+}
+
+/**
+ * Validate a (partial) theme from the planner or a request, filling gaps from the base theme
+ */
+export function normalizeTheme(raw: unknown, base: SiteTheme = DEFAULT_THEME): SiteTheme {
+  const input = (typeof raw === 'object' && raw !== null ? raw : {}) as {
+    palette?: Partial<Record<keyof ThemePalette, unknown>>;
+    darkPalette?: Partial<Record<keyof ThemeDarkPalette, unknown>>;
+    typography?: Partial<Record<keyof SiteTheme['typography'], unknown>>;
+    radius?: unknown;
+    spacing?: unknown;
+  };
+
+  const palette = { ...base.palette };
+  for (const key of Object.keys(palette) as Array<keyof ThemePalette>) {
+    const value = input.palette?.[key];
+    if (isHexColor(value)) {
+      palette[key] = value.trim().toLowerCase();
+    }
+  }
+
+  // Themes saved before dark mode have no dark palette - start from the default one
+  const darkPalette = { ...(base.darkPalette || DEFAULT_THEME.darkPalette) };
+  for (const key of Object.keys(darkPalette) as Array<keyof ThemeDarkPalette>) {
+    const value = input.darkPalette?.[key];
+    if (isHexColor(value)) {
+      darkPalette[key] = value.trim().toLowerCase();
+    }
+  }
+
+  return {
+    palette,
+    darkPalette,
+    typography: {
+      heading: pickFont(input.typography?.heading, LATIN_FONTS, base.typography.heading),
+      body: pickFont(input.typography?.body, LATIN_FONTS, base.typography.body),
+      arabic: pickFont(input.typography?.arabic, ARABIC_FONTS, base.typography.arabic),
+      // Themes saved before line heights had none - fall back to the default, not NaN
+      arabicLineHeight: pickLineHeight(input.typography?.arabicLineHeight, base.typography.arabicLineHeight ?? DEFAULT_THEME.typography.arabicLineHeight),
+    },
+    radius: typeof input.radius === 'string' && input.radius in RADIUS_VALUES
+      ? input.radius as ThemeRadius
+      : base.radius,
+    spacing: typeof input.spacing === 'string' && input.spacing in SPACING_VALUES
+      ? input.spacing as ThemeSpacing
+      : base.spacing,
+  };
+}
+
+/**
+ * Read src/theme.json - null when the file is missing or invalid (sites generated before themes)
+ */
+export function parseThemeFile(content: string | null | undefined): SiteTheme | null {
+  if (!content) return null;
+  try {
+    return normalizeTheme(JSON.parse(content));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mix a hex color with white (amount > 0) or black (amount < 0)
+ */
+function shade(hex: string, amount: number): string {
+  const full = hex.length === 4
+    ? `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}`
+    : hex;
+  const target = amount > 0 ? 255 : 0;
+  const channels = [1, 3, 5].map(i => parseInt(full.substring(i, i + 2), 16));
+  return '#' + channels
+    .map(c => Math.round(c + (target - c) * Math.abs(amount)).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fontStack(font: string, fallback: string): string[] {
+  return [font, fallback];
+}
+
+/**
+ * Tailwind `theme.extend` for a theme - used by tailwind.config.js and the preview's Tailwind CDN
+ */
+export function getThemeTailwindExtend(theme: SiteTheme): Record<string, unknown> {
+  const { palette, typography } = theme;
+  const scale = (color: string) => ({
+    DEFAULT: color,
+    light: shade(color, 0.25),
+    dark: shade(color, -0.2),
+  });
+
+  return {
+    colors: {
+      primary: scale(palette.primary),
+      secondary: scale(palette.secondary),
+      accent: scale(palette.accent),
+      background: palette.background,
+      surface: palette.surface,
+      foreground: palette.foreground,
+      muted: palette.muted,
+      dark: { ...theme.darkPalette },
+    },
+    fontFamily: {
+      heading: fontStack(typography.heading, 'sans-serif'),
+      body: fontStack(typography.body, 'sans-serif'),
+      arabic: fontStack(typography.arabic, 'sans-serif'),
+    },
+    lineHeight: {
+      arabic: String(typography.arabicLineHeight),
+    },
+    borderRadius: {
+      theme: RADIUS_VALUES[theme.radius],
+    },
+    spacing: SPACING_VALUES[theme.spacing],
+  };
+}
+
+/**
+ * tailwind.config.js for a theme - generated, never hand-edited
+ * @param options.darkMode - The site has a dark mode toggle: dark: variants follow the "dark" class on <html>
+ */
+export function buildTailwindConfig(theme: SiteTheme, options: { darkMode?: boolean } = {}): string {
+  const extend = JSON.stringify(getThemeTailwindExtend(theme), null, 2)
+    .split('\n')
+    .join('\n    ');
+
+  return `/** @type {import('tailwindcss').Config} */
+// Theme tokens are generated from src/theme.json - change the theme there, not in components
+export default {
+  content: ['./index.html', './src/**/*.{js,jsx}'],${options.darkMode ? "\n  darkMode: 'class'," : ''}
+  theme: {
+    extend: ${extend},
+  },
+  plugins: [],
+};
+`;
+}
+
+/**
+ * Google Fonts stylesheet URL for the theme's fonts
+ */
+export function getThemeFontsUrl(theme: SiteTheme, options: { latin?: boolean; arabic?: boolean } = {}): string {
+  const { latin = true, arabic = true } = options;
+  const families = new Set<string>();
+  if (latin) {
+    families.add(theme.typography.heading);
+    families.add(theme.typography.body);
+  }
+  if (arabic) {
+    families.add(theme.typography.arabic);
+  }
+  const params = Array.from(families)
+    .map(family => `family=${family.replace(/ /g, '+')}:wght@${(FONT_WEIGHTS[family] || DEFAULT_FONT_WEIGHTS).join(';')}`)
+    .join('&');
+  return `https://fonts.googleapis.com/css2?${params}&display=swap`;
+}
+
+const FONT_LINKS_START = '<!-- theme-fonts -->';
+const FONT_LINKS_END = '<!-- /theme-fonts -->';
+
+/**
+ * Font <link> block for index.html, wrapped in markers so a theme change can swap it
+ */
+export function buildThemeFontLinks(theme: SiteTheme, options: { latin?: boolean; arabic?: boolean } = {}): string {
+  return [
+    FONT_LINKS_START,
+    '<link rel="preconnect" href="https://fonts.googleapis.com">',
+    '<link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>',
+    `<link href="${getThemeFontsUrl(theme, options)}" rel="stylesheet">`,
+    FONT_LINKS_END,
+  ].join('\n    ');
+}
+
+/**
+ * Swap the theme font block in index.html - sites without markers get the block before </head>
+ * and lose their old Google Fonts stylesheets
+ */
+export function replaceThemeFontLinks(html: string, fontLinks: string): string {
+  const start = html.indexOf(FONT_LINKS_START);
+  const end = html.indexOf(FONT_LINKS_END);
+  if (start !== -1 && end > start) {
+    return html.slice(0, start) + fontLinks + html.slice(end + FONT_LINKS_END.length);
+  }
+  const withoutFonts = html.replace(/[ \t]*<link[^>]*fonts\.(googleapis|gstatic)\.com[^>]*>[ \t]*\n?/g, '');
+  return withoutFonts.replace(/(\s*)<\/head>/, `\n    ${fontLinks}$1</head>`);
+}
+
+/**
+ * Theme presets offered by the "change theme" action
+ */
+export const THEME_PRESETS: Array<{ id: string; name: { en: string; ar: string }; theme: SiteTheme }> = [
+  {
+    id: 'ocean',
+    name: { en: 'Ocean', ar: 'المحيط' },
+    theme: normalizeTheme({
+      palette: { primary: '#0369a1', secondary: '#0891b2', accent: '#f59e0b', surface: '#f0f9ff', foreground: '#0c4a6e', muted: '#475569' },
+      typography: { heading: 'Montserrat', body: 'Inter', arabic: 'Cairo' },
+      radius: 'lg',
+    }),
+  },
+  {
+    id: 'forest',
+    name: { en: 'Forest', ar: 'الغابة' },
+    theme: normalizeTheme({
+      palette: { primary: '#15803d', secondary: '#65a30d', accent: '#ca8a04', surface: '#f0fdf4', foreground: '#14532d', muted: '#4b5563' },
+      typography: { heading: 'DM Sans', body: 'DM Sans', arabic: 'Tajawal' },
+      radius: 'md',
+    }),
+  },
+  {
+    id: 'desert',
+    name: { en: 'Desert', ar: 'الصحراء' },
+    theme: normalizeTheme({
+      palette: { primary: '#b45309', secondary: '#92400e', accent: '#0f766e', background: '#fffbf5', surface: '#fef3e2', foreground: '#451a03', muted: '#78716c' },
+      typography: { heading: 'Playfair Display', body: 'Lato', arabic: 'El Messiri' },
+      radius: 'sm',
+      spacing: 'spacious',
+    }),
+  },
+  {
+    id: 'midnight',
+    name: { en: 'Midnight', ar: 'منتصف الليل' },
+    theme: normalizeTheme({
+      palette: { primary: '#8b5cf6', secondary: '#6366f1', accent: '#22d3ee', background: '#0f172a', surface: '#1e293b', foreground: '#f1f5f9', muted: '#94a3b8' },
+      typography: { heading: 'Space Grotesk', body: 'Inter', arabic: 'IBM Plex Sans Arabic' },
+      radius: 'xl',
+    }),
+  },
+  {
+    id: 'minimal',
+    name: { en: 'Minimal', ar: 'بسيط' },
+    theme: normalizeTheme({
+      palette: { primary: '#111827', secondary: '#374151', accent: '#ef4444', surface: '#f3f4f6', foreground: '#111827', muted: '#6b7280' },
+      typography: { heading: 'Outfit', body: 'Work Sans', arabic: 'Readex Pro' },
+      radius: 'none',
+      spacing: 'spacious',
+    }),
+  },
+];
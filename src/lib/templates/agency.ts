@@ -0,0 +1,186 @@
+import type { StarterTemplate } from './types';
+
+const image = (id: string) => `https://images.unsplash.com/photo-${id}?auto=format&fit=crop&w=900&q=80`;
+
+export const agencyTemplate: StarterTemplate = {
+  id: 'agency',
+  version: '1.0.0',
+  name: 'Agency',
+  industries: ['agency', 'marketing', 'studio', 'consulting', 'consultancy', 'creative'],
+  sections: ['hero', 'about', 'services', 'portfolio', 'team', 'pricing', 'testimonials', 'contact'],
+  theme: {
+    palette: { primary: '#e11d48', secondary: '#f97316', accent: '#0ea5e9', background: '#ffffff', surface: '#fff1f2', foreground: '#111827', muted: '#6b7280' },
+    typography: { heading: 'Montserrat', body: 'DM Sans', arabic: 'Changa' },
+    radius: 'md',
+  },
+  content: {
+    en: {
+      navbar: { logo: 'Spark Studio', hero: 'Home', about: 'About', services: 'Services', portfolio: 'Work', team: 'Team', pricing: 'Packages', testimonials: 'Clients', contact: 'Contact' },
+      hero: {
+        title: 'We build brands that stand out',
+        subtitle: 'Strategy, design and digital marketing for ambitious companies in the region and beyond.',
+        cta: 'Start a Project',
+        secondaryCta: 'Who We Are',
+        image: image('1522071820081-009f0129c71c'),
+      },
+      about: {
+        title: 'Who We Are',
+        text: 'Spark Studio is a team of strategists, designers and marketers. We partner closely with our clients to create work that looks great and drives real results.',
+        image: image('1552664730-d307ca884978'),
+        stats: [
+          { value: '10+', label: 'Years in business' },
+          { value: '150+', label: 'Projects launched' },
+          { value: '12', label: 'Industry awards' },
+        ],
+      },
+      services: {
+        title: 'What We Do',
+        subtitle: 'End-to-end services to grow your brand.',
+        items: [
+          { icon: '🎯', title: 'Brand Strategy', description: 'Positioning, messaging and research that guide every decision.' },
+          { icon: '🎨', title: 'Visual Identity', description: 'Logos, typography and design systems.' },
+          { icon: '🌐', title: 'Web Design', description: 'Fast, beautiful websites that convert.' },
+          { icon: '📣', title: 'Social Media', description: 'Content and campaigns that build communities.' },
+          { icon: '📈', title: 'Performance Marketing', description: 'Paid campaigns measured by real results.' },
+          { icon: '🎬', title: 'Video Production', description: 'Stories that bring your brand to life.' },
+        ],
+      },
+      portfolio: {
+        title: 'Our Work',
+        subtitle: 'Recent projects for clients we love.',
+        items: [
+          { title: 'Oasis Hotels', description: 'Brand identity and website', image: image('1497366216548-37526070297c') },
+          { title: 'Nomad Coffee', description: 'Packaging and social campaign', image: image('1509042239860-f550ce710b93') },
+          { title: 'Pulse Fitness', description: 'App launch campaign', image: image('1534438327276-14e5300c3a48') },
+        ],
+      },
+      team: {
+        title: 'Meet the Team',
+        subtitle: 'The people behind the work.',
+        items: [
+          { name: 'Yousef Adel', role: 'Creative Director', bio: 'Leads every project from idea to launch.', image: image('1507003211169-0a1dd7228f2d') },
+          { name: 'Reem Saleh', role: 'Head of Strategy', bio: 'Turns research into clear brand direction.', image: image('1494790108377-be9c29b29330') },
+          { name: 'Daniel Cole', role: 'Lead Designer', bio: 'Crafts identities and digital experiences.', image: image('1500648767791-00dcc994a43e') },
+        ],
+      },
+      pricing: {
+        title: 'Packages',
+        subtitle: 'Flexible options for every stage of growth.',
+        plans: [
+          { name: 'Launch', price: '$2,500', period: 'one-time', description: 'For new businesses.', features: ['Logo & brand kit', 'One-page website', 'Social media templates'], cta: 'Get Started', featured: false },
+          { name: 'Grow', price: '$1,800', period: '/month', description: 'For brands ready to scale.', features: ['Monthly content plan', 'Ad campaign management', 'Analytics reports', 'Dedicated manager'], cta: 'Choose Grow', featured: true },
+          { name: 'Custom', price: 'Let’s talk', period: '', description: 'For larger projects.', features: ['Full rebrand', 'Custom web platform', 'Integrated campaigns'], cta: 'Contact Us', featured: false },
+        ],
+      },
+      testimonials: {
+        title: 'What Clients Say',
+        items: [
+          { quote: 'Spark understood our brand better than we did. The results speak for themselves.', name: 'Hana Q.', role: 'CEO, Oasis Hotels' },
+          { quote: 'Creative, reliable and always on time.', name: 'Mark B.', role: 'Founder, Nomad Coffee' },
+          { quote: 'Our launch campaign beat every target we set.', name: 'Salma K.', role: 'Marketing director' },
+        ],
+      },
+      contact: {
+        title: 'Start a Project',
+        subtitle: 'Tell us about your goals and we will get back to you within 24 hours.',
+        phoneLabel: 'Phone',
+        phone: '+1 555 050 6070',
+        emailLabel: 'Email',
+        emailAddress: 'hello@sparkstudio.agency',
+        addressLabel: 'Studio',
+        address: '8 Creative Quarter, Design District',
+        name: 'Your name',
+        email: 'Your email',
+        message: 'Tell us about your project',
+        submit: 'Send Message',
+        success: 'Thank you! We will be in touch within 24 hours.',
+        error: 'Sorry, we could not send your request. Please try again.',
+      },
+      footer: { tagline: 'Brands with a spark.', copyright: '© 2025 Spark Studio. All rights reserved.' },
+    },
+    ar: {
+      navbar: { logo: 'سبارك ستوديو', hero: 'الرئيسية', about: 'من نحن', services: 'خدماتنا', portfolio: 'أعمالنا', team: 'فريقنا', pricing: 'الباقات', testimonials: 'عملاؤنا', contact: 'تواصل معنا' },
+      hero: {
+        title: 'نبني علامات تجارية لا تُنسى',
+        subtitle: 'استراتيجية وتصميم وتسويق رقمي للشركات الطموحة في المنطقة وخارجها.',
+        cta: 'ابدأ مشروعك',
+        secondaryCta: 'من نحن',
+        image: image('1522071820081-009f0129c71c'),
+      },
+      about: {
+        title: 'من نحن',
+        text: 'سبارك ستوديو فريق من الاستراتيجيين والمصممين والمسوّقين. نعمل جنبًا إلى جنب مع عملائنا لنصنع أعمالًا جميلة تحقق نتائج حقيقية.',
+        image: image('1552664730-d307ca884978'),
+        stats: [
+          { value: '+10', label: 'سنوات من العمل' },
+          { value: '+150', label: 'مشروعًا منجزًا' },
+          { value: '12', label: 'جائزة' },
+        ],
+      },
+      services: {
+        title: 'ماذا نقدّم',
+        subtitle: 'خدمات متكاملة لتنمية علامتك التجارية.',
+        items: [
+          { icon: '🎯', title: 'استراتيجية العلامة', description: 'تموضع ورسائل وأبحاث توجّه كل قرار.' },
+          { icon: '🎨', title: 'الهوية البصرية', description: 'شعارات وخطوط وأنظمة تصميم.' },
+          { icon: '🌐', title: 'تصميم المواقع', description: 'مواقع سريعة وجميلة تحقق التحويلات.' },
+          { icon: '📣', title: 'وسائل التواصل', description: 'محتوى وحملات تبني مجتمعات.' },
+          { icon: '📈', title: 'التسويق بالأداء', description: 'حملات مدفوعة تُقاس بنتائج حقيقية.' },
+          { icon: '🎬', title: 'إنتاج الفيديو', description: 'قصص تُحيي علامتك التجارية.' },
+        ],
+      },
+      portfolio: {
+        title: 'أعمالنا',
+        subtitle: 'مشاريع حديثة لعملاء نعتز بهم.',
+        items: [
+          { title: 'فنادق الواحة', description: 'هوية بصرية وموقع إلكتروني', image: image('1497366216548-37526070297c') },
+          { title: 'نوماد كوفي', description: 'تغليف وحملة على وسائل التواصل', image: image('1509042239860-f550ce710b93') },
+          { title: 'بلس فيتنس', description: 'حملة إطلاق تطبيق', image: image('1534438327276-14e5300c3a48') },
+        ],
+      },
+      team: {
+        title: 'تعرّف على فريقنا',
+        subtitle: 'الأشخاص وراء أعمالنا.',
+        items: [
+          { name: 'يوسف عادل', role: 'المدير الإبداعي', bio: 'يقود كل مشروع من الفكرة حتى الإطلاق.', image: image('1507003211169-0a1dd7228f2d') },
+          { name: 'ريم صالح', role: 'رئيسة الاستراتيجية', bio: 'تحوّل الأبحاث إلى توجه واضح للعلامة.', image: image('1494790108377-be9c29b29330') },
+          { name: 'دانيال كول', role: 'كبير المصممين', bio: 'يصمم الهويات والتجارب الرقمية.', image: image('1500648767791-00dcc994a43e') },
+        ],
+      },
+      pricing: {
+        title: 'الباقات',
+        subtitle: 'خيارات مرنة لكل مرحلة نمو.',
+        plans: [
+          { name: 'الانطلاق', price: '٢٬٥٠٠$', period: 'دفعة واحدة', description: 'للأعمال الجديدة.', features: ['شعار وهوية مختصرة', 'موقع من صفحة واحدة', 'قوالب لوسائل التواصل'], cta: 'ابدأ الآن', featured: false },
+          { name: 'النمو', price: '١٬٨٠٠$', period: '/شهريًا', description: 'للعلامات المستعدة للتوسع.', features: ['خطة محتوى شهرية', 'إدارة الحملات الإعلانية', 'تقارير تحليلية', 'مدير حساب مخصص'], cta: 'اختر النمو', featured: true },
+          { name: 'مخصصة', price: 'لنتحدث', period: '', description: 'للمشاريع الكبيرة.', features: ['إعادة بناء الهوية بالكامل', 'منصة ويب مخصصة', 'حملات متكاملة'], cta: 'تواصل معنا', featured: false },
+        ],
+      },
+      testimonials: {
+        title: 'ماذا يقول عملاؤنا',
+        items: [
+          { quote: 'فهم فريق سبارك علامتنا أفضل منا. النتائج تتحدث عن نفسها.', name: 'هنا ق.', role: 'الرئيسة التنفيذية، فنادق الواحة' },
+          { quote: 'مبدعون وموثوقون وملتزمون بالمواعيد دائمًا.', name: 'مارك ب.', role: 'مؤسس نوماد كوفي' },
+          { quote: 'تجاوزت حملة الإطلاق كل الأهداف التي وضعناها.', name: 'سلمى ك.', role: 'مديرة التسويق' },
+        ],
+      },
+      contact: {
+        title: 'ابدأ مشروعك',
+        subtitle: 'أخبرنا عن أهدافك وسنرد عليك خلال ٢٤ ساعة.',
+        phoneLabel: 'الهاتف',
+        phone: '+1 555 050 6070',
+        emailLabel: 'البريد الإلكتروني',
+        emailAddress: 'hello@sparkstudio.agency',
+        addressLabel: 'الاستوديو',
+        address: '٨ الحي الإبداعي، منطقة التصميم',
+        name: 'اسمك',
+        email: 'بريدك الإلكتروني',
+        message: 'أخبرنا عن مشروعك',
+        submit: 'إرسال الرسالة',
+        success: 'شكرًا لك! سنتواصل معك خلال ٢٤ ساعة.',
+        error: 'عذرًا، تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+      },
+      footer: { tagline: 'علامات تجارية بشرارة مختلفة.', copyright: '© 2025 سبارك ستوديو. جميع الحقوق محفوظة.' },
+    },
+  },
+};
@@ -0,0 +1,174 @@
+import type { StarterTemplate } from './types';
+
+const image = (id: string) => `https://images.unsplash.com/photo-${id}?auto=format&fit=crop&w=900&q=80`;
+
+export const clinicTemplate: StarterTemplate = {
+  id: 'clinic',
+  version: '1.0.0',
+  name: 'Clinic',
+  industries: ['clinic', 'medical', 'dental', 'dentist', 'hospital', 'health', 'doctor', 'pharmacy'],
+  sections: ['hero', 'about', 'services', 'doctors', 'appointment', 'testimonials', 'contact'],
+  theme: {
+    palette: { primary: '#0e7490', secondary: '#0891b2', accent: '#10b981', background: '#ffffff', surface: '#f0f9ff', foreground: '#0f172a', muted: '#475569' },
+    typography: { heading: 'Montserrat', body: 'Open Sans', arabic: 'Tajawal' },
+    radius: 'lg',
+  },
+  content: {
+    en: {
+      navbar: { logo: 'CarePoint Clinic', hero: 'Home', about: 'About', services: 'Services', doctors: 'Doctors', appointment: 'Book', testimonials: 'Reviews', contact: 'Contact' },
+      hero: {
+        title: 'Caring for your health, every step of the way',
+        subtitle: 'Experienced specialists, modern equipment and same-week appointments for the whole family.',
+        cta: 'Book an Appointment',
+        secondaryCta: 'About the Clinic',
+        image: image('1519494026892-80bbd2d6fd0d'),
+      },
+      about: {
+        title: 'About Our Clinic',
+        text: 'We combine medical expertise with genuine care. Our team takes the time to listen, explain and build a treatment plan that fits you.',
+        image: image('1631217868264-e5b90bb7e133'),
+        stats: [
+          { value: '12k+', label: 'Patients treated' },
+          { value: '18', label: 'Specialists' },
+          { value: '24/7', label: 'Emergency line' },
+        ],
+      },
+      services: {
+        title: 'Our Services',
+        subtitle: 'Comprehensive care under one roof.',
+        items: [
+          { icon: '🩺', title: 'General Checkups', description: 'Routine exams and preventive care for all ages.' },
+          { icon: '🦷', title: 'Dental Care', description: 'Cleanings, fillings and cosmetic dentistry.' },
+          { icon: '❤️', title: 'Cardiology', description: 'Heart screening, ECG and long-term follow-up.' },
+          { icon: '👶', title: 'Pediatrics', description: 'Gentle care for babies, children and teens.' },
+          { icon: '🧪', title: 'Laboratory', description: 'Fast, accurate tests with results online.' },
+          { icon: '🦴', title: 'Physiotherapy', description: 'Rehabilitation programs tailored to you.' },
+        ],
+      },
+      doctors: {
+        title: 'Meet Our Doctors',
+        subtitle: 'Board-certified specialists who put patients first.',
+        items: [
+          { name: 'Dr. Sarah Ahmed', role: 'Family Medicine', bio: '15 years of experience in preventive care.', image: image('1559839734-2b71ea197ec2') },
+          { name: 'Dr. Omar Haddad', role: 'Cardiologist', bio: 'Specialist in heart health and diagnostics.', image: image('1612349317150-e413f6a5b16d') },
+          { name: 'Dr. Lina Kassem', role: 'Pediatrician', bio: 'Caring for children with patience and warmth.', image: image('1594824476967-48c8b964273f') },
+        ],
+      },
+      appointment: {
+        title: 'Book an Appointment',
+        subtitle: 'Choose a service and a date - we will call you to confirm.',
+        name: 'Full name',
+        phone: 'Phone number',
+        service: 'Select a service',
+        services: ['General Checkup', 'Dental Care', 'Cardiology', 'Pediatrics', 'Laboratory', 'Physiotherapy'],
+        date: 'Preferred date',
+        submit: 'Request Appointment',
+        success: 'Thank you! We will call you to confirm your appointment.',
+        error: 'Sorry, we could not send your request. Please try again.',
+      },
+      testimonials: {
+        title: 'Patient Stories',
+        items: [
+          { quote: 'The doctors took time to explain everything. I felt truly cared for.', name: 'Mona R.', role: 'Patient' },
+          { quote: 'Booking was easy and there was almost no waiting time.', name: 'Khaled S.', role: 'Patient' },
+          { quote: 'Wonderful with my kids. We would not go anywhere else.', name: 'Huda A.', role: 'Parent' },
+        ],
+      },
+      contact: {
+        title: 'Contact Us',
+        subtitle: 'Open Saturday to Thursday, 8am to 10pm.',
+        phoneLabel: 'Phone',
+        phone: '+1 555 020 3040',
+        emailLabel: 'Email',
+        emailAddress: 'info@carepoint.clinic',
+        addressLabel: 'Address',
+        address: '45 Health Avenue, Medical District',
+        name: 'Your name',
+        email: 'Your email',
+        message: 'How can we help?',
+        submit: 'Send Message',
+        success: 'Thank you! Our team will get back to you soon.',
+        error: 'Sorry, we could not send your request. Please try again.',
+      },
+      footer: { tagline: 'Your health, our priority.', copyright: '© 2025 CarePoint Clinic. All rights reserved.' },
+    },
+    ar: {
+      navbar: { logo: 'عيادة كير بوينت', hero: 'الرئيسية', about: 'من نحن', services: 'الخدمات', doctors: 'الأطباء', appointment: 'احجز', testimonials: 'آراء المرضى', contact: 'تواصل معنا' },
+      hero: {
+        title: 'نرعى صحتك في كل خطوة',
+        subtitle: 'أطباء متخصصون ذوو خبرة، وأجهزة حديثة، ومواعيد خلال الأسبوع نفسه لكل أفراد العائلة.',
+        cta: 'احجز موعدًا',
+        secondaryCta: 'عن العيادة',
+        image: image('1519494026892-80bbd2d6fd0d'),
+      },
+      about: {
+        title: 'عن عيادتنا',
+        text: 'نجمع بين الخبرة الطبية والرعاية الصادقة. يستمع فريقنا إليك ويشرح لك ويضع خطة علاج تناسبك.',
+        image: image('1631217868264-e5b90bb7e133'),
+        stats: [
+          { value: '+12 ألف', label: 'مريض' },
+          { value: '18', label: 'طبيبًا متخصصًا' },
+          { value: '24/7', label: 'خط الطوارئ' },
+        ],
+      },
+      services: {
+        title: 'خدماتنا',
+        subtitle: 'رعاية شاملة تحت سقف واحد.',
+        items: [
+          { icon: '🩺', title: 'الفحوصات العامة', description: 'فحوصات دورية ورعاية وقائية لجميع الأعمار.' },
+          { icon: '🦷', title: 'طب الأسنان', description: 'تنظيف وحشوات وتجميل الأسنان.' },
+          { icon: '❤️', title: 'أمراض القلب', description: 'فحص القلب وتخطيطه والمتابعة طويلة الأمد.' },
+          { icon: '👶', title: 'طب الأطفال', description: 'رعاية لطيفة للرضع والأطفال والمراهقين.' },
+          { icon: '🧪', title: 'المختبر', description: 'تحاليل سريعة ودقيقة مع نتائج عبر الإنترنت.' },
+          { icon: '🦴', title: 'العلاج الطبيعي', description: 'برامج تأهيل مصممة لك.' },
+        ],
+      },
+      doctors: {
+        title: 'تعرّف على أطبائنا',
+        subtitle: 'أطباء معتمدون يضعون المريض أولًا.',
+        items: [
+          { name: 'د. سارة أحمد', role: 'طب الأسرة', bio: '١٥ عامًا من الخبرة في الرعاية الوقائية.', image: image('1559839734-2b71ea197ec2') },
+          { name: 'د. عمر حداد', role: 'استشاري القلب', bio: 'متخصص في صحة القلب والتشخيص.', image: image('1612349317150-e413f6a5b16d') },
+          { name: 'د. لينا قاسم', role: 'طبيبة أطفال', bio: 'ترعى الأطفال بصبر ودفء.', image: image('1594824476967-48c8b964273f') },
+        ],
+      },
+      appointment: {
+        title: 'احجز موعدًا',
+        subtitle: 'اختر الخدمة والتاريخ وسنتصل بك للتأكيد.',
+        name: 'الاسم الكامل',
+        phone: 'رقم الهاتف',
+        service: 'اختر الخدمة',
+        services: ['فحص عام', 'طب الأسنان', 'أمراض القلب', 'طب الأطفال', 'المختبر', 'العلاج الطبيعي'],
+        date: 'التاريخ المفضل',
+        submit: 'اطلب الموعد',
+        success: 'شكرًا لك! سنتصل بك لتأكيد موعدك.',
+        error: 'عذرًا، تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+      },
+      testimonials: {
+        title: 'قصص مرضانا',
+        items: [
+          { quote: 'خصص الأطباء وقتًا لشرح كل شيء. شعرت باهتمام حقيقي.', name: 'منى ر.', role: 'مريضة' },
+          { quote: 'الحجز سهل ولم أنتظر تقريبًا.', name: 'خالد س.', role: 'مريض' },
+          { quote: 'رائعون مع أطفالي. لن نذهب لغيرهم.', name: 'هدى أ.', role: 'أم' },
+        ],
+      },
+      contact: {
+        title: 'تواصل معنا',
+        subtitle: 'نستقبلكم من السبت إلى الخميس، من ٨ صباحًا حتى ١٠ مساءً.',
+        phoneLabel: 'الهاتف',
+        phone: '+1 555 020 3040',
+        emailLabel: 'البريد الإلكتروني',
+        emailAddress: 'info@carepoint.clinic',
+        addressLabel: 'العنوان',
+        address: '٤٥ شارع الصحة، الحي الطبي',
+        name: 'اسمك',
+        email: 'بريدك الإلكتروني',
+        message: 'كيف يمكننا مساعدتك؟',
+        submit: 'إرسال الرسالة',
+        success: 'شكرًا لك! سيتواصل معك فريقنا قريبًا.',
+        error: 'عذرًا، تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+      },
+      footer: { tagline: 'صحتك أولويتنا.', copyright: '© 2025 عيادة كير بوينت. جميع الحقوق محفوظة.' },
+    },
+  },
+};
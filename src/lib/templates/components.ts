@@ -0,0 +1,588 @@
+/**
+ * Starter template components - pre-written, bilingual section components
+ *
+ * Every component reads its text from the locale files with literal keys
+ * (t('<key>.title')) and styles itself with the theme tokens, so one component
+ * serves every industry. Conventions the template writer relies on:
+ * - the only hook call on the translation context is `... = useLanguage();`
+ * - numbers shown to visitors go through n() with a plain argument: n(item.price), n(t('<key>.phone'))
+ * - language switcher markup sits between {/* locale-switcher *\/} markers
+ * That lets single-language sites inline the text and drop the i18n entirely.
+ */
+
+import type { SectionKind, SectionLinks } from './types';
+
+type ComponentSource = (componentName: string, key: string, links: SectionLinks) => string;
+
+const hero: ComponentSource = (name, key, links) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t } = useLanguage();
+
+  return (
+    <section id="${key}" className="pt-28 pb-section bg-background">
+      <div className="container mx-auto px-gutter grid gap-gutter md:grid-cols-2 items-center">
+        <div>
+          <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold font-heading text-foreground leading-tight">
+            {t('${key}.title')}
+          </h1>
+          <p className="mt-6 text-lg md:text-xl text-muted">{t('${key}.subtitle')}</p>
+          <div className="mt-8 flex flex-wrap gap-4">
+            <a href="${links.contact}" className="px-6 py-3 rounded-theme bg-primary hover:bg-primary-dark text-white font-medium transition">
+              {t('${key}.cta')}
+            </a>
+            <a href="${links.about}" className="px-6 py-3 rounded-theme border border-primary text-primary hover:bg-primary hover:text-white font-medium transition">
+              {t('${key}.secondaryCta')}
+            </a>
+          </div>
+        </div>
+        <img
+          src={t('${key}.image')}
+          alt={t('${key}.title')}
+          className="w-full h-72 md:h-[28rem] object-cover rounded-theme shadow-lg"
+        />
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const about: ComponentSource = (name, key) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t, n } = useLanguage();
+  const stats = Array.isArray(t('${key}.stats')) ? t('${key}.stats') : [];
+
+  return (
+    <section id="${key}" className="py-section bg-surface">
+      <div className="container mx-auto px-gutter grid gap-gutter md:grid-cols-2 items-center">
+        <img
+          src={t('${key}.image')}
+          alt={t('${key}.title')}
+          className="w-full h-72 md:h-96 object-cover rounded-theme shadow-md"
+        />
+        <div>
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-6 text-lg text-muted leading-relaxed">{t('${key}.text')}</p>
+          <div className="mt-8 grid grid-cols-3 gap-4">
+            {stats.map((stat, index) => (
+              <div key={index} className="text-center p-4 rounded-theme bg-background shadow-sm">
+                <div className="text-2xl md:text-3xl font-bold text-primary">{n(stat.value)}</div>
+                <div className="mt-1 text-sm text-muted">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const cardGrid: ComponentSource = (name, key) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t } = useLanguage();
+  const items = Array.isArray(t('${key}.items')) ? t('${key}.items') : [];
+
+  return (
+    <section id="${key}" className="py-section bg-background">
+      <div className="container mx-auto px-gutter">
+        <div className="text-center max-w-2xl mx-auto">
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-4 text-lg text-muted">{t('${key}.subtitle')}</p>
+        </div>
+        <div className="mt-12 grid gap-gutter sm:grid-cols-2 lg:grid-cols-3">
+          {items.map((item, index) => (
+            <div key={index} className="p-6 rounded-theme bg-surface shadow-sm hover:shadow-md hover:scale-[1.02] transition-all duration-300">
+              <div className="w-12 h-12 flex items-center justify-center rounded-theme bg-primary/10 text-2xl">{item.icon}</div>
+              <h3 className="mt-4 text-xl font-semibold font-heading text-foreground">{item.title}</h3>
+              <p className="mt-2 text-muted">{item.description}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const priceList: ComponentSource = (name, key) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t, n } = useLanguage();
+  const items = Array.isArray(t('${key}.items')) ? t('${key}.items') : [];
+
+  return (
+    <section id="${key}" className="py-section bg-surface">
+      <div className="container mx-auto px-gutter">
+        <div className="text-center max-w-2xl mx-auto">
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-4 text-lg text-muted">{t('${key}.subtitle')}</p>
+        </div>
+        <div className="mt-12 grid gap-gutter sm:grid-cols-2 lg:grid-cols-3">
+          {items.map((item, index) => (
+            <div key={index} className="overflow-hidden rounded-theme bg-background shadow-sm hover:shadow-md transition">
+              {item.image && <img src={item.image} alt={item.name} className="w-full h-48 object-cover" />}
+              <div className="p-6">
+                <div className="flex items-start justify-between gap-4">
+                  <h3 className="text-lg font-semibold font-heading text-foreground">{item.name}</h3>
+                  <span className="shrink-0 font-bold text-primary">{n(item.price)}</span>
+                </div>
+                <p className="mt-2 text-sm text-muted">{item.description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const imageGrid: ComponentSource = (name, key) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t } = useLanguage();
+  const items = Array.isArray(t('${key}.items')) ? t('${key}.items') : [];
+
+  return (
+    <section id="${key}" className="py-section bg-background">
+      <div className="container mx-auto px-gutter">
+        <div className="text-center max-w-2xl mx-auto">
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-4 text-lg text-muted">{t('${key}.subtitle')}</p>
+        </div>
+        <div className="mt-12 grid gap-gutter sm:grid-cols-2 lg:grid-cols-3">
+          {items.map((item, index) => (
+            <figure key={index} className="group relative overflow-hidden rounded-theme shadow-sm">
+              <img
+                src={item.image}
+                alt={item.title}
+                className="w-full h-64 object-cover group-hover:scale-105 transition-transform duration-500"
+              />
+              <figcaption className="absolute inset-x-0 bottom-0 p-4 bg-gradient-to-t from-black/70 to-transparent text-white">
+                <h3 className="font-semibold font-heading">{item.title}</h3>
+                {item.description && <p className="text-sm opacity-90">{item.description}</p>}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const team: ComponentSource = (name, key) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t } = useLanguage();
+  const items = Array.isArray(t('${key}.items')) ? t('${key}.items') : [];
+
+  return (
+    <section id="${key}" className="py-section bg-surface">
+      <div className="container mx-auto px-gutter">
+        <div className="text-center max-w-2xl mx-auto">
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-4 text-lg text-muted">{t('${key}.subtitle')}</p>
+        </div>
+        <div className="mt-12 grid gap-gutter sm:grid-cols-2 lg:grid-cols-3">
+          {items.map((member, index) => (
+            <div key={index} className="p-6 text-center rounded-theme bg-background shadow-sm">
+              <img src={member.image} alt={member.name} className="w-28 h-28 mx-auto rounded-full object-cover" />
+              <h3 className="mt-4 text-lg font-semibold font-heading text-foreground">{member.name}</h3>
+              <p className="text-primary font-medium">{member.role}</p>
+              <p className="mt-2 text-sm text-muted">{member.bio}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const testimonials: ComponentSource = (name, key) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t } = useLanguage();
+  const items = Array.isArray(t('${key}.items')) ? t('${key}.items') : [];
+
+  return (
+    <section id="${key}" className="py-section bg-background">
+      <div className="container mx-auto px-gutter">
+        <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground text-center">{t('${key}.title')}</h2>
+        <div className="mt-12 grid gap-gutter md:grid-cols-3">
+          {items.map((item, index) => (
+            <blockquote key={index} className="p-6 rounded-theme bg-surface shadow-sm">
+              <div className="text-accent text-xl">★★★★★</div>
+              <p className="mt-4 text-foreground">“{item.quote}”</p>
+              <footer className="mt-4">
+                <div className="font-semibold text-foreground">{item.name}</div>
+                <div className="text-sm text-muted">{item.role}</div>
+              </footer>
+            </blockquote>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const pricing: ComponentSource = (name, key, links) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t, n } = useLanguage();
+  const plans = Array.isArray(t('${key}.plans')) ? t('${key}.plans') : [];
+
+  return (
+    <section id="${key}" className="py-section bg-surface">
+      <div className="container mx-auto px-gutter">
+        <div className="text-center max-w-2xl mx-auto">
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-4 text-lg text-muted">{t('${key}.subtitle')}</p>
+        </div>
+        <div className="mt-12 grid gap-gutter md:grid-cols-3 items-stretch">
+          {plans.map((plan, index) => (
+            <div
+              key={index}
+              className={\`flex flex-col p-8 rounded-theme shadow-sm \${plan.featured ? 'bg-primary text-white shadow-lg md:scale-105' : 'bg-background text-foreground'}\`}
+            >
+              <h3 className="text-xl font-semibold font-heading">{plan.name}</h3>
+              <p className={\`mt-2 text-sm \${plan.featured ? 'text-white/80' : 'text-muted'}\`}>{plan.description}</p>
+              <div className="mt-6">
+                <span className="text-4xl font-bold">{n(plan.price)}</span>
+                <span className={plan.featured ? 'text-white/80' : 'text-muted'}> {plan.period}</span>
+              </div>
+              <ul className="mt-6 space-y-3 flex-1">
+                {(Array.isArray(plan.features) ? plan.features : []).map((feature, featureIndex) => (
+                  <li key={featureIndex} className="flex gap-2">
+                    <span>✓</span>
+                    <span>{feature}</span>
+                  </li>
+                ))}
+              </ul>
+              <a
+                href="${links.contact}"
+                className={\`mt-8 px-6 py-3 rounded-theme text-center font-medium transition \${plan.featured ? 'bg-white text-primary hover:bg-surface' : 'bg-primary text-white hover:bg-primary-dark'}\`}
+              >
+                {plan.cta}
+              </a>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const cta: ComponentSource = (name, key, links) => `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const ${name} = () => {
+  const { t } = useLanguage();
+
+  return (
+    <section id="${key}" className="py-section bg-gradient-to-r from-primary to-secondary text-white">
+      <div className="container mx-auto px-gutter text-center max-w-3xl">
+        <h2 className="text-3xl md:text-4xl font-bold font-heading">{t('${key}.title')}</h2>
+        <p className="mt-4 text-lg text-white/90">{t('${key}.subtitle')}</p>
+        <a href="${links.contact}" className="inline-block mt-8 px-8 py-3 rounded-theme bg-white text-primary font-semibold hover:bg-surface transition">
+          {t('${key}.button')}
+        </a>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const contact: ComponentSource = (name, key) => `import React, { useState } from 'react';
+import { useLanguage } from '../i18n';
+import { submitForm } from '../forms';
+
+const ${name} = () => {
+  const { t, n } = useLanguage();
+  const [status, setStatus] = useState('idle');
+
+  const handleSubmit = async (event) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    setStatus('sending');
+    try {
+      await submitForm('${key}', form);
+      form.reset();
+      setStatus('success');
+    } catch (error) {
+      setStatus('error');
+    }
+  };
+
+  return (
+    <section id="${key}" className="py-section bg-surface">
+      <div className="container mx-auto px-gutter grid gap-gutter md:grid-cols-2">
+        <div>
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-4 text-lg text-muted">{t('${key}.subtitle')}</p>
+          <dl className="mt-8 space-y-4">
+            <div>
+              <dt className="font-semibold text-foreground">{t('${key}.phoneLabel')}</dt>
+              <dd className="text-muted" dir="ltr">{n(t('${key}.phone'))}</dd>
+            </div>
+            <div>
+              <dt className="font-semibold text-foreground">{t('${key}.emailLabel')}</dt>
+              <dd className="text-muted">{t('${key}.emailAddress')}</dd>
+            </div>
+            <div>
+              <dt className="font-semibold text-foreground">{t('${key}.addressLabel')}</dt>
+              <dd className="text-muted">{t('${key}.address')}</dd>
+            </div>
+          </dl>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 md:p-8 rounded-theme bg-background shadow-md space-y-4">
+          <input required name="name" placeholder={t('${key}.name')} aria-label={t('${key}.name')} className="w-full px-4 py-3 rounded-theme border border-muted/30 bg-background text-foreground focus:outline-none focus:border-primary" />
+          <input required type="email" name="email" placeholder={t('${key}.email')} aria-label={t('${key}.email')} className="w-full px-4 py-3 rounded-theme border border-muted/30 bg-background text-foreground focus:outline-none focus:border-primary" />
+          <textarea required name="message" rows={4} placeholder={t('${key}.message')} aria-label={t('${key}.message')} className="w-full px-4 py-3 rounded-theme border border-muted/30 bg-background text-foreground focus:outline-none focus:border-primary" />
+          <input type="text" name="_gotcha" tabIndex={-1} autoComplete="off" className="hidden" aria-hidden="true" />
+          <button type="submit" disabled={status === 'sending'} className="w-full px-6 py-3 rounded-theme bg-primary hover:bg-primary-dark text-white font-medium transition disabled:opacity-60">
+            {t('${key}.submit')}
+          </button>
+          {status === 'success' && <p role="status" className="text-center text-primary font-medium">{t('${key}.success')}</p>}
+          {status === 'error' && <p role="alert" className="text-center text-red-600 font-medium">{t('${key}.error')}</p>}
+        </form>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+const appointment: ComponentSource = (name, key) => `import React, { useState } from 'react';
+import { useLanguage } from '../i18n';
+import { submitForm } from '../forms';
+
+const ${name} = () => {
+  const { t } = useLanguage();
+  const services = Array.isArray(t('${key}.services')) ? t('${key}.services') : [];
+  const [status, setStatus] = useState('idle');
+
+  const handleSubmit = async (event) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    setStatus('sending');
+    try {
+      await submitForm('${key}', form);
+      form.reset();
+      setStatus('success');
+    } catch (error) {
+      setStatus('error');
+    }
+  };
+
+  return (
+    <section id="${key}" className="py-section bg-background">
+      <div className="container mx-auto px-gutter max-w-3xl">
+        <div className="text-center">
+          <h2 className="text-3xl md:text-4xl font-bold font-heading text-foreground">{t('${key}.title')}</h2>
+          <p className="mt-4 text-lg text-muted">{t('${key}.subtitle')}</p>
+        </div>
+        <form onSubmit={handleSubmit} className="mt-10 p-6 md:p-8 rounded-theme bg-surface shadow-md grid gap-4 md:grid-cols-2">
+          <input required name="name" placeholder={t('${key}.name')} aria-label={t('${key}.name')} className="px-4 py-3 rounded-theme border border-muted/30 bg-background text-foreground focus:outline-none focus:border-primary" />
+          <input required type="tel" name="phone" placeholder={t('${key}.phone')} aria-label={t('${key}.phone')} className="px-4 py-3 rounded-theme border border-muted/30 bg-background text-foreground focus:outline-none focus:border-primary" />
+          <select required name="service" defaultValue="" aria-label={t('${key}.service')} className="px-4 py-3 rounded-theme border border-muted/30 bg-background text-foreground focus:outline-none focus:border-primary">
+            <option value="" disabled>{t('${key}.service')}</option>
+            {services.map((service, index) => (
+              <option key={index} value={service}>{service}</option>
+            ))}
+          </select>
+          <input required type="date" name="date" aria-label={t('${key}.date')} className="px-4 py-3 rounded-theme border border-muted/30 bg-background text-foreground focus:outline-none focus:border-primary" />
+          <input type="text" name="_gotcha" tabIndex={-1} autoComplete="off" className="hidden" aria-hidden="true" />
+          <button type="submit" disabled={status === 'sending'} className="md:col-span-2 px-6 py-3 rounded-theme bg-primary hover:bg-primary-dark text-white font-medium transition disabled:opacity-60">
+            {t('${key}.submit')}
+          </button>
+          {status === 'success' && <p role="status" className="md:col-span-2 text-center text-primary font-medium">{t('${key}.success')}</p>}
+          {status === 'error' && <p role="alert" className="md:col-span-2 text-center text-red-600 font-medium">{t('${key}.error')}</p>}
+        </form>
+      </div>
+    </section>
+  );
+};
+
+export default ${name};
+`;
+
+export const SECTION_COMPONENTS: Record<SectionKind, ComponentSource> = {
+  hero,
+  about,
+  cardGrid,
+  priceList,
+  imageGrid,
+  team,
+  testimonials,
+  pricing,
+  cta,
+  contact,
+  appointment,
+};
+
+/**
+ * Navbar linking to the given sections, with a toggle (two locales) or a dropdown (more)
+ * @param options.darkMode - Add a light/dark toggle next to the language switcher (see siteDarkMode)
+ */
+export function buildNavbarSource(links: Array<{ key: string; href: string }>, options: { darkMode?: boolean } = {}): string {
+  const linkList = links
+    .map(link => `    { href: '${link.href}', label: t('navbar.${link.key}') },`)
+    .join('\n');
+  const darkModeToggle = (onClick: string) => options.darkMode ? `
+            <button
+              onClick={${onClick}}
+              aria-pressed={isDark}
+              aria-label={t('navbar.darkMode')}
+              className="p-2 rounded-theme border border-muted/30 text-foreground dark:border-dark-muted/30 dark:text-dark-foreground"
+            >
+              {isDark ? '☀' : '☾'}
+            </button>` : '';
+
+  return `import React, { useState } from 'react';
+import { useLanguage } from '../i18n';${options.darkMode ? "\nimport { useDarkMode } from '../darkMode';" : ''}
+
+const Navbar = () => {
+  const { t, language, setLanguage, toggleLanguage, locales } = useLanguage();${options.darkMode ? '\n  const { isDark, toggleDarkMode } = useDarkMode();' : ''}
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const links = [
+${linkList}
+  ];
+
+  return (
+    <nav className="fixed top-0 left-0 right-0 z-50 bg-background/90 backdrop-blur-md border-b border-muted/20">
+      <div className="container mx-auto px-gutter py-4">
+        <div className="flex items-center justify-between">
+          <a href="#" className="text-xl font-bold font-heading text-primary">{t('navbar.logo')}</a>
+
+          <div className="hidden md:flex items-center gap-6">
+            {links.map((link) => (
+              <a key={link.href} href={link.href} className="text-foreground hover:text-primary transition">
+                {link.label}
+              </a>
+            ))}${darkModeToggle('toggleDarkMode')}
+            {/* locale-switcher */}
+            {locales.length > 2 ? (
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                aria-label={t('navbar.language')}
+                className="rounded-theme px-3 py-1 border border-muted/30 bg-background text-foreground"
+              >
+                {locales.map((locale) => (
+                  <option key={locale.code} value={locale.code}>{locale.label}</option>
+                ))}
+              </select>
+            ) : (
+              <button onClick={toggleLanguage} className="px-3 py-1 rounded-theme bg-primary hover:bg-primary-dark text-white">
+                {locales.find((locale) => locale.code !== language)?.label}
+              </button>
+            )}
+            {/* /locale-switcher */}
+          </div>
+
+          <button onClick={() => setIsMenuOpen(!isMenuOpen)} className="md:hidden p-2 text-foreground" aria-label="Menu">
+            {isMenuOpen ? '✕' : '☰'}
+          </button>
+        </div>
+
+        {isMenuOpen && (
+          <div className="md:hidden mt-4 pb-4 border-t border-muted/20">
+            {links.map((link) => (
+              <a
+                key={link.href}
+                href={link.href}
+                className="block py-2 text-foreground hover:text-primary"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                {link.label}
+              </a>
+            ))}${darkModeToggle('() => { toggleDarkMode(); setIsMenuOpen(false); }')}
+            {/* locale-switcher */}
+            {locales.length > 2 ? (
+              <select
+                value={language}
+                onChange={(e) => { setLanguage(e.target.value); setIsMenuOpen(false); }}
+                aria-label={t('navbar.language')}
+                className="mt-2 w-full rounded-theme px-3 py-2 border border-muted/30 bg-background text-foreground"
+              >
+                {locales.map((locale) => (
+                  <option key={locale.code} value={locale.code}>{locale.label}</option>
+                ))}
+              </select>
+            ) : (
+              <button
+                onClick={() => { toggleLanguage(); setIsMenuOpen(false); }}
+                className="block mt-2 px-3 py-2 rounded-theme bg-primary text-white w-full"
+              >
+                {locales.find((locale) => locale.code !== language)?.label}
+              </button>
+            )}
+            {/* /locale-switcher */}
+          </div>
+        )}
+      </div>
+    </nav>
+  );
+};
+
+export default Navbar;
+`;
+}
+
+export function buildFooterSource(): string {
+  return `import React from 'react';
+import { useLanguage } from '../i18n';
+
+const Footer = () => {
+  const { t } = useLanguage();
+
+  return (
+    <footer className="py-10 bg-foreground text-background">
+      <div className="container mx-auto px-gutter flex flex-col md:flex-row items-center justify-between gap-4 text-center md:text-start">
+        <div>
+          <div className="text-lg font-bold font-heading">{t('navbar.logo')}</div>
+          <p className="mt-1 text-sm opacity-80">{t('footer.tagline')}</p>
+        </div>
+        <p className="text-sm opacity-80">{t('footer.copyright')}</p>
+      </div>
+    </footer>
+  );
+};
+
+export default Footer;
+`;
+}
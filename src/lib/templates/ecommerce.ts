@@ -0,0 +1,160 @@
+import type { StarterTemplate } from './types';
+
+const image = (id: string) => `https://images.unsplash.com/photo-${id}?auto=format&fit=crop&w=900&q=80`;
+
+export const ecommerceTemplate: StarterTemplate = {
+  id: 'ecommerce',
+  version: '1.0.0',
+  name: 'E-commerce',
+  industries: ['ecommerce', 'eshop', 'onlinestore', 'store', 'shop', 'retail', 'boutique', 'fashion'],
+  sections: ['hero', 'categories', 'products', 'about', 'testimonials', 'cta', 'contact'],
+  theme: {
+    palette: { primary: '#0f766e', secondary: '#115e59', accent: '#f43f5e', background: '#ffffff', surface: '#f4f4f5', foreground: '#18181b', muted: '#71717a' },
+    typography: { heading: 'DM Sans', body: 'Inter', arabic: 'Almarai' },
+    radius: 'lg',
+  },
+  content: {
+    en: {
+      navbar: { logo: 'Luma Store', hero: 'Home', categories: 'Categories', products: 'Shop', about: 'About', testimonials: 'Reviews', cta: 'Offers', contact: 'Contact' },
+      hero: {
+        title: 'Everyday essentials, thoughtfully made',
+        subtitle: 'Quality products at honest prices, delivered to your door in 2-3 days.',
+        cta: 'Shop Now',
+        secondaryCta: 'Our Story',
+        image: image('1441986300917-64674bd600d8'),
+      },
+      categories: {
+        title: 'Shop by Category',
+        subtitle: 'Find exactly what you are looking for.',
+        items: [
+          { icon: '⌚', title: 'Accessories', description: 'Watches, sunglasses and everyday carry.' },
+          { icon: '🎧', title: 'Electronics', description: 'Audio and smart gadgets we love.' },
+          { icon: '👟', title: 'Footwear', description: 'Comfortable shoes for every day.' },
+        ],
+      },
+      products: {
+        title: 'Featured Products',
+        subtitle: 'Our best sellers this season.',
+        items: [
+          { name: 'Classic Watch', description: 'Minimal design with a leather strap.', price: '$129', image: image('1523275335684-37898b6baf30') },
+          { name: 'Wireless Headphones', description: 'Noise cancelling with 30-hour battery.', price: '$199', image: image('1505740420928-5e560c06d30e') },
+          { name: 'Running Sneakers', description: 'Lightweight and breathable.', price: '$89', image: image('1542291026-7eec264c27ff') },
+          { name: 'Sunglasses', description: 'Polarized lenses with UV protection.', price: '$59', image: image('1572635196237-14b3f281503f') },
+          { name: 'Leather Backpack', description: 'Fits a 15-inch laptop and more.', price: '$149', image: image('1553062407-98eeb64c6a62') },
+          { name: 'Smart Speaker', description: 'Room-filling sound with voice control.', price: '$99', image: image('1589003077984-894e133dabab') },
+        ],
+      },
+      about: {
+        title: 'Why Shop With Us',
+        text: 'We work directly with makers to bring you well-designed products without the markup. Every order ships fast, and returns are free for 30 days.',
+        image: image('1441986300917-64674bd600d8'),
+        stats: [
+          { value: '50k+', label: 'Happy customers' },
+          { value: '2-3', label: 'Days delivery' },
+          { value: '30', label: 'Day free returns' },
+        ],
+      },
+      testimonials: {
+        title: 'Customer Reviews',
+        items: [
+          { quote: 'Great quality and super fast delivery. My new favorite store.', name: 'Noura A.', role: 'Verified buyer' },
+          { quote: 'The headphones are amazing for the price.', name: 'Chris P.', role: 'Verified buyer' },
+          { quote: 'Easy returns and friendly support. Highly recommended.', name: 'Faisal M.', role: 'Verified buyer' },
+        ],
+      },
+      cta: {
+        title: 'Get 10% off your first order',
+        subtitle: 'Sign up for our newsletter and be the first to hear about new arrivals and offers.',
+        button: 'Claim Your Discount',
+      },
+      contact: {
+        title: 'Need Help?',
+        subtitle: 'Our support team is available every day from 9am to 9pm.',
+        phoneLabel: 'Phone',
+        phone: '+1 555 060 7080',
+        emailLabel: 'Email',
+        emailAddress: 'support@lumastore.com',
+        addressLabel: 'Showroom',
+        address: '22 Commerce Road, City Center',
+        name: 'Your name',
+        email: 'Your email',
+        message: 'Order number or question',
+        submit: 'Send Message',
+        success: 'Thanks! Our support team will reply shortly.',
+        error: 'Sorry, we could not send your request. Please try again.',
+      },
+      footer: { tagline: 'Quality you can feel.', copyright: '© 2025 Luma Store. All rights reserved.' },
+    },
+    ar: {
+      navbar: { logo: 'متجر لوما', hero: 'الرئيسية', categories: 'الفئات', products: 'تسوّق', about: 'عن المتجر', testimonials: 'التقييمات', cta: 'العروض', contact: 'تواصل معنا' },
+      hero: {
+        title: 'مستلزمات يومية مصنوعة بعناية',
+        subtitle: 'منتجات عالية الجودة بأسعار عادلة، تصلك خلال ٢-٣ أيام.',
+        cta: 'تسوّق الآن',
+        secondaryCta: 'قصتنا',
+        image: image('1441986300917-64674bd600d8'),
+      },
+      categories: {
+        title: 'تسوّق حسب الفئة',
+        subtitle: 'اعثر على ما تبحث عنه بالضبط.',
+        items: [
+          { icon: '⌚', title: 'الإكسسوارات', description: 'ساعات ونظارات شمسية ومستلزمات يومية.' },
+          { icon: '🎧', title: 'الإلكترونيات', description: 'أجهزة صوتية وذكية نحبها.' },
+          { icon: '👟', title: 'الأحذية', description: 'أحذية مريحة لكل يوم.' },
+        ],
+      },
+      products: {
+        title: 'منتجات مميزة',
+        subtitle: 'الأكثر مبيعًا هذا الموسم.',
+        items: [
+          { name: 'ساعة كلاسيكية', description: 'تصميم بسيط بسوار جلدي.', price: '١٢٩$', image: image('1523275335684-37898b6baf30') },
+          { name: 'سماعات لاسلكية', description: 'عزل للضوضاء وبطارية ٣٠ ساعة.', price: '١٩٩$', image: image('1505740420928-5e560c06d30e') },
+          { name: 'حذاء جري', description: 'خفيف الوزن وجيد التهوية.', price: '٨٩$', image: image('1542291026-7eec264c27ff') },
+          { name: 'نظارات شمسية', description: 'عدسات مستقطبة مع حماية من الأشعة.', price: '٥٩$', image: image('1572635196237-14b3f281503f') },
+          { name: 'حقيبة ظهر جلدية', description: 'تتسع لحاسوب ١٥ إنش وأكثر.', price: '١٤٩$', image: image('1553062407-98eeb64c6a62') },
+          { name: 'مكبر صوت ذكي', description: 'صوت يملأ الغرفة مع تحكم صوتي.', price: '٩٩$', image: image('1589003077984-894e133dabab') },
+        ],
+      },
+      about: {
+        title: 'لماذا تتسوق معنا',
+        text: 'نتعامل مباشرة مع الصنّاع لنقدم لك منتجات جميلة التصميم دون مبالغة في الأسعار. نشحن كل طلب بسرعة، والإرجاع مجاني خلال ٣٠ يومًا.',
+        image: image('1441986300917-64674bd600d8'),
+        stats: [
+          { value: '+50 ألف', label: 'عميل سعيد' },
+          { value: '2-3', label: 'أيام للتوصيل' },
+          { value: '30', label: 'يومًا للإرجاع المجاني' },
+        ],
+      },
+      testimonials: {
+        title: 'تقييمات العملاء',
+        items: [
+          { quote: 'جودة رائعة وتوصيل سريع جدًا. متجري المفضل الآن.', name: 'نورة أ.', role: 'مشترية موثقة' },
+          { quote: 'السماعات مذهلة مقارنة بسعرها.', name: 'كريس ب.', role: 'مشترٍ موثق' },
+          { quote: 'إرجاع سهل ودعم ودود. أنصح به بشدة.', name: 'فيصل م.', role: 'مشترٍ موثق' },
+        ],
+      },
+      cta: {
+        title: 'خصم ١٠٪ على طلبك الأول',
+        subtitle: 'اشترك في نشرتنا البريدية وكن أول من يعرف بالمنتجات الجديدة والعروض.',
+        button: 'احصل على الخصم',
+      },
+      contact: {
+        title: 'تحتاج مساعدة؟',
+        subtitle: 'فريق الدعم متاح يوميًا من ٩ صباحًا حتى ٩ مساءً.',
+        phoneLabel: 'الهاتف',
+        phone: '+1 555 060 7080',
+        emailLabel: 'البريد الإلكتروني',
+        emailAddress: 'support@lumastore.com',
+        addressLabel: 'صالة العرض',
+        address: '٢٢ طريق التجارة، وسط المدينة',
+        name: 'اسمك',
+        email: 'بريدك الإلكتروني',
+        message: 'رقم الطلب أو سؤالك',
+        submit: 'إرسال الرسالة',
+        success: 'شكرًا! سيرد عليك فريق الدعم قريبًا.',
+        error: 'عذرًا، تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+      },
+      footer: { tagline: 'جودة تلمسها.', copyright: '© 2025 متجر لوما. جميع الحقوق محفوظة.' },
+    },
+  },
+};
@@ -0,0 +1,215 @@
+/**
+ * Starter Templates - Versioned, pre-written starting points per industry
+ *
+ * The planner's industry selects a template. Sections the template covers get
+ * pre-written bilingual components (written as-is, no LLM call) and pre-written
+ * English/Arabic content, which the Coder only customizes for the user's business.
+ * Sections the template doesn't cover are generated the usual way.
+ *
+ * Single-language sites use the same components with their text inlined, so
+ * they stay free of i18n like every other single-language site.
+ */
+
+import { SECTION_COMPONENTS, buildFooterSource, buildNavbarSource } from './components';
+import { DARK_MODE_LABELS } from '../siteDarkMode';
+import type { SectionContent, SectionKind, SectionLinks, StarterTemplate, TemplateId } from './types';
+import { restaurantTemplate } from './restaurant';
+import { clinicTemplate } from './clinic';
+import { portfolioTemplate } from './portfolio';
+import { saasTemplate } from './saas';
+import { agencyTemplate } from './agency';
+import { ecommerceTemplate } from './ecommerce';
+
+export type { StarterTemplate, TemplateId } from './types';
+
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  restaurantTemplate,
+  clinicTemplate,
+  portfolioTemplate,
+  saasTemplate,
+  agencyTemplate,
+  ecommerceTemplate,
+];
+
+/**
+ * Section ids templates can provide, with their layout and the section names that map to them
+ */
+const SECTION_TYPES: Record<string, { kind: SectionKind; aliases: string[] }> = {
+  hero: { kind: 'hero', aliases: ['hero', 'home', 'banner'] },
+  about: { kind: 'about', aliases: ['about', 'aboutus', 'story', 'ourstory'] },
+  features: { kind: 'cardGrid', aliases: ['features', 'whyus', 'whychooseus', 'benefits'] },
+  services: { kind: 'cardGrid', aliases: ['services', 'ourservices'] },
+  integrations: { kind: 'cardGrid', aliases: ['integrations'] },
+  skills: { kind: 'cardGrid', aliases: ['skills', 'expertise'] },
+  categories: { kind: 'cardGrid', aliases: ['categories', 'collections', 'shopbycategory'] },
+  menu: { kind: 'priceList', aliases: ['menu', 'ourmenu', 'foodmenu'] },
+  products: { kind: 'priceList', aliases: ['products', 'featuredproducts', 'shop', 'store'] },
+  gallery: { kind: 'imageGrid', aliases: ['gallery', 'photos'] },
+  projects: { kind: 'imageGrid', aliases: ['projects', 'work', 'ourwork'] },
+  portfolio: { kind: 'imageGrid', aliases: ['portfolio', 'casestudies'] },
+  doctors: { kind: 'team', aliases: ['doctors', 'ourdoctors', 'specialists'] },
+  team: { kind: 'team', aliases: ['team', 'ourteam'] },
+  testimonials: { kind: 'testimonials', aliases: ['testimonials', 'reviews'] },
+  pricing: { kind: 'pricing', aliases: ['pricing', 'plans', 'packages'] },
+  cta: { kind: 'cta', aliases: ['cta', 'calltoaction'] },
+  contact: { kind: 'contact', aliases: ['contact', 'contactus', 'location'] },
+  appointment: { kind: 'appointment', aliases: ['appointment', 'appointments', 'booking', 'bookappointment'] },
+};
+
+// Accessible name of the navbar's language dropdown (navbar.language)
+const LANGUAGE_SWITCHER_LABELS: Record<'en' | 'ar', string> = {
+  en: 'Language',
+  ar: 'اللغة',
+};
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Pick the starter template for a planner industry - null when no template fits
+ */
+export function getStarterTemplate(industry: string): StarterTemplate | null {
+  const normalized = normalizeName(industry);
+  if (!normalized) return null;
+  return STARTER_TEMPLATES.find(template =>
+    template.industries.some(name => normalized === name || normalized.includes(name))
+  ) || null;
+}
+
+export function getStarterTemplateById(id: TemplateId): StarterTemplate | null {
+  return STARTER_TEMPLATES.find(template => template.id === id) || null;
+}
+
+/**
+ * Section id of the template that a component renders, or null when the template doesn't cover it
+ */
+export function resolveTemplateSection(template: StarterTemplate, componentName: string): string | null {
+  const normalized = normalizeName(componentName);
+  return template.sections.find(id => SECTION_TYPES[id]?.aliases.includes(normalized)) || null;
+}
+
+/**
+ * Locale key and section id of a component ("FeaturedProducts" -> "featuredproducts"),
+ * the same convention generated components follow
+ */
+export function getComponentKey(componentName: string): string {
+  return componentName.toLowerCase();
+}
+
+/**
+ * Where template buttons link to on a site: the section's anchor on single-page sites,
+ * the route of the page showing it on multi-page ones. A missing section links to the top.
+ * @param components - Section components of the site
+ * @param pages - Routes and sections of each page (empty for single-page sites)
+ */
+export function buildSectionLinks(
+  components: string[],
+  pages: Array<{ route: string; sections: string[] }>
+): SectionLinks {
+  const hrefOf = (sectionIds: string[]): string => {
+    for (const sectionId of sectionIds) {
+      const componentName = components.find(name => SECTION_TYPES[sectionId].aliases.includes(normalizeName(name)));
+      if (!componentName) continue;
+      if (pages.length === 0) return `#${getComponentKey(componentName)}`;
+      const page = pages.find(p => p.sections.includes(componentName));
+      if (page) return `#${page.route}`;
+    }
+    return pages.length === 0 ? '#' : `#${pages[0].route}`;
+  };
+
+  return {
+    contact: hrefOf(['contact', 'appointment']),
+    about: hrefOf(['about']),
+  };
+}
+
+/**
+ * Source of a template section component, named after the architecture's component
+ * @param links - Where its buttons link to (see buildSectionLinks)
+ */
+export function buildTemplateComponent(componentName: string, sectionId: string, links: SectionLinks): string {
+  return SECTION_COMPONENTS[SECTION_TYPES[sectionId].kind](componentName, getComponentKey(componentName), links);
+}
+
+/**
+ * Navbar linking to every section component, in page order
+ * @param options.darkMode - Add the light/dark toggle (its label is navbar.darkMode)
+ */
+export function buildTemplateNavbar(componentNames: string[], options: { darkMode?: boolean } = {}): string {
+  return buildNavbarSource(componentNames.map(name => {
+    const key = getComponentKey(name);
+    return { key, href: `#${key}` };
+  }), options);
+}
+
+export function buildTemplateFooter(): string {
+  return buildFooterSource();
+}
+
+/**
+ * Starting locale content for a site: the template's text for each covered section,
+ * keyed by component, plus navbar labels (links and language dropdown) and footer text
+ * @param sections - Covered components and the template section they render
+ * @param navComponents - Components linked from the navbar (uncovered ones are labelled with their name until customized)
+ * @param options.darkMode - Add the label of the navbar's light/dark toggle
+ */
+export function buildTemplateLocale(
+  template: StarterTemplate,
+  language: 'en' | 'ar',
+  sections: Array<{ componentName: string; sectionId: string }>,
+  navComponents: string[],
+  options: { darkMode?: boolean } = {}
+): Record<string, SectionContent> {
+  const content = template.content[language];
+  const navLabels = content.navbar || {};
+  const sectionOf = new Map(sections.map(section => [section.componentName, section.sectionId]));
+
+  const navbar: SectionContent = { logo: navLabels.logo, language: LANGUAGE_SWITCHER_LABELS[language] };
+  for (const name of navComponents) {
+    const sectionId = sectionOf.get(name);
+    navbar[getComponentKey(name)] = sectionId && navLabels[sectionId] !== undefined
+      ? navLabels[sectionId]
+      : name.replace(/([a-z])([A-Z])/g, '$1 $2');
+  }
+  if (options.darkMode) {
+    navbar.darkMode = DARK_MODE_LABELS[language];
+  }
+
+  const locale: Record<string, SectionContent> = { navbar };
+  for (const { componentName, sectionId } of sections) {
+    locale[getComponentKey(componentName)] = content[sectionId];
+  }
+  locale.footer = content.footer;
+  return locale;
+}
+
+/**
+ * Turn a template component into a single-language component: every t('key') becomes the
+ * literal text, and the useLanguage() hook, its import and the language switcher are removed
+ * @param options.numerals - The site has src/numerals.js: n() becomes its formatNumerals(), otherwise n(value) becomes value
+ */
+export function inlineTranslations(
+  source: string,
+  messages: Record<string, unknown>,
+  options: { numerals?: boolean } = {}
+): string {
+  const lookup = (key: string): unknown => {
+    let value: unknown = messages;
+    for (const part of key.split('.')) {
+      value = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[part] : undefined;
+    }
+    return value === undefined || value === null ? key : value;
+  };
+
+  let inlined = source
+    .replace(/[ \t]*\{\/\* locale-switcher \*\/\}[\s\S]*?\{\/\* \/locale-switcher \*\/\}\n?/g, '')
+    .replace(/^import \{ useLanguage \} from '\.\.\/i18n';\n/m, options.numerals && /\bn\(/.test(source)
+      ? "import { formatNumerals } from '../numerals';\n"
+      : '')
+    .replace(/^[ \t]*const \{[^}]*\} = useLanguage\(\);\n/m, '');
+  inlined = options.numerals
+    ? inlined.replace(/\bn\(/g, 'formatNumerals(')
+    : inlined.replace(/\bn\((t\((['"])[\w.-]+\2\)|[\w.]+)\)/g, '$1');
+  return inlined.replace(/\bt\((['"])([\w.-]+)\1\)/g, (_, __, key: string) => JSON.stringify(lookup(key)));
+}
@@ -0,0 +1,164 @@
+import type { StarterTemplate } from './types';
+
+const image = (id: string) => `https://images.unsplash.com/photo-${id}?auto=format&fit=crop&w=900&q=80`;
+
+export const portfolioTemplate: StarterTemplate = {
+  id: 'portfolio',
+  version: '1.0.0',
+  name: 'Portfolio',
+  industries: ['portfolio', 'personal', 'freelance', 'designer', 'developer', 'photographer', 'artist', 'resume'],
+  sections: ['hero', 'about', 'projects', 'gallery', 'skills', 'testimonials', 'contact'],
+  theme: {
+    palette: { primary: '#7c3aed', secondary: '#db2777', accent: '#f59e0b', background: '#ffffff', surface: '#f5f3ff', foreground: '#18181b', muted: '#52525b' },
+    typography: { heading: 'Space Grotesk', body: 'Inter', arabic: 'IBM Plex Sans Arabic' },
+    radius: 'xl',
+  },
+  content: {
+    en: {
+      navbar: { logo: 'Nour Designs', hero: 'Home', about: 'About', projects: 'Work', gallery: 'Gallery', skills: 'Skills', testimonials: 'Kind Words', contact: 'Contact' },
+      hero: {
+        title: 'I design and build digital products people love',
+        subtitle: 'Product designer and front-end developer helping startups turn ideas into clear, beautiful experiences.',
+        cta: 'Work With Me',
+        secondaryCta: 'About Me',
+        image: image('1498050108023-c5249f4df085'),
+      },
+      about: {
+        title: 'About Me',
+        text: 'For the past eight years I have worked with teams of every size, from two-person startups to global brands. I care about details, accessibility and shipping work that makes a difference.',
+        image: image('1494790108377-be9c29b29330'),
+        stats: [
+          { value: '8+', label: 'Years of experience' },
+          { value: '60+', label: 'Projects delivered' },
+          { value: '30+', label: 'Happy clients' },
+        ],
+      },
+      projects: {
+        title: 'Selected Work',
+        subtitle: 'A few projects I am proud of.',
+        items: [
+          { title: 'Analytics Dashboard', description: 'Product design for a fintech platform', image: image('1460925895917-afdab827c52f') },
+          { title: 'Travel App', description: 'Mobile app design and prototyping', image: image('1467232004584-a241de8bcf5d') },
+          { title: 'Brand Website', description: 'Design and development for a design studio', image: image('1507238691740-187a5b1d37b8') },
+        ],
+      },
+      gallery: {
+        title: 'Gallery',
+        subtitle: 'Sketches, explorations and behind-the-scenes moments.',
+        items: [
+          { title: 'Workspace', description: '', image: image('1498050108023-c5249f4df085') },
+          { title: 'Wireframes', description: '', image: image('1507238691740-187a5b1d37b8') },
+          { title: 'Prototypes', description: '', image: image('1467232004584-a241de8bcf5d') },
+        ],
+      },
+      skills: {
+        title: 'What I Do',
+        subtitle: 'Skills and tools I use every day.',
+        items: [
+          { icon: '🎨', title: 'UI/UX Design', description: 'Research, wireframes and polished interfaces.' },
+          { icon: '💻', title: 'Front-end Development', description: 'React, Tailwind CSS and accessible markup.' },
+          { icon: '📱', title: 'Mobile Design', description: 'Native-feeling apps for iOS and Android.' },
+          { icon: '✨', title: 'Branding', description: 'Logos, color systems and visual identity.' },
+        ],
+      },
+      testimonials: {
+        title: 'Kind Words',
+        items: [
+          { quote: 'Nour turned our rough idea into a product our users love.', name: 'Adam T.', role: 'Startup founder' },
+          { quote: 'Thoughtful, fast and a pleasure to work with.', name: 'Rania F.', role: 'Product manager' },
+          { quote: 'The redesign doubled our sign-ups in a month.', name: 'James L.', role: 'Marketing lead' },
+        ],
+      },
+      contact: {
+        title: 'Let’s Work Together',
+        subtitle: 'Have a project in mind? Send me a message and I will reply within a day.',
+        phoneLabel: 'Phone',
+        phone: '+1 555 030 4050',
+        emailLabel: 'Email',
+        emailAddress: 'hello@nourdesigns.com',
+        addressLabel: 'Based in',
+        address: 'Available worldwide, remote',
+        name: 'Your name',
+        email: 'Your email',
+        message: 'Tell me about your project',
+        submit: 'Send Message',
+        success: 'Thanks for reaching out! I will get back to you soon.',
+        error: 'Sorry, we could not send your request. Please try again.',
+      },
+      footer: { tagline: 'Design and code with care.', copyright: '© 2025 Nour Designs. All rights reserved.' },
+    },
+    ar: {
+      navbar: { logo: 'نور ديزاين', hero: 'الرئيسية', about: 'نبذة عني', projects: 'أعمالي', gallery: 'المعرض', skills: 'مهاراتي', testimonials: 'آراء العملاء', contact: 'تواصل' },
+      hero: {
+        title: 'أصمم وأطوّر منتجات رقمية يحبها الناس',
+        subtitle: 'مصممة منتجات ومطورة واجهات أساعد الشركات الناشئة على تحويل أفكارها إلى تجارب واضحة وجميلة.',
+        cta: 'اعمل معي',
+        secondaryCta: 'نبذة عني',
+        image: image('1498050108023-c5249f4df085'),
+      },
+      about: {
+        title: 'نبذة عني',
+        text: 'عملت خلال ثماني سنوات مع فرق بمختلف الأحجام، من شركات ناشئة صغيرة إلى علامات عالمية. أهتم بالتفاصيل وسهولة الوصول وتقديم عمل يصنع فرقًا.',
+        image: image('1494790108377-be9c29b29330'),
+        stats: [
+          { value: '+8', label: 'سنوات خبرة' },
+          { value: '+60', label: 'مشروعًا منجزًا' },
+          { value: '+30', label: 'عميلًا سعيدًا' },
+        ],
+      },
+      projects: {
+        title: 'أعمال مختارة',
+        subtitle: 'بعض المشاريع التي أفخر بها.',
+        items: [
+          { title: 'لوحة تحليلات', description: 'تصميم منتج لمنصة تقنية مالية', image: image('1460925895917-afdab827c52f') },
+          { title: 'تطبيق سفر', description: 'تصميم تطبيق جوال ونماذج تفاعلية', image: image('1467232004584-a241de8bcf5d') },
+          { title: 'موقع علامة تجارية', description: 'تصميم وتطوير لاستوديو تصميم', image: image('1507238691740-187a5b1d37b8') },
+        ],
+      },
+      gallery: {
+        title: 'المعرض',
+        subtitle: 'رسومات وتجارب ولقطات من خلف الكواليس.',
+        items: [
+          { title: 'مساحة العمل', description: '', image: image('1498050108023-c5249f4df085') },
+          { title: 'المخططات', description: '', image: image('1507238691740-187a5b1d37b8') },
+          { title: 'النماذج التفاعلية', description: '', image: image('1467232004584-a241de8bcf5d') },
+        ],
+      },
+      skills: {
+        title: 'ماذا أقدّم',
+        subtitle: 'مهارات وأدوات أستخدمها كل يوم.',
+        items: [
+          { icon: '🎨', title: 'تصميم الواجهات وتجربة المستخدم', description: 'بحث ومخططات وواجهات متقنة.' },
+          { icon: '💻', title: 'تطوير الواجهات الأمامية', description: 'React وTailwind CSS وكود سهل الوصول.' },
+          { icon: '📱', title: 'تصميم تطبيقات الجوال', description: 'تطبيقات بتجربة أصلية لنظامي iOS وAndroid.' },
+          { icon: '✨', title: 'الهوية البصرية', description: 'شعارات وأنظمة ألوان وهوية متكاملة.' },
+        ],
+      },
+      testimonials: {
+        title: 'آراء العملاء',
+        items: [
+          { quote: 'حوّلت نور فكرتنا الأولية إلى منتج يحبه مستخدمونا.', name: 'آدم ت.', role: 'مؤسس شركة ناشئة' },
+          { quote: 'مبدعة وسريعة والعمل معها متعة.', name: 'رانيا ف.', role: 'مديرة منتج' },
+          { quote: 'ضاعف التصميم الجديد عدد التسجيلات خلال شهر.', name: 'جيمس ل.', role: 'مدير تسويق' },
+        ],
+      },
+      contact: {
+        title: 'لنعمل معًا',
+        subtitle: 'لديك مشروع؟ أرسل لي رسالة وسأرد خلال يوم.',
+        phoneLabel: 'الهاتف',
+        phone: '+1 555 030 4050',
+        emailLabel: 'البريد الإلكتروني',
+        emailAddress: 'hello@nourdesigns.com',
+        addressLabel: 'الموقع',
+        address: 'متاحة للعمل عن بُعد حول العالم',
+        name: 'اسمك',
+        email: 'بريدك الإلكتروني',
+        message: 'أخبرني عن مشروعك',
+        submit: 'إرسال الرسالة',
+        success: 'شكرًا لتواصلك! سأرد عليك قريبًا.',
+        error: 'عذرًا، تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+      },
+      footer: { tagline: 'تصميم وبرمجة بعناية.', copyright: '© 2025 نور ديزاين. جميع الحقوق محفوظة.' },
+    },
+  },
+};
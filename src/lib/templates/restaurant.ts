@@ -0,0 +1,150 @@
+import type { StarterTemplate } from './types';
+
+const image = (id: string) => `https://images.unsplash.com/photo-${id}?auto=format&fit=crop&w=900&q=80`;
+
+export const restaurantTemplate: StarterTemplate = {
+  id: 'restaurant',
+  version: '1.0.0',
+  name: 'Restaurant',
+  industries: ['restaurant', 'cafe', 'coffee', 'bakery', 'bistro', 'food', 'catering'],
+  sections: ['hero', 'about', 'menu', 'gallery', 'testimonials', 'contact'],
+  theme: {
+    palette: { primary: '#b45309', secondary: '#92400e', accent: '#16a34a', background: '#fffbf5', surface: '#fef3e2', foreground: '#292524', muted: '#78716c' },
+    typography: { heading: 'Playfair Display', body: 'Lato', arabic: 'El Messiri' },
+    radius: 'md',
+  },
+  content: {
+    en: {
+      navbar: { logo: 'Saffron House', hero: 'Home', about: 'Our Story', menu: 'Menu', gallery: 'Gallery', testimonials: 'Reviews', contact: 'Visit Us' },
+      hero: {
+        title: 'Home-style flavors, served with love',
+        subtitle: 'Seasonal dishes made from scratch every day, in a warm dining room for family and friends.',
+        cta: 'Book a Table',
+        secondaryCta: 'Our Story',
+        image: image('1517248135467-4c7edcad34c4'),
+      },
+      about: {
+        title: 'Our Story',
+        text: 'What began as a small family kitchen is now a neighborhood favorite. We cook with fresh local produce, traditional recipes and a little bit of modern flair.',
+        image: image('1414235077428-338989a2e8c0'),
+        stats: [
+          { value: '15+', label: 'Years of cooking' },
+          { value: '40', label: 'Signature dishes' },
+          { value: '4.9', label: 'Guest rating' },
+        ],
+      },
+      menu: {
+        title: 'Our Menu',
+        subtitle: 'Favorites from our kitchen, prepared fresh to order.',
+        items: [
+          { name: 'Garden Salad', description: 'Crisp greens, cherry tomatoes and lemon herb dressing.', price: '$9', image: image('1540189549336-e6e99c3679fe') },
+          { name: 'Wood-fired Pizza', description: 'Hand-stretched dough, tomato sauce and fresh mozzarella.', price: '$16', image: image('1565299624946-b28f40a0ae38') },
+          { name: 'Grain Bowl', description: 'Roasted vegetables, quinoa, avocado and tahini.', price: '$14', image: image('1546069901-ba9599a7e63c') },
+          { name: 'Buttermilk Pancakes', description: 'Fluffy stack with berries and maple syrup.', price: '$11', image: image('1567620905732-2d1ec7ab7445') },
+          { name: 'Chef’s Platter', description: 'A rotating selection of the day’s best dishes.', price: '$24', image: image('1504674900247-0877df9cc836') },
+          { name: 'Fresh Lemonade', description: 'Squeezed to order with mint and a touch of honey.', price: '$5', image: image('1621263764928-df1444c5e859') },
+        ],
+      },
+      gallery: {
+        title: 'Gallery',
+        subtitle: 'A look inside our kitchen and dining room.',
+        items: [
+          { title: 'The dining room', description: '', image: image('1517248135467-4c7edcad34c4') },
+          { title: 'Fresh from the oven', description: '', image: image('1565299624946-b28f40a0ae38') },
+          { title: 'Seasonal plates', description: '', image: image('1504674900247-0877df9cc836') },
+        ],
+      },
+      testimonials: {
+        title: 'What Our Guests Say',
+        items: [
+          { quote: 'The best dinner we have had in years. Warm service and incredible food.', name: 'Sarah M.', role: 'Regular guest' },
+          { quote: 'Every dish tastes homemade. The pancakes are a must on weekends!', name: 'Omar K.', role: 'Food blogger' },
+          { quote: 'Perfect place for family gatherings. We keep coming back.', name: 'Lina H.', role: 'Local resident' },
+        ],
+      },
+      contact: {
+        title: 'Visit Us',
+        subtitle: 'Open daily from 11am to 11pm. Reservations recommended on weekends.',
+        phoneLabel: 'Phone',
+        phone: '+1 555 010 2030',
+        emailLabel: 'Email',
+        emailAddress: 'hello@saffronhouse.com',
+        addressLabel: 'Address',
+        address: '12 Market Street, Downtown',
+        name: 'Your name',
+        email: 'Your email',
+        message: 'Reservation details or message',
+        submit: 'Send Request',
+        success: 'Thank you! We will confirm your request shortly.',
+        error: 'Sorry, we could not send your request. Please try again.',
+      },
+      footer: { tagline: 'Fresh food, warm hospitality.', copyright: '© 2025 Saffron House. All rights reserved.' },
+    },
+    ar: {
+      navbar: { logo: 'بيت الزعفران', hero: 'الرئيسية', about: 'قصتنا', menu: 'القائمة', gallery: 'المعرض', testimonials: 'آراء الضيوف', contact: 'زورونا' },
+      hero: {
+        title: 'نكهات البيت، تُقدَّم بحب',
+        subtitle: 'أطباق موسمية نحضّرها يوميًا من الصفر، في صالة دافئة تجمع العائلة والأصدقاء.',
+        cta: 'احجز طاولة',
+        secondaryCta: 'قصتنا',
+        image: image('1517248135467-4c7edcad34c4'),
+      },
+      about: {
+        title: 'قصتنا',
+        text: 'بدأنا كمطبخ عائلي صغير، واليوم أصبحنا وجهة مفضلة في الحي. نطبخ بمكونات محلية طازجة ووصفات تقليدية بلمسة عصرية.',
+        image: image('1414235077428-338989a2e8c0'),
+        stats: [
+          { value: '+15', label: 'عامًا من الطهي' },
+          { value: '40', label: 'طبقًا مميزًا' },
+          { value: '4.9', label: 'تقييم الضيوف' },
+        ],
+      },
+      menu: {
+        title: 'قائمتنا',
+        subtitle: 'أطباقنا المفضلة، تُحضَّر طازجة عند الطلب.',
+        items: [
+          { name: 'سلطة الحديقة', description: 'خضار طازجة وطماطم كرزية وصلصة الليمون والأعشاب.', price: '٩$', image: image('1540189549336-e6e99c3679fe') },
+          { name: 'بيتزا الفرن الحجري', description: 'عجينة يدوية وصلصة طماطم وجبنة موزاريلا طازجة.', price: '١٦$', image: image('1565299624946-b28f40a0ae38') },
+          { name: 'طبق الحبوب', description: 'خضار مشوية وكينوا وأفوكادو وطحينة.', price: '١٤$', image: image('1546069901-ba9599a7e63c') },
+          { name: 'فطائر البان كيك', description: 'طبقات هشة مع التوت وشراب القيقب.', price: '١١$', image: image('1567620905732-2d1ec7ab7445') },
+          { name: 'طبق الشيف', description: 'تشكيلة متجددة من أفضل أطباق اليوم.', price: '٢٤$', image: image('1504674900247-0877df9cc836') },
+          { name: 'ليموناضة طازجة', description: 'تُعصر عند الطلب مع النعناع ولمسة عسل.', price: '٥$', image: image('1621263764928-df1444c5e859') },
+        ],
+      },
+      gallery: {
+        title: 'المعرض',
+        subtitle: 'نظرة على مطبخنا وصالة الطعام.',
+        items: [
+          { title: 'صالة الطعام', description: '', image: image('1517248135467-4c7edcad34c4') },
+          { title: 'طازج من الفرن', description: '', image: image('1565299624946-b28f40a0ae38') },
+          { title: 'أطباق موسمية', description: '', image: image('1504674900247-0877df9cc836') },
+        ],
+      },
+      testimonials: {
+        title: 'ماذا يقول ضيوفنا',
+        items: [
+          { quote: 'أفضل عشاء تناولناه منذ سنوات. خدمة دافئة وطعام رائع.', name: 'سارة م.', role: 'ضيفة دائمة' },
+          { quote: 'كل طبق بطعم البيت. البان كيك لا يفوّت في عطلة الأسبوع!', name: 'عمر ك.', role: 'مدوّن طعام' },
+          { quote: 'مكان مثالي للتجمعات العائلية. نعود دائمًا.', name: 'لينا ح.', role: 'من سكان الحي' },
+        ],
+      },
+      contact: {
+        title: 'زورونا',
+        subtitle: 'نفتح يوميًا من ١١ صباحًا حتى ١١ مساءً. يُفضّل الحجز في عطلة الأسبوع.',
+        phoneLabel: 'الهاتف',
+        phone: '+1 555 010 2030',
+        emailLabel: 'البريد الإلكتروني',
+        emailAddress: 'hello@saffronhouse.com',
+        addressLabel: 'العنوان',
+        address: '١٢ شارع السوق، وسط المدينة',
+        name: 'اسمك',
+        email: 'بريدك الإلكتروني',
+        message: 'تفاصيل الحجز أو رسالتك',
+        submit: 'إرسال الطلب',
+        success: 'شكرًا لك! سنؤكد طلبك قريبًا.',
+        error: 'عذرًا، تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+      },
+      footer: { tagline: 'طعام طازج وضيافة دافئة.', copyright: '© 2025 بيت الزعفران. جميع الحقوق محفوظة.' },
+    },
+  },
+};
@@ -0,0 +1,158 @@
+import type { StarterTemplate } from './types';
+
+const image = (id: string) => `https://images.unsplash.com/photo-${id}?auto=format&fit=crop&w=900&q=80`;
+
+export const saasTemplate: StarterTemplate = {
+  id: 'saas',
+  version: '1.0.0',
+  name: 'SaaS',
+  industries: ['saas', 'software', 'startup', 'platform', 'tech'],
+  sections: ['hero', 'features', 'integrations', 'pricing', 'testimonials', 'cta', 'contact'],
+  theme: {
+    palette: { primary: '#4f46e5', secondary: '#0ea5e9', accent: '#22c55e', background: '#ffffff', surface: '#f8fafc', foreground: '#0f172a', muted: '#64748b' },
+    typography: { heading: 'Outfit', body: 'Inter', arabic: 'Readex Pro' },
+    radius: 'lg',
+  },
+  content: {
+    en: {
+      navbar: { logo: 'Flowly', hero: 'Home', features: 'Features', integrations: 'Integrations', pricing: 'Pricing', testimonials: 'Customers', cta: 'Get Started', contact: 'Contact' },
+      hero: {
+        title: 'Run your whole team from one simple workspace',
+        subtitle: 'Plan projects, automate busywork and see progress in real time - without the clutter.',
+        cta: 'Start Free Trial',
+        secondaryCta: 'See Features',
+        image: image('1551288049-bebda4e38f71'),
+      },
+      features: {
+        title: 'Everything You Need',
+        subtitle: 'Powerful features that stay out of your way.',
+        items: [
+          { icon: '⚡', title: 'Automations', description: 'Turn repetitive steps into one-click workflows.' },
+          { icon: '📊', title: 'Live Dashboards', description: 'Track goals and progress as it happens.' },
+          { icon: '🤝', title: 'Collaboration', description: 'Comments, mentions and shared docs in one place.' },
+          { icon: '🔒', title: 'Enterprise Security', description: 'SSO, audit logs and encryption by default.' },
+          { icon: '📱', title: 'Mobile Apps', description: 'Stay in the loop from anywhere.' },
+          { icon: '🌍', title: 'Multilingual', description: 'Work in your language, including Arabic.' },
+        ],
+      },
+      integrations: {
+        title: 'Works With Your Tools',
+        subtitle: 'Connect the apps your team already uses.',
+        items: [
+          { icon: '💬', title: 'Slack', description: 'Get updates and approve tasks from chat.' },
+          { icon: '📧', title: 'Gmail & Outlook', description: 'Turn emails into tasks instantly.' },
+          { icon: '📁', title: 'Google Drive', description: 'Attach and preview files in any project.' },
+        ],
+      },
+      pricing: {
+        title: 'Simple, Transparent Pricing',
+        subtitle: 'Start free, upgrade when you grow.',
+        plans: [
+          { name: 'Starter', price: '$0', period: '/month', description: 'For individuals getting started.', features: ['Up to 3 projects', 'Basic automations', 'Community support'], cta: 'Start Free', featured: false },
+          { name: 'Pro', price: '$19', period: '/user/month', description: 'For growing teams.', features: ['Unlimited projects', 'Advanced automations', 'Live dashboards', 'Priority support'], cta: 'Start Trial', featured: true },
+          { name: 'Enterprise', price: 'Custom', period: '', description: 'For large organizations.', features: ['SSO & audit logs', 'Dedicated manager', 'Custom contracts'], cta: 'Contact Sales', featured: false },
+        ],
+      },
+      testimonials: {
+        title: 'Loved by Teams Everywhere',
+        items: [
+          { quote: 'We replaced three tools with Flowly and saved hours every week.', name: 'Maya D.', role: 'COO, Brightline' },
+          { quote: 'The automations alone paid for the subscription in a month.', name: 'Tariq N.', role: 'Operations lead' },
+          { quote: 'Finally a tool the whole team actually enjoys using.', name: 'Emily R.', role: 'Product manager' },
+        ],
+      },
+      cta: {
+        title: 'Ready to get more done?',
+        subtitle: 'Join thousands of teams working smarter with Flowly. No credit card required.',
+        button: 'Start Your Free Trial',
+      },
+      contact: {
+        title: 'Talk to Us',
+        subtitle: 'Questions about plans or a demo for your team? We are here to help.',
+        phoneLabel: 'Phone',
+        phone: '+1 555 040 5060',
+        emailLabel: 'Email',
+        emailAddress: 'sales@flowly.app',
+        addressLabel: 'Office',
+        address: '100 Startup Way, San Francisco',
+        name: 'Your name',
+        email: 'Work email',
+        message: 'How can we help?',
+        submit: 'Send Message',
+        success: 'Thanks! Our team will reach out within one business day.',
+        error: 'Sorry, we could not send your request. Please try again.',
+      },
+      footer: { tagline: 'Work flows better together.', copyright: '© 2025 Flowly Inc. All rights reserved.' },
+    },
+    ar: {
+      navbar: { logo: 'فلولي', hero: 'الرئيسية', features: 'المزايا', integrations: 'التكاملات', pricing: 'الأسعار', testimonials: 'عملاؤنا', cta: 'ابدأ الآن', contact: 'تواصل معنا' },
+      hero: {
+        title: 'أدِر فريقك بالكامل من مساحة عمل واحدة بسيطة',
+        subtitle: 'خطّط للمشاريع، وأتمت المهام المتكررة، وتابع التقدم لحظة بلحظة - دون تعقيد.',
+        cta: 'ابدأ التجربة المجانية',
+        secondaryCta: 'اكتشف المزايا',
+        image: image('1551288049-bebda4e38f71'),
+      },
+      features: {
+        title: 'كل ما تحتاجه',
+        subtitle: 'مزايا قوية لا تعيق عملك.',
+        items: [
+          { icon: '⚡', title: 'الأتمتة', description: 'حوّل الخطوات المتكررة إلى سير عمل بنقرة واحدة.' },
+          { icon: '📊', title: 'لوحات مباشرة', description: 'تابع الأهداف والتقدم لحظة حدوثه.' },
+          { icon: '🤝', title: 'التعاون', description: 'تعليقات وإشارات ومستندات مشتركة في مكان واحد.' },
+          { icon: '🔒', title: 'أمان المؤسسات', description: 'دخول موحّد وسجلات تدقيق وتشفير افتراضي.' },
+          { icon: '📱', title: 'تطبيقات الجوال', description: 'ابقَ على اطلاع من أي مكان.' },
+          { icon: '🌍', title: 'متعدد اللغات', description: 'اعمل بلغتك، بما فيها العربية.' },
+        ],
+      },
+      integrations: {
+        title: 'يعمل مع أدواتك',
+        subtitle: 'اربط التطبيقات التي يستخدمها فريقك.',
+        items: [
+          { icon: '💬', title: 'Slack', description: 'استلم التحديثات ووافق على المهام من المحادثة.' },
+          { icon: '📧', title: 'Gmail وOutlook', description: 'حوّل الرسائل إلى مهام فورًا.' },
+          { icon: '📁', title: 'Google Drive', description: 'أرفق الملفات واستعرضها في أي مشروع.' },
+        ],
+      },
+      pricing: {
+        title: 'أسعار بسيطة وواضحة',
+        subtitle: 'ابدأ مجانًا وقم بالترقية عندما تنمو.',
+        plans: [
+          { name: 'المبتدئ', price: '٠$', period: '/شهريًا', description: 'للأفراد في البداية.', features: ['حتى ٣ مشاريع', 'أتمتة أساسية', 'دعم المجتمع'], cta: 'ابدأ مجانًا', featured: false },
+          { name: 'الاحترافي', price: '١٩$', period: '/للمستخدم شهريًا', description: 'للفرق النامية.', features: ['مشاريع غير محدودة', 'أتمتة متقدمة', 'لوحات مباشرة', 'دعم ذو أولوية'], cta: 'ابدأ التجربة', featured: true },
+          { name: 'المؤسسات', price: 'حسب الطلب', period: '', description: 'للمؤسسات الكبيرة.', features: ['دخول موحّد وسجلات تدقيق', 'مدير حساب مخصص', 'عقود مخصصة'], cta: 'تواصل مع المبيعات', featured: false },
+        ],
+      },
+      testimonials: {
+        title: 'تحبه الفرق في كل مكان',
+        items: [
+          { quote: 'استبدلنا ثلاث أدوات بفلولي ووفرنا ساعات كل أسبوع.', name: 'مايا د.', role: 'مديرة العمليات، برايتلاين' },
+          { quote: 'الأتمتة وحدها غطّت تكلفة الاشتراك خلال شهر.', name: 'طارق ن.', role: 'قائد العمليات' },
+          { quote: 'أخيرًا أداة يستمتع الفريق كله باستخدامها.', name: 'إميلي ر.', role: 'مديرة منتج' },
+        ],
+      },
+      cta: {
+        title: 'مستعد لإنجاز المزيد؟',
+        subtitle: 'انضم إلى آلاف الفرق التي تعمل بذكاء مع فلولي. لا حاجة لبطاقة ائتمان.',
+        button: 'ابدأ تجربتك المجانية',
+      },
+      contact: {
+        title: 'تحدث معنا',
+        subtitle: 'أسئلة عن الباقات أو عرض توضيحي لفريقك؟ نحن هنا للمساعدة.',
+        phoneLabel: 'الهاتف',
+        phone: '+1 555 040 5060',
+        emailLabel: 'البريد الإلكتروني',
+        emailAddress: 'sales@flowly.app',
+        addressLabel: 'المكتب',
+        address: '١٠٠ طريق الشركات الناشئة، سان فرانسيسكو',
+        name: 'اسمك',
+        email: 'بريد العمل',
+        message: 'كيف يمكننا مساعدتك؟',
+        submit: 'إرسال الرسالة',
+        success: 'شكرًا! سيتواصل معك فريقنا خلال يوم عمل.',
+        error: 'عذرًا، تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+      },
+      footer: { tagline: 'العمل أسهل معًا.', copyright: '© 2025 فلولي. جميع الحقوق محفوظة.' },
+    },
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Starter template types
+ */
+
+import type { SiteTheme } from '../siteTheme';
+
+export type TemplateId = 'restaurant' | 'clinic' | 'portfolio' | 'saas' | 'agency' | 'ecommerce';
+
+/**
+ * Layout a template section is rendered with - sections of the same kind share one component
+ */
+export type SectionKind =
+  | 'hero'
+  | 'about'
+  | 'cardGrid'
+  | 'priceList'
+  | 'imageGrid'
+  | 'team'
+  | 'testimonials'
+  | 'pricing'
+  | 'cta'
+  | 'contact'
+  | 'appointment';
+
+// Where template buttons link to: "#<section>" on single-page sites, "#/<page>" on multi-page ones
+export interface SectionLinks {
+  contact: string;
+  about: string;
+}
+
+// Text of one section in one language (arrays of items included)
+export type SectionContent = Record<string, unknown>;
+
+export interface StarterTemplate {
+  id: TemplateId;
+  version: string;              // Bumped whenever components or content change
+  name: string;
+  industries: string[];         // Planner industry values that select this template
+  sections: string[];           // Section ids with pre-written content, in display order
+  theme: Partial<Omit<SiteTheme, 'palette' | 'typography'>> & {
+    palette?: Partial<SiteTheme['palette']>;
+    typography?: Partial<SiteTheme['typography']>;
+  };
+  content: {
+    en: Record<string, SectionContent>; // Keyed by section id, plus "navbar" and "footer"
+    ar: Record<string, SectionContent>;
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Theme Service - Restyles a whole site by rewriting its theme tokens
+ *
+ * Components reference named tokens (bg-primary, font-heading, rounded-theme...),
+ * so changing the theme only rewrites src/theme.json, tailwind.config.js and the
+ * font block in index.html. No component is patched. The numeral style of Arabic
+ * text lives in src/numerals.js and is changed the same way.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getLatestBuild, createBuild, ProjectFiles, detectLanguageModeFromFiles } from './buildService';
+import { getProjectLanguageMode } from './projectService';
+import { getLLMProvider } from './llmProvider';
+import { ProgressReporter } from './progressStream';
+import { trackUsage } from './usageTracker';
+import { reportRetries } from './llmRetry';
+import {
+  ARABIC_FONTS,
+  DEFAULT_THEME,
+  LATIN_FONTS,
+  SiteTheme,
+  THEME_PATH,
+  buildTailwindConfig,
+  buildThemeFontLinks,
+  normalizeTheme,
+  parseThemeFile,
+  replaceThemeFontLinks,
+} from './siteTheme';
+import { NUMERALS_PATH, NumeralStyle, buildNumeralsSource, parseNumeralStyle } from './siteNumerals';
+import { DARK_MODE_PATH } from './siteDarkMode';
+
+export interface ChangeThemeResult {
+  theme: SiteTheme;
+  filesChanged: string[];
+  version: number;
+  previewHtml: string;
+  usesTokens: boolean; // false for sites generated before themes - their components keep hardcoded colors
+  numerals: NumeralStyle | null; // null for English-only sites
+  usesNumerals: boolean; // false for sites generated before src/numerals.js - their components keep the digits they were written with
+}
+
+/**
+ * Ask the LLM for the theme changes a prompt describes ("make it dark green with rounder corners")
+ * Returns only the parts that change; the rest is kept from the current theme
+ */
+async function extractThemeChanges(prompt: string, current: SiteTheme): Promise<unknown> {
+  const llm = getLLMProvider();
+  const completion = await llm.complete({
+    stage: 'theme',
+    tier: 'fast',
+    messages: [
+      {
+        role: 'system',
+        content: `You update a website's design theme from a user request.
+
+Current theme:
+${JSON.stringify(current, null, 2)}
+
+RULES:
+- Return a JSON object with the same shape, containing ONLY the fields that change
+- palette values are hex colors (primary, secondary, accent, background, surface, foreground, muted)
+- Keep foreground/muted readable on background and surface (e.g. a dark theme needs light text)
+- darkPalette (background, surface, foreground, muted) is the dark color scheme of sites with a dark mode toggle - change it for requests about dark mode colors
+- typography.heading and typography.body from: ${LATIN_FONTS.join(', ')}
+- typography.arabic from: ${ARABIC_FONTS.join(', ')}
+- typography.arabicLineHeight: line height of Arabic text, 1.5 to 2.2 (taller for Amiri and other naskh fonts)
+- radius: "none" | "sm" | "md" | "lg" | "xl"
+- spacing: "compact" | "comfortable" | "spacious"`,
+      },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0.3,
+    responseFormat: 'json_object',
+  });
+
+  if (!completion.content) {
+    throw new Error('Theme extraction returned an empty response');
+  }
+  return JSON.parse(completion.content);
+}
+
+/**
+ * Change the theme of a project's latest build and save the result as a new build
+ * @param theme - A (partial) theme to apply, e.g. a preset
+ * @param prompt - A description of the change, used when no theme is given
+ * @param numerals - Digits for Arabic text; on its own it leaves the theme as is
+ */
+export async function changeSiteTheme(args: {
+  projectId: string;
+  theme?: unknown;
+  prompt?: string;
+  numerals?: NumeralStyle;
+  onProgress?: ProgressReporter;
+  client?: SupabaseClient; // The request's authenticated client - only the owner can list the project's assets
+}): Promise<ChangeThemeResult> {
+  const { projectId, prompt, onProgress } = args;
+
+  const build = await getLatestBuild(projectId);
+  if (!build || !build.files || Object.keys(build.files).length === 0) {
+    throw new Error('No builds found for this project. Please generate a site first.');
+  }
+
+  const files: ProjectFiles = { ...(build.files as ProjectFiles) };
+  const existingTheme = parseThemeFile(files[THEME_PATH]);
+  const currentTheme = existingTheme || DEFAULT_THEME;
+  const usesTokens = existingTheme !== null;
+  if (!usesTokens) {
+    console.warn(`⚠️  Project ${projectId} predates theme tokens - only global fonts and colors will change`);
+  }
+
+  onProgress?.({ type: 'stage', stage: 'editing', message: 'Updating theme' });
+  const { result: changes, usage } = await reportRetries(onProgress, () => trackUsage(async () => args.theme !== undefined
+    ? args.theme
+    : args.numerals
+      ? {}
+      : extractThemeChanges(prompt || '', currentTheme), { projectId, operation: 'theme' }));
+  const theme = normalizeTheme(changes, currentTheme);
+  console.log('🎨 New theme:', JSON.stringify(theme));
+
+  const languageMode = (await getProjectLanguageMode(projectId)) || detectLanguageModeFromFiles(files);
+  const updates: ProjectFiles = {
+    [THEME_PATH]: JSON.stringify(theme, null, 2),
+    'tailwind.config.js': buildTailwindConfig(theme, { darkMode: files[DARK_MODE_PATH] !== undefined }),
+  };
+  if (files['index.html']) {
+    updates['index.html'] = replaceThemeFontLinks(files['index.html'], buildThemeFontLinks(theme, {
+      latin: languageMode !== 'arabic-only',
+      arabic: languageMode !== 'english-only',
+    }));
+  }
+
+  const usesNumerals = files[NUMERALS_PATH] !== undefined;
+  if (args.numerals && languageMode !== 'english-only') {
+    updates[NUMERALS_PATH] = buildNumeralsSource(args.numerals);
+    if (!usesNumerals) {
+      console.warn(`⚠️  Project ${projectId} predates numeral styles - its components keep their digits`);
+    }
+  }
+
+  const filesChanged = Object.keys(updates).filter(path => files[path] !== updates[path]);
+  Object.assign(files, updates);
+
+  onProgress?.({ type: 'stage', stage: 'saving', message: 'Building preview' });
+  const newBuild = await createBuild({
+    projectId,
+    prompt: prompt || 'Change theme',
+    files,
+    summary: args.numerals && args.theme === undefined ? 'Updated numeral style' : 'Updated site theme',
+    languageMode,
+    usage,
+    client: args.client,
+  });
+
+  console.log(`✅ Created themed build version ${newBuild.version}`);
+  onProgress?.({ type: 'preview_built', version: newBuild.version });
+
+  return {
+    theme,
+    filesChanged,
+    version: newBuild.version,
+    previewHtml: newBuild.preview_html || '',
+    usesTokens,
+    numerals: languageMode === 'english-only' ? null : parseNumeralStyle(files[NUMERALS_PATH]),
+    usesNumerals,
+  };
+}
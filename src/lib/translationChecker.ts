@@ -0,0 +1,475 @@
+/**
+ * Translation Checker - Verifies t('section.key') usage against the locale files
+ *
+ * Components read text with t('section.key') from src/locales/<code>.json.
+ * This analyzer parses every component and compares the keys it uses with
+ * each locale:
+ *
+ * - missing: a component uses a key that a locale does not define
+ * - not_array: a component calls .map() (or Array.isArray) on a key that is not an array
+ * - shape_mismatch: locales disagree on a key (present in one only, or different types)
+ * - orphaned: a locale defines a key that no component uses
+ *
+ * Gaps are auto-filled where that is safe: a missing key is copied from a
+ * locale that has it and translated into the locale's language (see localeSync),
+ * and an object used as a list is converted to an array. A copy that could not
+ * be translated stays as a placeholder and is reported as needing translation,
+ * not as fixed. Orphaned keys are only reported, never deleted.
+ */
+
+import { parse } from '@babel/parser';
+import { FileTools } from './workspaceService';
+import { translateValues } from './localeSync';
+
+export type TranslationIssueType = 'missing' | 'not_array' | 'shape_mismatch' | 'orphaned';
+
+export interface TranslationIssue {
+  type: TranslationIssueType;
+  key: string;
+  locale?: string;          // Locale the issue applies to (not set for orphaned keys)
+  component: string | null; // Component using (or owning) the key
+  message: string;
+  fixed: boolean;
+  needsTranslation?: boolean; // Filled with another locale's text that could not be translated
+}
+
+export interface ComponentTranslationReport {
+  component: string;
+  file: string;
+  keysUsed: number;
+  issues: TranslationIssue[];
+}
+
+export interface TranslationReport {
+  locales: string[];
+  components: ComponentTranslationReport[];
+  issues: TranslationIssue[]; // All issues, including ones that belong to no component
+  fixedCount: number;
+  needsTranslationCount: number; // Keys filled with untranslated text from another locale
+  ok: boolean; // True when every issue except orphaned keys was fixed
+}
+
+interface KeyUsage {
+  staticKeys: Set<string>;   // t('hero.title')
+  dynamicPrefixes: Set<string>; // t(`features.${i}`) -> 'features'
+  arrayKeys: Set<string>;    // keys used as lists
+}
+
+type LocaleData = Record<string, unknown>;
+
+/**
+ * Minimal view of a Babel AST node - only the fields the key collector reads
+ */
+interface AstNode {
+  type: string;
+  name?: string;
+  value?: string;
+  callee?: AstNode;
+  object?: AstNode;
+  property?: AstNode;
+  arguments?: AstNode[];
+  expressions?: AstNode[];
+  quasis?: Array<{ value: { cooked?: string } }>;
+  id?: AstNode;
+  init?: AstNode;
+}
+
+function isAstNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as AstNode).type === 'string';
+}
+
+const LOCALES_DIR = 'src/locales/';
+const ARRAY_METHODS = ['map', 'filter', 'forEach', 'slice', 'find', 'some', 'every', 'reduce'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function getPath(data: LocaleData, key: string): unknown {
+  let value: unknown = data;
+  for (const segment of key.split('.')) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Set a nested value, creating intermediate objects
+ * Returns false when an intermediate segment is not an object (nothing is written)
+ */
+function setPath(data: LocaleData, key: string, value: unknown): boolean {
+  const segments = key.split('.');
+  let target: Record<string, unknown> = data;
+  for (const segment of segments.slice(0, -1)) {
+    if (target[segment] === undefined) {
+      target[segment] = {};
+    }
+    if (!isPlainObject(target[segment])) {
+      return false;
+    }
+    target = target[segment] as Record<string, unknown>;
+  }
+  target[segments[segments.length - 1]] = value;
+  return true;
+}
+
+/**
+ * Flatten a locale into key -> value, including intermediate objects (arrays are leaves)
+ */
+function flattenLocale(data: unknown, prefix = '', out = new Map<string, unknown>()): Map<string, unknown> {
+  if (!isPlainObject(data)) return out;
+  for (const [segment, value] of Object.entries(data)) {
+    const key = prefix ? `${prefix}.${segment}` : segment;
+    out.set(key, value);
+    flattenLocale(value, key, out);
+  }
+  return out;
+}
+
+/**
+ * Collect t() calls from a component's AST
+ */
+function collectKeyUsage(code: string): KeyUsage | null {
+  let program: unknown;
+  try {
+    program = parse(code, { sourceType: 'module', plugins: ['jsx'], errorRecovery: true }).program;
+  } catch {
+    // Unparseable files are reported by the syntax checker, not here
+    return null;
+  }
+  if (!isAstNode(program)) {
+    return null;
+  }
+
+  const usage: KeyUsage = {
+    staticKeys: new Set(),
+    dynamicPrefixes: new Set(),
+    arrayKeys: new Set(),
+  };
+  const variableKeys = new Map<string, string[]>(); // const items = t('x') -> items: ['x']
+  const arrayVariables = new Set<string>();         // items.map(...)
+
+  const visitChildren = (node: AstNode, visit: (child: AstNode) => void) => {
+    for (const [field, child] of Object.entries(node)) {
+      if (field === 'loc' || field === 'leadingComments' || field === 'trailingComments') continue;
+      if (Array.isArray(child)) {
+        child.filter(isAstNode).forEach(visit);
+      } else if (isAstNode(child)) {
+        visit(child);
+      }
+    }
+  };
+
+  // Static key of a t() call, or null when the node is not one
+  const getStaticKey = (node: AstNode): string | null => {
+    if (node?.type !== 'CallExpression' || node.callee?.type !== 'Identifier' || node.callee.name !== 't') {
+      return null;
+    }
+    const arg = node.arguments[0];
+    if (arg?.type === 'StringLiteral') return arg.value;
+    if (arg?.type === 'TemplateLiteral' && arg.expressions.length === 0) return arg.quasis[0].value.cooked;
+    return null;
+  };
+
+  // Static keys of all t() calls inside a subtree
+  const keysIn = (node: AstNode): string[] => {
+    const keys: string[] = [];
+    const visit = (current: AstNode) => {
+      const key = getStaticKey(current);
+      if (key) keys.push(key);
+      visitChildren(current, visit);
+    };
+    visit(node);
+    return keys;
+  };
+
+  const visit = (node: AstNode) => {
+    if (node.type === 'CallExpression' && node.callee?.type === 'Identifier' && node.callee.name === 't') {
+      const key = getStaticKey(node);
+      const arg = node.arguments[0];
+      if (key) {
+        usage.staticKeys.add(key);
+      } else if (arg?.type === 'TemplateLiteral') {
+        // t(`features.${i}.title`) - everything under the static prefix counts as used
+        const head: string = arg.quasis[0].value.cooked || '';
+        const prefix = head.substring(0, head.lastIndexOf('.'));
+        if (prefix) usage.dynamicPrefixes.add(prefix);
+      }
+    }
+
+    // Array.isArray(t('x')) or t('x').map(...) / (t('x') || []).map(...)
+    if (node.type === 'CallExpression') {
+      const callee = node.callee;
+      if (callee?.type === 'MemberExpression' && callee.object?.type === 'Identifier' &&
+          callee.object.name === 'Array' && callee.property?.name === 'isArray') {
+        if (node.arguments[0]) {
+          keysIn(node.arguments[0]).forEach(key => usage.arrayKeys.add(key));
+        }
+      } else if (callee?.type === 'MemberExpression' && ARRAY_METHODS.includes(callee.property?.name)) {
+        keysIn(callee.object).forEach(key => usage.arrayKeys.add(key));
+        if (callee.object.type === 'Identifier') {
+          arrayVariables.add(callee.object.name);
+        }
+      }
+    }
+
+    // const items = Array.isArray(t('x')) ? t('x') : [];
+    if (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init) {
+      const keys = keysIn(node.init);
+      if (keys.length > 0) variableKeys.set(node.id.name, keys);
+    }
+
+    visitChildren(node, visit);
+  };
+
+  visit(program);
+
+  for (const name of arrayVariables) {
+    (variableKeys.get(name) || []).forEach(key => usage.arrayKeys.add(key));
+  }
+
+  return usage;
+}
+
+/**
+ * Check translation keys across components and locales, auto-filling gaps when autoFix is set
+ */
+export async function checkTranslations(
+  fileTools: FileTools,
+  options: { autoFix?: boolean } = {}
+): Promise<TranslationReport> {
+  const { autoFix = true } = options;
+  const allFiles = await fileTools.list_files();
+
+  // Load locales
+  const locales: Record<string, LocaleData> = {};
+  for (const path of allFiles.filter(f => f.startsWith(LOCALES_DIR) && f.endsWith('.json'))) {
+    const code = path.substring(LOCALES_DIR.length).replace('.json', '');
+    try {
+      const parsed = JSON.parse((await fileTools.read_file(path)) || '{}');
+      locales[code] = isPlainObject(parsed) ? parsed : {};
+    } catch {
+      locales[code] = {};
+    }
+  }
+  const localeCodes = Object.keys(locales);
+
+  const report: TranslationReport = { locales: localeCodes, components: [], issues: [], fixedCount: 0, needsTranslationCount: 0, ok: true };
+  if (localeCodes.length === 0) {
+    return report;
+  }
+
+  // Collect key usage from every component, page and App file
+  const componentFiles = allFiles.filter(f =>
+    f.startsWith('src/') && /\.jsx?$/.test(f) && f !== 'src/i18n.js' && f !== 'src/main.jsx'
+  );
+  const usages: Array<{ component: string; file: string; usage: KeyUsage }> = [];
+  for (const file of componentFiles) {
+    const usage = collectKeyUsage((await fileTools.read_file(file)) || '');
+    if (usage && (usage.staticKeys.size > 0 || usage.dynamicPrefixes.size > 0)) {
+      const component = file.split('/').pop()!.replace(/\.jsx?$/, '');
+      usages.push({ component, file, usage });
+    }
+  }
+
+  const changedLocales = new Set<string>();
+  const issues: TranslationIssue[] = [];
+  const addIssue = (issue: TranslationIssue) => {
+    issues.push(issue);
+    if (issue.fixed) report.fixedCount++;
+  };
+
+  // Keys copied from another locale, translated once every gap is known
+  const copies: Array<{ issue: TranslationIssue; source: string }> = [];
+  const copyKey = (issue: TranslationIssue & { locale: string }, source: string): TranslationIssue => {
+    if (autoFix && setPath(locales[issue.locale], issue.key, structuredClone(getPath(locales[source], issue.key)))) {
+      changedLocales.add(issue.locale);
+      copies.push({ issue, source });
+    }
+    return issue;
+  };
+
+  // Owner of a key that no component references directly ("hero.title" -> Hero)
+  const ownerOf = (key: string): string | null => {
+    const section = key.split('.')[0].toLowerCase();
+    return usages.find(u => u.component.toLowerCase() === section)?.component || null;
+  };
+
+  // 1. Missing keys - copy from a locale that has them
+  for (const { component, usage } of usages) {
+    for (const key of usage.staticKeys) {
+      const source = localeCodes.find(locale => getPath(locales[locale], key) !== undefined);
+      if (!source) {
+        // Nothing to copy from - the component needs new text
+        addIssue({ type: 'missing', key, component, message: `"${key}" is not defined in any locale`, fixed: false });
+        continue;
+      }
+
+      for (const locale of localeCodes) {
+        if (getPath(locales[locale], key) !== undefined) continue;
+
+        addIssue(copyKey({
+          type: 'missing',
+          key,
+          locale,
+          component,
+          message: `"${key}" is missing in ${locale}.json`,
+          fixed: false,
+        }, source));
+      }
+    }
+  }
+
+  // 2. Keys used as lists must be arrays - convert objects to their values
+  for (const { component, usage } of usages) {
+    for (const key of usage.arrayKeys) {
+      for (const locale of localeCodes) {
+        const value = getPath(locales[locale], key);
+        if (value === undefined || Array.isArray(value)) continue;
+
+        let fixed = false;
+        if (autoFix && isPlainObject(value)) {
+          fixed = setPath(locales[locale], key, Object.values(value));
+          if (fixed) changedLocales.add(locale);
+        }
+        addIssue({
+          type: 'not_array',
+          key,
+          locale,
+          component,
+          message: `"${key}" is used as a list but is ${describeType(value)} in ${locale}.json${fixed ? ' (converted to an array)' : ''}`,
+          fixed,
+        });
+      }
+    }
+  }
+
+  // 3. Locales must have the same shape
+  const flattened: Record<string, Map<string, unknown>> = {};
+  localeCodes.forEach(locale => { flattened[locale] = flattenLocale(locales[locale]); });
+  const allKeys = new Set(localeCodes.flatMap(locale => Array.from(flattened[locale].keys())));
+
+  for (const key of allKeys) {
+    // Children of a mismatched key are covered by the parent's issue
+    const parent = key.includes('.') ? key.substring(0, key.lastIndexOf('.')) : null;
+    if (parent && localeCodes.some(locale => !isPlainObject(getPath(locales[locale], parent)))) continue;
+
+    const present = localeCodes.filter(locale => getPath(locales[locale], key) !== undefined);
+    for (const locale of localeCodes.filter(l => !present.includes(l))) {
+      const source = present[0];
+      addIssue(copyKey({
+        type: 'shape_mismatch',
+        key,
+        locale,
+        component: ownerOf(key),
+        message: `"${key}" exists in ${source}.json but not in ${locale}.json`,
+        fixed: false,
+      }, source));
+    }
+
+    const types = new Map(present.map(locale => [locale, describeType(getPath(locales[locale], key))]));
+    const distinctTypes = new Set(types.values());
+    if (distinctTypes.size <= 1) continue;
+
+    for (const locale of present) {
+      const value = getPath(locales[locale], key);
+      // Array in one locale, object in another - the array shape wins
+      let fixed = false;
+      if (distinctTypes.size === 2 && distinctTypes.has('array') && distinctTypes.has('object')) {
+        if (!isPlainObject(value)) continue;
+        fixed = autoFix && setPath(locales[locale], key, Object.values(value));
+        if (fixed) changedLocales.add(locale);
+      }
+      addIssue({
+        type: 'shape_mismatch',
+        key,
+        locale,
+        component: ownerOf(key),
+        message: `"${key}" is ${describeType(value)} in ${locale}.json but ${Array.from(distinctTypes).filter(t => t !== describeType(value)).join('/')} elsewhere${fixed ? ' (converted to an array)' : ''}`,
+        fixed,
+      });
+    }
+  }
+
+  // 4. Orphaned keys - leaf keys no component references
+  const usedKeys = usages.flatMap(u => Array.from(u.usage.staticKeys));
+  const usedPrefixes = usages.flatMap(u => Array.from(u.usage.dynamicPrefixes));
+  const isUsed = (key: string) =>
+    usedKeys.some(used => key === used || key.startsWith(`${used}.`)) ||
+    usedPrefixes.some(prefix => key === prefix || key.startsWith(`${prefix}.`));
+
+  const leafKeys = new Set(localeCodes.flatMap(locale =>
+    Array.from(flattenLocale(locales[locale]).entries())
+      .filter(([, value]) => !isPlainObject(value))
+      .map(([key]) => key)
+  ));
+  for (const key of leafKeys) {
+    if (isUsed(key)) continue;
+    addIssue({
+      type: 'orphaned',
+      key,
+      component: ownerOf(key),
+      message: `"${key}" is not used by any component`,
+      fixed: false,
+    });
+  }
+
+  // Translate the copied keys - one call per locale pair
+  const pairs = new Map<string, Array<{ issue: TranslationIssue; source: string }>>();
+  for (const copy of copies) {
+    const pair = `${copy.source}>${copy.issue.locale}`;
+    pairs.set(pair, [...(pairs.get(pair) || []), copy]);
+  }
+  for (const pairCopies of Array.from(pairs.values())) {
+    const { source } = pairCopies[0];
+    const target = pairCopies[0].issue.locale as string;
+    const values = Object.fromEntries(pairCopies.map(({ issue }) => [issue.key, getPath(locales[target], issue.key)]));
+    let translated: Record<string, unknown> = {};
+    try {
+      translated = await translateValues(values, source, target);
+    } catch (error) {
+      console.error(`❌ Failed to translate ${pairCopies.length} key(s) from ${source} to ${target}:`, error);
+    }
+
+    for (const { issue } of pairCopies) {
+      // A translation must keep the value's shape (a list stays a list)
+      const value = translated[issue.key];
+      if (value !== undefined && describeType(value) === describeType(values[issue.key]) && setPath(locales[target], issue.key, value)) {
+        issue.fixed = true;
+        issue.message += ` (translated from ${source}.json)`;
+        report.fixedCount++;
+      } else {
+        // The site shows the other language until someone translates it
+        issue.needsTranslation = true;
+        issue.message += ` (copied from ${source}.json - needs translation)`;
+        report.needsTranslationCount++;
+      }
+    }
+  }
+
+  // Save fixed locales
+  for (const locale of changedLocales) {
+    await fileTools.write_file(`${LOCALES_DIR}${locale}.json`, JSON.stringify(locales[locale], null, 2));
+  }
+
+  report.issues = issues;
+  report.components = usages.map(({ component, file, usage }) => ({
+    component,
+    file,
+    keysUsed: usage.staticKeys.size,
+    issues: issues.filter(issue => issue.component === component),
+  }));
+  report.ok = issues.every(issue => issue.fixed || issue.type === 'orphaned');
+
+  const unfixed = issues.filter(issue => !issue.fixed && issue.type !== 'orphaned').length;
+  console.log(`🌐 Translation check: ${issues.length} issue(s), ${report.fixedCount} auto-fixed, ${unfixed} unresolved (${report.needsTranslationCount} need translation)`);
+
+  return report;
+}
@@ -0,0 +1,143 @@
+/**
+ * Usage Service - LLM token usage and cost per build, project and user
+ *
+ * Every build stores the usage of the generation, edit or theme change that
+ * produced it (builds.usage, see usageTracker). Runs that end without a build -
+ * failures and plans made for review - are recorded in llm_usage_runs instead.
+ * This service reads both back and aggregates them for the dashboard.
+ */
+
+import { supabase } from './supabaseClient';
+
+export interface StageUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number; // Summed over calls - calls can run concurrently
+  retries: number;   // Transient API errors retried before calls succeeded (absent before retries were recorded)
+  models: string[];
+}
+
+export interface BuildUsage extends StageUsage {
+  stages: Record<string, StageUsage>; // Keyed by pipeline stage (e.g. 'planner', 'coder.component')
+}
+
+export type UsageOperation = 'generate' | 'plan' | 'edit' | 'theme' | 'section';
+
+export interface UsageTotals {
+  builds: number;
+  unbuiltRuns: number; // Failed runs and plans made for review
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface ProjectsUsage {
+  total: UsageTotals; // All of the user's projects
+  projects: Record<string, UsageTotals>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { builds: 0, unbuiltRuns: 0, calls: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function isMissingTable(error: { message?: string; code?: string }): boolean {
+  return error.message?.includes('llm_usage_runs') || error.code === '42P01';
+}
+
+/**
+ * Record the usage of a run that created no build (best-effort - a lost record only affects the totals)
+ */
+export async function recordUsageRun(input: {
+  projectId: string;
+  operation: UsageOperation;
+  status: 'failed' | 'completed';
+  usage: BuildUsage;
+  error?: string;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('llm_usage_runs')
+    .insert({
+      project_id: input.projectId,
+      operation: input.operation,
+      status: input.status,
+      usage: input.usage,
+      error: input.error?.substring(0, 2000) || null,
+    });
+
+  if (error) {
+    if (isMissingTable(error)) {
+      console.warn('llm_usage_runs table not found - migration may not be run. Usage of runs without a build is not recorded.');
+    } else {
+      console.error('Error recording usage run:', error);
+    }
+  }
+}
+
+function addUsage(totals: UsageTotals, usage: BuildUsage): void {
+  totals.calls += usage.calls || 0;
+  totals.totalTokens += usage.totalTokens || 0;
+  totals.costUsd += usage.costUsd || 0;
+}
+
+/**
+ * Usage of the given projects (RLS limits it to the signed-in user's builds)
+ * @param projectIds - The user's projects
+ */
+export async function getProjectsUsage(projectIds: string[]): Promise<ProjectsUsage> {
+  const result: ProjectsUsage = { total: emptyTotals(), projects: {} };
+  if (projectIds.length === 0) {
+    return result;
+  }
+
+  const { data, error } = await supabase
+    .from('builds')
+    .select('project_id, usage')
+    .in('project_id', projectIds);
+
+  if (error) {
+    if (error.message?.includes('column') || error.code === '42703') {
+      console.warn('usage column not found - migration may not be run. Usage is not available.');
+      return result;
+    }
+    console.error('Error fetching usage:', error);
+    throw new Error(`Failed to fetch usage: ${error.message}`);
+  }
+
+  for (const row of data || []) {
+    const usage = row.usage as BuildUsage | null;
+    if (!usage) {
+      continue; // Built before usage was recorded
+    }
+    const project = result.projects[row.project_id] || (result.projects[row.project_id] = emptyTotals());
+    for (const totals of [project, result.total]) {
+      totals.builds += 1;
+      addUsage(totals, usage);
+    }
+  }
+
+  // Runs that created no build
+  const { data: runs, error: runsError } = await supabase
+    .from('llm_usage_runs')
+    .select('project_id, usage')
+    .in('project_id', projectIds);
+
+  if (runsError) {
+    if (!isMissingTable(runsError)) {
+      console.error('Error fetching usage runs:', runsError);
+    }
+    return result;
+  }
+
+  for (const row of runs || []) {
+    const project = result.projects[row.project_id] || (result.projects[row.project_id] = emptyTotals());
+    for (const totals of [project, result.total]) {
+      totals.unbuiltRuns += 1;
+      addUsage(totals, row.usage as BuildUsage);
+    }
+  }
+
+  return result;
+}
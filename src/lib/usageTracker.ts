@@ -0,0 +1,161 @@
+/**
+ * Usage Tracker - Token usage, latency and cost of LLM calls (server only)
+ *
+ * getLLMProvider() wraps every provider with withUsageTracking, so each completion
+ * is measured no matter which agent issues it. Calls are attributed to whatever
+ * trackUsage() scope is active - a generation, an edit or a theme change - and
+ * summarized per pipeline stage for the build row, including how many transient
+ * errors had to be retried (see llmRetry). A scope that fails before a build is
+ * created records what it spent in llm_usage_runs (see usageService).
+ *
+ * Cost uses list prices per million tokens (LLM_PRICING overrides them as JSON,
+ * e.g. {"my-model": {"input": 0.5, "output": 1.5}}). Unknown models, such as
+ * local OpenAI-compatible ones, cost 0.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { CompletionRequest, CompletionResult, LLMProvider } from './llmProvider';
+import { recordUsageRun } from './usageService';
+import type { BuildUsage, StageUsage, UsageOperation } from './usageService';
+
+export interface LLMCallUsage {
+  stage: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  retries: number;
+}
+
+// USD per million tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+const usageScope = new AsyncLocalStorage<LLMCallUsage[][]>();
+
+function getPricing(model: string): { input: number; output: number } | null {
+  let pricing = MODEL_PRICING;
+  if (process.env.LLM_PRICING) {
+    try {
+      pricing = { ...MODEL_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+    } catch {
+      console.warn('⚠️  LLM_PRICING is not valid JSON - using built-in prices');
+    }
+  }
+
+  // API responses name dated snapshots (gpt-4.1-2025-04-14), match the longest known prefix
+  const match = Object.keys(pricing)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing[match] : null;
+}
+
+/**
+ * Estimated cost of a completion in USD
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = getPricing(model);
+  if (!pricing) {
+    return 0;
+  }
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Wrap a provider so every completion is recorded in the active trackUsage() scopes
+ */
+export function withUsageTracking(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const startedAt = Date.now();
+      const result = await provider.complete(request);
+      const scopes = usageScope.getStore();
+      if (!scopes) {
+        return result;
+      }
+
+      const promptTokens = result.usage?.promptTokens || 0;
+      const completionTokens = result.usage?.completionTokens || 0;
+      const call: LLMCallUsage = {
+        stage: request.stage,
+        model: result.model,
+        promptTokens,
+        completionTokens,
+        totalTokens: result.usage?.totalTokens || promptTokens + completionTokens,
+        latencyMs: Date.now() - startedAt,
+        costUsd: estimateCost(result.model, promptTokens, completionTokens),
+        retries: result.retries || 0,
+      };
+      scopes.forEach(calls => calls.push(call));
+      return result;
+    },
+  };
+}
+
+/**
+ * Run an operation and collect the usage of every LLM call it makes
+ * Scopes nest - an inner scope's calls also count towards the outer one
+ * @param run - Project and kind of run, to record the usage when the operation throws
+ */
+export async function trackUsage<T>(
+  operation: () => Promise<T>,
+  run?: { projectId: string; operation: UsageOperation }
+): Promise<{ result: T; usage: BuildUsage }> {
+  const calls: LLMCallUsage[] = [];
+  const scopes = [...(usageScope.getStore() || []), calls];
+  try {
+    const result = await usageScope.run(scopes, operation);
+    return { result, usage: summarizeUsage(calls) };
+  } catch (error) {
+    if (run && calls.length > 0) {
+      const usage = summarizeUsage(calls);
+      console.log(`🪙 LLM usage of the failed ${run.operation}: ${usage.calls} calls, ${usage.totalTokens} tokens, $${usage.costUsd.toFixed(4)}`);
+      await recordUsageRun({
+        ...run,
+        status: 'failed',
+        usage,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    throw error;
+  }
+}
+
+function emptyStage(): StageUsage {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0, retries: 0, models: [] };
+}
+
+function addCall(target: StageUsage, call: LLMCallUsage): void {
+  target.calls += 1;
+  target.promptTokens += call.promptTokens;
+  target.completionTokens += call.completionTokens;
+  target.totalTokens += call.totalTokens;
+  target.costUsd += call.costUsd;
+  target.latencyMs += call.latencyMs;
+  target.retries += call.retries;
+  if (!target.models.includes(call.model)) {
+    target.models.push(call.model);
+  }
+}
+
+/**
+ * Totals for a set of calls, broken down by pipeline stage
+ */
+export function summarizeUsage(calls: LLMCallUsage[]): BuildUsage {
+  const total = emptyStage();
+  const stages: Record<string, StageUsage> = {};
+  for (const call of calls) {
+    addCall(total, call);
+    addCall(stages[call.stage] || (stages[call.stage] = emptyStage()), call);
+  }
+  return { ...total, stages };
+}
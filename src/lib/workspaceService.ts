@@ -6,6 +6,7 @@
  */
 
 import { supabase } from './supabaseClient';
+import { applyUnifiedDiff } from './patchEngine';
 
 export interface WorkspaceFile {
   path: string;
@@ -110,110 +111,19 @@ export function createFileTools(
     },
 
     /**
-     * Apply a patch/diff to a file
+     * Apply a unified diff to a file - every hunk must apply (see patchEngine)
      */
     async apply_patch(path: string, diff: string): Promise<void> {
       const currentContent = fileMap.get(path) || '';
-      // Simple patch application - in production, use a proper diff library
-      // For now, we'll just append or replace based on diff format
-      // This is a simplified version - real implementation would parse unified diff format
-      const newContent = applySimplePatch(currentContent, diff);
-      await this.write_file(path, newContent);
+      const result = applyUnifiedDiff(currentContent, diff);
+      if (result.content === null) {
+        throw new Error(`Failed to apply patch to ${path}: ${result.error}`);
+      }
+      await this.write_file(path, result.content);
     },
   };
 }
 
-/**
- * Apply unified diff patch to content
- * Supports proper unified diff format with context lines
- */
-function applySimplePatch(content: string, diff: string): string {
-  const contentLines = content.split('\n');
-  const diffLines = diff.split('\n');
-  
-  let result = [...contentLines];
-  let lineOffset = 0;
-  let inHunk = false;
-  let hunkStart = 0;
-  let hunkLine = 0;
-
-  for (let i = 0; i < diffLines.length; i++) {
-    const line = diffLines[i];
-    
-    // Match hunk header: @@ -start,count +start,count @@
-    const hunkMatch = line.match(/^@@\s+-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?\s+@@/);
-    if (hunkMatch) {
-      inHunk = true;
-      hunkStart = parseInt(hunkMatch[1]) - 1; // Convert to 0-based index
-      hunkLine = 0;
-      lineOffset = 0;
-      continue;
-    }
-
-    if (!inHunk) continue;
-
-    // Context line (unchanged) - verify it matches current content
-    if (line.startsWith(' ')) {
-      const expectedLine = result[hunkStart + hunkLine + lineOffset];
-      const contextLine = line.substring(1);
-      
-      // If context doesn't match, try to find it nearby (fuzzy matching)
-      if (expectedLine !== contextLine) {
-        // Look ahead/behind for matching context
-        let found = false;
-        for (let offset = -2; offset <= 2; offset++) {
-          const checkIndex = hunkStart + hunkLine + lineOffset + offset;
-          if (checkIndex >= 0 && checkIndex < result.length && result[checkIndex] === contextLine) {
-            lineOffset = offset;
-            found = true;
-            break;
-          }
-        }
-        if (!found) {
-          // Context mismatch - log warning but continue
-          console.warn(`Context mismatch at line ${hunkStart + hunkLine + 1}, continuing anyway...`);
-        }
-      }
-      hunkLine++;
-    }
-    // Deletion line
-    else if (line.startsWith('-')) {
-      const deleteLine = line.substring(1);
-      const currentIndex = hunkStart + hunkLine + lineOffset;
-      
-      if (currentIndex >= 0 && currentIndex < result.length) {
-        const currentLine = result[currentIndex];
-        // Verify the line matches (or close enough)
-        if (currentLine === deleteLine || currentLine.includes(deleteLine) || deleteLine.includes(currentLine)) {
-          result.splice(currentIndex, 1);
-          lineOffset--;
-        } else {
-          console.warn(`Deletion mismatch at line ${currentIndex + 1}, skipping...`);
-        }
-      }
-      hunkLine++;
-    }
-    // Addition line
-    else if (line.startsWith('+')) {
-      const addLine = line.substring(1);
-      const insertIndex = hunkStart + hunkLine + lineOffset + 1;
-      result.splice(insertIndex, 0, addLine);
-      lineOffset++;
-      hunkLine++;
-    }
-    // End of hunk (empty line or new hunk)
-    else if (line.trim() === '' && i < diffLines.length - 1) {
-      // Check if next line is a new hunk
-      const nextLine = diffLines[i + 1];
-      if (!nextLine.startsWith('@@')) {
-        inHunk = false;
-      }
-    }
-  }
-
-  return result.join('\n');
-}
-
 /**
  * Initialize workspace with base file structure
  */
@@ -0,0 +1,7 @@
+-- Migration: Record Syntax Repairs on Builds
+-- Run this in your Supabase SQL Editor
+
+-- Files that failed the syntax check during generation/editing and were sent
+-- back to the model for repair: [{ path, attempts, repaired, diagnostics }]
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS repaired_files JSONB NOT NULL DEFAULT '[]'::jsonb;
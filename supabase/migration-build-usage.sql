@@ -0,0 +1,9 @@
+-- Migration: Record LLM Usage on Builds
+-- Run this in your Supabase SQL Editor
+
+-- Token usage, latency and estimated cost of the LLM calls that produced the build:
+-- { calls, promptTokens, completionTokens, totalTokens, costUsd, latencyMs, models,
+--   stages: { <stage>: { calls, promptTokens, ... } } }
+-- NULL for builds created before usage was recorded
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS usage JSONB;
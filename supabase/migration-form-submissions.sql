@@ -0,0 +1,85 @@
+-- Migration: Form Submissions
+-- Run this in your Supabase SQL Editor
+--
+-- Contact and booking forms on generated sites post to /api/forms/<project_id>.
+-- Visitors aren't logged in, so the route inserts with the public anon key -
+-- which anyone can also use to insert directly. The insert policy therefore
+-- repeats the route's checks (form and field names, field count and length,
+-- no honeypot field) and caps each project at 30 submissions a minute. Only
+-- the project owner can read or delete submissions.
+
+CREATE TABLE IF NOT EXISTS public.form_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  form TEXT NOT NULL,            -- Section the form is in (e.g. 'contact', 'booking')
+  data JSONB NOT NULL,           -- Field name -> value
+  locale TEXT,                   -- Site language the visitor used
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_project_created ON public.form_submissions(project_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.form_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Same rules as validateFormSubmission() in src/lib/formService.ts
+CREATE OR REPLACE FUNCTION public.is_valid_form_submission(form TEXT, data JSONB, locale TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT form ~ '^[A-Za-z0-9_-]{1,50}$'
+    AND jsonb_typeof(data) = 'object'
+    AND (SELECT COUNT(*) FROM jsonb_object_keys(data)) BETWEEN 1 AND 30
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_each(data) AS field
+      WHERE field.key !~ '^[A-Za-z0-9_-]{1,50}$'
+        OR field.key = '_gotcha'
+        OR jsonb_typeof(field.value) <> 'string'
+        OR LENGTH(field.value #>> '{}') > 5000
+    )
+    AND (locale IS NULL OR locale ~ '^[a-z]{2,3}(-[A-Za-z]{2,4})?$')
+$$;
+
+-- Submissions a project received in the last minute (security definer: visitors can't read the table)
+CREATE OR REPLACE FUNCTION public.recent_form_submission_count(target_project_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER FROM public.form_submissions
+  WHERE project_id = target_project_id
+  AND created_at > NOW() - INTERVAL '1 minute'
+$$;
+
+DROP POLICY IF EXISTS "Anyone can submit forms" ON public.form_submissions;
+
+CREATE POLICY "Anyone can submit valid forms"
+  ON public.form_submissions FOR INSERT
+  WITH CHECK (
+    public.is_valid_form_submission(form, data, locale)
+    AND created_at BETWEEN NOW() - INTERVAL '1 minute' AND NOW() + INTERVAL '1 minute'
+    AND public.recent_form_submission_count(project_id) < 30
+  );
+
+CREATE POLICY "Users can view submissions of their own projects"
+  ON public.form_submissions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = form_submissions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete submissions of their own projects"
+  ON public.form_submissions FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = form_submissions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,76 @@
+-- Migration: Pipeline Run Checkpoints
+-- Run this in your Supabase SQL Editor
+--
+-- A generation checkpoints its plan, its architecture and every file the Coder
+-- completes, so a run that fails halfway can be resumed from the first
+-- incomplete task instead of starting over.
+
+CREATE TABLE IF NOT EXISTS public.pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  prompt TEXT NOT NULL,
+  -- running: in progress (or the server died mid-run)
+  -- failed: stopped before a build was created
+  -- partial: a build was created but some files failed to generate
+  -- completed: every file was generated
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'failed', 'partial', 'completed')),
+  plan JSONB,
+  architecture JSONB,
+  failed_files JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  build_version INTEGER, -- Build created by the run (partial/completed)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_project_created ON public.pipeline_runs(project_id, created_at DESC);
+
+-- Files completed by a run, one row per file so concurrent writes don't collide
+CREATE TABLE IF NOT EXISTS public.pipeline_run_files (
+  run_id UUID NOT NULL REFERENCES public.pipeline_runs(id) ON DELETE CASCADE,
+  path TEXT NOT NULL,
+  content TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (run_id, path)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.pipeline_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_run_files ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access runs for their own projects
+CREATE POLICY "Users can manage pipeline runs for their own projects"
+  ON public.pipeline_runs FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = pipeline_runs.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = pipeline_runs.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage pipeline run files for their own projects"
+  ON public.pipeline_run_files FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.pipeline_runs
+      JOIN public.projects ON projects.id = pipeline_runs.project_id
+      WHERE pipeline_runs.id = pipeline_run_files.run_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.pipeline_runs
+      JOIN public.projects ON projects.id = pipeline_runs.project_id
+      WHERE pipeline_runs.id = pipeline_run_files.run_id
+      AND projects.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,62 @@
+-- Migration: Project Assets
+-- Run this in your Supabase SQL Editor
+--
+-- Logos, photos and menu PDFs uploaded per project are stored in the
+-- project-assets bucket under <project_id>/<kind>/<file name>. The bucket is
+-- public: the preview and the generated sites load the files by URL, which
+-- needs no SELECT policy. Only the project owner can list, upload, replace or
+-- delete them.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('project-assets', 'project-assets', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+-- Listing is limited to the owner, so the bucket doesn't reveal other users'
+-- project ids and file names; the server lists them with the owner's session when
+-- generating, previewing, downloading and deploying
+DROP POLICY IF EXISTS "Project assets are publicly readable" ON storage.objects;
+
+CREATE POLICY "Users can read assets of their own projects"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'project-assets' AND
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id::text = (storage.foldername(name))[1]
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can upload assets to their own projects"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'project-assets' AND
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id::text = (storage.foldername(name))[1]
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Uploading a file with an existing name replaces it
+CREATE POLICY "Users can replace assets of their own projects"
+  ON storage.objects FOR UPDATE
+  USING (
+    bucket_id = 'project-assets' AND
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id::text = (storage.foldername(name))[1]
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete assets of their own projects"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'project-assets' AND
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id::text = (storage.foldername(name))[1]
+      AND projects.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,8 @@
+-- Migration: Persist Language Mode per Project
+-- Run this in your Supabase SQL Editor
+
+-- Language mode the site was generated with. Edits and deploys reuse it instead
+-- of guessing from the files. NULL for projects that haven't been generated yet.
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS language_mode TEXT
+CHECK (language_mode IN ('arabic-only', 'english-only', 'bilingual'));
@@ -0,0 +1,45 @@
+-- Migration: Record LLM Usage of Runs Without a Build
+-- Run this in your Supabase SQL Editor
+--
+-- Builds store the usage of the run that produced them (builds.usage). Runs that
+-- end without a build still cost tokens: generations, edits, theme changes and
+-- section regenerations that fail, and plans made for review. Their usage is
+-- recorded here so the dashboard totals include it.
+
+CREATE TABLE IF NOT EXISTS public.llm_usage_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('generate', 'plan', 'edit', 'theme', 'section')),
+  -- failed: the run threw before a build was created
+  -- completed: the run succeeded but creates no build (plan review)
+  status TEXT NOT NULL CHECK (status IN ('failed', 'completed')),
+  usage JSONB NOT NULL, -- Same shape as builds.usage
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_runs_project_created ON public.llm_usage_runs(project_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.llm_usage_runs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access usage of their own projects
+CREATE POLICY "Users can view usage runs of their own projects"
+  ON public.llm_usage_runs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = llm_usage_runs.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record usage runs for their own projects"
+  ON public.llm_usage_runs FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = llm_usage_runs.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );